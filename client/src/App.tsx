@@ -4,12 +4,30 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import Leaderboard from "@/pages/Leaderboard";
+import JobDetail from "@/pages/JobDetail";
+import JobDiff from "@/pages/JobDiff";
+import Errors from "@/pages/Errors";
+import Audit from "@/pages/Audit";
+import Duplicates from "@/pages/Duplicates";
+import Snapshots from "@/pages/Snapshots";
+import SnapshotView from "@/pages/SnapshotView";
+import InFlight from "@/pages/InFlight";
+import EvalRequests from "@/pages/EvalRequests";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Leaderboard} />
+      <Route path="/errors" component={Errors} />
+      <Route path="/audit" component={Audit} />
+      <Route path="/duplicates" component={Duplicates} />
+      <Route path="/snapshots" component={Snapshots} />
+      <Route path="/snapshots/:name" component={SnapshotView} />
+      <Route path="/in-flight" component={InFlight} />
+      <Route path="/eval-requests" component={EvalRequests} />
+      <Route path="/jobs/:id/diff/:otherId" component={JobDiff} />
+      <Route path="/jobs/:id" component={JobDetail} />
       <Route component={NotFound} />
     </Switch>
   );
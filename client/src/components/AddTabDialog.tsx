@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { TAB_COLORS, type TabColor } from '@shared/cohorts';
+import { TAB_BENCHMARK_SETS, tabDefinitionSchema, type TabDefinition } from '@shared/tabs';
+
+const BENCHMARK_SET_LABELS: Record<TabDefinition['benchmarkSet'], string> = {
+  core: 'Core benchmarks',
+  ood: 'OOD benchmarks',
+  coreAndOod: 'Core + OOD',
+};
+
+const PREDICATE_PLACEHOLDER = `{ "all": [{ "namePrefix": "DCAgent/h1_" }, { "modelSizeB": { "max": 9 } }] }`;
+
+/** Register a new leaderboard tab (POST /api/tabs); the predicate is entered as JSON. */
+export default function AddTabDialog({ onCreated }: { onCreated: (id: string) => void }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [id, setId] = useState('');
+  const [label, setLabel] = useState('');
+  const [color, setColor] = useState<TabColor | 'none'>('none');
+  const [benchmarkSet, setBenchmarkSet] = useState<TabDefinition['benchmarkSet']>('core');
+  const [predicateText, setPredicateText] = useState('');
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const createTab = useMutation({
+    mutationFn: async (tab: TabDefinition) => (await apiRequest('POST', '/api/tabs', tab)).json() as Promise<TabDefinition>,
+    onSuccess: (tab) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tabs'] });
+      toast({ title: `Added tab "${tab.label}"` });
+      setOpen(false);
+      setId('');
+      setLabel('');
+      setPredicateText('');
+      onCreated(tab.id);
+    },
+    onError: (error: Error) => setValidationError(error.message),
+  });
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    let predicate: unknown;
+    try {
+      predicate = JSON.parse(predicateText);
+    } catch {
+      setValidationError('Predicate is not valid JSON');
+      return;
+    }
+    const parsed = tabDefinitionSchema.safeParse({
+      id,
+      label,
+      color: color === 'none' ? undefined : color,
+      predicate,
+      benchmarkSet,
+    });
+    if (!parsed.success) {
+      setValidationError(parsed.error.issues.map(issue => `${issue.path.join('.') || 'tab'}: ${issue.message}`).join('; '));
+      return;
+    }
+    setValidationError(null);
+    createTab.mutate(parsed.data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-8 px-2" title="Add tab" data-testid="button-add-tab">
+          <Plus className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <form onSubmit={submit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Add tab</DialogTitle>
+            <DialogDescription>
+              Predicates combine namePrefix, nameRegex, baseModel, isBaseModel, trainingType, modelSizeB, tag, cohort,
+              blacklisted and guardrailFired with all / any / not.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="tab-id" className="text-xs">Id</Label>
+              <Input id="tab-id" value={id} onChange={(e) => setId(e.target.value)} placeholder="h1" className="h-8" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="tab-label" className="text-xs">Label</Label>
+              <Input id="tab-label" value={label} onChange={(e) => setLabel(e.target.value)} placeholder="H1" className="h-8" />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Color</Label>
+              <Select value={color} onValueChange={(v) => setColor(v as TabColor | 'none')}>
+                <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  {TAB_COLORS.map(c => <SelectItem key={c} value={c}>{c}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Benchmarks</Label>
+              <Select value={benchmarkSet} onValueChange={(v) => setBenchmarkSet(v as TabDefinition['benchmarkSet'])}>
+                <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {TAB_BENCHMARK_SETS.map(set => <SelectItem key={set} value={set}>{BENCHMARK_SET_LABELS[set]}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="tab-predicate" className="text-xs">Predicate (JSON)</Label>
+            <Textarea
+              id="tab-predicate"
+              value={predicateText}
+              onChange={(e) => setPredicateText(e.target.value)}
+              placeholder={PREDICATE_PLACEHOLDER}
+              className="font-mono text-xs min-h-24"
+            />
+          </div>
+          {validationError && <p className="text-xs text-red-500">{validationError}</p>}
+          <DialogFooter>
+            <Button type="submit" size="sm" disabled={createTab.isPending}>Add tab</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { CalendarClock, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+
+interface AsOfPickerProps {
+  // ISO timestamp, or null for the live leaderboard
+  value: string | null;
+  onChange: (value: string | null) => void;
+}
+
+/** Date + time (local) to view the leaderboard as of; end of day by default, to include that day's results. */
+export default function AsOfPicker({ value, onChange }: AsOfPickerProps) {
+  const [open, setOpen] = useState(false);
+  const current = value ? new Date(value) : null;
+  const [day, setDay] = useState<Date | undefined>(current ?? undefined);
+  const [time, setTime] = useState(current ? format(current, 'HH:mm') : '23:59');
+
+  const apply = () => {
+    if (!day) return;
+    const [hours, minutes] = time.split(':').map(Number);
+    const at = new Date(day);
+    at.setHours(hours || 0, minutes || 0, 59, 999);
+    onChange(at.toISOString());
+    setOpen(false);
+  };
+
+  return (
+    <div className="inline-flex items-center">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant={current ? 'default' : 'outline'}
+            size="sm"
+            className={current ? 'rounded-r-none' : undefined}
+            title="View the leaderboard as of a past date"
+            data-testid="button-as-of"
+          >
+            <CalendarClock className="w-4 h-4 sm:mr-2" />
+            <span className="hidden sm:inline">{current ? `As of ${format(current, 'yyyy-MM-dd HH:mm')}` : 'Now'}</span>
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="end">
+          <Calendar
+            mode="single"
+            selected={day}
+            onSelect={setDay}
+            disabled={{ after: new Date() }}
+            defaultMonth={day}
+            initialFocus
+          />
+          <div className="flex items-end gap-2 border-t border-border p-3">
+            <div className="space-y-1">
+              <Label htmlFor="as-of-time" className="text-xs">Time (local)</Label>
+              <Input id="as-of-time" type="time" value={time} onChange={(e) => setTime(e.target.value)} className="h-8 w-28" />
+            </div>
+            <Button size="sm" className="h-8 ml-auto" onClick={apply} disabled={!day}>View</Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+      {current && (
+        <Button
+          variant="default"
+          size="sm"
+          className="rounded-l-none border-l border-primary-foreground/20 px-2"
+          onClick={() => onChange(null)}
+          title="Back to the live leaderboard"
+          data-testid="button-as-of-clear"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
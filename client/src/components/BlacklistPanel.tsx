@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Ban, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { useBlacklist } from '@/hooks/use-blacklist';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import {
+  blacklistEntryInputSchema,
+  type BlacklistEntryInput,
+  type BlacklistEntryWithStatus,
+} from '@shared/blacklist';
+
+// addedBy is filled in by the server from the signed-in user
+const newEntrySchema = blacklistEntryInputSchema.omit({ addedBy: true });
+
+function invalidateBlacklist() {
+  queryClient.invalidateQueries({ queryKey: ['/api/blacklist'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/blacklist/orphans'] });
+}
+
+/** Blacklist entries with reasons, an add form, and the entries whose model no longer exists. */
+export default function BlacklistPanel() {
+  const { toast } = useToast();
+  const { entries } = useBlacklist();
+  const { can } = useAuth();
+  const canEdit = can('editor');
+  const { data: orphans = [] } = useQuery<BlacklistEntryWithStatus[]>({
+    queryKey: ['/api/blacklist/orphans'],
+  });
+  const [modelName, setModelName] = useState('');
+  const [reason, setReason] = useState('');
+  const [expiresOn, setExpiresOn] = useState('');
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const addEntry = useMutation({
+    mutationFn: async (entry: Omit<BlacklistEntryInput, 'addedBy'>) =>
+      (await apiRequest('POST', '/api/blacklist', entry)).json() as Promise<BlacklistEntryWithStatus>,
+    onSuccess: (entry) => {
+      invalidateBlacklist();
+      toast({ title: `Blacklisted ${entry.modelName}` });
+      setModelName('');
+      setReason('');
+      setExpiresOn('');
+    },
+    onError: (error: Error) => setValidationError(error.message),
+  });
+
+  const removeEntry = useMutation({
+    mutationFn: (name: string) => apiRequest('DELETE', `/api/blacklist/${encodeURIComponent(name)}`),
+    onSuccess: (_res, name) => {
+      invalidateBlacklist();
+      toast({ title: `Removed ${name} from the blacklist` });
+    },
+    onError: (error: Error) => toast({ title: 'Failed to remove entry', description: error.message, variant: 'destructive' }),
+  });
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = newEntrySchema.safeParse({
+      modelName: modelName.trim(),
+      reason: reason.trim(),
+      // Expire at the end of the chosen (UTC) day
+      expiresAt: expiresOn ? `${expiresOn}T23:59:59.000Z` : null,
+    });
+    if (!parsed.success) {
+      setValidationError(parsed.error.issues.map(issue => `${issue.path.join('.') || 'entry'}: ${issue.message}`).join('; '));
+      return;
+    }
+    setValidationError(null);
+    addEntry.mutate(parsed.data);
+  };
+
+  const orphanNames = new Set(orphans.map(o => o.modelName));
+
+  return (
+    <div className="px-3 py-3 bg-muted/30 rounded-md text-sm text-muted-foreground space-y-3">
+      <div className="flex items-center gap-2">
+        <Ban className="w-4 h-4 flex-shrink-0" />
+        <p className="font-medium text-foreground">Blacklist</p>
+        <span className="text-xs">
+          ({entries.filter(e => e.active).length} active, {entries.filter(e => !e.active).length} expired)
+        </span>
+      </div>
+
+      {canEdit ? (
+        <form onSubmit={submit} className="flex flex-wrap items-end gap-2">
+          <Input value={modelName} onChange={(e) => setModelName(e.target.value)} placeholder="Model name" className="h-8 w-64 text-xs" />
+          <Input value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Reason" className="h-8 flex-1 min-w-48 text-xs" />
+          <Input
+            type="date"
+            value={expiresOn}
+            onChange={(e) => setExpiresOn(e.target.value)}
+            title="Optional expiry date"
+            className="h-8 w-36 text-xs"
+          />
+          <Button type="submit" size="sm" className="h-8" disabled={addEntry.isPending}>Blacklist</Button>
+        </form>
+      ) : (
+        <p className="text-xs">Sign in as an editor to add or remove entries.</p>
+      )}
+      {validationError && <p className="text-xs text-red-500">{validationError}</p>}
+
+      {orphans.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-amber-600 dark:text-amber-400">
+            {orphans.length} {orphans.length === 1 ? 'entry names a model' : 'entries name models'} that no longer exist
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {orphans.map(o => (
+              <span key={o.modelName} className="inline-flex items-center gap-1 rounded border border-amber-500/30 bg-amber-500/10 px-1.5 py-0.5 font-mono text-[10px]">
+                {o.modelName}
+                {canEdit && (
+                  <button
+                    type="button"
+                    onClick={() => removeEntry.mutate(o.modelName)}
+                    className="text-muted-foreground hover:text-foreground"
+                    title="Remove entry"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                )}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="max-h-64 overflow-y-auto border border-border rounded">
+        <table className="w-full text-xs">
+          <thead className="sticky top-0 bg-muted">
+            <tr className="text-left">
+              <th className="px-2 py-1 font-medium">Model</th>
+              <th className="px-2 py-1 font-medium">Reason</th>
+              <th className="px-2 py-1 font-medium">Added</th>
+              <th className="px-2 py-1 font-medium">Expires</th>
+              <th className="px-2 py-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map(entry => (
+              <tr key={entry.modelName} className={`border-t border-border ${entry.active ? '' : 'opacity-50'}`}>
+                <td className="px-2 py-1 font-mono text-foreground">
+                  {entry.modelName}
+                  {orphanNames.has(entry.modelName) && <span className="ml-1 text-amber-600 dark:text-amber-400">(missing)</span>}
+                </td>
+                <td className="px-2 py-1">{entry.reason}</td>
+                <td className="px-2 py-1 whitespace-nowrap">{entry.addedBy}{entry.addedAt ? `, ${entry.addedAt.slice(0, 10)}` : ''}</td>
+                <td className="px-2 py-1 whitespace-nowrap">
+                  {entry.expiresAt ? `${entry.expiresAt.slice(0, 10)}${entry.active ? '' : ' (expired)'}` : '—'}
+                </td>
+                <td className="px-2 py-1 text-right">
+                  {canEdit && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-1"
+                      onClick={() => removeEntry.mutate(entry.modelName)}
+                      disabled={removeEntry.isPending}
+                      title="Remove from blacklist"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
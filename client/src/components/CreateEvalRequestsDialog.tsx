@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { ClipboardList } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import {
+  EVAL_REQUEST_PRIORITIES,
+  evalRequestCellKey,
+  type EvalRequest,
+  type EvalRequestCell,
+  type EvalRequestPriority,
+} from '@shared/evalRequests';
+
+/**
+ * File one eval request per selected missing cell (POST /api/eval-requests).
+ * Cells that already have an open or running request are skipped by the server.
+ */
+export default function CreateEvalRequestsDialog({ cells, onCreated }: { cells: EvalRequestCell[]; onCreated: () => void }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [priority, setPriority] = useState<EvalRequestPriority>('normal');
+  const [assignee, setAssignee] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const createRequests = useMutation({
+    mutationFn: async () =>
+      (await apiRequest('POST', '/api/eval-requests', {
+        cells,
+        priority,
+        assignee: assignee.trim() || null,
+        notes: notes.trim() || null,
+      })).json() as Promise<{ created: EvalRequest[]; skipped: EvalRequestCell[] }>,
+    onSuccess: ({ created, skipped }) => {
+      queryClient.invalidateQueries({ predicate: q => String(q.queryKey[0]).startsWith('/api/eval-requests') });
+      toast({
+        title: `Requested ${created.length} eval${created.length === 1 ? '' : 's'}`,
+        description: skipped.length > 0 ? `${skipped.length} already requested` : undefined,
+      });
+      setOpen(false);
+      setNotes('');
+      onCreated();
+    },
+    onError: (error: Error) => toast({ title: 'Failed to request evals', description: error.message, variant: 'destructive' }),
+  });
+
+  const models = new Set(cells.map(cell => cell.modelName)).size;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" disabled={cells.length === 0} data-testid="button-request-evals">
+          <ClipboardList className="w-4 h-4 mr-2" />
+          Request {cells.length} eval{cells.length === 1 ? '' : 's'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <form onSubmit={(e) => { e.preventDefault(); createRequests.mutate(); }} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Request evals</DialogTitle>
+            <DialogDescription>
+              {cells.length} cell{cells.length === 1 ? '' : 's'} across {models} model{models === 1 ? '' : 's'}.
+              Each request stays open until a job for its cell appears.
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="max-h-40 overflow-y-auto rounded bg-muted/50 p-2 text-[11px] font-mono space-y-0.5">
+            {cells.map(cell => (
+              <li key={evalRequestCellKey(cell)} className="break-all">
+                {cell.modelName} · {cell.agentName} · {cell.benchmarkName}
+              </li>
+            ))}
+          </ul>
+          <div className="flex gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Priority</Label>
+              <Select value={priority} onValueChange={(value) => setPriority(value as EvalRequestPriority)}>
+                <SelectTrigger className="h-8 w-32"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {EVAL_REQUEST_PRIORITIES.map(p => <SelectItem key={p} value={p}>{p}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1 flex-1">
+              <Label htmlFor="eval-request-assignee" className="text-xs">Assignee (optional)</Label>
+              <Input
+                id="eval-request-assignee"
+                value={assignee}
+                onChange={(e) => setAssignee(e.target.value)}
+                placeholder="Unassigned"
+                className="h-8"
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="eval-request-notes" className="text-xs">Notes (optional)</Label>
+            <Textarea
+              id="eval-request-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              maxLength={2000}
+              placeholder="e.g. needed for the scaling plot"
+              className="text-xs min-h-16"
+            />
+          </div>
+          <DialogFooter>
+            <Button type="submit" size="sm" disabled={createRequests.isPending}>Request</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { Camera } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { snapshotInputSchema, type SnapshotSummary } from '@shared/snapshots';
+
+/**
+ * Freeze the leaderboard as currently selected (POST /api/snapshots). `query`
+ * is the leaderboard's query string (mode, metric, policy, ...); the server
+ * recomputes the rows from it, so client-side filters are not part of a snapshot.
+ * Disabled in "all" mode, which the server rejects (snapshots hold one result per cell).
+ */
+export default function CreateSnapshotDialog({ query, disabled = false }: { query: string; disabled?: boolean }) {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const createSnapshot = useMutation({
+    mutationFn: async (input: { name: string; description?: string }) =>
+      (await apiRequest('POST', `/api/snapshots?${query}`, input)).json() as Promise<SnapshotSummary>,
+    onSuccess: (snapshot) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/snapshots'] });
+      toast({ title: `Saved snapshot "${snapshot.name}"`, description: `${snapshot.rowCount} rows` });
+      setOpen(false);
+      setName('');
+      setDescription('');
+      navigate(`/snapshots/${encodeURIComponent(snapshot.name)}`);
+    },
+    onError: (error: Error) => setValidationError(error.message),
+  });
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = snapshotInputSchema.safeParse({ name: name.trim(), description: description.trim() || undefined });
+    if (!parsed.success) {
+      setValidationError(parsed.error.issues.map(issue => issue.message).join('; '));
+      return;
+    }
+    setValidationError(null);
+    createSnapshot.mutate(parsed.data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={disabled}
+          title={disabled ? 'Pick a selection mode other than "all" to take a snapshot' : undefined}
+          data-testid="button-create-snapshot"
+        >
+          <Camera className="w-4 h-4 sm:mr-2" />
+          <span className="hidden sm:inline">Snapshot</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <form onSubmit={submit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Save snapshot</DialogTitle>
+            <DialogDescription>
+              Freezes the leaderboard for the current result selection, metric and selection policy.
+              Snapshots cannot be changed or deleted afterwards.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1">
+            <Label htmlFor="snapshot-name" className="text-xs">Name</Label>
+            <Input
+              id="snapshot-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="neurips-2026-camera-ready"
+              className="h-8 font-mono"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="snapshot-description" className="text-xs">Description (optional)</Label>
+            <Textarea
+              id="snapshot-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={1000}
+              className="text-xs min-h-16"
+            />
+          </div>
+          {validationError && <p className="text-xs text-red-500">{validationError}</p>}
+          <DialogFooter>
+            <Button type="submit" size="sm" disabled={createSnapshot.isPending}>Save snapshot</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,64 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ShieldAlert } from 'lucide-react';
+import {
+  GUARDRAIL_SEVERITY_CLASSES,
+  type GuardrailSeverity,
+  type PivotedLeaderboardRowWithImprovement,
+} from '@/components/LeaderboardTableWithImprovement';
+
+interface GuardrailRuleInfo {
+  id: string;
+  severity: GuardrailSeverity;
+  description: string;
+}
+
+interface GuardrailRulesSummaryProps {
+  rows: PivotedLeaderboardRowWithImprovement[];
+}
+
+/** Rules from /api/guardrails with how many finished cells on the current tab each one flags. */
+export default function GuardrailRulesSummary({ rows }: GuardrailRulesSummaryProps) {
+  const { data: rules = [] } = useQuery<GuardrailRuleInfo[]>({
+    queryKey: ['/api/guardrails'],
+  });
+
+  const firedCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const row of rows) {
+      for (const b of Object.values(row.benchmarks)) {
+        const isFinished = b.jobStatus === 'Finished' || b.jobStatus === null;
+        if (!isFinished) continue;
+        for (const g of b.guardrails ?? []) {
+          counts.set(g.id, (counts.get(g.id) ?? 0) + 1);
+        }
+      }
+    }
+    return counts;
+  }, [rows]);
+
+  if (rules.length === 0) return null;
+
+  return (
+    <div className="px-3 py-3 bg-muted/30 rounded-md text-sm text-muted-foreground space-y-2">
+      <div className="flex items-center gap-2">
+        <ShieldAlert className="w-4 h-4 flex-shrink-0" />
+        <p className="font-medium text-foreground">Guardrail Rules</p>
+        <span className="text-xs">(server/config/guardrails.json — edits apply on the next refresh)</span>
+      </div>
+      <div className="grid gap-1 sm:grid-cols-2">
+        {rules.map(rule => (
+          <div key={rule.id} className="flex items-start gap-2 text-xs">
+            <span
+              className={`inline-flex items-center rounded-md border px-1.5 py-0.5 text-[10px] font-semibold shrink-0 ${GUARDRAIL_SEVERITY_CLASSES[rule.severity]}`}
+            >
+              {rule.id}
+            </span>
+            <span className="flex-1">{rule.description}</span>
+            <span className="font-mono text-foreground shrink-0">{firedCounts.get(rule.id) ?? 0}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
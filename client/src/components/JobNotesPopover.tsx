@@ -0,0 +1,167 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { StickyNote } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import type { PivotedLeaderboardRowWithImprovement } from '@/components/LeaderboardTableWithImprovement';
+import type { AuditEntry } from '@shared/audit';
+
+interface JobNotes {
+  jobId: string;
+  notes: string | null;
+  // Public endpoint: entries come without the actor
+  history: Omit<AuditEntry, 'actor'>[];
+}
+
+/** Write a saved note into every cached leaderboard response, so the table updates without a refetch. */
+function patchLeaderboardNotes(jobId: string, notes: string | null) {
+  queryClient.setQueriesData<PivotedLeaderboardRowWithImprovement[]>(
+    { predicate: q => String(q.queryKey[0]).startsWith('/api/leaderboard-pivoted') },
+    rows => rows?.map(row => {
+      const touched = Object.values(row.benchmarks).some(b => b.jobId === jobId || b.allResults?.some(r => r.jobId === jobId));
+      if (!touched) return row;
+      const benchmarks = Object.fromEntries(Object.entries(row.benchmarks).map(([name, b]) => [name, {
+        ...b,
+        notes: b.jobId === jobId ? notes ?? undefined : b.notes,
+        allResults: b.allResults?.map(r => (r.jobId === jobId ? { ...r, notes: notes ?? undefined } : r)),
+      }]));
+      return { ...row, benchmarks };
+    }),
+  );
+}
+
+/** Popover body: loaded only while open, so the table's many cells don't each hold a query. */
+function JobNotesEditor({ jobId, notes, canEdit, onDone }: { jobId: string; notes?: string; canEdit: boolean; onDone: () => void }) {
+  const { toast } = useToast();
+  const { data, isLoading } = useQuery<JobNotes>({
+    queryKey: [`/api/jobs/${jobId}/notes`],
+    staleTime: 0,
+  });
+  const current = data?.notes ?? notes ?? '';
+  const [draft, setDraft] = useState(current);
+
+  // Show the server's copy once loaded (the cached table row may be older)
+  useEffect(() => {
+    if (data) setDraft(data.notes ?? '');
+  }, [data]);
+
+  const save = useMutation({
+    mutationFn: async (next: string | null) =>
+      (await apiRequest('PATCH', `/api/jobs/${jobId}/notes`, { notes: next })).json() as Promise<{ jobId: string; notes: string | null }>,
+    onSuccess: (saved) => {
+      patchLeaderboardNotes(jobId, saved.notes);
+      queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/notes`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}`] });
+      toast({ title: saved.notes ? 'Note saved' : 'Note cleared' });
+      onDone();
+    },
+    onError: (error: Error) => toast({ title: 'Failed to save note', description: error.message, variant: 'destructive' }),
+  });
+
+  return (
+    <>
+      <p className="text-sm font-medium">Job note</p>
+      {canEdit ? (
+        <>
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="e.g. re-run pending, sandbox OOM"
+            maxLength={2000}
+            className="text-xs min-h-20"
+          />
+          <div className="flex justify-end gap-2">
+            {current && (
+              <Button variant="ghost" size="sm" className="h-7" onClick={() => save.mutate(null)} disabled={save.isPending}>
+                Clear
+              </Button>
+            )}
+            <Button
+              size="sm"
+              className="h-7"
+              onClick={() => save.mutate(draft.trim() || null)}
+              disabled={save.isPending || draft.trim() === current}
+            >
+              Save
+            </Button>
+          </div>
+        </>
+      ) : (
+        <p className="text-xs whitespace-pre-wrap break-words">{current}</p>
+      )}
+      <div className="space-y-1 border-t border-border pt-2">
+        <p className="text-[10px] uppercase tracking-wider text-muted-foreground">History</p>
+        {isLoading ? (
+          <p className="text-xs text-muted-foreground">Loading…</p>
+        ) : !data || data.history.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No edits recorded.</p>
+        ) : (
+          <ul className="max-h-48 overflow-y-auto space-y-1.5">
+            {data.history.map(entry => (
+              <li key={entry.id} className="text-[11px]">
+                <span className="text-muted-foreground">
+                  {entry.at.replace('T', ' ').slice(0, 16)}
+                  {entry.action === 'revert' ? ' (revert)' : ''}
+                </span>
+                <p className={`whitespace-pre-wrap break-words ${entry.after === null ? 'italic text-muted-foreground' : ''}`}>
+                  {entry.after === null ? 'cleared' : String(entry.after)}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </>
+  );
+}
+
+interface JobNotesPopoverProps {
+  jobId: string;
+  notes?: string;
+  // Signed-in editor (from the table, which checks once for all cells)
+  canEdit: boolean;
+}
+
+/**
+ * The cell's note chip. Clicking it opens the note with its edit history;
+ * editors can change or clear it there. Cells without a note show a faint
+ * add-note icon to editors only.
+ */
+export default function JobNotesPopover({ jobId, notes, canEdit }: JobNotesPopoverProps) {
+  const [open, setOpen] = useState(false);
+
+  if (!notes && !canEdit) return null;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        {notes ? (
+          <button
+            type="button"
+            className="inline-flex items-start gap-1 text-[10px] leading-snug rounded-md border px-1.5 py-1 bg-sky-500/10 text-sky-700 dark:text-sky-300 border-sky-500/30 text-left break-words max-w-[5.5rem] hover:bg-sky-500/20"
+            title={notes}
+            data-testid={`button-notes-${jobId}`}
+          >
+            <StickyNote className="w-3 h-3 shrink-0 mt-[1px]" />
+            <span className="break-words">{notes}</span>
+          </button>
+        ) : (
+          <button
+            type="button"
+            className="inline-flex items-center text-muted-foreground/40 hover:text-sky-600"
+            title="Add note"
+            data-testid={`button-add-note-${jobId}`}
+          >
+            <StickyNote className="w-3 h-3" />
+          </button>
+        )}
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-3" align="end">
+        <JobNotesEditor jobId={jobId} notes={notes} canEdit={canEdit} onDone={() => setOpen(false)} />
+      </PopoverContent>
+    </Popover>
+  );
+}
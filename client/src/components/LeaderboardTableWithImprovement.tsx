@@ -1,8 +1,15 @@
 import { useState, useMemo, useRef, useEffect, Fragment } from 'react';
 import { ChevronUp, ChevronDown, ChevronLeft, ChevronRight, ChevronsUpDown, ExternalLink, AlertCircle, AlertTriangle, Download, StickyNote } from 'lucide-react';
+import { Link } from 'wouter';
+import { improvementSignificance, IMPROVEMENT_CONFIDENCE_LEVEL, type ImprovementSignificance } from '@shared/significance';
 import { Badge } from '@/components/ui/badge';
-import { BLACKLISTED_MODELS } from '@/config/blacklistedModels';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useAuth } from '@/hooks/use-auth';
+import { useBlacklist } from '@/hooks/use-blacklist';
+import { useModelAliases } from '@/hooks/use-model-aliases';
+import JobNotesPopover from '@/components/JobNotesPopover';
 import { DEFAULT_VISIBLE_BENCHMARKS, compareBenchmarks, classifyBenchmark } from '@/config/benchmarkConfig';
+import { evalRequestCellKey, type EvalRequestCell, type TrackedEvalRequest } from '@shared/evalRequests';
 
 // Hide scrollbar while keeping scroll functionality
 const scrollbarHidingStyles = `
@@ -15,6 +22,22 @@ const scrollbarHidingStyles = `
   }
 `;
 
+export type GuardrailSeverity = 'info' | 'warning' | 'error';
+
+export interface FiredGuardrail {
+  id: string;
+  severity: GuardrailSeverity;
+}
+
+export const GUARDRAIL_SEVERITY_CLASSES: Record<GuardrailSeverity, string> = {
+  info: 'bg-slate-500/15 text-slate-600 dark:text-slate-300 border-slate-500/30',
+  warning: 'bg-amber-500/15 text-amber-700 dark:text-amber-300 border-amber-500/30',
+  error: 'bg-rose-500/15 text-rose-600 dark:text-rose-400 border-rose-500/30',
+};
+
+// These rules already have dedicated badges (trial counts / error count)
+const BADGED_GUARDRAILS = new Set(['incomplete', 'high-errors']);
+
 export interface PivotedLeaderboardRowWithImprovement {
   modelName: string;
   agentName: string;
@@ -41,16 +64,38 @@ export interface PivotedLeaderboardRowWithImprovement {
     hfTracesLink?: string;
     baseModelAccuracy?: number;
     improvement?: number;
+    // Standard error of the difference, 95% CI and whether it excludes zero
+    improvementStandardError?: number;
+    improvementCiLow?: number;
+    improvementCiHigh?: number;
+    improvementSignificant?: boolean;
+    baseModelStandardError?: number;
     // Additional accuracy values for duplicate-aware improvement recalculation
     canonicalBenchmarkBaseModelAccuracy?: number;
     canonicalBaseModelAccuracy?: number;
     canonicalBothBaseModelAccuracy?: number;
+    canonicalBenchmarkBaseModelStandardError?: number;
+    canonicalBaseModelStandardError?: number;
+    canonicalBothBaseModelStandardError?: number;
+    // Trial-derived cell metric details (k for pass@k, bootstrap CI)
+    metricK?: number;
+    metricCiLow?: number;
+    metricCiHigh?: number;
+    // Mean/median modes: number of runs aggregated into this cell
+    runCount?: number;
+    // Selection policy that produced this cell and the rule that picked the run
+    selectionPolicy?: string;
+    selectionReason?: string;
+    // Guardrail rules (server/config/guardrails.json) that fired for the selected run
+    guardrails?: FiredGuardrail[];
     // Duplicate tracking for benchmarks
     benchmarkDuplicateOf: string | null;
     canonicalBenchmarkName: string;
     // Source benchmark (tracks which actual benchmark the result came from)
     sourceBenchmarkName?: string;
     sourceBenchmarkId?: string;
+    // sandbox_jobs.id of the displayed result (links to /jobs/:id)
+    jobId?: string;
     // Eval config metadata
     timeoutMultiplier?: number;
     daytonaOverrideCpus?: number;
@@ -77,13 +122,29 @@ export interface PivotedLeaderboardRowWithImprovement {
       hfTracesLink?: string;
       baseModelAccuracy?: number;
       improvement?: number;
+      improvementStandardError?: number;
+      improvementCiLow?: number;
+      improvementCiHigh?: number;
+      improvementSignificant?: boolean;
+      baseModelStandardError?: number;
       canonicalBenchmarkBaseModelAccuracy?: number;
       canonicalBaseModelAccuracy?: number;
       canonicalBothBaseModelAccuracy?: number;
+      canonicalBenchmarkBaseModelStandardError?: number;
+      canonicalBaseModelStandardError?: number;
+      canonicalBothBaseModelStandardError?: number;
+      metricK?: number;
+      metricCiLow?: number;
+      metricCiHigh?: number;
+      runCount?: number;
+      selectionPolicy?: string;
+      selectionReason?: string;
+      guardrails?: FiredGuardrail[];
       benchmarkDuplicateOf: string | null;
       canonicalBenchmarkName: string;
       sourceBenchmarkName?: string;
       sourceBenchmarkId?: string;
+      jobId?: string;
       timeoutMultiplier?: number;
       daytonaOverrideCpus?: number;
       daytonaOverrideMemoryMb?: number;
@@ -135,6 +196,20 @@ interface LeaderboardTableWithImprovementProps {
   // When provided with customOrder, a section header row is inserted when the section changes.
   // Keys are model names, values are section labels.
   sectionByModel?: Record<string, string>;
+  // Frozen data (snapshots): notes are shown but cannot be edited
+  readOnly?: boolean;
+  // With filterMissingEval: missing default-benchmark cells show their open eval request,
+  // or (when canSelect) a checkbox to pick them for a new one
+  evalRequests?: EvalRequestSelection;
+}
+
+export interface EvalRequestSelection {
+  // Keys (evalRequestCellKey) of the picked cells
+  selected: Set<string>;
+  // Open or running requests by cell key
+  active: Map<string, TrackedEvalRequest>;
+  canSelect: boolean;
+  onSelect: (cells: EvalRequestCell[], selected: boolean) => void;
 }
 
 type SortField = 'modelName' | 'agentName' | 'baseModelName' | 'trainingType' | 'modelCreatedAt' | 'firstEvalEndedAt' | 'latestEvalEndedAt' | string; // string for dynamic benchmark names
@@ -174,9 +249,14 @@ export default function LeaderboardTableWithImprovement({
   hideBlacklisted,
   hideBaseModels,
   customOrder,
-  sectionByModel
+  sectionByModel,
+  readOnly = false,
+  evalRequests
 }: LeaderboardTableWithImprovementProps) {
   const hasCustomOrder = !!customOrder && customOrder.length > 0;
+  const { active: blacklist } = useBlacklist();
+  const aliasKey = useModelAliases();
+  const canEditNotes = useAuth().can('editor') && !readOnly;
   const [sortField, setSortField] = useState<SortField>(hasCustomOrder ? 'modelName' : 'modelCreatedAt');
   const [sortDirection, setSortDirection] = useState<SortDirection>(hasCustomOrder ? null : 'desc');
   // Reset sort when entering / leaving custom-order mode so the custom order takes effect on tab switch.
@@ -237,41 +317,70 @@ export default function LeaderboardTableWithImprovement({
   const recalculateImprovement = (
     benchmarkData: {
       accuracy: number | null;
+      standardError: number | null;
       baseModelAccuracy?: number;
       canonicalBenchmarkBaseModelAccuracy?: number;
       canonicalBaseModelAccuracy?: number;
       canonicalBothBaseModelAccuracy?: number;
+      baseModelStandardError?: number;
+      canonicalBenchmarkBaseModelStandardError?: number;
+      canonicalBaseModelStandardError?: number;
+      canonicalBothBaseModelStandardError?: number;
     },
     useCanonicalBaseModel: boolean,
     useCanonicalBenchmark: boolean
-  ): { baseModelAccuracy?: number; improvement?: number } => {
+  ): { baseModelAccuracy?: number; improvement?: number } & Partial<ImprovementSignificance> => {
+    const noImprovement = {
+      baseModelAccuracy: undefined,
+      improvement: undefined,
+      improvementStandardError: undefined,
+      improvementCiLow: undefined,
+      improvementCiHigh: undefined,
+      improvementSignificant: undefined,
+    };
+
     // No improvement calculation for Pending/Started jobs (null accuracy)
     if (benchmarkData.accuracy === null) {
-      return { baseModelAccuracy: undefined, improvement: undefined };
+      return noImprovement;
     }
 
-    // Determine which base model accuracy to use based on display settings
-    let newBaseModelAccuracy: number | undefined;
+    // Determine which base model result to use based on display settings
+    // (accuracy and standard error always come from the same result)
+    let newBaseModelAccuracy: number | undefined = benchmarkData.baseModelAccuracy;
+    let newBaseModelStandardError: number | undefined = benchmarkData.baseModelStandardError;
 
     if (useCanonicalBaseModel && useCanonicalBenchmark) {
       // Both duplicates hidden: use canonical base model on canonical benchmark
-      newBaseModelAccuracy = benchmarkData.canonicalBothBaseModelAccuracy ?? benchmarkData.baseModelAccuracy;
+      if (benchmarkData.canonicalBothBaseModelAccuracy !== undefined) {
+        newBaseModelAccuracy = benchmarkData.canonicalBothBaseModelAccuracy;
+        newBaseModelStandardError = benchmarkData.canonicalBothBaseModelStandardError;
+      }
     } else if (useCanonicalBaseModel) {
       // Only duplicate models hidden: use canonical base model on same benchmark
-      newBaseModelAccuracy = benchmarkData.canonicalBaseModelAccuracy ?? benchmarkData.baseModelAccuracy;
+      if (benchmarkData.canonicalBaseModelAccuracy !== undefined) {
+        newBaseModelAccuracy = benchmarkData.canonicalBaseModelAccuracy;
+        newBaseModelStandardError = benchmarkData.canonicalBaseModelStandardError;
+      }
     } else if (useCanonicalBenchmark) {
       // Only duplicate benchmarks hidden: use original base model on canonical benchmark
-      newBaseModelAccuracy = benchmarkData.canonicalBenchmarkBaseModelAccuracy ?? benchmarkData.baseModelAccuracy;
-    } else {
-      // Both shown: use original values
-      newBaseModelAccuracy = benchmarkData.baseModelAccuracy;
+      if (benchmarkData.canonicalBenchmarkBaseModelAccuracy !== undefined) {
+        newBaseModelAccuracy = benchmarkData.canonicalBenchmarkBaseModelAccuracy;
+        newBaseModelStandardError = benchmarkData.canonicalBenchmarkBaseModelStandardError;
+      }
     }
+    // Both shown: use original values
 
-    const newImprovement = newBaseModelAccuracy !== undefined
-      ? benchmarkData.accuracy - newBaseModelAccuracy
-      : undefined;
+    if (newBaseModelAccuracy === undefined) {
+      return noImprovement;
+    }
 
-    return { baseModelAccuracy: newBaseModelAccuracy, improvement: newImprovement };
+    const newImprovement = benchmarkData.accuracy - newBaseModelAccuracy;
+    return {
+      ...noImprovement,
+      baseModelAccuracy: newBaseModelAccuracy,
+      improvement: newImprovement,
+      ...improvementSignificance(newImprovement, benchmarkData.standardError, newBaseModelStandardError),
+    };
   };
 
   // Process data to handle duplicate models and recalculate improvements
@@ -348,10 +457,10 @@ export default function LeaderboardTableWithImprovement({
         baseModelName: row.canonicalBaseModelName,
         benchmarks: Object.fromEntries(
           Object.entries(row.benchmarks).map(([benchmarkName, benchmarkData]) => {
-            const { baseModelAccuracy, improvement } = recalculateImprovement(
-              benchmarkData, useCanonicalBaseModel, useCanonicalBenchmark
-            );
-            return [benchmarkName, { ...benchmarkData, baseModelAccuracy, improvement }];
+            return [benchmarkName, {
+              ...benchmarkData,
+              ...recalculateImprovement(benchmarkData, useCanonicalBaseModel, useCanonicalBenchmark),
+            }];
           })
         )
       }));
@@ -378,7 +487,7 @@ export default function LeaderboardTableWithImprovement({
           // Copy duplicate data if canonical is missing or canonical is Pending/Started and duplicate is Finished
           if (duplicateData && (!canonicalData || (canonicalData.accuracy === null && duplicateData.accuracy !== null))) {
             // Recalculate improvement for merged data (comparing to canonical benchmark)
-            const { baseModelAccuracy, improvement } = recalculateImprovement(
+            const recalculated = recalculateImprovement(
               duplicateData,
               useCanonicalBaseModel,
               true // Always use canonical benchmark since we're merging into canonical column
@@ -389,9 +498,8 @@ export default function LeaderboardTableWithImprovement({
               // Update the canonical name reference
               canonicalBenchmarkName: canonicalName,
               benchmarkDuplicateOf: null,
-              // Update base model accuracy and improvement
-              baseModelAccuracy,
-              improvement
+              // Update base model accuracy, improvement and its significance
+              ...recalculated,
             };
           }
         });
@@ -556,7 +664,7 @@ export default function LeaderboardTableWithImprovement({
 
     // Hide blacklisted models
     if (hideBlacklisted) {
-      filtered = filtered.filter(row => !BLACKLISTED_MODELS.has(row.modelName));
+      filtered = filtered.filter(row => !blacklist.has(row.modelName));
     }
 
     // Hide base models
@@ -564,10 +672,14 @@ export default function LeaderboardTableWithImprovement({
       filtered = filtered.filter(row => row.baseModelName !== 'None');
     }
 
-    // Filter by model search
+    // Filter by model search (also by alias key, so `openai/gpt-x` finds a row recorded as `gpt-x`)
     if (modelSearch) {
       const query = modelSearch.toLowerCase();
-      filtered = filtered.filter(row => row.modelName?.toLowerCase().includes(query));
+      const aliasQuery = aliasKey(modelSearch).toLowerCase();
+      filtered = filtered.filter(row =>
+        row.modelName?.toLowerCase().includes(query) ||
+        (!!row.modelName && aliasKey(row.modelName).toLowerCase().includes(aliasQuery))
+      );
     }
 
     // Filter by agent search (matches both eval agent and training agent)
@@ -582,12 +694,17 @@ export default function LeaderboardTableWithImprovement({
     // Filter by base model search
     if (baseModelSearch) {
       const query = baseModelSearch.toLowerCase();
-      filtered = filtered.filter(row => row.baseModelName?.toLowerCase().includes(query));
+      const aliasQuery = aliasKey(baseModelSearch).toLowerCase();
+      filtered = filtered.filter(row =>
+        row.baseModelName?.toLowerCase().includes(query) ||
+        (!!row.baseModelName && aliasKey(row.baseModelName).toLowerCase().includes(aliasQuery))
+      );
     }
 
     // Filter by model filters
     if (filters.models.length > 0) {
-      filtered = filtered.filter(row => filters.models.includes(row.modelName));
+      const selected = new Set(filters.models.map(aliasKey));
+      filtered = filtered.filter(row => selected.has(aliasKey(row.modelName)));
     }
 
     // Filter by agent filters
@@ -605,7 +722,8 @@ export default function LeaderboardTableWithImprovement({
 
     // Filter by base model filters
     if (filters.baseModels.length > 0) {
-      filtered = filtered.filter(row => filters.baseModels.includes(row.baseModelName));
+      const selected = new Set(filters.baseModels.map(aliasKey));
+      filtered = filtered.filter(row => selected.has(aliasKey(row.baseModelName)));
     }
 
     // Filter by training type filters
@@ -710,7 +828,7 @@ export default function LeaderboardTableWithImprovement({
     }
 
     return filtered;
-  }, [processedData, modelSearch, agentSearch, baseModelSearch, filters, sortField, sortDirection, sortModePerBenchmark, filterMissingEval, hideBlacklisted, hideBaseModels, hasCustomOrder, customOrderIndex]);
+  }, [processedData, modelSearch, agentSearch, baseModelSearch, filters, sortField, sortDirection, sortModePerBenchmark, filterMissingEval, hideBlacklisted, blacklist, hideBaseModels, hasCustomOrder, customOrderIndex, aliasKey]);
 
   const handleSort = (field: SortField) => {
     if (sortField === field) {
@@ -868,8 +986,10 @@ export default function LeaderboardTableWithImprovement({
     return 'text-foreground';
   };
 
-  const getImprovementColor = (improvement: number | undefined) => {
+  const getImprovementColor = (improvement: number | undefined, significant?: boolean) => {
     if (improvement === undefined) return 'text-muted-foreground';
+    // Within noise of the base model: don't color it as a win or a loss
+    if (significant === false) return 'text-muted-foreground';
     if (improvement >= 5) return 'text-green-600 dark:text-green-400';
     if (improvement >= 0) return 'text-green-500 dark:text-green-300';
     if (improvement >= -5) return 'text-orange-500 dark:text-orange-400';
@@ -883,6 +1003,17 @@ export default function LeaderboardTableWithImprovement({
       hfTracesLink?: string;
       baseModelAccuracy?: number;
       improvement?: number;
+      improvementStandardError?: number;
+      improvementCiLow?: number;
+      improvementCiHigh?: number;
+      improvementSignificant?: boolean;
+      metricK?: number;
+      metricCiLow?: number;
+      metricCiHigh?: number;
+      runCount?: number;
+      selectionPolicy?: string;
+      selectionReason?: string;
+      guardrails?: FiredGuardrail[];
       timeoutMultiplier?: number;
       daytonaOverrideCpus?: number;
       daytonaOverrideMemoryMb?: number;
@@ -899,6 +1030,7 @@ export default function LeaderboardTableWithImprovement({
       completedTrials?: number;
       totalTrials?: number;
       notes?: string;
+      jobId?: string;
     },
     benchmarkName?: string,
     rowBaseModelName?: string
@@ -907,6 +1039,11 @@ export default function LeaderboardTableWithImprovement({
       return <span className="text-muted-foreground text-sm">—</span>;
     }
 
+    // Which selection policy (and rule) produced this cell, for tooltips
+    const policyNote = benchmarkData.selectionPolicy
+      ? `Policy: ${benchmarkData.selectionPolicy}${benchmarkData.selectionReason ? ` — ${benchmarkData.selectionReason}` : ''}`
+      : undefined;
+
     // Pending/Started jobs: show status badge instead of accuracy
     const jobStatus = benchmarkData.jobStatus;
     if (jobStatus === 'Pending' || jobStatus === 'Started') {
@@ -917,6 +1054,7 @@ export default function LeaderboardTableWithImprovement({
       const label = isPending ? 'Pending' : 'Running';
       const tooltipParts: string[] = [];
       if (benchmarkData.username) tooltipParts.push(`User: ${benchmarkData.username}`);
+      if (policyNote) tooltipParts.push(policyNote);
 
       // Check if job is stale (>24h old)
       let isStale = false;
@@ -946,12 +1084,22 @@ export default function LeaderboardTableWithImprovement({
                   <AlertTriangle className="w-3.5 h-3.5 text-red-500" />
                 </span>
               )}
-              <span
-                className={`inline-flex items-center rounded-md border px-2.5 py-1 text-xs font-semibold ${badgeClass}`}
-                title={tooltipParts.length > 0 ? tooltipParts.join('\n') : undefined}
-              >
-                {label}
-              </span>
+              {benchmarkData.jobId ? (
+                <Link
+                  href={`/jobs/${benchmarkData.jobId}`}
+                  className={`inline-flex items-center rounded-md border px-2.5 py-1 text-xs font-semibold hover:underline ${badgeClass}`}
+                  title={tooltipParts.length > 0 ? tooltipParts.join('\n') : undefined}
+                >
+                  {label}
+                </Link>
+              ) : (
+                <span
+                  className={`inline-flex items-center rounded-md border px-2.5 py-1 text-xs font-semibold ${badgeClass}`}
+                  title={tooltipParts.length > 0 ? tooltipParts.join('\n') : undefined}
+                >
+                  {label}
+                </span>
+              )}
             </div>
             {benchmarkData.username && (
               <span className="font-mono text-[10px] text-muted-foreground truncate max-w-[100px]">
@@ -1076,7 +1224,21 @@ export default function LeaderboardTableWithImprovement({
               Errors: {benchmarkData.invalidErrorCount}
             </span>
           )}
-          {benchmarkData.notes && (
+          {benchmarkData.guardrails
+            ?.filter(g => !BADGED_GUARDRAILS.has(g.id))
+            .map(g => (
+              <span
+                key={g.id}
+                className={`inline-flex items-center rounded-md border px-1.5 py-0.5 text-[10px] font-semibold ${GUARDRAIL_SEVERITY_CLASSES[g.severity]}`}
+                title={`Guardrail (${g.severity}): ${g.id}`}
+              >
+                <AlertTriangle className="w-3 h-3 mr-0.5" />
+                {g.id}
+              </span>
+            ))}
+          {benchmarkData.jobId ? (
+            <JobNotesPopover jobId={benchmarkData.jobId} notes={benchmarkData.notes} canEdit={canEditNotes} />
+          ) : benchmarkData.notes && (
             <span
               className="inline-flex items-start gap-1 text-[10px] leading-snug rounded-md border px-1.5 py-1 bg-sky-500/10 text-sky-700 dark:text-sky-300 border-sky-500/30 text-left break-words max-w-[5.5rem]"
               title={benchmarkData.notes}
@@ -1089,20 +1251,60 @@ export default function LeaderboardTableWithImprovement({
         {/* Numbers column — right-aligned, red+bold for Overlong */}
         <div className="flex flex-col items-end gap-1">
           {benchmarkData.accuracy != null ? (
-            <span className={`font-mono text-sm ${isOverlong ? 'text-red-500 font-bold' : `font-semibold ${getAccuracyColor(benchmarkData.accuracy)}`}`}>
-              {benchmarkData.accuracy.toFixed(1)}%
-            </span>
+            benchmarkData.jobId ? (
+              <Link
+                href={`/jobs/${benchmarkData.jobId}`}
+                className={`font-mono text-sm hover:underline ${isOverlong ? 'text-red-500 font-bold' : `font-semibold ${getAccuracyColor(benchmarkData.accuracy)}`}`}
+                title={policyNote ? `Open job details\n${policyNote}` : 'Open job details'}
+                data-testid={`link-job-${benchmarkData.jobId}`}
+              >
+                {benchmarkData.accuracy.toFixed(1)}%
+              </Link>
+            ) : (
+              <span
+                className={`font-mono text-sm ${isOverlong ? 'text-red-500 font-bold' : `font-semibold ${getAccuracyColor(benchmarkData.accuracy)}`}`}
+                title={policyNote}
+              >
+                {benchmarkData.accuracy.toFixed(1)}%
+              </span>
+            )
           ) : (
             <span className="font-mono text-sm text-muted-foreground">--</span>
           )}
           {benchmarkData.standardError != null ? (
-            <span className={`font-mono text-xs ${isOverlong ? 'text-red-500 font-bold' : 'text-muted-foreground'}`}>
+            <span
+              className={`font-mono text-xs ${isOverlong ? 'text-red-500 font-bold' : 'text-muted-foreground'}`}
+              title={benchmarkData.metricCiLow !== undefined && benchmarkData.metricCiHigh !== undefined
+                ? `95% bootstrap CI [${benchmarkData.metricCiLow.toFixed(1)}, ${benchmarkData.metricCiHigh.toFixed(1)}]`
+                : undefined}
+            >
               ±{benchmarkData.standardError.toFixed(2)}
             </span>
           ) : null}
+          {benchmarkData.metricK !== undefined && benchmarkData.metricK > 1 && (
+            <span className="font-mono text-[10px] text-muted-foreground">pass@{benchmarkData.metricK}</span>
+          )}
+          {benchmarkData.runCount !== undefined && (
+            <span
+              className="font-mono text-[10px] text-muted-foreground"
+              title={`Aggregated over ${benchmarkData.runCount} Finished, non-overlong run${benchmarkData.runCount !== 1 ? 's' : ''}`}
+            >
+              n={benchmarkData.runCount}
+            </span>
+          )}
+          {benchmarkData.selectionPolicy && benchmarkData.selectionPolicy !== 'default' && (
+            <span className="font-mono text-[10px] text-violet-600 dark:text-violet-400" title={policyNote}>
+              {benchmarkData.selectionPolicy}
+            </span>
+          )}
           {benchmarkData.improvement !== undefined ? (
-            <span className={`font-mono text-xs ${isOverlong ? 'text-red-500 font-bold' : `font-medium ${getImprovementColor(benchmarkData.improvement)}`}`}>
-              {benchmarkData.improvement >= 0 ? '+' : ''}{benchmarkData.improvement.toFixed(2)} pp
+            <span
+              className={`font-mono text-xs ${isOverlong ? 'text-red-500 font-bold' : `font-medium ${getImprovementColor(benchmarkData.improvement, benchmarkData.improvementSignificant)}`} ${benchmarkData.improvementSignificant === false ? 'italic' : ''}`}
+              title={benchmarkData.improvementStandardError !== undefined
+                ? `${Math.round(IMPROVEMENT_CONFIDENCE_LEVEL * 100)}% CI [${benchmarkData.improvementCiLow!.toFixed(2)}, ${benchmarkData.improvementCiHigh!.toFixed(2)}] pp, SE ${benchmarkData.improvementStandardError.toFixed(2)}${benchmarkData.improvementSignificant ? '' : ' — not significant'}`
+                : 'No standard error for this result or its base model — significance unknown'}
+            >
+              {benchmarkData.improvementSignificant === false ? '≈' : ''}{benchmarkData.improvement >= 0 ? '+' : ''}{benchmarkData.improvement.toFixed(2)} pp
             </span>
           ) : (
             benchmarkData.accuracy != null && rowBaseModelName && rowBaseModelName !== 'None' && (
@@ -1120,6 +1322,47 @@ export default function LeaderboardTableWithImprovement({
     );
   };
 
+  // Cells an eval request can be filed for: default benchmarks with no result and no run in flight
+  const isRequestableCell = (row: PivotedLeaderboardRowWithImprovement, benchmark: string) => {
+    if (!filterMissingEval || row.isNoEval || !DEFAULT_VISIBLE_BENCHMARKS.includes(benchmark)) return false;
+    const cell = row.benchmarks[benchmark];
+    return !cell || (cell.accuracy === null && cell.jobStatus !== 'Pending' && cell.jobStatus !== 'Started');
+  };
+
+  const requestableCells: EvalRequestCell[] = evalRequests
+    ? filteredAndSortedData.flatMap(row => visibleBenchmarks
+      .filter(benchmark => isRequestableCell(row, benchmark))
+      .map(benchmark => ({ modelName: row.modelName, agentName: row.agentName, benchmarkName: benchmark }))
+      .filter(cell => !evalRequests.active.has(evalRequestCellKey(cell))))
+    : [];
+
+  const renderEvalRequestMarker = (row: PivotedLeaderboardRowWithImprovement, benchmark: string) => {
+    if (!evalRequests || !isRequestableCell(row, benchmark)) return null;
+    const cell = { modelName: row.modelName, agentName: row.agentName, benchmarkName: benchmark };
+    const key = evalRequestCellKey(cell);
+    const request = evalRequests.active.get(key);
+    if (request) {
+      return (
+        <Link
+          href="/eval-requests"
+          className="inline-flex items-center rounded-md border px-1.5 py-0.5 text-[10px] bg-violet-500/10 text-violet-700 dark:text-violet-300 border-violet-500/30 hover:bg-violet-500/20"
+          title={`Requested by ${request.requestedBy} (${request.priority} priority)${request.notes ? `: ${request.notes}` : ''}`}
+        >
+          {request.state === 'running' ? 'running' : 'requested'}{request.assignee ? ` · ${request.assignee}` : ''}
+        </Link>
+      );
+    }
+    if (!evalRequests.canSelect) return null;
+    return (
+      <Checkbox
+        checked={evalRequests.selected.has(key)}
+        onCheckedChange={(checked) => evalRequests.onSelect([cell], checked === true)}
+        aria-label={`Request ${benchmark} eval for ${row.modelName}`}
+        title="Select for an eval request"
+      />
+    );
+  };
+
   const totalColumns = 8 + visibleBenchmarks.length; // # + model + agent + base model + trainingType + modelCreatedAt + firstEvalEndedAt + latestEvalEndedAt + benchmark columns
 
   return (
@@ -1128,6 +1371,15 @@ export default function LeaderboardTableWithImprovement({
       <div className="flex items-center justify-between mb-2">
         <span className="text-sm text-muted-foreground">
           {filteredAndSortedData.length} result{filteredAndSortedData.length !== 1 ? 's' : ''}
+          {evalRequests?.canSelect && requestableCells.length > 0 && (
+            <button
+              onClick={() => evalRequests.onSelect(requestableCells, true)}
+              className="ml-3 text-xs text-primary hover:underline"
+              data-testid="button-select-missing-cells"
+            >
+              Select all {requestableCells.length} missing
+            </button>
+          )}
         </span>
         <div className="relative" ref={exportMenuRef}>
           <button
@@ -1337,7 +1589,8 @@ export default function LeaderboardTableWithImprovement({
               ) : (
                 filteredAndSortedData.map((row, index) => {
                   const isBaseModel = row.baseModelName === 'None';
-                  const isBlacklisted = BLACKLISTED_MODELS.has(row.modelName);
+                  const blacklistEntry = blacklist.get(row.modelName);
+                  const isBlacklisted = !!blacklistEntry;
                   const prevRow = index > 0 ? filteredAndSortedData[index - 1] : undefined;
                   const nextRow = index < filteredAndSortedData.length - 1 ? filteredAndSortedData[index + 1] : undefined;
                   // Section header insertion (Table 1 tab): render before the first row of each section.
@@ -1385,7 +1638,12 @@ export default function LeaderboardTableWithImprovement({
                           <span className="text-muted-foreground/50 text-xs sm:text-sm pl-3">↳</span>
                         ) : (
                           <>
-                            <span className="font-semibold text-foreground text-xs sm:text-sm">{row.modelName}</span>
+                            <span
+                              className="font-semibold text-foreground text-xs sm:text-sm"
+                              title={blacklistEntry ? `Blacklisted: ${blacklistEntry.reason}` : undefined}
+                            >
+                              {row.modelName}
+                            </span>
                             {row.modelSizeB != null && (
                               <span className={`ml-2 text-xs px-1.5 py-0.5 rounded font-mono font-medium ${modelSizeColor(row.modelSizeB)}`}>
                                 {formatModelSize(row.modelSizeB)}
@@ -1444,6 +1702,11 @@ export default function LeaderboardTableWithImprovement({
                                   {formatBenchmarkCell(displayData, benchmark, row.baseModelName)}
                                 </div>
                               </div>
+                            ) : isRequestableCell(row, benchmark) && evalRequests ? (
+                              <div className="flex items-center justify-end gap-1.5">
+                                {formatBenchmarkCell(cellData, benchmark, row.baseModelName)}
+                                {renderEvalRequestMarker(row, benchmark)}
+                              </div>
                             ) : (
                               formatBenchmarkCell(cellData, benchmark, row.baseModelName)
                             )}
@@ -0,0 +1,155 @@
+import { SlidersHorizontal } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  SELECTION_POLICY_PRESETS,
+  type SelectionPolicy,
+  type SelectionPolicyOverrides,
+  type SelectionPolicyPresetName,
+} from '@shared/selectionPolicy';
+
+interface SelectionPolicyControlsProps {
+  preset: SelectionPolicyPresetName;
+  overrides: SelectionPolicyOverrides;
+  onPresetChange: (preset: SelectionPolicyPresetName) => void;
+  onOverridesChange: (overrides: SelectionPolicyOverrides) => void;
+}
+
+/** Query params for the pivoted endpoint: the preset name plus every overridden field. */
+export function selectionPolicyParams(preset: SelectionPolicyPresetName, overrides: SelectionPolicyOverrides): string {
+  const params = new URLSearchParams({ policy: preset });
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value !== undefined) params.set(key, String(value));
+  }
+  return params.toString();
+}
+
+export default function SelectionPolicyControls({
+  preset,
+  overrides,
+  onPresetChange,
+  onOverridesChange,
+}: SelectionPolicyControlsProps) {
+  const base = SELECTION_POLICY_PRESETS[preset].policy;
+  const effective: SelectionPolicy = { ...base, ...overrides };
+  const isCustom = Object.keys(overrides).length > 0;
+
+  // Drop overrides that match the preset so "custom" only shows when something differs
+  const setField = <K extends keyof SelectionPolicy>(key: K, value: SelectionPolicy[K] | undefined) => {
+    const next = { ...overrides };
+    if (value === undefined || value === base[key]) {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+    onOverridesChange(next);
+  };
+
+  const parseNumber = (raw: string, min: number, max: number): number | undefined => {
+    if (raw.trim() === '') return undefined;
+    const n = Number(raw);
+    return Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : undefined;
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 sm:gap-4">
+      <span className="text-sm font-medium text-foreground">Selection Policy:</span>
+      <ToggleGroup
+        type="single"
+        value={preset}
+        onValueChange={(value) => { if (value) onPresetChange(value as SelectionPolicyPresetName); }}
+        variant="outline"
+        size="sm"
+      >
+        {(Object.keys(SELECTION_POLICY_PRESETS) as SelectionPolicyPresetName[]).map(name => (
+          <ToggleGroupItem key={name} value={name}>{SELECTION_POLICY_PRESETS[name].label}</ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" data-testid="button-customize-policy">
+            <SlidersHorizontal className="w-4 h-4 mr-2" />
+            Customize
+            {isCustom && <Badge variant="secondary" className="ml-2 text-[10px]">custom</Badge>}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-80 space-y-3" align="start">
+          <div className="space-y-1">
+            <Label htmlFor="policy-min-accuracy" className="text-xs">Prefer accuracy above (%)</Label>
+            <Input
+              id="policy-min-accuracy"
+              type="number"
+              min={0}
+              max={100}
+              step={0.5}
+              value={effective.minAccuracy}
+              onChange={(e) => setField('minAccuracy', parseNumber(e.target.value, 0, 100))}
+              className="h-8"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Overlong runs</Label>
+            <Select value={effective.overlong} onValueChange={(v) => setField('overlong', v as SelectionPolicy['overlong'])}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="avoid">Avoid (use only if nothing else finished)</SelectItem>
+                <SelectItem value="allow">Allow</SelectItem>
+                <SelectItem value="exclude">Exclude</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="policy-exclude-incomplete"
+              checked={effective.excludeIncomplete}
+              onCheckedChange={(checked) => setField('excludeIncomplete', checked === true)}
+            />
+            <Label htmlFor="policy-exclude-incomplete" className="text-xs">Exclude incomplete runs</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="policy-exclude-high-errors"
+              checked={effective.excludeHighErrors}
+              onCheckedChange={(checked) => setField('excludeHighErrors', checked === true)}
+            />
+            <Label htmlFor="policy-exclude-high-errors" className="text-xs">Exclude high-error runs (&gt;10 invalid errors)</Label>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="policy-min-ratio" className="text-xs">Minimum completed-trials ratio (0–1)</Label>
+            <Input
+              id="policy-min-ratio"
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              value={effective.minCompletedRatio}
+              onChange={(e) => setField('minCompletedRatio', parseNumber(e.target.value, 0, 1))}
+              className="h-8"
+            />
+          </div>
+          <Button variant="ghost" size="sm" className="w-full" disabled={!isCustom} onClick={() => onOverridesChange({})}>
+            Reset to {SELECTION_POLICY_PRESETS[preset].label}
+          </Button>
+        </PopoverContent>
+      </Popover>
+      <span className="hidden sm:inline text-xs text-muted-foreground max-w-md">
+        {SELECTION_POLICY_PRESETS[preset].description}
+        {isCustom && ' (with custom overrides)'}
+      </span>
+    </div>
+  );
+}
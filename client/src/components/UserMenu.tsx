@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { LogIn, LogOut } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/hooks/use-auth';
+
+/** Header sign-in button, or the signed-in user's name, role and a sign-out button. */
+export default function UserMenu() {
+  const { user, login, logout } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+
+  if (user) {
+    return (
+      <div className="flex items-center gap-1.5 text-xs" data-testid="user-menu">
+        <span className="hidden sm:inline font-medium text-foreground">{user.username}</span>
+        <Badge variant="outline" className="text-[10px] px-1.5 py-0">{user.role}</Badge>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => logout.mutate()}
+          disabled={logout.isPending}
+          title="Sign out"
+          data-testid="button-sign-out"
+        >
+          <LogOut className="w-4 h-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    login.mutate({ username, password }, {
+      onSuccess: () => {
+        setOpen(false);
+        setPassword('');
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-1.5" data-testid="button-sign-in">
+          <LogIn className="w-4 h-4" />
+          <span className="hidden sm:inline">Sign in</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-sm">
+        <form onSubmit={submit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Sign in</DialogTitle>
+            <DialogDescription>Editors can change cohorts, tabs and the blacklist.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1">
+            <Label htmlFor="login-username" className="text-xs">Username</Label>
+            <Input id="login-username" value={username} onChange={(e) => setUsername(e.target.value)} autoComplete="username" className="h-8" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="login-password" className="text-xs">Password</Label>
+            <Input
+              id="login-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="current-password"
+              className="h-8"
+            />
+          </div>
+          {login.error && <p className="text-xs text-red-500">{login.error.message}</p>}
+          <DialogFooter>
+            <Button type="submit" size="sm" disabled={login.isPending || !username || !password}>Sign in</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
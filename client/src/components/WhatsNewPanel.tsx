@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { AlertTriangle, ArrowRightLeft, CheckCircle2, Newspaper, PlayCircle, RefreshCw, UserPlus, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import type { ChangeEvent, ChangeEventType, ChangeFeed } from '@shared/changes';
+
+const LAST_SEEN_KEY = 'whatsNew.lastSeen';
+// First visit: show the last week
+const DEFAULT_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_EVENTS = 300;
+
+const EVENT_ICONS: Record<ChangeEventType, { icon: typeof Newspaper; className: string }> = {
+  modelRegistered: { icon: UserPlus, className: 'text-sky-500' },
+  jobStarted: { icon: PlayCircle, className: 'text-muted-foreground' },
+  jobFinished: { icon: CheckCircle2, className: 'text-emerald-500' },
+  jobFailed: { icon: XCircle, className: 'text-rose-500' },
+  guardrailFired: { icon: AlertTriangle, className: 'text-amber-500' },
+  resultSuperseded: { icon: ArrowRightLeft, className: 'text-blue-500' },
+};
+
+const formatAccuracy = (value: number | null) => (value === null ? '—' : value.toFixed(1));
+
+function describe(event: ChangeEvent): string {
+  switch (event.type) {
+    case 'modelRegistered':
+      return `New model ${event.modelName}${event.baseModelName !== 'None' ? ` (from ${event.baseModelName})` : ''}`;
+    case 'jobStarted':
+      return `Started ${event.benchmarkName} · ${event.modelName}`;
+    case 'jobFinished':
+      return `Finished ${event.benchmarkName} · ${event.modelName}: ${formatAccuracy(event.accuracy)}`;
+    case 'jobFailed':
+      return `Failed ${event.benchmarkName} · ${event.modelName}`;
+    case 'guardrailFired':
+      return `${event.guardrails.map(g => g.id).join(', ')} on ${event.benchmarkName} · ${event.modelName}`;
+    case 'resultSuperseded':
+      return `${event.benchmarkName} · ${event.modelName}: ${formatAccuracy(event.previous.accuracy)} → ${formatAccuracy(event.current.accuracy)}`;
+  }
+}
+
+const eventJobId = (event: ChangeEvent) =>
+  event.type === 'modelRegistered' ? undefined : event.type === 'resultSuperseded' ? event.current.jobId : event.jobId;
+
+/**
+ * Header popover listing GET /api/changes since the last visit. `query` is
+ * the leaderboard's query string, so superseded results follow its selection mode.
+ * The feed is only fetched while the popover is open.
+ */
+export default function WhatsNewPanel({ query }: { query: string }) {
+  const [open, setOpen] = useState(false);
+  const [since, setSince] = useState(() =>
+    localStorage.getItem(LAST_SEEN_KEY) ?? new Date(Date.now() - DEFAULT_WINDOW_MS).toISOString());
+
+  const { data: feed, isFetching, error } = useQuery<ChangeFeed>({
+    queryKey: [`/api/changes?since=${encodeURIComponent(since)}&${query}`],
+    enabled: open,
+    staleTime: 0,
+  });
+  const events = feed ? [...feed.events].reverse() : [];
+
+  const markSeen = () => {
+    if (!feed) return;
+    localStorage.setItem(LAST_SEEN_KEY, feed.until);
+    setSince(feed.until);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-whats-new">
+          <Newspaper className="w-4 h-4 sm:mr-2" />
+          <span className="hidden sm:inline">What's new</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[28rem] p-0" align="end">
+        <div className="flex items-center justify-between gap-2 border-b border-border px-3 py-2">
+          <p className="text-sm font-medium">
+            Since {since.replace('T', ' ').slice(0, 16)}
+            {feed && <span className="text-muted-foreground font-normal"> · {feed.events.length + feed.truncated} events</span>}
+          </p>
+          <Button variant="ghost" size="sm" className="h-7" onClick={markSeen} disabled={!feed || isFetching}>
+            Mark as seen
+          </Button>
+        </div>
+        <div className="max-h-96 overflow-y-auto px-3 py-2">
+          {isFetching && !feed ? (
+            <div className="flex justify-center py-6">
+              <RefreshCw className="w-5 h-5 animate-spin text-primary" />
+            </div>
+          ) : error ? (
+            <p className="text-xs text-red-500">{error instanceof Error ? error.message : 'Failed to load changes'}</p>
+          ) : events.length === 0 ? (
+            <p className="text-xs text-muted-foreground py-4 text-center">Nothing new.</p>
+          ) : (
+            <ul className="space-y-1.5">
+              {events.slice(0, MAX_EVENTS).map((event, i) => {
+                const { icon: Icon, className } = EVENT_ICONS[event.type];
+                const jobId = eventJobId(event);
+                return (
+                  <li key={`${event.type}|${event.at}|${i}`} className="flex items-start gap-2 text-xs">
+                    <Icon className={`w-3.5 h-3.5 mt-0.5 shrink-0 ${className}`} />
+                    <div className="min-w-0">
+                      {jobId ? (
+                        <Link href={`/jobs/${jobId}`} className="break-words hover:underline">{describe(event)}</Link>
+                      ) : (
+                        <span className="break-words">{describe(event)}</span>
+                      )}
+                      <p className="text-[10px] text-muted-foreground font-mono">{event.at.replace('T', ' ').slice(0, 16)}</p>
+                    </div>
+                  </li>
+                );
+              })}
+              {(events.length > MAX_EVENTS || (feed?.truncated ?? 0) > 0) && (
+                <li className="text-[11px] text-muted-foreground">
+                  …and {events.length - Math.min(events.length, MAX_EVENTS) + (feed?.truncated ?? 0)} more
+                </li>
+              )}
+            </ul>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
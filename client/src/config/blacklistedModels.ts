@@ -1,400 +0,0 @@
-export const BLACKLISTED_MODELS = new Set<string>([
-  'DCAgent/All_Puzzles_5k_New_Context_GPT4o-mini_new_context',
-  'DCAgent/All_Puzzles_5k_OG_5k_New_Context_GPT4o-mini_new_context',
-  'DCAgent/All_Puzzles_5k_new_context',
-  'DCAgent/all-puzzles-sandboxes-traces-terminus-2-with-gpt-4o-mini-judgments-correct',
-  'DCAgent/bash_textbook_tasks_traces',
-  'DCAgent/code-contests-sandboxes-traces-terminus-2_new_hparams_11_10_25_Qwen3-8B',
-  'DCAgent/code_contests-GLM-4.6-traces_Qwen3-8B',
-  'DCAgent/code_contests-Qwen3-Coder-480B-traces',
-  'DCAgent/code_contests_10k_OG_10k_New_Questions_GPT5-mini_Qwen3-8B',
-  'DCAgent/code_contests_new_questions_gpt-5-mini_Qwen3-8B',
-  'DCAgent/codeforces-gptoss120b-traces',
-  'DCAgent/exp_tas_max_tokens_1024_traces',
-  'DCAgent/freelancer-askllm-filtered-sandboxes-traces-terminus-2_Qwen3-8B',
-  'DCAgent/freelancer-embedding-mean-instruction-filter_Qwen3-8B',
-  'DCAgent/freelancer-long-instruction-filter_Qwen3-8B',
-  'DCAgent/freelancer-projects-0-1k-traces',
-  'DCAgent/freelancer-projects-0-3k-traces',
-  'DCAgent/freelancer-projects-100k-traces_Qwen3-8B',
-  'DCAgent/freelancer-projects-10k-traces',
-  'DCAgent/freelancer-projects-1k-traces',
-  'DCAgent/freelancer-projects-3k-traces',
-  'DCAgent/freelancer-projects-gpt5_Qwen3-8B',
-  'DCAgent/freelancer-projects-gpt5mini',
-  'DCAgent/freelancer-random-instruction-filter-traces-terminus-2_Qwen3-8B',
-  'DCAgent/freelancer-short-instruction-filter_Qwen3-8B',
-  'DCAgent/freelancer-t1024s-32ep_Qwen3-8B',
-  'DCAgent/freelancer-t2048s-32ep_Qwen3-8B',
-  'DCAgent/freelancer-t256s-32ep_Qwen3-8B',
-  'DCAgent/freelancer-t512s-32ep_Qwen3-8B',
-  'DCAgent/hr1_code-contests-sandboxes-with-tests-nl2bash-bugsseq_Qwen3-8B-maxEps24-112925harbor_step_60',
-  'DCAgent/hr1_wfc_nl2bash-bs_Q3-8B-mE32-aT-dS-120325hbr_step_20',
-  'DCAgent/hr1_wfc_nl2bash-bs_Q3-8B-mE32-aT-dS-120325hbr_step_40',
-  'DCAgent/hr1_wfc_nl2bash-bs_Q3-8B-mE32-aT-dS-120325hbr_step_64',
-  'DCAgent/hr1_wikitable-format-conversion_nl2bash-bugsseq_Qwen3-8B-8nodes-sync-112725harbor_step20',
-  'DCAgent/hr1_wikitable-format-conversion_nl2bash-bugsseq_Qwen3-8B-8nodes-sync-112725harbor_step40',
-  'DCAgent/hr1_wikitable-format-conversion_nl2bash-bugsseq_Qwen3-8B-8nodes-sync-112725harbor_step64',
-  'DCAgent/hr1_wikitable-format-conversion_nl2bash-bugsseq_Qwen3-8B-maxEps24-112925harbor_step20',
-  'DCAgent/hr1_wikitable-format-conversion_nl2bash-bugsseq_Qwen3-8B-maxEps24-112925harbor_step40',
-  'DCAgent/neulab-codeactinstruct-sandboxes-traces-terminus-2_Qwen3-8B',
-  'DCAgent/neulab-mind2web-sandboxes-traces-terminus-2_Qwen3-8B',
-  'DCAgent/neulab-synatra-sandboxes-traces-terminus-2_Qwen3-8B',
-  'DCAgent/nl2bash-GLM-4.6-traces_Qwen3-8B',
-  'DCAgent/nl2bash-Qwen3-Coder-480B-traces_Qwen3-8B',
-  'DCAgent/nl2bash-nl2bash-bugsseq_Qwen3-8B-8nodes-sync-112625harbor_step25',
-  'DCAgent/nl2bash-nl2bash-bugsseq_Qwen3-8B-8nodes-sync-112625harbor_step50',
-  'DCAgent/nl2bash-nl2bash-bugsseq_Qwen3-8B-8nodes-sync-112625harbor_step73',
-  'DCAgent/nl2bash-nl2bash-bugsseq_Qwen3-8B-maxEps24-112925harbor_step20',
-  'DCAgent/nl2bash-nl2bash-bugsseq_Qwen3-8B-maxEps24-112925harbor_step40',
-  'DCAgent/nl2bash-nl2bash-bugsseq_Qwen3-8B-maxEps24-112925harbor_step_73',
-  'DCAgent/nl2bash-nl2bash-bugsseq_Qwen3-8B-maxEps32-accThink-disableSummarize-120225harbor_step_25',
-  'DCAgent/nl2bash-nl2bash-bugsseq_Qwen3-8B-maxEps32-accThink-disableSummarize-120225harbor_step_50',
-  'DCAgent/nl2bash-nl2bash-bugsseq_Qwen3-8B-maxEps32-accThink-disableSummarize-120225harbor_step_73',
-  'DCAgent/nl2bash-nl2bash-bugsseq_Qwen3-8B-maxEps32-accThink-disableSummarize-120325harbor_step_25',
-  'DCAgent/nl2bash-nl2bash-bugsseq_Qwen3-8B-maxEps32-accThink-disableSummarize-120325harbor_step_50',
-  'DCAgent/nl2bash-nl2bash-bugsseq_Qwen3-8B-maxEps32-accThink-disableSummarize-120325harbor_step_73',
-  'DCAgent/nl2bashG5CP-nl2bash-bs_Q3-8B-mE32-aT-dS-120325hbr_step_20',
-  'DCAgent/nl2bashG5CP-nl2bash-bs_Q3-8B-mE32-aT-dS-120325hbr_step_34',
-  'DCAgent/nl2bashGPT5CodexPassed-nl2bash-bugsseq_Qwen3-8B-8nodes-sync-112625harbor_step20',
-  'DCAgent/nl2bashGPT5CodexPassed-nl2bash-bugsseq_Qwen3-8B-8nodes-sync-112625harbor_step34',
-  'DCAgent/nl2bashGPT5CodexPassed-nl2bash-bugsseq_Qwen3-8B-maxEps24-112925harbor_step20',
-  'DCAgent/r2egymG5CP-nl2bash-bs_Q3-8B-mE24-aT-dS-120325hbr_step_25',
-  'DCAgent/r2egymGPT5CodexPassed-nl2bash-bugsseq_Qwen3-8B-maxEps24-112925harbor_step20',
-  'DCAgent/r2egymGPT5CodexPassed-nl2bash-bugsseq_Qwen3-8B-maxEps24-112925harbor_step40',
-  'DCAgent/r2egymGPT5CodexPassed-nl2bash-bugsseq_Qwen3-8B-maxEps24-112925harbor_step_55',
-  'DCAgent/r2egymGPT5CodexPassed-nl2bash-bugsseq_Qwen3-8B-maxEps24-112925harbor_step_80',
-  'DCAgent/staqc-ot3-100k-code-subset-traces-terminus-2_Qwen3-8B',
-  'DCAgent/staqc-ot3-100k-math-subset-traces-terminus-2_save-strategy_steps_Qwen3-8B',
-  'DCAgent/staqc-ot3-100k-science-subset-traces-terminus-2_Qwen3-8B',
-  'DCAgent/staqc-ot3-100k-traces-terminus-2_Qwen3-8B',
-  'DCAgent/staqc-sandboxes-traces-terminus-2_Qwen3-1-7B',
-  'DCAgent/staqc-sandboxes-traces-terminus-2_Qwen3-14B',
-  'DCAgent/staqc-sandboxes-traces-terminus-2_Qwen3-32B',
-  'DCAgent/staqc-sandboxes-traces-terminus-2_Qwen3-4B',
-  'DCAgent/staqc-sandboxes-traces-terminus-2_Qwen3-4B-Instruct-2507',
-  'DCAgent/staqc-sandboxes-traces-terminus-2_Qwen3-4B-Thinking-2507',
-  'DCAgent/staqc-sandboxes-traces-terminus-2_Qwen3-8B-Base',
-  'DCAgent/staqc-sandboxes-traces-terminus-2_Qwen3-Coder-30B-A3B-Instruct',
-  'DCAgent/taskmaster2-0-1k-traces',
-  'DCAgent/taskmaster2-0-3k-traces',
-  'DCAgent/taskmaster2-10k-traces',
-  'DCAgent/taskmaster2-16ep',
-  'DCAgent/taskmaster2-1ep',
-  'DCAgent/taskmaster2-1k-traces',
-  'DCAgent/taskmaster2-2ep',
-  'DCAgent/taskmaster2-32ep',
-  'DCAgent/taskmaster2-3k-traces',
-  'DCAgent/taskmaster2-4ep',
-  'DCAgent/taskmaster2-64ep',
-  'DCAgent/taskmaster2-8ep',
-  'DCAgent/taskmaster2-banana',
-  'DCAgent/taskmaster2-gpt5mini',
-  'DCAgent/taskmaster2-gpt5mini_global-batch-size_16',
-  'DCAgent/tbench-dev-71-nl2bash-bugsseq_Qwen3-8B-8nodes-sync-112625harbor_step70',
-  'DCAgent/tbench_oracle_solutions_terminus',
-  'DCAgent/test_sft_qwen3_32k_base_NO_EVAL_Qwen3-8B',
-  'DCAgent/wikitable_format_conversion-qwen3-coder-480b-a35b-instruct-awq-traces',
-  'DCAgent2/GLM-4_6-codeforces-32eps-32k-fixeps',
-  'DCAgent2/GLM-4_6-nl2bash-verified-32eps-32k-fixeps',
-  'DCAgent2/GLM-4_6-stackexchange-overflow-sandboxes-32eps-32k',
-  'DCAgent2/bugs-nl2bashseq',
-  'DCAgent2/bugs-stack-nl2bashseq',
-  'DCAgent2/bugs-swesmith-over5050',
-  'DCAgent2/codeforces-GLM-4_6-traces-32ep-32k-1-2-4-dv',
-  'DCAgent2/freelancer-projects-100k-traces',
-  'DCAgent2/freelancer-projects-31k-traces',
-  'DCAgent2/freelancer-t256s-32ep_hub-model-id_freelancer-t256s-32ep-restore-hp_Qwen3-8B',
-  'DCAgent2/gemini25flash-stackexchange-overflow-32ep-512k-v3-traces',
-  'DCAgent2/glm-4_6-freelancer-traces',
-  'DCAgent2/glm-4_6-freelancer-traces-pm',
-  'DCAgent2/hr1_wikitable-format-conversion_nl2bash-bugsseq_Qwen3-8B-8nodes-sync-112725harbor',
-  'DCAgent2/inferredbugs-GLM-4_6-32ep-32k',
-  'DCAgent2/inferredbugs-GLM-4_6-32ep-65k',
-  'DCAgent2/neulab-code-feedback-sandboxes-traces-terminus-2_hub-model-id_neulab-code-feedback-restore-hp_Qw',
-  'DCAgent2/neulab-mind2web-sandboxes-traces-terminus-2_hub-model-id_neulab-mind2web-restore-hp_Qwen3-8B',
-  'DCAgent2/neulab-synatra-sandboxes-traces-terminus-2_hub-model-id_neulab-synatra-restore-hp_Qwen3-8B',
-  'DCAgent2/nl2bash-bugs-over5050',
-  'DCAgent2/nl2bash-bugs-undr3070',
-  'DCAgent2/nl2bash-bugsseq',
-  'DCAgent2/nl2bash-bugsshuffle',
-  'DCAgent2/nl2bash-nl2bash-bugsseq_Qwen3-8B-8nodes-sync-112625harbor',
-  'DCAgent2/nl2bash-stack-bugs-over333',
-  'DCAgent2/nl2bash-stack-bugs-undr203050',
-  'DCAgent2/nl2bash-stack-bugs-undr503020',
-  'DCAgent2/nl2bash-stack-bugsshuffle',
-  'DCAgent2/nl2bash-stack-over5050',
-  'DCAgent2/nl2bash-stack-undr3070',
-  'DCAgent2/nl2bash-stack-undr7030',
-  'DCAgent2/nl2bash-stackseq',
-  'DCAgent2/nl2bash-stackshuffle',
-  'DCAgent2/nl2bash-swesmith-reason',
-  'DCAgent2/nl2bash-swesmith-undr7030',
-  'DCAgent2/nl2bash-swesmithseq',
-  'DCAgent2/nl2bash-verified-GLM-4.6-traces-32ep-32k-ab1085_Qwen3-8B',
-  'DCAgent2/nl2bash-verified-GLM-4.6-traces-32ep-32k-ab1089_Qwen3-8B',
-  'DCAgent2/nl2bash-verified-GLM-4.6-traces-32ep-32k-ab1093_Qwen3-8B',
-  'DCAgent2/nl2bash-verified-GLM-4.6-traces-32ep-32k-ab1097_Qwen3-8B',
-  'DCAgent2/nl2bash-verified-GLM-4.6-traces-32ep-32k_global-batch-size_128_Qwen3-8B',
-  'DCAgent2/nl2bash-verified-GLM-4.6-traces-32ep-32k_global-batch-size_32_Qwen3-8B',
-  'DCAgent2/nl2bash-verified-GLM-4.6-traces-32ep-32k_global-batch-size_64_Qwen3-8B',
-  'DCAgent2/nl2bash-verified-GLM-4_6-traces-32ep-32k-5epochs',
-  'DCAgent2/nl2bash-verified-GLM-4_6-traces-32ep-32k-5epochs-lr1e-3',
-  'DCAgent2/nl2bash-verified-GLM-4_6-traces-32ep-32k-5epochs-lr1e-4',
-  'DCAgent2/nl2bash-verified-GLM-4_6-traces-32ep-32k-5epochs-lr1e-5',
-  'DCAgent2/nl2bash-verified-GLM-4_6-traces-32ep-32k-5epochs-lr1e-6',
-  'DCAgent2/nl2bash-verified-GLM-4_6-traces-32ep-32k-7epochs',
-  'DCAgent2/nl2bash-verified-GLM-4_6-traces-32ep-32k-8epochs',
-  'DCAgent2/nl2bash-verified-GLM-4_6-traces-32ep-32k-ab2095',
-  'DCAgent2/nl2bash-verified-GLM-4_6-traces-32ep-32k-ab2098',
-  'DCAgent2/nl2bash-verified-GLM-4_6-traces-32ep-32k-ab2099',
-  'DCAgent2/nl2bash-verified-GLM-4_6-traces-32ep-32k-ab20998',
-  'DCAgent2/nl2bash-verified-GLM-4_6-traces-32ep-32k-mgn5e2',
-  'DCAgent2/nl2bash-verified-GLM-4_6-traces-32ep-32k-wd0',
-  'DCAgent2/nl2bash-verified-GLM-4_6-traces-32ep-32k-wd002',
-  'DCAgent2/nl2bash-verified-GLM-4_6-traces-32ep-32k-wd004',
-  'DCAgent2/nl2bash-verified-GLM-4_6-traces-32ep-32k-wd006',
-  'DCAgent2/nl2bash-verified-GLM-4_6-traces-32ep-32k-wd008',
-  'DCAgent2/nl2bash-verified-GLM-4_6-traces-32ep-32k-wr0',
-  'DCAgent2/nl2bash-verified-GLM-4_6-traces-32ep-32k-wr0005',
-  'DCAgent2/nl2bash-verified-GLM-4_6-traces-32ep-32k-wr0010',
-  'DCAgent2/nl2bash-verified-GLM-4_6-traces-32ep-32k-wr0150',
-  'DCAgent2/nl2bashGPT5CodexPassed-nl2bash-bugsseq_Qwen3-8B-8nodes-sync-112625harbor',
-  'DCAgent2/stack-bugs-over5050',
-  'DCAgent2/stack-bugs-undr3070',
-  'DCAgent2/stack-bugs-undr7030',
-  'DCAgent2/stack-bugsseq',
-  'DCAgent2/stack-bugsshuffle',
-  'DCAgent2/stack-nl2bashseq',
-  'DCAgent2/stack-swesmithseq',
-  'DCAgent2/swesmith-nl2bashseq',
-  'DCAgent2/swesmith-stack-reason',
-  'DCAgent2/swesmith-stack-undr7030',
-  'DCAgent2/taskmaster2-1ep_hub-model-id_taskmaster2-1ep-2stage-restore-hp_freelancer-projects-sandboxes-tra',
-  'DCAgent2/taskmaster2-8ep_hub-model-id_taskmaster2-8ep-2stage-restore-hp_freelancer-projects-sandboxes-tra',
-  'DCAgent2/taskmaster2-GLM-4_6-32ep-32k',
-  'DCAgent2/test2-tbench-dev-71-qwen3-8b-8nodes-sync',
-  'bespokelabs/Qwen3-8B-ot_step100',
-  'bespokelabs/Qwen3-8B-ot_step60_high',
-  'laion/GLM-4.6-stackoverflow-32eps-65k-fixeps_Qwen3-8B',
-  'laion/GLM-4_6-freelancer-32eps-131k',
-  'laion/GLM-4_6-inferredbugs-32ep-65k-reasoning',
-  'laion/GLM-4_6-nl2bash-verified-32ep-32k-reasoning',
-  'laion/GLM-4_6-selfinstruct-naive-2-32ep-32k',
-  'laion/GLM-4_6-stackexchange-overflow-sandboxes-32eps-65k-reasoning',
-  'laion/GLM-4_6-stackexchange-superuser-32ep-32k',
-  'laion/GLM-4_6-swesmith-32ep-131k-nosumm',
-  'laion/GLM-4_6-swesmith-32ep-131k-nosumm-reasoning',
-  'laion/GLM-4_7-inferredbugs-sandboxes-maxeps-131k',
-  'laion/GLM-4_7-r2egym_sandboxes-maxeps-131k',
-  'laion/GLM-4_7-stackexchange-tezos-sandboxes-maxeps-131k',
-  'laion/GLM-4_7-swesmith-sandboxes-with_tests-oracle_verified_120s-maxeps-131k',
-  'laion/GLM-4_7-swesmith-sandboxes-with_tests-oracle_verified_120s-maxeps-131k-fixthink',
-  'laion/GPT-OSS-120B-codeforces-fixeps_Qwen3-8B',
-  'laion/Kimi-K2T-neulab-agenttuning-kg-sandboxes-maxeps-32k',
-  'laion/Kimi-K2T-neulab-agenttuning-mind2web-sandboxes-maxeps-32k',
-  'laion/Kimi-K2T-neulab-agenttuning-webshop-sandboxes-maxeps-32k',
-  'laion/MiniMax-M2-freelancer-32ep-32k',
-  'laion/MiniMax-M2-freelancer-32ep-32k-reasoning',
-  'laion/Qwen3-32B-NL2Bash-31step',
-  'laion/Qwen3-32B-R2EGYM-256-3epochs',
-  'laion/Qwen3-32B-SweSmith-20step',
-  'laion/Qwen3-8B_exp-swd-r2egym-standard_glm_4.7_traces_locetash_save-strategy_steps',
-  'laion/Qwen3-8B_exp-swd-swesmith-wo-docker_glm_4.7_traces_locetash_save-strategy_steps',
-  'laion/Qwen3-8B_exp_tas_summarize_threshold_4096_traces_save-strategy_steps',
-  'laion/Qwen3-8B_exp_tas_temp_0.25_traces_save-strategy_steps',
-  'laion/Qwen3-8B_exp_tas_temp_0.5_traces_save-strategy_steps',
-  'laion/Qwen3-8B_exp_tas_tmux_large_traces_save-strategy_steps',
-  'laion/Qwen3-8B_exp_tas_top_k_32_traces_save-strategy_steps',
-  'laion/Qwen3-8B_exp_tas_trajectory_minimal_traces_save-strategy_steps',
-  'laion/Qwen3-8B_perturbed-docker-exp-taskmaster2-tasks_glm_4.7_traces_locetash_save-strategy_steps',
-  'laion/Qwen3-Coder-480B-codeforces-fixeps_Qwen3-8B',
-  'laion/Qwen3-Coder-480B-nl2bash-fixeps_Qwen3-8B',
-  'laion/SweSmith-8B-SFT-NoRope-step58',
-  'laion/bugs-nl2bashseq_Qwen3-8B',
-  'laion/bugs-r2egym-stackseq',
-  'laion/claude-4-5-sonnet-thinking-stackexchange-overflow-32ep-32k-traces',
-  'laion/exp-gfi-staqc-askllm-filtered-10K_glm_4_7_traces_jupiter_cleaned',
-  'laion/exp-gfi-staqc-short-response-filtered-10K_glm_4_7_traces_locetash',
-  'laion/exp-gfi-swesmith-short-response-filtered-10K_glm_4_7_traces_jupiter',
-  'laion/exp-psu-stackoverflow-10K_glm_4_7_traces',
-  'laion/exp-psu-stackoverflow-1K_glm_4_7_traces',
-  'laion/exp-psu-stackoverflow-316_glm_4_7_traces',
-  'laion/exp-psu-stackoverflow-31K_glm_4_7_traces',
-  'laion/exp-psu-swesmith-10K_glm_4_7_traces_jupiter',
-  'laion/exp-psu-swesmith-31K_glm_4_7_traces_jupiter',
-  'laion/exp-psu-swesmith-3K_glm_4_7_traces_jupiter',
-  'laion/exp-swd-r2egym-wo-docker_glm_4_7_traces',
-  'laion/exp-syh-tezos-askllm-hardened_glm_4_7_traces_jupiter',
-  'laion/exp-syh-tezos-askllm-hardened_glm_4_7_traces_jupiter_cleaned',
-  'laion/exp-syh-tezos-stackoverflow-mixed_glm_4_7_traces_jupiter_cleaned',
-  'laion/exp-uns-r2egym-2_1x_glm_4_7_traces_locetash',
-  'laion/exp-uns-r2egym-33_6x_glm_4_7_traces_jupiter_cleaned',
-  'laion/exp-uns-r2egym-4_2x_glm_4_7_traces_jupiter',
-  'laion/exp-uns-r2egym-8_4x_glm_4_7_traces_jupiter',
-  'laion/exp-uns-tezos-128unique_glm_4_7_traces_jupiter',
-  'laion/exp-uns-tezos-128unique_glm_4_7_traces_jupiter_cleaned',
-  'laion/exp-uns-tezos-160x_glm_4_7_traces_jupiter',
-  'laion/exp-uns-tezos-1unique_glm_4_7_traces_jupiter',
-  'laion/exp_rpt_stack-bash-withtests_glm_4_7_traces_jupiter',
-  'laion/exp_rpt_stack-rust_10k_glm_4_7_traces_jupiter',
-  'laion/exp_tas_baseline_traces',
-  'laion/exp_tas_frequency_penalty_0_25_traces',
-  'laion/exp_tas_frequency_penalty_0_5_traces',
-  'laion/exp_tas_frequency_penalty_1_0_traces',
-  'laion/exp_tas_high_diversity_traces',
-  'laion/exp_tas_interleaved_thinking_on_traces',
-  'laion/exp_tas_linear_history_off_traces',
-  'laion/exp_tas_low_diversity_traces',
-  'laion/exp_tas_max_tokens_2048_traces',
-  'laion/exp_tas_max_tokens_4096_traces',
-  'laion/exp_tas_min_p_0_05_traces',
-  'laion/exp_tas_min_p_0_1_traces',
-  'laion/exp_tas_parser_xml_traces',
-  'laion/exp_tas_raw_content_off_traces',
-  'laion/exp_tas_repetition_penalty_1_2_traces',
-  'laion/exp_tas_temp_0_5_traces',
-  'laion/exp_tas_top_k_128_traces',
-  'laion/exp_tas_top_k_16_traces',
-  'laion/exp_tas_top_p_0_8_traces',
-  'laion/exp_tas_top_p_0_9_traces',
-  'laion/glm-4_6-all-puzzles-32ep-131k',
-  'laion/glm-4_6-dclm-baseline-terminal-traces-32ep-131k',
-  'laion/glm-4_6-freelancer-32ep-131k-torch',
-  'laion/glm-4_6-nemo-prism',
-  'laion/glm-4_6-r2egym-32ep-32k',
-  'laion/glm-4_6-stack-overflow-32ep-131k-summtrc',
-  'laion/glm-4_6-staqc-32ep-131k',
-  'laion/glm46-Magicoder-Evol-Instruct-110K-sandboxes-1-traces',
-  'laion/glm46-defects4j-32ep-131k',
-  'laion/glm46-glaive-code-assistant-sandboxes-maxeps-131k',
-  'laion/glm46-neulab-agenttuning-alfworld-sandboxes-maxeps-131k',
-  'laion/glm46-neulab-synatra-32ep-131k',
-  'laion/glm46-qasper-maxeps-131k',
-  'laion/glm46-r2egym_sandboxes-maxeps-131k',
-  'laion/glm46-stackexchange-tezos-maxeps-131k',
-  'laion/glm46-swegym-tasks-maxeps-131k',
-  'laion/glm46-swesmith-maxeps-131k',
-  'laion/gpt-oss-120B-stack-overflow-32ep-131k-summtrc',
-  'laion/gpt-oss-120B-stack-overflow-32ep-131k-summtrc-fixthink1',
-  'laion/kimi-k2-r2egym_sandboxes-maxeps-32k',
-  'laion/kimi-k2-swegym-tasks-maxeps-32k',
-  'laion/kimi-k2t-freelancer-32ep-32k',
-  'laion/kimi-k2t-neulab-synatra-32ep-131k',
-  'laion/minimax-m2-stack-overflow-32ep-131k-summtrc',
-  'laion/nl2bash-bugs-undr7030_Qwen3-8B',
-  'laion/nl2bash-bugsseq_Qwen3-8B',
-  'laion/nl2bash-verified-GLM-4.6-traces-32ep-32k-mgn1e3_Qwen3-8B',
-  'laion/nl2bash-verified-GLM-4.6-traces-32ep-32k-mgn1e5_Qwen3-8B',
-  'laion/nl2bash-verified-GLM-4.6-traces-32ep-32k-mgn5e4_Qwen3-8B',
-  'laion/open-thoughts-4-code-qwen3-32b-annotated',
-  'laion/qwen3-coder-480B-stack-overflow-32ep-131k-summtrc',
-  'laion/qwen3base-GLM-4_7-swesmith-sandboxes-with_tests-oracle_verified_120s-maxeps-131k',
-  'laion/r2egym-bugsseq',
-  'laion/r2egym-gpt5-codex-160ep-1M',
-  'laion/r2egym-nl2bash-bugsseq',
-  'laion/r2egym-nl2bash-stack-bugsseq-bash-withtests',
-  'laion/r2egym-nl2bash-stack-bugsseq-cpp',
-  'laion/r2egym-nl2bash-stack-bugsseq-crosscodeeval-python-v2',
-  'laion/r2egym-nl2bash-stack-bugsseq-fixthink',
-  'laion/r2egym-nl2bash-stack-bugsseq-fixthink-exercism-python',
-  'laion/r2egym-nl2bash-stack-bugsseq-fixthink-methods2test-v2',
-  'laion/r2egym-nl2bash-stack-bugsseq-fixthink-stack-csharp',
-  'laion/r2egym-nl2bash-stack-bugsseq-fixthink-stack-pytest-large',
-  'laion/r2egym-nl2bash-stack-bugsseq-junit',
-  'laion/r2egym-nl2bash-stack-bugsseq-pytest-v2',
-  'laion/r2egym-nl2bash-stack-bugsseq-rl-stack-bash-withtests',
-  'laion/r2egym-nl2bash-stack-bugsseq-stack-php-v2',
-  'laion/r2egym-nl2bash-stack-bugsseq_lr3e-5_exp_rpt_stack-php-v2_step20',
-  'laion/r2egym-nl2bash-stackseq',
-  'laion/r2egym-stack-bugsseq',
-  'laion/rl_bs128-gs16-rloo-n-code-contests-900s-noreg-15',
-  'laion/rl_r2egym-nl2bash-stack-bugsseq-fixthink-again_lr1e-5_curator-hard',
-  'laion/rl_r2egym-nl2bash-stack-bugsseq-fixthink-again_lr1e-5_postmortem',
-  'laion/rl_r2egym-nl2bash-stack-bugsseq-fixthink-again_lr1e-5_pr',
-  'laion/rl_r2egym-nl2bash-stack-bugsseq-fixthink_lr1e-5_taco',
-  'laion/rl_r2egym-nl2bash-stack-bugsseq-fixthink_lr3e-5_bigcodebench-v2',
-  'laion/rl_r2egym-nl2bash-stack-bugsseq_lr3e-5_stack-php-v2',
-  'laion/rl_rl-conf_24GP_base-yaml_mode-path_exp_tas_opti_comb_trac_trai-data_exp_rpt_unit-pyth-v3',
-  'laion/rl_rl-conf_24GP_base-yaml_mode-path_r2eg-nl2b-stac-bugs-fixt-agai_trai-data_exp_rpt_soft-larg',
-  'laion/rl_rl-conf_24GP_base-yaml_mode-path_r2eg-nl2b-stac-bugs-fixt_trai-data_exp_rpt_pyme-larg-90',
-  'laion/rl_rl-conf_24GP_base-yaml_mode-path_r2eg-nl2b-stac-bugs-fixt_trai-data_exp_rpt_stac-dock-v2',
-  'laion/rl_rl-conf_24GP_base-yaml_mode-path_r2eg-nl2b-stac-bugs-fixt_trai-data_exp_rpt_stac-self-larg-70',
-  'laion/rl_rl-conf_24GP_base_noth-yaml_mode-path_r2eg-nl2b-stac-bugs_trai-data_exp_rpt_e2eg-larg-60',
-  'laion/rl_rl-conf_24GP_base_noth-yaml_mode-path_r2eg-nl2b-stac-bugs_trai-data_exp_rpt_pyme-larg-60',
-  'laion/rl_rl-conf_24GP_base_noth-yaml_mode-path_r2eg-nl2b-stac-bugs_trai-data_exp_rpt_stac-self-larg-60',
-  'laion/rl_rl-conf_qwen_8b_ll_lr1e-5_bs64-yaml_mode-path_r2eg-nl2b-stac-bugs_trai-data_exp_rpt_cros-type',
-  'laion/rl_rl-config_24GPU_base-yaml_model-path_Qwen3-8B_train-data_exp_rpt_nemotron-bash-60',
-  'laion/rl_rl-config_24GPU_base-yaml_model-path_Qwen3-8B_train-data_exp_rpt_pymethods2test-large-50',
-  'laion/rl_think_npfg-code-contests-900s-45',
-  'laion/rl_tp4s64_8x_2skill',
-  'laion/rl_tp4s64_8x_exercism-python',
-  'laion/rl_tp4s64_8x_expert',
-  'laion/rl_tp4s64_8x_flat25_baseline',
-  'laion/rl_tp4s64_8x_github_issue',
-  'laion/rl_tp4s64_8x_heavy_padding',
-  'laion/rl_tp4s64_8x_minimal_instructions',
-  'laion/rl_tp4s64_8x_nemotron-cpp',
-  'laion/rl_tp4s64_8x_nemotron-junit',
-  'laion/rl_tp4s64_8x_partial_ambiguity',
-  'laion/rl_tp4s64_8x_stack-selfdoc-v2',
-  'laion/rl_tp4s64_8x_structural_debug',
-  'laion/rl_v1_tp4s64_8x_nemotron-junit',
-  'laion/rl_v1_tp4s64_8x_stack-pytest-large',
-  'laion/rl_v1_tp4s64_8x_structural_debug',
-  'laion/stackexchange-tezos-sandboxes_glm_4_6_traces_locetash',
-  'laion/stackexchange-tezos-sandboxes_glm_4_6_traces_locetash_again',
-  'laion/stackexchange-tezos-sandboxes_glm_4_6_traces_together',
-  'laion/stackexchange-tezos-sandboxes_glm_4_6_traces_together_again',
-  'mlfoundations-dev/all-puzzles-sandboxes-traces-terminus-2',
-  'mlfoundations-dev/code-contests-sandboxes-traces-terminus-2',
-  'mlfoundations-dev/code-contests-sandboxes-traces-terminus-2_global-batch-size_16',
-  'mlfoundations-dev/code-contests-sandboxes-traces-terminus-2_seed_43',
-  'mlfoundations-dev/code-contests-sandboxes-traces-terminus-2_seed_44',
-  'mlfoundations-dev/code-contests-sandboxes-traces-terminus-2_seed_45',
-  'mlfoundations-dev/code-contests-sandboxes-traces-terminus-2_seed_46',
-  'mlfoundations-dev/codeforces-sandboxes-traces-terminus-2',
-  'mlfoundations-dev/defects4j-sandboxes-traces-terminus-2',
-  'mlfoundations-dev/freelancer-projects-sandboxes-traces-terminus-2',
-  'mlfoundations-dev/inferredbugs-sandboxes-traces-terminus-2',
-  'mlfoundations-dev/nemo-prism-math-sandboxes-traces-terminus-2',
-  'mlfoundations-dev/qasper-sandboxes-traces-terminus-2',
-  'mlfoundations-dev/stackexchange-codereview-sandboxes-traces-terminus-2_overwrite-output-dir_True',
-  'mlfoundations-dev/stackexchange-overflow-sandboxes-traces-terminus-2',
-  'mlfoundations-dev/stackexchange-tezos-sandboxes-traces-terminus-2',
-  'mlfoundations-dev/staqc-sandboxes-traces-terminus-2',
-  'mlfoundations-dev/swesmith_with_plain_docker-sandboxes-traces-terminus-2',
-  'mlfoundations-dev/taskmaster2-sandboxes-traces-terminus-2',
-  'open-thoughts/OpenThinker-Agent-v1-SFT',
-  'penfever/GLM-4_6-codeforces-32ep-32k-restore-hp',
-  'penfever/GLM-4_6-gemini25flash-stackexchange-overflow-32ep-512k-fixeps',
-  'penfever/GLM-4_6-inferredbugs-32eps-65k-fixeps',
-  'penfever/GLM-4_6-taskmaster2-32eps-32k-fixeps',
-  'penfever/freelancer-t1024s-32ep-restore-hp',
-  'penfever/freelancer-t2048s-32ep-restore-hp',
-  'penfever/freelancer-t512s-32ep-restore-hp',
-  'penfever/kimi-k2-swesmith_with_plain_docker-sandboxes-maxeps-32k',
-  'penfever/neulab-codeactinstruct-restore-hp',
-  'penfever/nl2bash-0-1k-traces-restore-hp',
-  'penfever/nl2bash-0-3k-traces-restore-hp',
-  'penfever/nl2bash-16ep-restore-hp',
-  'penfever/nl2bash-1ep-restore-hp',
-  'penfever/nl2bash-1k-traces-restore-hp',
-  'penfever/nl2bash-2ep-restore-hp',
-  'penfever/nl2bash-32ep-restore-hp',
-  'penfever/nl2bash-3k-traces-restore-hp',
-  'penfever/nl2bash-4ep-restore-hp',
-  'penfever/nl2bash-8ep-restore-hp',
-  'penfever/nl2bash-GLM-4_6-traces-newhparams',
-  'penfever/nl2bash-verified-GLM-4_6-traces-32ep-32k-dft',
-  'penfever/nl2bash-verified-GLM-4_6-traces-32ep-32k-restore-hp',
-  'penfever/nl2bash_gpt-5-nano-traces-8ep-restore-hp',
-  'penfever/nl2bash_verified_gpt-5-nano-traces-restore-hp',
-  'penfever/rl_bs128_gs16_ruby-30',
-  'penfever/rl_rl-conf_20GP_base-yaml_mode-path_r2eg-nl2b-stac-bugs-fixt_trai-data_exp_rpt_code-v2-25',
-  'penfever/rl_rl-conf_20GP_base-yaml_mode-path_r2eg-nl2b-stac-bugs-fixt_trai-data_exp_rpt_stac-pyte-v2-25',
-  'penfever/rl_rl-conf_24GP_base-yaml_mode-path_r2eg-nl2b-stac-bugs-fixt_trai-data_exp_rpt_soft-v2-45',
-  'penfever/selfinstruct-naive-sandboxes-2-traces-restore-hp',
-  'penfever/swesmith-2stage-restore-hp',
-  'penfever/taskmaster2-4ep-2stage-restore-hp',
-]);
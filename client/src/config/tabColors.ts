@@ -0,0 +1,22 @@
+import type { TabColor } from '@shared/cohorts';
+
+// Full class strings per hue so Tailwind's scanner sees every class used by data-driven tabs
+export const TAB_COLOR_CLASSES: Record<TabColor, string> = {
+  blue: 'bg-blue-500/15 text-blue-700 dark:text-blue-300 data-[state=active]:bg-blue-500/30',
+  emerald: 'bg-emerald-500/15 text-emerald-700 dark:text-emerald-300 data-[state=active]:bg-emerald-500/30',
+  teal: 'bg-teal-500/15 text-teal-700 dark:text-teal-300 data-[state=active]:bg-teal-500/30',
+  amber: 'bg-amber-500/15 text-amber-700 dark:text-amber-300 data-[state=active]:bg-amber-500/30',
+  rose: 'bg-rose-500/15 text-rose-700 dark:text-rose-300 data-[state=active]:bg-rose-500/30',
+  pink: 'bg-pink-500/15 text-pink-700 dark:text-pink-300 data-[state=active]:bg-pink-500/30',
+  violet: 'bg-violet-500/15 text-violet-700 dark:text-violet-300 data-[state=active]:bg-violet-500/30',
+  fuchsia: 'bg-fuchsia-500/15 text-fuchsia-700 dark:text-fuchsia-300 data-[state=active]:bg-fuchsia-500/30',
+  yellow: 'bg-yellow-500/15 text-yellow-700 dark:text-yellow-300 data-[state=active]:bg-yellow-500/30',
+  indigo: 'bg-indigo-500/15 text-indigo-700 dark:text-indigo-300 data-[state=active]:bg-indigo-500/30',
+  sky: 'bg-sky-500/15 text-sky-700 dark:text-sky-300 data-[state=active]:bg-sky-500/30',
+  lime: 'bg-lime-500/15 text-lime-700 dark:text-lime-300 data-[state=active]:bg-lime-500/30',
+  purple: 'bg-purple-500/15 text-purple-700 dark:text-purple-300 data-[state=active]:bg-purple-500/30',
+  red: 'bg-red-500/15 text-red-700 dark:text-red-300 data-[state=active]:bg-red-500/30',
+  orange: 'bg-orange-500/15 text-orange-700 dark:text-orange-300 data-[state=active]:bg-orange-500/30',
+  cyan: 'bg-cyan-500/15 text-cyan-700 dark:text-cyan-300 data-[state=active]:bg-cyan-500/30',
+  slate: 'bg-slate-500/15 text-slate-700 dark:text-slate-300 data-[state=active]:bg-slate-500/30',
+};
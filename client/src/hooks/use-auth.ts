@@ -0,0 +1,30 @@
+import { useMutation, useQuery } from "@tanstack/react-query"
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient"
+import { hasRole, type AuthUser, type Role } from "@shared/auth"
+
+/** The signed-in user (null when signed out) plus login/logout mutations. */
+export function useAuth() {
+  const { data: user = null, isLoading } = useQuery<AuthUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  })
+
+  const login = useMutation({
+    mutationFn: async (credentials: { username: string; password: string }) =>
+      (await apiRequest("POST", "/api/login", credentials)).json() as Promise<AuthUser>,
+    onSuccess: (signedIn) => queryClient.setQueryData(["/api/user"], signedIn),
+  })
+
+  const logout = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/logout"),
+    onSuccess: () => queryClient.setQueryData(["/api/user"], null),
+  })
+
+  return {
+    user,
+    isLoading,
+    login,
+    logout,
+    can: (role: Role) => hasRole(user, role),
+  }
+}
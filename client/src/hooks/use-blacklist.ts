@@ -0,0 +1,15 @@
+import { useMemo } from "react"
+import { useQuery } from "@tanstack/react-query"
+import type { BlacklistEntryWithStatus } from "@shared/blacklist"
+
+/** The server-managed model blacklist; `active` maps each currently blacklisted model to its entry. */
+export function useBlacklist() {
+  const { data: entries = [], isLoading } = useQuery<BlacklistEntryWithStatus[]>({
+    queryKey: ["/api/blacklist"],
+  })
+  const active = useMemo(
+    () => new Map(entries.filter(entry => entry.active).map(entry => [entry.modelName, entry])),
+    [entries]
+  )
+  return { entries, active, isLoading }
+}
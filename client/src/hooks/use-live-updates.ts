@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useState } from "react"
+import { queryClient } from "@/lib/queryClient"
+import type { PivotedLeaderboardRowWithImprovement } from "@/components/LeaderboardTableWithImprovement"
+import { LIVE_PATH, type LiveJobUpdate, type LiveMessage } from "@shared/live"
+
+const MAX_RECONNECT_DELAY_MS = 30_000
+
+// Live leaderboard queries; views as of a past date never change
+const isLiveLeaderboardQuery = (key: unknown) => {
+  const url = String(key)
+  return url.startsWith("/api/leaderboard-pivoted") && !url.includes("asOf=")
+}
+
+/**
+ * Write status changes of jobs already in the table into every cached live
+ * leaderboard response. Finished jobs are left out: their cell needs selection
+ * and improvement recomputed, which only a refetch does.
+ */
+function patchLeaderboardStatuses(updates: LiveJobUpdate[]) {
+  const status = new Map(updates.filter(u => u.status !== "Finished").map(u => [u.jobId, u.status]))
+  if (status.size === 0) return
+  const changed = (jobId?: string): jobId is string => !!jobId && status.has(jobId)
+  queryClient.setQueriesData<PivotedLeaderboardRowWithImprovement[]>(
+    { predicate: q => isLiveLeaderboardQuery(q.queryKey[0]) },
+    rows => rows?.map(row => {
+      const touched = Object.values(row.benchmarks).some(b => changed(b.jobId) || b.allResults?.some(r => changed(r.jobId)))
+      if (!touched) return row
+      const benchmarks = Object.fromEntries(Object.entries(row.benchmarks).map(([name, b]) => [name, {
+        ...b,
+        jobStatus: changed(b.jobId) ? status.get(b.jobId)! : b.jobStatus,
+        allResults: b.allResults?.map(r => (changed(r.jobId) ? { ...r, jobStatus: status.get(r.jobId)! } : r)),
+      }]))
+      return { ...row, benchmarks }
+    }),
+  )
+}
+
+/**
+ * Subscribe to the server's live job updates (reconnecting with backoff).
+ * Status changes are patched into the cache; finished jobs are collected as
+ * `newResults` until the caller refetches and calls `clear()`.
+ */
+export function useLiveUpdates() {
+  const [connected, setConnected] = useState(false)
+  const [newResults, setNewResults] = useState<LiveJobUpdate[]>([])
+
+  useEffect(() => {
+    let socket: WebSocket | undefined
+    let retryTimer: ReturnType<typeof setTimeout> | undefined
+    let retryDelay = 1000
+    let closed = false
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:"
+      socket = new WebSocket(`${protocol}//${window.location.host}${LIVE_PATH}`)
+      socket.onopen = () => {
+        setConnected(true)
+        retryDelay = 1000
+      }
+      socket.onmessage = (event) => {
+        const message = JSON.parse(event.data) as LiveMessage
+        if (message.type !== "jobs") return
+        patchLeaderboardStatuses(message.jobs)
+        message.jobs.forEach(job => queryClient.invalidateQueries({ queryKey: [`/api/jobs/${job.jobId}`] }))
+        const finished = message.jobs.filter(job => job.status === "Finished")
+        if (finished.length > 0) {
+          setNewResults(current => [...current.filter(c => !finished.some(f => f.jobId === c.jobId)), ...finished])
+        }
+      }
+      socket.onclose = () => {
+        setConnected(false)
+        if (closed) return
+        retryTimer = setTimeout(connect, retryDelay)
+        retryDelay = Math.min(retryDelay * 2, MAX_RECONNECT_DELAY_MS)
+      }
+    }
+
+    connect()
+    return () => {
+      closed = true
+      clearTimeout(retryTimer)
+      socket?.close()
+    }
+  }, [])
+
+  const clear = useCallback(() => setNewResults([]), [])
+  return { connected, newResults, clear }
+}
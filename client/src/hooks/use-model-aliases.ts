@@ -0,0 +1,14 @@
+import { useMemo } from "react"
+import { useQuery } from "@tanstack/react-query"
+import { createModelAliasKey, EMPTY_MODEL_ALIAS_CONFIG, type ModelAliasConfig } from "@shared/modelAliases"
+
+/**
+ * The server's model alias rules as a name → alias key function (identity until
+ * loaded). Compare alias keys wherever a model name is matched against a list.
+ */
+export function useModelAliases() {
+  const { data: config = EMPTY_MODEL_ALIAS_CONFIG } = useQuery<ModelAliasConfig>({
+    queryKey: ["/api/model-aliases"],
+  })
+  return useMemo(() => createModelAliasKey(config), [config])
+}
@@ -0,0 +1,192 @@
+import { useState } from 'react';
+import { Link, useLocation, useSearch } from 'wouter';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { ArrowLeft, RefreshCw, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import ThemeToggle from '@/components/ThemeToggle';
+import UserMenu from '@/components/UserMenu';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { AUDIT_ENTITY_TYPES, REVERTIBLE_AUDIT_ENTITY_TYPES, type AuditAction, type AuditEntityType, type AuditEntry } from '@shared/audit';
+
+const ACTION_CLASSES: Record<AuditAction, string> = {
+  create: 'bg-emerald-500/15 text-emerald-600 dark:text-emerald-400 border-emerald-500/30',
+  update: 'bg-blue-500/15 text-blue-600 dark:text-blue-400 border-blue-500/30',
+  delete: 'bg-rose-500/15 text-rose-600 dark:text-rose-400 border-rose-500/30',
+  revert: 'bg-amber-500/15 text-amber-600 dark:text-amber-400 border-amber-500/30',
+};
+
+// Prefixes of the queries whose data an audit revert may change
+const ENTITY_QUERY_PREFIXES: Record<AuditEntityType, string[]> = {
+  cohort: ['/api/cohorts'],
+  tab: ['/api/tabs'],
+  tabOrder: ['/api/tabs'],
+  modelTag: ['/api/model-tags'],
+  blacklist: ['/api/blacklist'],
+  jobNote: ['/api/jobs/', '/api/leaderboard-pivoted'],
+  duplicateLink: ['/api/duplicates', '/api/leaderboard-pivoted'],
+  snapshot: ['/api/snapshots'],
+  evalRequest: ['/api/eval-requests'],
+  user: ['/api/users'],
+};
+
+function JsonBlock({ label, value }: { label: string; value: unknown }) {
+  return (
+    <div className="min-w-0 flex-1">
+      <p className="text-[10px] uppercase tracking-wider text-muted-foreground mb-1">{label}</p>
+      <pre className="max-h-72 overflow-auto rounded bg-muted/50 p-2 text-[11px] leading-snug">
+        {value === null ? '—' : JSON.stringify(value, null, 2)}
+      </pre>
+    </div>
+  );
+}
+
+export default function AuditPage() {
+  const search = useSearch();
+  const [, navigate] = useLocation();
+  const params = new URLSearchParams(search);
+  const [entityType, setEntityType] = useState(params.get('entityType') ?? 'all');
+  const [entityId, setEntityId] = useState(params.get('entityId') ?? '');
+  const [actor, setActor] = useState(params.get('actor') ?? '');
+  const { user, can } = useAuth();
+  const { toast } = useToast();
+
+  const { data: entries = [], isLoading, isFetching, error, refetch } = useQuery<AuditEntry[]>({
+    queryKey: [`/api/audit${search ? `?${search}` : ''}`],
+    enabled: !!user,
+  });
+
+  const revert = useMutation({
+    mutationFn: async (entry: AuditEntry) =>
+      (await apiRequest('POST', `/api/audit/${entry.id}/revert`)).json() as Promise<AuditEntry>,
+    onSuccess: (reverted) => {
+      const prefixes = ['/api/audit', ...ENTITY_QUERY_PREFIXES[reverted.entityType]];
+      queryClient.invalidateQueries({ predicate: q => prefixes.some(prefix => String(q.queryKey[0]).startsWith(prefix)) });
+      toast({ title: `Reverted ${reverted.entityType} "${reverted.entityId}"` });
+    },
+    onError: (err: Error) => toast({ title: 'Revert failed', description: err.message, variant: 'destructive' }),
+  });
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    const next = new URLSearchParams();
+    if (entityType !== 'all') next.set('entityType', entityType);
+    if (entityId.trim()) next.set('entityId', entityId.trim());
+    if (actor.trim()) next.set('actor', actor.trim());
+    const query = next.toString();
+    navigate(query ? `/audit?${query}` : '/audit');
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-20 border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-14 sm:h-16 gap-2 sm:gap-4">
+            <div className="flex items-center gap-2 sm:gap-4 min-w-0">
+              <Link href="/" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground" data-testid="link-back">
+                <ArrowLeft className="w-4 h-4" />
+                Leaderboard
+              </Link>
+              <h1 className="text-lg sm:text-2xl font-bold text-foreground truncate">Change History</h1>
+            </div>
+            <div className="flex items-center gap-1 sm:gap-2 flex-shrink-0">
+              <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching || !user}>
+                <RefreshCw className={`w-4 h-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+              <UserMenu />
+              <ThemeToggle />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="px-3 sm:px-6 lg:px-8 py-4 sm:py-8 space-y-6">
+        <form onSubmit={applyFilters} className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">Entity</Label>
+            <Select value={entityType} onValueChange={setEntityType}>
+              <SelectTrigger className="h-8 w-40"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                {AUDIT_ENTITY_TYPES.map(type => <SelectItem key={type} value={type}>{type}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-entity-id" className="text-xs">Id / name</Label>
+            <Input id="audit-entity-id" value={entityId} onChange={(e) => setEntityId(e.target.value)} placeholder="Any" className="h-8 w-64" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-actor" className="text-xs">Actor</Label>
+            <Input id="audit-actor" value={actor} onChange={(e) => setActor(e.target.value)} placeholder="Anyone" className="h-8 w-40" />
+          </div>
+          <Button type="submit" size="sm">Apply</Button>
+        </form>
+
+        {!user ? (
+          <p className="text-sm text-muted-foreground">Sign in to view the change history.</p>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-24">
+            <RefreshCw className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-500">{error instanceof Error ? error.message : 'Failed to load history'}</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No changes recorded.</p>
+        ) : (
+          <Card>
+            <CardContent className="pt-4 space-y-2">
+              {entries.map(entry => (
+                <details key={entry.id} className="text-xs border-b border-border pb-2 last:border-b-0">
+                  <summary className="cursor-pointer select-none flex flex-wrap items-center gap-2">
+                    <span className="font-mono text-muted-foreground">{entry.at.replace('T', ' ').slice(0, 19)}</span>
+                    <span className={`inline-flex items-center rounded-md border px-1.5 py-0.5 text-[10px] font-semibold ${ACTION_CLASSES[entry.action]}`}>
+                      {entry.action}
+                    </span>
+                    <span className="text-muted-foreground">{entry.entityType}</span>
+                    <span className="font-mono text-foreground">{entry.entityId}</span>
+                    <span className="text-muted-foreground">by {entry.actor}</span>
+                  </summary>
+                  <div className="mt-2 space-y-2">
+                    <div className="flex flex-col gap-2 md:flex-row">
+                      <JsonBlock label="Before" value={entry.before} />
+                      <JsonBlock label="After" value={entry.after} />
+                    </div>
+                    <div className="flex items-center gap-3 text-[11px] text-muted-foreground">
+                      <span>request {entry.requestId}</span>
+                      {entry.revertOf && <span>reverts {entry.revertOf}</span>}
+                      {can('editor') && REVERTIBLE_AUDIT_ENTITY_TYPES.includes(entry.entityType) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-6 ml-auto"
+                          onClick={() => revert.mutate(entry)}
+                          disabled={revert.isPending}
+                        >
+                          <Undo2 className="w-3 h-3 mr-1" />
+                          Revert
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </details>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
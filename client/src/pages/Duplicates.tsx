@@ -0,0 +1,430 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'wouter';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { AlertTriangle, ArrowLeft, ArrowRight, Check, RefreshCw, Sparkles, Unlink } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import ThemeToggle from '@/components/ThemeToggle';
+import UserMenu from '@/components/UserMenu';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import {
+  DUPLICATE_ENTITY_TYPES,
+  type DuplicateEntityType,
+  type DuplicateGraph,
+  type DuplicateLinkPreview,
+  type DuplicateSuggestion,
+  type PreviewCell,
+} from '@shared/duplicates';
+
+const PREVIEW_MODES = ['oldest', 'latest', 'highest', 'mean', 'median'] as const;
+
+const CHANGE_CLASSES = {
+  added: 'text-emerald-600 dark:text-emerald-400',
+  removed: 'text-rose-600 dark:text-rose-400',
+  changed: 'text-blue-600 dark:text-blue-400',
+};
+
+const formatValue = (value: number | null | undefined, signed = false) =>
+  value === null || value === undefined ? '—' : `${signed && value > 0 ? '+' : ''}${value.toFixed(1)}`;
+
+function CellValue({ cell }: { cell?: PreviewCell }) {
+  if (!cell) return <span className="text-muted-foreground">—</span>;
+  return (
+    <span className="font-mono">
+      {formatValue(cell.accuracy)} <span className="text-muted-foreground">({formatValue(cell.improvement, true)})</span>
+    </span>
+  );
+}
+
+function MergedList({ title, groups }: { title: string; groups: Array<{ into: string; from: string[] }> }) {
+  if (groups.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium text-foreground">{title}</p>
+      <ul className="max-h-48 overflow-y-auto space-y-1 text-[11px]">
+        {groups.map(group => (
+          <li key={group.into} className="font-mono">
+            {group.from.join(' + ')} <ArrowRight className="inline w-3 h-3" /> <span className="text-foreground">{group.into}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function PreviewResult({ preview }: { preview: DuplicateLinkPreview }) {
+  return (
+    <div className="space-y-3 text-xs">
+      {!preview.blocking && (
+        <div className="flex flex-wrap gap-4 text-muted-foreground">
+          <span>Run pools: {preview.pools.before} → {preview.pools.after}</span>
+          <span>Table rows: {preview.rows.before} → {preview.rows.after}</span>
+          <span>Cells changed: {preview.cells.length + preview.cellsTruncated}</span>
+          {preview.relinked.length > 1 && <span>Entities relinked: {preview.relinked.length}</span>}
+        </div>
+      )}
+      <MergedList title="Merged run pools" groups={preview.pools.merged.map(m => ({ into: m.pool, from: m.from }))} />
+      <MergedList title="Merged table rows" groups={preview.rows.merged.map(m => ({ into: m.row, from: m.from }))} />
+      {preview.cells.length > 0 && (
+        <div className="max-h-96 overflow-y-auto border border-border rounded">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-muted">
+              <tr className="text-left">
+                <th className="px-2 py-1 font-medium">Model</th>
+                <th className="px-2 py-1 font-medium">Agent</th>
+                <th className="px-2 py-1 font-medium">Benchmark</th>
+                <th className="px-2 py-1 font-medium">Change</th>
+                <th className="px-2 py-1 font-medium">Before (improvement)</th>
+                <th className="px-2 py-1 font-medium">After (improvement)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.cells.map(cell => (
+                <tr key={`${cell.change}|${cell.modelName}|${cell.agentName}|${cell.benchmarkName}`} className="border-t border-border">
+                  <td className="px-2 py-1 font-mono">{cell.modelName}</td>
+                  <td className="px-2 py-1">{cell.agentName}</td>
+                  <td className="px-2 py-1">{cell.benchmarkName}</td>
+                  <td className={`px-2 py-1 ${CHANGE_CLASSES[cell.change]}`}>{cell.change}</td>
+                  <td className="px-2 py-1"><CellValue cell={cell.before} /></td>
+                  <td className="px-2 py-1"><CellValue cell={cell.after} /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {preview.cellsTruncated > 0 && (
+            <p className="px-2 py-1 text-muted-foreground">…and {preview.cellsTruncated} more</p>
+          )}
+        </div>
+      )}
+      {!preview.blocking && preview.cells.length === 0 && (
+        <p className="text-muted-foreground">No leaderboard cells change.</p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Link a model, agent or benchmark to its canonical entity (or unlink it),
+ * with a preview of the merged pools and changed cells before anything is written.
+ */
+export default function DuplicatesPage() {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const canEdit = can('editor');
+  const [entityType, setEntityType] = useState<DuplicateEntityType>('model');
+  const [duplicateName, setDuplicateName] = useState('');
+  const [canonicalName, setCanonicalName] = useState('');
+  const [mode, setMode] = useState<(typeof PREVIEW_MODES)[number]>('oldest');
+  const [filter, setFilter] = useState('');
+
+  const { data: graph, isLoading, isFetching, refetch } = useQuery<DuplicateGraph>({
+    queryKey: [`/api/duplicates/${entityType}`],
+  });
+  const nodes = graph?.nodes ?? [];
+  const byName = useMemo(() => new Map(nodes.map(n => [n.name, n])), [nodes]);
+  const byId = useMemo(() => new Map(nodes.map(n => [n.id, n])), [nodes]);
+  const links = nodes
+    .filter(n => n.duplicateOf && (!filter || n.name.toLowerCase().includes(filter.toLowerCase())))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const { data: suggestions = [], isLoading: suggestionsLoading } = useQuery<DuplicateSuggestion[]>({
+    queryKey: [`/api/duplicates/${entityType}/suggestions`],
+  });
+
+  const duplicate = byName.get(duplicateName.trim());
+  const canonical = canonicalName.trim() ? byName.get(canonicalName.trim()) : null;
+
+  const preview = useMutation({
+    mutationFn: async (link: { id: string; canonicalId: string | null }) =>
+      (await apiRequest('POST', `/api/duplicates/${entityType}/${link.id}/preview`, { canonicalId: link.canonicalId, mode })).json() as Promise<DuplicateLinkPreview>,
+    onError: (error: Error) => toast({ title: 'Preview failed', description: error.message, variant: 'destructive' }),
+  });
+
+  const apply = useMutation({
+    mutationFn: async (link: { id: string; canonicalId: string | null }) =>
+      (await apiRequest('PUT', `/api/duplicates/${entityType}/${link.id}`, { canonicalId: link.canonicalId })).json() as Promise<{ updated: string[] }>,
+    onSuccess: ({ updated }, link) => {
+      queryClient.invalidateQueries({ predicate: q => ['/api/duplicates', '/api/leaderboard-pivoted', '/api/audit'].some(prefix => String(q.queryKey[0]).startsWith(prefix)) });
+      toast({ title: link.canonicalId ? `Linked ${updated.length} ${entityType}(s)` : `Unlinked ${byId.get(link.id)?.name ?? link.id}` });
+      preview.reset();
+      setDuplicateName('');
+      setCanonicalName('');
+    },
+    onError: (error: Error) => toast({ title: 'Link failed', description: error.message, variant: 'destructive' }),
+  });
+
+  const pending = duplicate && canonical !== undefined ? { id: duplicate.id, canonicalId: canonical?.id ?? null } : undefined;
+  const shown = preview.data && pending && preview.data.id === pending.id && preview.data.canonicalId === pending.canonicalId
+    ? preview.data
+    : undefined;
+
+  const changeEntityType = (value: string) => {
+    setEntityType(value as DuplicateEntityType);
+    setDuplicateName('');
+    setCanonicalName('');
+    preview.reset();
+  };
+
+  const previewSuggestion = (suggestion: DuplicateSuggestion) => {
+    setDuplicateName(suggestion.duplicate.name);
+    setCanonicalName(suggestion.canonical.name);
+    preview.mutate({ id: suggestion.duplicate.id, canonicalId: suggestion.canonical.id });
+  };
+
+  const startUnlink = (name: string) => {
+    const node = byName.get(name);
+    setDuplicateName(name);
+    setCanonicalName('');
+    if (node) preview.mutate({ id: node.id, canonicalId: null });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-20 border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-14 sm:h-16 gap-2 sm:gap-4">
+            <div className="flex items-center gap-2 sm:gap-4 min-w-0">
+              <Link href="/" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground" data-testid="link-back">
+                <ArrowLeft className="w-4 h-4" />
+                Leaderboard
+              </Link>
+              <h1 className="text-lg sm:text-2xl font-bold text-foreground truncate">Duplicates</h1>
+            </div>
+            <div className="flex items-center gap-1 sm:gap-2 flex-shrink-0">
+              <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+                <RefreshCw className={`w-4 h-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+              <UserMenu />
+              <ThemeToggle />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="px-3 sm:px-6 lg:px-8 py-4 sm:py-8 space-y-6">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">Entity</Label>
+            <Select value={entityType} onValueChange={changeEntityType}>
+              <SelectTrigger className="h-8 w-40"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {DUPLICATE_ENTITY_TYPES.map(type => <SelectItem key={type} value={type}>{type}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-24">
+            <RefreshCw className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            {graph && graph.problems.length > 0 && (
+              <Card className="border-amber-500/40">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm flex items-center gap-2 text-amber-600 dark:text-amber-400">
+                    <AlertTriangle className="w-4 h-4" />
+                    {graph.problems.length} broken {graph.problems.length === 1 ? 'chain' : 'chains'} (the leaderboard only follows one hop)
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-1 text-xs">
+                  {graph.problems.map(problem => (
+                    <p key={problem.ids.join(',')} className="font-mono">
+                      <span className="mr-2 text-muted-foreground">{problem.kind === 'cycle' ? 'cycle' : 'multi-hop'}</span>
+                      {problem.path.join(' → ')}
+                    </p>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm flex items-center gap-2">
+                  <Sparkles className="w-4 h-4" />
+                  Suggested duplicates
+                  {!suggestionsLoading && <span className="text-xs font-normal text-muted-foreground">({suggestions.length} not linked yet)</span>}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {suggestionsLoading ? (
+                  <p className="text-xs text-muted-foreground">Scoring names…</p>
+                ) : suggestions.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">No likely duplicates found.</p>
+                ) : (
+                  <div className="max-h-80 overflow-y-auto border border-border rounded">
+                    <table className="w-full text-xs">
+                      <thead className="sticky top-0 bg-muted">
+                        <tr className="text-left">
+                          <th className="px-2 py-1 font-medium">Score</th>
+                          <th className="px-2 py-1 font-medium">Duplicate</th>
+                          <th className="px-2 py-1 font-medium">Canonical</th>
+                          <th className="px-2 py-1 font-medium">Why</th>
+                          <th className="px-2 py-1" />
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {suggestions.map(suggestion => (
+                          <tr key={`${suggestion.duplicate.id}|${suggestion.canonical.id}`} className="border-t border-border">
+                            <td className="px-2 py-1 font-mono">{suggestion.score.toFixed(2)}</td>
+                            <td className="px-2 py-1 font-mono">{suggestion.duplicate.name}</td>
+                            <td className="px-2 py-1 font-mono">{suggestion.canonical.name}</td>
+                            <td className="px-2 py-1 text-muted-foreground" title={`matched ${suggestion.matched.join(' ~ ')}`}>{suggestion.reason}</td>
+                            <td className="px-2 py-1 text-right whitespace-nowrap">
+                              {canEdit && (
+                                <>
+                                  <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => previewSuggestion(suggestion)} disabled={preview.isPending}>
+                                    Preview
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-6 px-1"
+                                    onClick={() => apply.mutate({ id: suggestion.duplicate.id, canonicalId: suggestion.canonical.id })}
+                                    disabled={apply.isPending}
+                                    title="Accept: link as duplicate"
+                                  >
+                                    <Check className="w-3 h-3" />
+                                  </Button>
+                                </>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm">Link a duplicate</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {!canEdit && <p className="text-xs text-muted-foreground">Sign in as an editor to preview and change links.</p>}
+                <datalist id="duplicate-names">
+                  {nodes.map(n => <option key={n.id} value={n.name} />)}
+                </datalist>
+                <div className="flex flex-wrap items-end gap-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="duplicate-name" className="text-xs">Duplicate</Label>
+                    <Input id="duplicate-name" list="duplicate-names" value={duplicateName} onChange={(e) => setDuplicateName(e.target.value)} className="h-8 w-72 text-xs font-mono" />
+                  </div>
+                  <ArrowRight className="w-4 h-4 mb-2 text-muted-foreground" />
+                  <div className="space-y-1">
+                    <Label htmlFor="canonical-name" className="text-xs">Canonical (empty to unlink)</Label>
+                    <Input id="canonical-name" list="duplicate-names" value={canonicalName} onChange={(e) => setCanonicalName(e.target.value)} className="h-8 w-72 text-xs font-mono" />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Selection</Label>
+                    <Select value={mode} onValueChange={(value) => setMode(value as typeof mode)}>
+                      <SelectTrigger className="h-8 w-28"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {PREVIEW_MODES.map(m => <SelectItem key={m} value={m}>{m}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button size="sm" className="h-8" disabled={!canEdit || !pending || preview.isPending} onClick={() => pending && preview.mutate(pending)}>
+                    {preview.isPending ? 'Previewing…' : 'Preview'}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    className="h-8"
+                    disabled={!canEdit || !shown || shown.blocking || apply.isPending}
+                    onClick={() => pending && apply.mutate(pending)}
+                  >
+                    {canonical ? 'Link' : 'Unlink'}
+                  </Button>
+                </div>
+                {duplicateName.trim() && !duplicate && <p className="text-xs text-red-500">No {entityType} named "{duplicateName.trim()}"</p>}
+                {canonical === undefined && <p className="text-xs text-red-500">No {entityType} named "{canonicalName.trim()}"</p>}
+                {duplicate?.duplicateOf && (
+                  <p className="text-xs text-muted-foreground">
+                    Currently a duplicate of <span className="font-mono">{byId.get(duplicate.duplicateOf)?.name ?? duplicate.duplicateOf}</span>
+                  </p>
+                )}
+
+                {shown && (
+                  <div className="space-y-3 border-t border-border pt-3">
+                    {shown.problems.map(problem => (
+                      <div key={problem.kind} className={`text-xs ${problem.blocking ? 'text-red-500' : 'text-amber-600 dark:text-amber-400'}`}>
+                        <p>{problem.message}</p>
+                        {problem.path && <p className="font-mono text-[11px] text-muted-foreground">{problem.path.join(problem.kind === 'dependents' ? ', ' : ' → ')}</p>}
+                        {problem.suggestedCanonicalId && byId.get(problem.suggestedCanonicalId) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-6 mt-1"
+                            onClick={() => {
+                              const root = byId.get(problem.suggestedCanonicalId!)!;
+                              setCanonicalName(root.name);
+                              preview.mutate({ id: shown.id, canonicalId: root.id });
+                            }}
+                          >
+                            Link to {byId.get(problem.suggestedCanonicalId)!.name} instead
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                    <PreviewResult preview={shown} />
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-2 flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="text-sm">{nodes.filter(n => n.duplicateOf).length} linked {entityType}s</CardTitle>
+                <Input value={filter} onChange={(e) => setFilter(e.target.value)} placeholder="Filter" className="h-7 w-48 text-xs" />
+              </CardHeader>
+              <CardContent>
+                <div className="max-h-96 overflow-y-auto border border-border rounded">
+                  <table className="w-full text-xs">
+                    <thead className="sticky top-0 bg-muted">
+                      <tr className="text-left">
+                        <th className="px-2 py-1 font-medium">Duplicate</th>
+                        <th className="px-2 py-1 font-medium">Canonical</th>
+                        <th className="px-2 py-1" />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {links.map(node => (
+                        <tr key={node.id} className="border-t border-border">
+                          <td className="px-2 py-1 font-mono">{node.name}</td>
+                          <td className="px-2 py-1 font-mono">{byId.get(node.duplicateOf!)?.name ?? node.duplicateOf}</td>
+                          <td className="px-2 py-1 text-right">
+                            {canEdit && (
+                              <Button variant="ghost" size="sm" className="h-6 px-1" onClick={() => startUnlink(node.name)} title="Preview unlinking">
+                                <Unlink className="w-3 h-3" />
+                              </Button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,288 @@
+import { useMemo, useState } from 'react';
+import { Link, useLocation, useSearch } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowLeft, RefreshCw } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import ThemeToggle from '@/components/ThemeToggle';
+
+export type ErrorClassification = 'benign' | 'invalid';
+
+export interface ExceptionTypeCount {
+  exceptionType: string;
+  classification: ErrorClassification;
+  count: number;
+  trials: string[];
+}
+
+export interface JobErrors {
+  jobId: string;
+  jobName: string;
+  jobStatus: string | null;
+  modelName: string | null;
+  agentName: string | null;
+  benchmarkName: string | null;
+  sandboxConfig: string;
+  createdAt: string;
+  totalErrors: number;
+  invalidErrors: number;
+  benignErrors: number;
+  exceptions: ExceptionTypeCount[];
+}
+
+interface ErrorGroup {
+  key: string;
+  jobCount: number;
+  total: number;
+  counts: Record<string, number>;
+}
+
+interface ErrorBreakdown {
+  filters: { benchmark?: string; agent?: string; since?: string };
+  jobCount: number;
+  jobsWithErrors: number;
+  totalErrors: number;
+  invalidErrors: number;
+  benignErrors: number;
+  exceptions: Array<ExceptionTypeCount & { jobCount: number }>;  // trials are "<jobId>/<trialName>"
+  byBenchmark: ErrorGroup[];
+  bySandboxConfig: ErrorGroup[];
+}
+
+export const CLASSIFICATION_CLASSES: Record<ErrorClassification, string> = {
+  benign: 'bg-muted/50 text-muted-foreground border-muted-foreground/20',
+  invalid: 'bg-rose-500/15 text-rose-600 dark:text-rose-400 border-rose-500/30',
+};
+
+// Exception types beyond this many are folded into "other" so the stacks stay readable
+const MAX_STACKED_TYPES = 8;
+const MAX_BARS = 25;
+const OTHER_KEY = 'other';
+
+const SERIES_COLORS = [
+  'hsl(var(--chart-1))',
+  'hsl(var(--chart-2))',
+  'hsl(var(--chart-3))',
+  'hsl(var(--chart-4))',
+  'hsl(var(--chart-5))',
+  'hsl(0 72% 51%)',
+  'hsl(330 81% 60%)',
+  'hsl(173 80% 40%)',
+];
+
+function StackedErrorChart({
+  groups,
+  types,
+  config,
+}: {
+  groups: ErrorGroup[];
+  types: string[];
+  config: ChartConfig;
+}) {
+  // Series keys are positional (t0, t1, …) since exception type names are not valid CSS identifiers
+  const data = groups.slice(0, MAX_BARS).map(group => {
+    const row: Record<string, string | number> = { key: group.key };
+    let other = 0;
+    for (const [type, count] of Object.entries(group.counts)) {
+      const index = types.indexOf(type);
+      if (index === -1) other += count;
+      else row[`t${index}`] = count;
+    }
+    if (other > 0) row[OTHER_KEY] = other;
+    return row;
+  });
+  const seriesKeys = Object.keys(config);
+
+  if (data.length === 0) {
+    return <p className="text-sm text-muted-foreground">No jobs match these filters.</p>;
+  }
+
+  return (
+    <ChartContainer config={config} className="aspect-auto h-[360px] w-full">
+      <BarChart data={data} margin={{ left: 8, right: 8, bottom: 72 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="key" angle={-35} textAnchor="end" interval={0} height={80} tickLine={false} />
+        <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <ChartLegend verticalAlign="top" content={<ChartLegendContent />} />
+        {seriesKeys.map(key => (
+          <Bar key={key} dataKey={key} stackId="errors" fill={`var(--color-${key})`} />
+        ))}
+      </BarChart>
+    </ChartContainer>
+  );
+}
+
+function TrialLinks({ trials }: { trials: string[] }) {
+  return (
+    <ul className="mt-1 ml-4 space-y-0.5 font-mono text-[11px] text-muted-foreground">
+      {trials.map(entry => {
+        const slash = entry.indexOf('/');
+        const jobId = entry.slice(0, slash);
+        return (
+          <li key={entry}>
+            <Link href={`/jobs/${jobId}`} className="hover:underline hover:text-foreground">
+              {entry.slice(slash + 1)}
+            </Link>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+export default function ErrorsPage() {
+  const search = useSearch();
+  const [, navigate] = useLocation();
+  const params = new URLSearchParams(search);
+  const [benchmark, setBenchmark] = useState(params.get('benchmark') ?? '');
+  const [agent, setAgent] = useState(params.get('agent') ?? '');
+  const [since, setSince] = useState(params.get('since') ?? '');
+
+  const { data, isLoading, isFetching, error, refetch } = useQuery<ErrorBreakdown>({
+    queryKey: [`/api/errors${search ? `?${search}` : ''}`],
+  });
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    const next = new URLSearchParams();
+    if (benchmark.trim()) next.set('benchmark', benchmark.trim());
+    if (agent.trim()) next.set('agent', agent.trim());
+    if (since) next.set('since', since);
+    const query = next.toString();
+    navigate(query ? `/errors?${query}` : '/errors');
+  };
+
+  // The most frequent exception types get their own series; the rest stack as "other"
+  const { stackedTypes, chartConfig } = useMemo(() => {
+    const exceptions = data?.exceptions ?? [];
+    const stackedTypes = exceptions.slice(0, MAX_STACKED_TYPES).map(e => e.exceptionType);
+    const chartConfig: ChartConfig = {};
+    stackedTypes.forEach((type, index) => {
+      chartConfig[`t${index}`] = { label: type, color: SERIES_COLORS[index % SERIES_COLORS.length] };
+    });
+    if (exceptions.length > MAX_STACKED_TYPES) {
+      chartConfig[OTHER_KEY] = { label: 'Other', color: 'hsl(var(--muted-foreground))' };
+    }
+    return { stackedTypes, chartConfig };
+  }, [data]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-20 border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-14 sm:h-16 gap-2 sm:gap-4">
+            <div className="flex items-center gap-2 sm:gap-4 min-w-0">
+              <Link href="/" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground" data-testid="link-back">
+                <ArrowLeft className="w-4 h-4" />
+                Leaderboard
+              </Link>
+              <h1 className="text-lg sm:text-2xl font-bold text-foreground truncate">Error Breakdown</h1>
+            </div>
+            <div className="flex items-center gap-1 sm:gap-2 flex-shrink-0">
+              <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+                <RefreshCw className={`w-4 h-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+              <ThemeToggle />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="px-3 sm:px-6 lg:px-8 py-4 sm:py-8 space-y-6">
+        <form onSubmit={applyFilters} className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="errors-benchmark" className="text-xs">Benchmark</Label>
+            <Input id="errors-benchmark" value={benchmark} onChange={(e) => setBenchmark(e.target.value)} placeholder="Any" className="h-8 w-56" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="errors-agent" className="text-xs">Agent</Label>
+            <Input id="errors-agent" value={agent} onChange={(e) => setAgent(e.target.value)} placeholder="Any" className="h-8 w-56" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="errors-since" className="text-xs">Created since</Label>
+            <Input id="errors-since" type="date" value={since} onChange={(e) => setSince(e.target.value)} className="h-8 w-40" />
+          </div>
+          <Button type="submit" size="sm">Apply</Button>
+        </form>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-24">
+            <RefreshCw className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : error || !data ? (
+          <p className="text-sm text-red-500">{error instanceof Error ? error.message : 'Failed to load error breakdown'}</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="outline">{data.jobCount} jobs</Badge>
+              <Badge variant="outline">{data.jobsWithErrors} with exceptions</Badge>
+              <Badge variant="outline" className={CLASSIFICATION_CLASSES.invalid}>{data.invalidErrors} invalid</Badge>
+              <Badge variant="outline" className={CLASSIFICATION_CLASSES.benign}>{data.benignErrors} benign</Badge>
+            </div>
+
+            <div className="grid gap-6 xl:grid-cols-2">
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-base">By benchmark</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <StackedErrorChart groups={data.byBenchmark} types={stackedTypes} config={chartConfig} />
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-base">By sandbox config</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <StackedErrorChart groups={data.bySandboxConfig} types={stackedTypes} config={chartConfig} />
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">Exception types</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {data.exceptions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No exceptions recorded.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {data.exceptions.map(e => (
+                      <details key={e.exceptionType} className="text-xs">
+                        <summary className="cursor-pointer select-none">
+                          <span className="font-mono">{e.exceptionType}</span>
+                          <span className={`ml-2 inline-flex items-center rounded-md border px-1.5 py-0.5 text-[10px] font-semibold ${CLASSIFICATION_CLASSES[e.classification]}`}>
+                            {e.classification}
+                          </span>
+                          <span className="ml-2 text-muted-foreground">
+                            {e.count} trial{e.count !== 1 ? 's' : ''} in {e.jobCount} job{e.jobCount !== 1 ? 's' : ''}
+                          </span>
+                        </summary>
+                        <TrialLinks trials={e.trials} />
+                      </details>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,291 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'wouter';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { ArrowLeft, Download, RefreshCw } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import ThemeToggle from '@/components/ThemeToggle';
+import UserMenu from '@/components/UserMenu';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import {
+  EVAL_REQUEST_PRIORITIES,
+  EVAL_REQUEST_STATES,
+  type EvalRequest,
+  type EvalRequestPriority,
+  type EvalRequestState,
+  type EvalRequestUpdate,
+  type TrackedEvalRequest,
+} from '@shared/evalRequests';
+
+const STATE_CLASSES: Record<EvalRequestState, string> = {
+  open: 'bg-violet-500/15 text-violet-600 dark:text-violet-400 border-violet-500/30',
+  running: 'bg-blue-500/15 text-blue-600 dark:text-blue-400 border-blue-500/30',
+  fulfilled: 'bg-emerald-500/15 text-emerald-600 dark:text-emerald-400 border-emerald-500/30',
+  cancelled: 'bg-muted text-muted-foreground border-border',
+};
+
+const PRIORITY_CLASSES: Record<EvalRequestPriority, string> = {
+  high: 'text-rose-600 dark:text-rose-400 font-semibold',
+  normal: 'text-foreground',
+  low: 'text-muted-foreground',
+};
+
+// State filter choices: "active" is what still needs someone's attention
+const STATE_FILTERS: Record<string, readonly EvalRequestState[]> = {
+  active: ['open', 'running'],
+  ...Object.fromEntries(EVAL_REQUEST_STATES.map(state => [state, [state]])),
+  all: EVAL_REQUEST_STATES,
+};
+
+const formatTime = (ts: string) => new Date(ts).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/** Assignee field that saves on Enter or blur. */
+function AssigneeInput({ request, onSave }: { request: TrackedEvalRequest; onSave: (assignee: string | null) => void }) {
+  const [draft, setDraft] = useState(request.assignee ?? '');
+  const save = () => {
+    const next = draft.trim() || null;
+    if (next !== request.assignee) onSave(next);
+  };
+  return (
+    <Input
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={save}
+      onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+      placeholder="Unassigned"
+      className="h-7 w-32 text-xs"
+    />
+  );
+}
+
+/**
+ * The eval request queue: missing cells filed from the Missing Eval tab, with
+ * the job that picked each one up. Editors change priority and assignee or
+ * cancel here; anyone can export the selection (or the filtered list) as a
+ * launch manifest for the cluster scripts.
+ */
+export default function EvalRequestsPage() {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const canEdit = can('editor');
+  const [stateFilter, setStateFilter] = useState('active');
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const states = STATE_FILTERS[stateFilter];
+  const { data = [], isLoading, isFetching, error, refetch } = useQuery<TrackedEvalRequest[]>({
+    queryKey: [`/api/eval-requests?states=${states.join(',')}`],
+    staleTime: 0,
+  });
+
+  const requests = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) return data;
+    return data.filter(r =>
+      [r.modelName, r.agentName, r.benchmarkName, r.assignee ?? '', r.requestedBy, r.notes ?? ''].some(v => v.toLowerCase().includes(query)));
+  }, [data, search]);
+
+  const update = useMutation({
+    mutationFn: async ({ id, changes }: { id: string; changes: EvalRequestUpdate }) =>
+      (await apiRequest('PATCH', `/api/eval-requests/${id}`, changes)).json() as Promise<EvalRequest>,
+    onSuccess: () => queryClient.invalidateQueries({ predicate: q => String(q.queryKey[0]).startsWith('/api/eval-requests') }),
+    onError: (err: Error) => toast({ title: 'Failed to update request', description: err.message, variant: 'destructive' }),
+  });
+
+  const shownSelected = requests.filter(r => selected.has(r.id));
+  const toggle = (id: string, checked: boolean) => setSelected(prev => {
+    const next = new Set(prev);
+    if (checked) next.add(id);
+    else next.delete(id);
+    return next;
+  });
+  // The selected rows, or everything the state filter shows
+  const manifestQuery = shownSelected.length > 0
+    ? `ids=${shownSelected.map(r => r.id).join(',')}`
+    : `states=${states.join(',')}`;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-20 border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-14 sm:h-16 gap-2 sm:gap-4">
+            <div className="flex items-center gap-2 sm:gap-4 min-w-0">
+              <Link href="/" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground" data-testid="link-back">
+                <ArrowLeft className="w-4 h-4" />
+                Leaderboard
+              </Link>
+              <h1 className="text-lg sm:text-2xl font-bold text-foreground truncate">Eval Requests</h1>
+            </div>
+            <div className="flex items-center gap-1 sm:gap-2 flex-shrink-0">
+              <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+                <RefreshCw className={`w-4 h-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+              <UserMenu />
+              <ThemeToggle />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="px-3 sm:px-6 lg:px-8 py-4 sm:py-8 space-y-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label className="text-xs">State</Label>
+            <Select value={stateFilter} onValueChange={(value) => { setStateFilter(value); setSelected(new Set()); }}>
+              <SelectTrigger className="h-8 w-36"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {Object.keys(STATE_FILTERS).map(filter => <SelectItem key={filter} value={filter}>{filter}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="eval-requests-search" className="text-xs">Search</Label>
+            <Input
+              id="eval-requests-search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Model, agent, benchmark, assignee"
+              className="h-8 w-72"
+            />
+          </div>
+          <div className="flex items-center gap-2 h-8 ml-auto">
+            <span className="text-xs text-muted-foreground">
+              Manifest of {shownSelected.length > 0 ? `${shownSelected.length} selected` : `all ${stateFilter}`}:
+            </span>
+            <Button variant="outline" size="sm" asChild>
+              <a href={`/api/eval-requests/manifest?format=json&${manifestQuery}`} download data-testid="link-manifest-json">
+                <Download className="w-4 h-4 mr-2" />
+                JSON
+              </a>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <a href={`/api/eval-requests/manifest?format=shell&${manifestQuery}`} download data-testid="link-manifest-shell">
+                <Download className="w-4 h-4 mr-2" />
+                Shell
+              </a>
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-24">
+            <RefreshCw className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-500">{error instanceof Error ? error.message : 'Failed to load eval requests'}</p>
+        ) : requests.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {data.length ? 'No requests match.' : 'No requests. Select missing cells on the Missing Eval tab to file some.'}
+          </p>
+        ) : (
+          <Card>
+            <CardContent className="pt-4 overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-muted-foreground">
+                    <th className="px-2 py-1 w-6">
+                      <Checkbox
+                        checked={shownSelected.length === requests.length}
+                        onCheckedChange={(checked) => setSelected(checked === true ? new Set(requests.map(r => r.id)) : new Set())}
+                        aria-label="Select all"
+                      />
+                    </th>
+                    <th className="px-2 py-1 font-medium">Cell</th>
+                    <th className="px-2 py-1 font-medium">Priority</th>
+                    <th className="px-2 py-1 font-medium">Assignee</th>
+                    <th className="px-2 py-1 font-medium">State</th>
+                    <th className="px-2 py-1 font-medium">Requested</th>
+                    <th className="px-2 py-1 font-medium">Notes</th>
+                    {canEdit && <th className="px-2 py-1" />}
+                  </tr>
+                </thead>
+                <tbody>
+                  {requests.map(request => (
+                    <tr key={request.id} className="border-t border-border align-top">
+                      <td className="px-2 py-1.5">
+                        <Checkbox checked={selected.has(request.id)} onCheckedChange={(checked) => toggle(request.id, checked === true)} />
+                      </td>
+                      <td className="px-2 py-1.5">
+                        <p className="font-mono break-all">{request.modelName}</p>
+                        <p className="text-muted-foreground">{request.benchmarkName} · {request.agentName}</p>
+                      </td>
+                      <td className="px-2 py-1.5">
+                        {canEdit ? (
+                          <Select
+                            value={request.priority}
+                            onValueChange={(value) => update.mutate({ id: request.id, changes: { priority: value as EvalRequestPriority } })}
+                          >
+                            <SelectTrigger className={`h-7 w-24 text-xs ${PRIORITY_CLASSES[request.priority]}`}><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                              {EVAL_REQUEST_PRIORITIES.map(p => <SelectItem key={p} value={p}>{p}</SelectItem>)}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <span className={PRIORITY_CLASSES[request.priority]}>{request.priority}</span>
+                        )}
+                      </td>
+                      <td className="px-2 py-1.5">
+                        {canEdit ? (
+                          <AssigneeInput
+                            key={request.assignee ?? ''}
+                            request={request}
+                            onSave={(assignee) => update.mutate({ id: request.id, changes: { assignee } })}
+                          />
+                        ) : (
+                          request.assignee ?? <span className="text-muted-foreground">—</span>
+                        )}
+                      </td>
+                      <td className="px-2 py-1.5">
+                        <div className="flex flex-col items-start gap-1">
+                          <Badge variant="outline" className={STATE_CLASSES[request.state]}>{request.state}</Badge>
+                          {request.job && (
+                            <Link href={`/jobs/${request.job.jobId}`} className="text-primary hover:underline">
+                              {request.job.status ?? 'job'}
+                              {request.job.accuracy !== null && ` · ${request.job.accuracy.toFixed(1)}%`}
+                            </Link>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-2 py-1.5 whitespace-nowrap">
+                        {request.requestedBy}
+                        <p className="text-muted-foreground">{formatTime(request.createdAt)}</p>
+                      </td>
+                      <td className="px-2 py-1.5 max-w-64 whitespace-pre-wrap break-words">{request.notes ?? ''}</td>
+                      {canEdit && (
+                        <td className="px-2 py-1.5 text-right">
+                          {request.state === 'cancelled' ? (
+                            <Button variant="ghost" size="sm" className="h-7" onClick={() => update.mutate({ id: request.id, changes: { cancelled: false } })}>
+                              Reopen
+                            </Button>
+                          ) : request.state !== 'fulfilled' && (
+                            <Button variant="ghost" size="sm" className="h-7" onClick={() => update.mutate({ id: request.id, changes: { cancelled: true } })}>
+                              Cancel
+                            </Button>
+                          )}
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
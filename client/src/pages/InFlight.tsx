@@ -0,0 +1,203 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { AlertTriangle, ArrowLeft, RefreshCw } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import ThemeToggle from '@/components/ThemeToggle';
+import UserMenu from '@/components/UserMenu';
+import type { InFlightJob, InFlightJobs } from '@shared/inFlight';
+
+// The list refreshes itself; trials land continuously during a sweep
+const REFRESH_INTERVAL_MS = 60_000;
+
+function formatHours(hours: number | null): string {
+  if (hours === null) return '—';
+  if (hours < 1) return `${Math.max(0, Math.round(hours * 60))}m`;
+  if (hours < 48) return `${Math.floor(hours)}h ${Math.round((hours % 1) * 60)}m`;
+  return `${Math.round(hours / 24)}d`;
+}
+
+const formatTime = (ts: string | null) => (ts ? new Date(ts).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }) : '—');
+
+function ProgressCell({ job }: { job: InFlightJob }) {
+  return (
+    <div className="min-w-40 space-y-1">
+      <Progress value={job.progress === null ? 0 : job.progress * 100} className={`h-2 ${job.stalled ? '[&>div]:bg-amber-500' : ''}`} />
+      <p className="text-[11px] text-muted-foreground font-mono">
+        {job.completedTrials}/{job.totalTrials ?? '?'}
+        {job.progress !== null && ` · ${(job.progress * 100).toFixed(0)}%`}
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Every Pending/Started job: progress, throughput, ETA and time since the
+ * last finished trial. Started jobs without progress for the chosen number
+ * of hours are flagged as stalled and listed first.
+ */
+export default function InFlightPage() {
+  const [stalledHours, setStalledHours] = useState(2);
+  const [stalledOnly, setStalledOnly] = useState(false);
+  const [search, setSearch] = useState('');
+
+  const { data, isLoading, isFetching, error, refetch } = useQuery<InFlightJobs>({
+    queryKey: [`/api/jobs/in-flight?stalledHours=${stalledHours}`],
+    refetchInterval: REFRESH_INTERVAL_MS,
+    staleTime: 0,
+  });
+
+  const jobs = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return (data?.jobs ?? []).filter(job =>
+      (!stalledOnly || job.stalled)
+      && (!query || [job.modelName, job.agentName, job.benchmarkName, job.username ?? '', job.slurmJobId ?? ''].some(v => v.toLowerCase().includes(query))));
+  }, [data, stalledOnly, search]);
+
+  const counts = useMemo(() => {
+    const all = data?.jobs ?? [];
+    return {
+      started: all.filter(j => j.status === 'Started').length,
+      pending: all.filter(j => j.status === 'Pending').length,
+      stalled: all.filter(j => j.stalled).length,
+      trialsPerHour: all.reduce((sum, j) => sum + (j.stalled ? 0 : j.trialsPerHour ?? 0), 0),
+    };
+  }, [data]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-20 border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-14 sm:h-16 gap-2 sm:gap-4">
+            <div className="flex items-center gap-2 sm:gap-4 min-w-0">
+              <Link href="/" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground" data-testid="link-back">
+                <ArrowLeft className="w-4 h-4" />
+                Leaderboard
+              </Link>
+              <h1 className="text-lg sm:text-2xl font-bold text-foreground truncate">In-flight Jobs</h1>
+            </div>
+            <div className="flex items-center gap-1 sm:gap-2 flex-shrink-0">
+              <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+                <RefreshCw className={`w-4 h-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+              <UserMenu />
+              <ThemeToggle />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="px-3 sm:px-6 lg:px-8 py-4 sm:py-8 space-y-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="in-flight-search" className="text-xs">Search</Label>
+            <Input
+              id="in-flight-search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Model, agent, benchmark, user, Slurm id"
+              className="h-8 w-72"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="stalled-hours" className="text-xs">Stalled after (hours)</Label>
+            <Input
+              id="stalled-hours"
+              type="number"
+              min={0.25}
+              step={0.25}
+              value={stalledHours}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                if (value > 0) setStalledHours(value);
+              }}
+              className="h-8 w-24"
+            />
+          </div>
+          <div className="flex items-center gap-2 h-8">
+            <Checkbox id="stalled-only" checked={stalledOnly} onCheckedChange={(checked) => setStalledOnly(checked === true)} />
+            <Label htmlFor="stalled-only" className="text-xs cursor-pointer">Stalled only</Label>
+          </div>
+          {data && (
+            <div className="flex flex-wrap gap-4 text-xs text-muted-foreground h-8 items-center">
+              <span>{counts.started} started</span>
+              <span>{counts.pending} pending</span>
+              <span className={counts.stalled > 0 ? 'text-amber-600 dark:text-amber-400' : undefined}>{counts.stalled} stalled</span>
+              <span>{Math.round(counts.trialsPerHour)} trials/h overall</span>
+              <span>as of {formatTime(data.generatedAt)}</span>
+            </div>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-24">
+            <RefreshCw className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-500">{error instanceof Error ? error.message : 'Failed to load in-flight jobs'}</p>
+        ) : jobs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{data?.jobs.length ? 'No jobs match.' : 'No jobs are pending or running.'}</p>
+        ) : (
+          <Card>
+            <CardContent className="pt-4 overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-muted-foreground">
+                    <th className="px-2 py-1 font-medium">Job</th>
+                    <th className="px-2 py-1 font-medium">Status</th>
+                    <th className="px-2 py-1 font-medium">Progress</th>
+                    <th className="px-2 py-1 font-medium">Trials/h</th>
+                    <th className="px-2 py-1 font-medium">ETA</th>
+                    <th className="px-2 py-1 font-medium">Last progress</th>
+                    <th className="px-2 py-1 font-medium">Started</th>
+                    <th className="px-2 py-1 font-medium">User</th>
+                    <th className="px-2 py-1 font-medium">Slurm</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {jobs.map(job => (
+                    <tr key={job.jobId} className={`border-t border-border align-top ${job.stalled ? 'bg-amber-500/5' : ''}`}>
+                      <td className="px-2 py-1.5">
+                        <Link href={`/jobs/${job.jobId}`} className="font-mono text-primary hover:underline break-all">{job.modelName}</Link>
+                        <p className="text-muted-foreground">{job.benchmarkName} · {job.agentName}</p>
+                      </td>
+                      <td className="px-2 py-1.5">
+                        <div className="flex flex-col items-start gap-1">
+                          <Badge variant={job.status === 'Started' ? 'default' : 'secondary'}>{job.status}</Badge>
+                          {job.stalled && (
+                            <Badge variant="outline" className="gap-1 border-amber-500/40 text-amber-600 dark:text-amber-400">
+                              <AlertTriangle className="w-3 h-3" />
+                              Stalled
+                            </Badge>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-2 py-1.5"><ProgressCell job={job} /></td>
+                      <td className="px-2 py-1.5 font-mono">{job.trialsPerHour === null ? '—' : job.trialsPerHour.toFixed(1)}</td>
+                      <td className="px-2 py-1.5" title={job.etaAt ?? undefined}>
+                        {job.stalled || !job.etaAt ? '—' : formatTime(job.etaAt)}
+                      </td>
+                      <td className="px-2 py-1.5" title={job.lastProgressAt ?? undefined}>
+                        {job.hoursSinceProgress === null ? '—' : `${formatHours(job.hoursSinceProgress)} ago`}
+                      </td>
+                      <td className="px-2 py-1.5">{formatTime(job.startedAt ?? job.createdAt)}</td>
+                      <td className="px-2 py-1.5">{job.username ?? '—'}</td>
+                      <td className="px-2 py-1.5 font-mono">{job.slurmJobId ?? '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
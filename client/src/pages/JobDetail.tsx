@@ -0,0 +1,594 @@
+import { useState } from 'react';
+import { Link, useLocation, useParams } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowLeft, ExternalLink, RefreshCw, StickyNote, AlertTriangle, GitCompare } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import ThemeToggle from '@/components/ThemeToggle';
+import { CLASSIFICATION_CLASSES, type ErrorClassification, type JobErrors } from '@/pages/Errors';
+
+export interface EvalStatsBucket {
+  key: string;
+  count: number;
+  trials: string[];
+}
+
+export interface JobDetail {
+  jobId: string;
+  jobName: string;
+  jobStatus: string | null;
+  modelId: string;
+  modelName: string | null;
+  agentId: string;
+  agentName: string | null;
+  benchmarkId: string;
+  benchmarkName: string | null;
+  username: string | null;
+  slurmJobId: string | null;
+  gitCommitId: string | null;
+  packageVersion: string | null;
+  hfTracesLink: string | null;
+  notes: string | null;
+  isOverlong: boolean;
+  createdAt: string;
+  startedAt: string | null;
+  endedAt: string | null;
+  nTrials: number | null;
+  nRepEval: number | null;
+  completedTrials: number | null;
+  config: unknown;
+  metrics: unknown;
+  evals: Array<{
+    name: string;
+    nTrials: number | null;
+    nErrors: number | null;
+    rewardStats: EvalStatsBucket[];
+    exceptionStats: EvalStatsBucket[];
+  }>;
+}
+
+export interface RelatedJob {
+  jobId: string;
+  jobName: string;
+  jobStatus: string | null;
+  modelId: string;
+  modelName: string | null;
+  createdAt: string;
+  endedAt: string | null;
+  accuracy: number | null;
+}
+
+export interface RelatedJobs {
+  siblings: RelatedJob[];
+  baseModel: RelatedJob[];
+}
+
+export interface MetricEstimate {
+  value: number;
+  standardError: number;
+  ciLow: number;
+  ciHigh: number;
+}
+
+export interface JobTrialMetrics {
+  jobId: string;
+  nTasks: number;
+  nTrials: number;
+  binaryRewards: boolean;
+  kMax: number;
+  meanReward: MetricEstimate | null;
+  passAtK: Array<{ k: number; estimate: MetricEstimate }>;
+}
+
+export type TrialOutcome = 'solved' | 'failed' | 'errored' | 'pending';
+
+export interface JobTrials {
+  jobId: string;
+  jobStatus: string | null;
+  summary: {
+    nTrials: number | null;
+    recorded: number;
+    solved: number;
+    failed: number;
+    errored: number;
+    pending: number;
+  };
+  trials: Array<{
+    id: string;
+    trialName: string;
+    trialUri: string;
+    taskChecksum: string;
+    taskName: string | null;
+    taskInstruction: string | null;
+    taskSource: string | null;
+    reward: number | null;
+    outcome: TrialOutcome;
+    startedAt: string | null;
+    endedAt: string | null;
+    environmentSetupStartedAt: string | null;
+    environmentSetupEndedAt: string | null;
+    agentSetupStartedAt: string | null;
+    agentSetupEndedAt: string | null;
+    agentExecutionStartedAt: string | null;
+    agentExecutionEndedAt: string | null;
+    verifierStartedAt: string | null;
+    verifierEndedAt: string | null;
+    exceptionInfo: unknown;
+  }>;
+}
+
+const OUTCOME_CLASSES: Record<TrialOutcome, string> = {
+  solved: 'bg-green-500/15 text-green-600 dark:text-green-400 border-green-500/30',
+  failed: 'bg-muted/50 text-muted-foreground border-muted-foreground/20',
+  errored: 'bg-rose-500/15 text-rose-600 dark:text-rose-400 border-rose-500/30',
+  pending: 'bg-blue-500/15 text-blue-500 border-blue-500/30',
+};
+
+// Same Pacific-time rendering the leaderboard uses for its timestamp columns
+function formatPT(ts: string | null | undefined): string {
+  if (!ts) return '—';
+  const d = new Date(ts);
+  if (isNaN(d.getTime())) return ts;
+  return d.toLocaleString('en-CA', {
+    timeZone: 'America/Los_Angeles',
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit',
+    hour12: false,
+  }).replace(',', '').replace(/\b24:/, '00:');
+}
+
+function formatDuration(start: string | null, end: string | null): string {
+  if (!start || !end) return '—';
+  const ms = new Date(end).getTime() - new Date(start).getTime();
+  if (isNaN(ms) || ms < 0) return '—';
+  const s = Math.round(ms / 1000);
+  if (s < 60) return `${s}s`;
+  const m = Math.floor(s / 60);
+  if (m < 60) return `${m}m ${s % 60}s`;
+  return `${Math.floor(m / 60)}h ${m % 60}m`;
+}
+
+// metrics is stored as [{ name, value }, ...]; fall back to raw JSON for anything else
+function metricEntries(metrics: unknown): Array<[string, string]> | null {
+  if (!Array.isArray(metrics)) return null;
+  return metrics
+    .filter((m): m is { name: string; value?: unknown } => !!m && typeof m === 'object' && typeof m.name === 'string')
+    .map(m => [m.name, typeof m.value === 'number' ? String(m.value) : JSON.stringify(m.value)]);
+}
+
+// exception_info normally carries exception_type; otherwise show the start of the raw JSON
+function exceptionLabel(exceptionInfo: unknown): string {
+  if (!exceptionInfo) return '';
+  const type = typeof exceptionInfo === 'object' ? (exceptionInfo as { exception_type?: unknown }).exception_type : undefined;
+  return typeof type === 'string' ? type : JSON.stringify(exceptionInfo).slice(0, 120);
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex flex-col gap-0.5 min-w-0">
+      <span className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">{label}</span>
+      <span className="text-sm text-foreground break-words">{children}</span>
+    </div>
+  );
+}
+
+function RelatedJobList({ title, jobs, currentId }: { title: string; jobs: RelatedJob[]; currentId: string }) {
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium text-foreground">{title}</p>
+      {jobs.length === 0 ? (
+        <p className="text-xs text-muted-foreground">None.</p>
+      ) : (
+        <ul className="space-y-1">
+          {jobs.map(rel => (
+            <li key={rel.jobId} className="flex items-center justify-between gap-2 text-xs">
+              <span className="min-w-0 truncate">
+                <span className="font-mono">{formatPT(rel.endedAt ?? rel.createdAt)}</span>
+                <span className="ml-2 text-muted-foreground">{rel.modelName ?? rel.modelId}</span>
+                <span className="ml-2 font-mono">{rel.accuracy != null ? `${rel.accuracy.toFixed(1)}%` : (rel.jobStatus ?? '—')}</span>
+              </span>
+              <Link
+                href={`/jobs/${currentId}/diff/${rel.jobId}`}
+                className="inline-flex items-center gap-1 shrink-0 text-primary hover:underline"
+              >
+                <GitCompare className="w-3 h-3" />
+                Diff
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function BucketList({
+  title,
+  buckets,
+  emptyText,
+  classifications,
+}: {
+  title: string;
+  buckets: EvalStatsBucket[];
+  emptyText: string;
+  classifications?: Map<string, ErrorClassification>;
+}) {
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium text-foreground">{title}</p>
+      {buckets.length === 0 ? (
+        <p className="text-xs text-muted-foreground">{emptyText}</p>
+      ) : (
+        buckets.map(bucket => (
+          <details key={bucket.key} className="text-xs">
+            <summary className="cursor-pointer select-none">
+              <span className="font-mono">{bucket.key}</span>
+              {classifications?.has(bucket.key) && (
+                <span className={`ml-2 inline-flex items-center rounded-md border px-1.5 py-0.5 text-[10px] font-semibold ${CLASSIFICATION_CLASSES[classifications.get(bucket.key)!]}`}>
+                  {classifications.get(bucket.key)}
+                </span>
+              )}
+              <span className="ml-2 text-muted-foreground">{bucket.count} trial{bucket.count !== 1 ? 's' : ''}</span>
+            </summary>
+            <ul className="mt-1 ml-4 space-y-0.5 font-mono text-[11px] text-muted-foreground">
+              {bucket.trials.map(t => <li key={t}>{t}</li>)}
+            </ul>
+          </details>
+        ))
+      )}
+    </div>
+  );
+}
+
+export default function JobDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const { data: job, isLoading, error, refetch, isFetching } = useQuery<JobDetail>({
+    queryKey: [`/api/jobs/${id}`],
+  });
+  const { data: trials, isLoading: trialsLoading, error: trialsError } = useQuery<JobTrials>({
+    queryKey: [`/api/jobs/${id}/trials`],
+    enabled: !!job,
+  });
+  const { data: trialMetrics } = useQuery<JobTrialMetrics>({
+    queryKey: [`/api/jobs/${id}/metrics`],
+    enabled: !!job,
+  });
+  const { data: related } = useQuery<RelatedJobs>({
+    queryKey: [`/api/jobs/${id}/related`],
+    enabled: !!job,
+  });
+  const { data: jobErrors } = useQuery<JobErrors>({
+    queryKey: [`/api/jobs/${id}/errors`],
+    enabled: !!job,
+  });
+  const errorClassifications = new Map(jobErrors?.exceptions.map(e => [e.exceptionType, e.classification]));
+  const [, navigate] = useLocation();
+  const [compareId, setCompareId] = useState('');
+
+  const header = (
+    <header className="sticky top-0 z-20 border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+      <div className="px-4 sm:px-6 lg:px-8">
+        <div className="flex items-center justify-between h-14 sm:h-16 gap-2 sm:gap-4">
+          <div className="flex items-center gap-2 sm:gap-4 min-w-0">
+            <Link href="/" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground" data-testid="link-back">
+              <ArrowLeft className="w-4 h-4" />
+              Leaderboard
+            </Link>
+            <h1 className="text-lg sm:text-2xl font-bold text-foreground truncate" data-testid="text-job-title">
+              {job?.jobName ?? 'Job'}
+            </h1>
+          </div>
+          <div className="flex items-center gap-1 sm:gap-2 flex-shrink-0">
+            <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+            <ThemeToggle />
+          </div>
+        </div>
+      </div>
+    </header>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        {header}
+        <div className="flex items-center justify-center py-24">
+          <RefreshCw className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !job) {
+    return (
+      <div className="min-h-screen bg-background">
+        {header}
+        <main className="px-3 sm:px-6 lg:px-8 py-8">
+          <p className="text-sm text-red-500">{error instanceof Error ? error.message : 'Job not found'}</p>
+        </main>
+      </div>
+    );
+  }
+
+  const metrics = metricEntries(job.metrics);
+  const progressPct = job.nTrials && job.completedTrials != null
+    ? Math.min(100, (job.completedTrials / job.nTrials) * 100)
+    : 0;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {header}
+      <main className="px-3 sm:px-6 lg:px-8 py-4 sm:py-8 space-y-6">
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="flex flex-wrap items-center gap-2 text-base">
+              <span>{job.modelName ?? job.modelId}</span>
+              <span className="text-muted-foreground font-normal">·</span>
+              <span className="font-normal">{job.agentName ?? job.agentId}</span>
+              <span className="text-muted-foreground font-normal">·</span>
+              <span className="font-normal">{job.benchmarkName ?? job.benchmarkId}</span>
+              <Badge variant="secondary">{job.jobStatus ?? 'Unknown'}</Badge>
+              {job.isOverlong && (
+                <Badge variant="destructive" className="gap-1">
+                  <AlertTriangle className="w-3 h-3" />
+                  Overlong
+                </Badge>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-1">
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span>Trials completed</span>
+                <span className="font-mono">{job.completedTrials ?? '?'} / {job.nTrials ?? '?'}</span>
+              </div>
+              <Progress value={progressPct} />
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+              <Field label="Username">{job.username ?? '—'}</Field>
+              <Field label="Slurm Job ID"><span className="font-mono">{job.slurmJobId ?? '—'}</span></Field>
+              <Field label="Git Commit"><span className="font-mono">{job.gitCommitId ?? '—'}</span></Field>
+              <Field label="Package Version"><span className="font-mono">{job.packageVersion ?? '—'}</span></Field>
+              <Field label="Created (PT)"><span className="font-mono">{formatPT(job.createdAt)}</span></Field>
+              <Field label="Started (PT)"><span className="font-mono">{formatPT(job.startedAt)}</span></Field>
+              <Field label="Ended (PT)"><span className="font-mono">{formatPT(job.endedAt)}</span></Field>
+              <Field label="Reps / Eval"><span className="font-mono">{job.nRepEval ?? '—'}</span></Field>
+              <Field label="Job ID"><span className="font-mono text-xs">{job.jobId}</span></Field>
+              <Field label="Traces">
+                {job.hfTracesLink ? (
+                  <a href={job.hfTracesLink} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-primary hover:underline">
+                    View traces <ExternalLink className="w-3 h-3" />
+                  </a>
+                ) : '—'}
+              </Field>
+            </div>
+            {job.notes && (
+              <div className="flex items-start gap-2 text-sm rounded-md border px-3 py-2 bg-sky-500/10 text-sky-700 dark:text-sky-300 border-sky-500/30">
+                <StickyNote className="w-4 h-4 shrink-0 mt-0.5" />
+                <span className="whitespace-pre-wrap break-words">{job.notes}</span>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Metrics</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {job.metrics == null ? (
+                <p className="text-sm text-muted-foreground">No metrics recorded yet.</p>
+              ) : metrics ? (
+                <table className="w-full text-sm">
+                  <tbody>
+                    {metrics.map(([name, value]) => (
+                      <tr key={name} className="border-b border-border last:border-b-0">
+                        <td className="py-1.5 pr-4 text-muted-foreground">{name}</td>
+                        <td className="py-1.5 text-right font-mono">{value}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <pre className="text-xs font-mono whitespace-pre-wrap break-all">{JSON.stringify(job.metrics, null, 2)}</pre>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="flex flex-wrap items-center gap-2 text-base">
+                Eval Stats
+                {jobErrors && jobErrors.totalErrors > 0 && (
+                  <span className="text-xs font-normal text-muted-foreground">
+                    {jobErrors.invalidErrors} invalid · {jobErrors.benignErrors} benign
+                    {job.benchmarkName && (
+                      <Link href={`/errors?benchmark=${encodeURIComponent(job.benchmarkName)}`} className="ml-2 text-primary hover:underline">
+                        Benchmark errors
+                      </Link>
+                    )}
+                  </span>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {job.evals.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No stats recorded yet.</p>
+              ) : (
+                job.evals.map(ev => (
+                  <div key={ev.name} className="space-y-3">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-mono text-xs">{ev.name}</span>
+                      <Badge variant="outline" className="font-mono text-[10px]">n_trials {ev.nTrials ?? '?'}</Badge>
+                      <Badge variant="outline" className="font-mono text-[10px]">n_errors {ev.nErrors ?? '?'}</Badge>
+                    </div>
+                    <BucketList title="Reward stats" buckets={ev.rewardStats} emptyText="No rewards recorded." />
+                    <BucketList title="Exception stats" buckets={ev.exceptionStats} emptyText="No exceptions." classifications={errorClassifications} />
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="flex flex-wrap items-center gap-2 text-base">
+              Trial Metrics
+              {trialMetrics && (
+                <span className="text-xs font-normal text-muted-foreground">
+                  {trialMetrics.nTrials} finished trials over {trialMetrics.nTasks} tasks · 95% task-level bootstrap CIs
+                  {!trialMetrics.binaryRewards && ' · non-binary rewards'}
+                </span>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!trialMetrics ? (
+              <p className="text-sm text-muted-foreground">Loading…</p>
+            ) : trialMetrics.nTasks === 0 ? (
+              <p className="text-sm text-muted-foreground">No finished trials yet.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border text-left text-xs uppercase tracking-wide text-muted-foreground">
+                    <th className="py-1.5 pr-4">Metric</th>
+                    <th className="py-1.5 pr-4 text-right">Value</th>
+                    <th className="py-1.5 pr-4 text-right">± SE</th>
+                    <th className="py-1.5 text-right">95% CI</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[
+                    ...trialMetrics.passAtK.map(p => ({ name: `pass@${p.k}`, estimate: p.estimate })),
+                    ...(trialMetrics.meanReward ? [{ name: 'mean reward', estimate: trialMetrics.meanReward }] : []),
+                  ].map(({ name, estimate }) => (
+                    <tr key={name} className="border-b border-border last:border-b-0">
+                      <td className="py-1.5 pr-4 font-mono text-muted-foreground">{name}</td>
+                      <td className="py-1.5 pr-4 text-right font-mono">{(estimate.value * 100).toFixed(1)}%</td>
+                      <td className="py-1.5 pr-4 text-right font-mono">{(estimate.standardError * 100).toFixed(2)}</td>
+                      <td className="py-1.5 text-right font-mono">[{(estimate.ciLow * 100).toFixed(1)}, {(estimate.ciHigh * 100).toFixed(1)}]</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Compare Per-Task Results</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 lg:grid-cols-2">
+              <RelatedJobList title="Other runs of this model / agent / benchmark" jobs={related?.siblings ?? []} currentId={job.jobId} />
+              <RelatedJobList title="Base model runs (same agent / benchmark)" jobs={related?.baseModel ?? []} currentId={job.jobId} />
+            </div>
+            <form
+              className="flex items-center gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                const other = compareId.trim();
+                if (other) navigate(`/jobs/${job.jobId}/diff/${other}`);
+              }}
+            >
+              <Input
+                value={compareId}
+                onChange={(e) => setCompareId(e.target.value)}
+                placeholder="Any other job ID"
+                className="h-8 max-w-sm font-mono text-xs"
+              />
+              <Button type="submit" variant="outline" size="sm" disabled={!compareId.trim()}>
+                <GitCompare className="w-4 h-4 mr-2" />
+                Diff
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Config</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <pre className="max-h-96 overflow-auto rounded-md bg-muted/40 p-3 text-xs font-mono whitespace-pre-wrap break-all">
+              {JSON.stringify(job.config, null, 2)}
+            </pre>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="flex flex-wrap items-center gap-2 text-base">
+              Trials
+              {trials && (
+                <>
+                  <Badge variant="outline" className={OUTCOME_CLASSES.solved}>{trials.summary.solved} solved</Badge>
+                  <Badge variant="outline" className={OUTCOME_CLASSES.failed}>{trials.summary.failed} failed</Badge>
+                  <Badge variant="outline" className={OUTCOME_CLASSES.errored}>{trials.summary.errored} errored</Badge>
+                  {trials.summary.pending > 0 && (
+                    <Badge variant="outline" className={OUTCOME_CLASSES.pending}>{trials.summary.pending} pending</Badge>
+                  )}
+                </>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {trialsLoading ? (
+              <p className="text-sm text-muted-foreground">Loading trials...</p>
+            ) : trialsError || !trials ? (
+              <p className="text-sm text-red-500">{trialsError instanceof Error ? trialsError.message : 'Failed to load trials'}</p>
+            ) : trials.trials.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No trials recorded.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead className="bg-muted/50">
+                    <tr className="border-b border-border text-left uppercase tracking-wide text-muted-foreground">
+                      <th className="px-2 py-2">Task</th>
+                      <th className="px-2 py-2">Outcome</th>
+                      <th className="px-2 py-2 text-right">Reward</th>
+                      <th className="px-2 py-2 text-right">Env Setup</th>
+                      <th className="px-2 py-2 text-right">Agent</th>
+                      <th className="px-2 py-2 text-right">Verifier</th>
+                      <th className="px-2 py-2">Exception</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {trials.trials.map(trial => (
+                      <tr key={trial.id} className="border-b border-border align-top">
+                        <td className="px-2 py-1.5 max-w-[24rem]">
+                          <span className="font-mono" title={trial.taskInstruction ?? undefined}>{trial.taskName ?? trial.taskChecksum}</span>
+                          <div className="font-mono text-[10px] text-muted-foreground truncate" title={trial.trialName}>{trial.trialName}</div>
+                        </td>
+                        <td className="px-2 py-1.5">
+                          <span className={`inline-flex rounded-md border px-1.5 py-0.5 text-[10px] font-semibold ${OUTCOME_CLASSES[trial.outcome]}`}>
+                            {trial.outcome}
+                          </span>
+                        </td>
+                        <td className="px-2 py-1.5 text-right font-mono">{trial.reward ?? '—'}</td>
+                        <td className="px-2 py-1.5 text-right font-mono">{formatDuration(trial.environmentSetupStartedAt, trial.environmentSetupEndedAt)}</td>
+                        <td className="px-2 py-1.5 text-right font-mono">{formatDuration(trial.agentExecutionStartedAt, trial.agentExecutionEndedAt)}</td>
+                        <td className="px-2 py-1.5 text-right font-mono">{formatDuration(trial.verifierStartedAt, trial.verifierEndedAt)}</td>
+                        <td className="px-2 py-1.5 font-mono text-[10px] text-muted-foreground max-w-[20rem]">
+                          {exceptionLabel(trial.exceptionInfo)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+import { Link, useParams } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowLeft, ArrowRight, RefreshCw } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import ThemeToggle from '@/components/ThemeToggle';
+import type { JobDetail } from '@/pages/JobDetail';
+
+export type TaskChange =
+  | 'solved_to_unsolved'
+  | 'unsolved_to_solved'
+  | 'both_solved'
+  | 'both_unsolved'
+  | 'only_a'
+  | 'only_b';
+
+interface TaskSide {
+  trials: number;
+  solvedTrials: number;
+  passRate: number;
+  solved: boolean;
+  errored: number;
+}
+
+export interface TaskDiff {
+  jobA: string;
+  jobB: string;
+  counts: {
+    shared: number;
+    onlyA: number;
+    onlyB: number;
+    bothSolved: number;
+    bothUnsolved: number;
+    solvedToUnsolved: number;
+    unsolvedToSolved: number;
+  };
+  sharedSolvedRateA: number | null;
+  sharedSolvedRateB: number | null;
+  mcnemar: {
+    b: number;
+    c: number;
+    statistic: number | null;
+    pValue: number;
+    method: 'exact' | 'chi2';
+    significant: boolean;
+    alpha: number;
+  };
+  tasks: Array<{
+    taskChecksum: string;
+    taskName: string | null;
+    a: TaskSide | null;
+    b: TaskSide | null;
+    change: TaskChange;
+  }>;
+}
+
+const CHANGE_LABELS: Record<TaskChange, { label: string; className: string }> = {
+  solved_to_unsolved: { label: 'Solved → Unsolved', className: 'bg-red-500/15 text-red-600 dark:text-red-400 border-red-500/30' },
+  unsolved_to_solved: { label: 'Unsolved → Solved', className: 'bg-green-500/15 text-green-600 dark:text-green-400 border-green-500/30' },
+  both_solved: { label: 'Both solved', className: 'bg-muted/50 text-muted-foreground border-muted-foreground/20' },
+  both_unsolved: { label: 'Both unsolved', className: 'bg-muted/50 text-muted-foreground border-muted-foreground/20' },
+  only_a: { label: 'Only in A', className: 'bg-amber-500/15 text-amber-600 dark:text-amber-400 border-amber-500/30' },
+  only_b: { label: 'Only in B', className: 'bg-amber-500/15 text-amber-600 dark:text-amber-400 border-amber-500/30' },
+};
+
+function formatSide(side: TaskSide | null): string {
+  if (!side) return '—';
+  return `${side.solvedTrials}/${side.trials}`;
+}
+
+function formatRate(rate: number | null): string {
+  return rate === null ? '—' : `${(rate * 100).toFixed(1)}%`;
+}
+
+function JobHeading({ label, job, jobId }: { label: string; job?: JobDetail; jobId: string }) {
+  return (
+    <div className="min-w-0">
+      <span className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">{label}</span>
+      <Link href={`/jobs/${jobId}`} className="block text-sm font-semibold text-foreground hover:underline truncate">
+        {job?.modelName ?? jobId}
+      </Link>
+      <span className="block text-xs text-muted-foreground truncate">
+        {job ? `${job.agentName ?? '?'} · ${job.benchmarkName ?? '?'} · ${job.jobName}` : ''}
+      </span>
+    </div>
+  );
+}
+
+export default function JobDiffPage() {
+  const { id, otherId } = useParams<{ id: string; otherId: string }>();
+  const { data: diff, isLoading, error } = useQuery<TaskDiff>({
+    queryKey: [`/api/jobs/${id}/diff/${otherId}`],
+  });
+  const { data: jobA } = useQuery<JobDetail>({ queryKey: [`/api/jobs/${id}`] });
+  const { data: jobB } = useQuery<JobDetail>({ queryKey: [`/api/jobs/${otherId}`] });
+
+  const flipped = diff?.tasks.filter(t => t.change === 'solved_to_unsolved' || t.change === 'unsolved_to_solved') ?? [];
+  const rest = diff?.tasks.filter(t => t.change !== 'solved_to_unsolved' && t.change !== 'unsolved_to_solved') ?? [];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-20 border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-14 sm:h-16 gap-2 sm:gap-4">
+            <div className="flex items-center gap-2 sm:gap-4 min-w-0">
+              <Link href={`/jobs/${id}`} className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+                <ArrowLeft className="w-4 h-4" />
+                Job
+              </Link>
+              <h1 className="text-lg sm:text-2xl font-bold text-foreground truncate">Per-Task Diff</h1>
+            </div>
+            <ThemeToggle />
+          </div>
+        </div>
+      </header>
+
+      <main className="px-3 sm:px-6 lg:px-8 py-4 sm:py-8 space-y-6">
+        <Card>
+          <CardContent className="pt-6 flex flex-wrap items-center gap-4">
+            <JobHeading label="A" job={jobA} jobId={id} />
+            <ArrowRight className="w-5 h-5 text-muted-foreground shrink-0" />
+            <JobHeading label="B" job={jobB} jobId={otherId} />
+          </CardContent>
+        </Card>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-24">
+            <RefreshCw className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : error || !diff ? (
+          <p className="text-sm text-red-500">{error instanceof Error ? error.message : 'Failed to load diff'}</p>
+        ) : (
+          <>
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">Summary</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="outline" className={CHANGE_LABELS.unsolved_to_solved.className}>
+                    {diff.counts.unsolvedToSolved} unsolved → solved
+                  </Badge>
+                  <Badge variant="outline" className={CHANGE_LABELS.solved_to_unsolved.className}>
+                    {diff.counts.solvedToUnsolved} solved → unsolved
+                  </Badge>
+                  <Badge variant="outline">{diff.counts.bothSolved} both solved</Badge>
+                  <Badge variant="outline">{diff.counts.bothUnsolved} both unsolved</Badge>
+                  {(diff.counts.onlyA > 0 || diff.counts.onlyB > 0) && (
+                    <Badge variant="outline" className={CHANGE_LABELS.only_a.className}>
+                      {diff.counts.onlyA} only in A · {diff.counts.onlyB} only in B
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Solved rate on the {diff.counts.shared} shared tasks:{' '}
+                  <span className="font-mono text-foreground">{formatRate(diff.sharedSolvedRateA)}</span> →{' '}
+                  <span className="font-mono text-foreground">{formatRate(diff.sharedSolvedRateB)}</span>.
+                  A task counts as solved when at least half of its finished trials were solved.
+                </p>
+                <p className="text-xs">
+                  <span className="font-medium text-foreground">McNemar test</span>{' '}
+                  <span className="text-muted-foreground">
+                    ({diff.mcnemar.method === 'exact' ? 'exact binomial' : `χ² = ${diff.mcnemar.statistic?.toFixed(2)}, continuity-corrected`}):
+                  </span>{' '}
+                  <span className="font-mono">p = {diff.mcnemar.pValue < 0.001 ? diff.mcnemar.pValue.toExponential(2) : diff.mcnemar.pValue.toFixed(3)}</span>{' '}
+                  {diff.mcnemar.significant ? (
+                    <Badge className="ml-1 bg-green-600 text-white">significant at α = {diff.mcnemar.alpha}</Badge>
+                  ) : (
+                    <Badge variant="secondary" className="ml-1">not significant at α = {diff.mcnemar.alpha}</Badge>
+                  )}
+                </p>
+              </CardContent>
+            </Card>
+
+            {[{ title: `Flipped Tasks (${flipped.length})`, rows: flipped }, { title: `Unchanged / Unpaired (${rest.length})`, rows: rest }].map(section => (
+              <Card key={section.title}>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-base">{section.title}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {section.rows.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">None.</p>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-xs">
+                        <thead className="bg-muted/50">
+                          <tr className="border-b border-border text-left uppercase tracking-wide text-muted-foreground">
+                            <th className="px-2 py-2">Task</th>
+                            <th className="px-2 py-2">Change</th>
+                            <th className="px-2 py-2 text-right">A solved</th>
+                            <th className="px-2 py-2 text-right">B solved</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {section.rows.map(task => (
+                            <tr key={task.taskChecksum} className="border-b border-border">
+                              <td className="px-2 py-1.5 font-mono">{task.taskName ?? task.taskChecksum}</td>
+                              <td className="px-2 py-1.5">
+                                <span className={`inline-flex rounded-md border px-1.5 py-0.5 text-[10px] font-semibold ${CHANGE_LABELS[task.change].className}`}>
+                                  {CHANGE_LABELS[task.change].label}
+                                </span>
+                              </td>
+                              <td className="px-2 py-1.5 text-right font-mono">{formatSide(task.a)}</td>
+                              <td className="px-2 py-1.5 text-right font-mono">{formatSide(task.b)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,220 +1,112 @@
 import { useState, useMemo, useEffect, useRef } from 'react';
-import { RefreshCw, Info, ExternalLink, AlertCircle, Loader2 } from 'lucide-react';
+import { RefreshCw, Info, ExternalLink, AlertCircle, Loader2, Bug, History, Link2, Archive, Activity, ClipboardList } from 'lucide-react';
+import { Link } from 'wouter';
 import { useQuery } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
-import LeaderboardTableWithImprovement, { type PivotedLeaderboardRowWithImprovement } from '@/components/LeaderboardTableWithImprovement';
+import LeaderboardTableWithImprovement, { type EvalRequestSelection, type PivotedLeaderboardRowWithImprovement } from '@/components/LeaderboardTableWithImprovement';
 import SearchBarWithBaseModel from '@/components/SearchBarWithBaseModel';
 import FilterControlsWithBaseModel from '@/components/FilterControlsWithBaseModel';
 import ViewModeControls from '@/components/ViewModeControls';
+import SelectionPolicyControls, { selectionPolicyParams } from '@/components/SelectionPolicyControls';
+import GuardrailRulesSummary from '@/components/GuardrailRulesSummary';
+import AddTabDialog from '@/components/AddTabDialog';
+import AsOfPicker from '@/components/AsOfPicker';
+import WhatsNewPanel from '@/components/WhatsNewPanel';
+import CreateSnapshotDialog from '@/components/CreateSnapshotDialog';
+import CreateEvalRequestsDialog from '@/components/CreateEvalRequestsDialog';
+import BlacklistPanel from '@/components/BlacklistPanel';
 import ThemeToggle from '@/components/ThemeToggle';
+import UserMenu from '@/components/UserMenu';
+import { useAuth } from '@/hooks/use-auth';
+import { useBlacklist } from '@/hooks/use-blacklist';
+import { useModelAliases } from '@/hooks/use-model-aliases';
+import { useLiveUpdates } from '@/hooks/use-live-updates';
 import { DEFAULT_VISIBLE_BENCHMARKS, OOD_BENCHMARKS, CORE_BENCHMARKS, compareBenchmarks } from '@/config/benchmarkConfig';
-import { BLACKLISTED_MODELS } from '@/config/blacklistedModels';
+import { TAB_COLOR_CLASSES } from '@/config/tabColors';
+import { DEFAULT_SELECTION_POLICY_NAME, type SelectionPolicyOverrides, type SelectionPolicyPresetName } from '@shared/selectionPolicy';
+import type { ResolvedCohort } from '@shared/cohorts';
+import { evalRequestCellKey, type EvalRequestCell, type TrackedEvalRequest } from '@shared/evalRequests';
+import { matchesTab, tabCohortSlug, type TabDefinition, type TabMatchContext } from '@shared/tabs';
 
-type EvalSelectionMode = 'oldest' | 'latest' | 'highest' | 'all';
+type EvalSelectionMode = 'oldest' | 'latest' | 'highest' | 'all' | 'mean' | 'median';
 
 const SELECTION_MODE_DESCRIPTIONS: Record<EvalSelectionMode, string> = {
-  oldest: 'Shows the first valid evaluation (accuracy > 1%) per model/agent/benchmark, falling back to the earliest if none meet the threshold.',
-  latest: 'Shows the most recent valid evaluation (accuracy > 1%) per model/agent/benchmark, falling back to the latest if none meet the threshold.',
+  oldest: 'Shows the first valid evaluation (accuracy above the policy threshold, 1% by default) per model/agent/benchmark, falling back to the earliest if none meet the threshold.',
+  latest: 'Shows the most recent valid evaluation (accuracy above the policy threshold, 1% by default) per model/agent/benchmark, falling back to the latest if none meet the threshold.',
   highest: 'Shows the highest accuracy evaluation per model/agent/benchmark.',
   all: 'Shows all evaluations per cell. Use ◀ ▶ arrows to cycle through multiple results.',
+  mean: 'Averages all Finished evaluations admitted by the selection policy per model/agent/benchmark. ± is the pooled stderr (√Σse² / n); the cell shows the run count and links to the latest run.',
+  median: 'Median of all Finished evaluations admitted by the selection policy per model/agent/benchmark. ± is the pooled stderr scaled by √(π/2) for 3+ runs; the cell shows the run count and links to the latest run.',
+};
+
+type CellMetric = 'accuracy' | 'pass@1' | 'pass@k' | 'meanReward';
+
+const CELL_METRIC_DESCRIPTIONS: Record<CellMetric, string> = {
+  accuracy: 'Accuracy and ± stderr as reported in the job\'s metrics.',
+  'pass@1': 'pass@1 recomputed from sandbox_trials rewards (mean over tasks of the per-task pass rate). ± is a task-level bootstrap SE.',
+  'pass@k': 'Unbiased pass@k from sandbox_trials, with k = the fewest finished repeats of any task in the job. ± is a task-level bootstrap SE.',
+  meanReward: 'Mean trial reward (×100) from sandbox_trials, averaged per task first — differs from pass@1 for non-binary rewards. ± is a task-level bootstrap SE.',
 };
 
 const EVAL_AGENT_NAMES = new Set(['terminus-2', 'openhands', 'mini-swe-agent', 'swe-agent']);
 
-const TABLE_1_SECTIONS: Array<{ label: string; models: string[] }> = [
-  {
-    label: '~8B Scale',
-    models: [
-      'Qwen/Qwen3-8B',
-      'allenai/SERA-8B',
-      'SWE-bench/SWE-agent-LM-7B',
-      'nvidia/Nemotron-Terminal-8B',
-      'camel-ai/seta-rl-qwen3-8b',
-      'open-thoughts/OpenThinker-Agent-v1',
-      'obiwan96/qwen3-8b-openthinker-sft-endless-terminals',
-      'nvidia/Llama-3.1-Nemotron-Nano-8B-v1',
-      'deepseek-ai/DeepSeek-R1-Distill-Qwen-7B',
-      'open-thoughts/OpenThinker3-7B',
-      'SWE-Lego/SWE-Lego-Qwen3-8B',
-    ],
-  },
-  {
-    label: '~32B Scale',
-    models: [
-      'Qwen/Qwen3-32B',
-      'Lite-Coder/LiteCoder-Terminal-30b-a3b-sft',
-      'Qwen/Qwen3-30B-A3B-Instruct-2507',
-      'allenai/SERA-32B',
-      'nvidia/NVIDIA-Nemotron-3-Nano-30B-A3B-BF16',
-      'Qwen/Qwen3-Coder-30B-A3B-Instruct',
-      'SWE-bench/SWE-agent-LM-32B',
-      'nvidia/Nemotron-Terminal-32B',
-      'nvidia/Nemotron-Terminal-14B',
-      'zai-org/GLM-4.7-Flash',
-      'NovaSky-AI/SA-SWE-32B',
-      'R2E-Gym/R2EGym-32B-Agent',
-      'Skywork/Skywork-SWE-32B',
-      'Qwen/Qwen2.5-Coder-32B-Instruct',
-      'GAIR/OpenSWE-32B',
-      'GAIR/daVinci-Dev-32B',
-      'SWE-Lego/SWE-Lego-Qwen3-32B',
-      'agentica-org/DeepSWE-Preview',
-    ],
-  },
-  {
-    label: 'Larger / Closed-Source',
-    models: [
-      'Qwen/Qwen3-Coder-480B-A35B-Instruct-FP8',
-      'Qwen/Qwen3-235B-A22B-Instruct-2507-tput',
-      'moonshotai/Kimi-K2.5',
-      'zai-org/GLM-4.7',
-      'zai-org/GLM-4.7-FP8',
-      'zai-org/GLM-5',
-    ],
-  },
-  {
-    label: 'Qwen3.5',
-    models: [
-      'Qwen/Qwen3.5-9B',
-      'Qwen/Qwen3.5-27B',
-    ],
-  },
-];
-
-const TABLE_1_ORDER: string[] = TABLE_1_SECTIONS.flatMap(s => s.models);
-const TABLE_1_MODELS = new Set<string>(TABLE_1_ORDER);
-const TABLE_1_SECTION_BY_MODEL: Record<string, string> = TABLE_1_SECTIONS.reduce((acc, s) => {
-  s.models.forEach(m => { acc[m] = s.label; });
-  return acc;
-}, {} as Record<string, string>);
-
-const WAR_SECTIONS: Array<{ label: string; models: string[] }> = [
-  {
-    label: '~32B Scale',
-    models: [
-      'laion/nemotron-terminal-corpus-unified-100000__Qwen3-32B',
-      'laion/nemosci-tasrep-a1mfc-gfistaqc-scaff-maxeps-swes-r2eg-32b__Qwen3-32B',
-      'laion/nemosci-tasrep-nemodebug-a1mfc-gfistaqc-scaff-maxeps-swes-r2eg-32b__Qwen3-32B',
-      'laion/nemosci-tasrep-a1mfc-gfistaqc-dev1-scaff-maxeps-swes-r2eg-32b__Qwen3-32B',
-      'nvidia/Nemotron-Terminal-32B',
-      'laion/nemotron-terminal-corpus-unified-31600__Qwen3-32B',
-      'DCAgent/g1_diverse_tezos_100k_32b_step900',
-      'DCAgent/g1_min_episodes_e1_gpt_long_thinking_tacc-Qwen3-32B',
-      'DCAgent/g1_weighted_100k_32B_step4400',
-      'laion/nemosci-tasrep-a1mfc-dev1-maxeps-swes-r2eg-32b__Qwen3-32B',
-      'DCAgent/g1_min_episodes_e1_gpt_long_sampled_swesmith_psu_thinking_tacc-Qwen3-32B',
-      'DCAgent/g1_weighted_31600_32B',
-      'DCAgent/g1_timeout_e1_gpt_long_sampled_swesmith_psu_thinking_tacc-Qwen3-32B',
-      'DCAgent/g1_timeout_e1_gpt_long_thinking_tacc-Qwen3-32B',
-      'DCAgent/g1_weighted_100k_32B_step2800',
-    ],
-  },
-  {
-    label: '~8B Scale',
-    models: [
-      'laion/nemosci-tasrep-a1mfc-dev1-maxeps__Qwen3-8B',
-      'laion/100k_wd0__Qwen3-8B',
-      'nvidia/Nemotron-Terminal-8B',
-      'laion/nemosci-tasrep-a1mfc-gfistaqc-dev1-scaff-maxeps-swes-r2eg__Qwen3-8B',
-      'DCAgent/g1_weighted_100k_8b_v2',
-      'DCAgent/g1_weighted_31600_8b_orig',
-      'laion/100k_wd1e-3__Qwen3-8B',
-      'DCAgent/g1_min_episodes_e1_gpt_long_tacc',
-      'DCAgent/g1_timeout_e1_gpt_long',
-      'laion/nemosci-tasrep-a1mfc-gfistaqc-dev1-scaff-maxeps__Qwen3-8B',
-    ],
-  },
-];
-
-const WAR_ORDER: string[] = WAR_SECTIONS.flatMap(s => s.models);
-const WAR_MODELS = new Set<string>(WAR_ORDER);
-const WAR_SECTION_BY_MODEL: Record<string, string> = WAR_SECTIONS.reduce((acc, s) => {
-  s.models.forEach(m => { acc[m] = s.label; });
-  return acc;
-}, {} as Record<string, string>);
-
-const SCALING_SECTIONS: Array<{ label: string; models: string[] }> = [
-  {
-    label: 'laion nemotron (~8B)',
-    models: [
-      'laion/nemotron-316-opt1k__Qwen3-8B',
-      'laion/nemotron-1000-opt1k__Qwen3-8B',
-      'laion/nemotron-terminal-corpus-unified-3160__Qwen3-8B',
-      'laion/nemotron-10000__Qwen3-8B',
-      'laion/nemotron-31600-opt100k__Qwen3-8B',
-      'laion/nemotron-100000-opt100k__Qwen3-8B',
-    ],
-  },
-  {
-    label: 'laion nemotron (~32B)',
-    models: [
-      'laion/nemotron-terminal-corpus-unified-316__Qwen3-32B',
-      'laion/nemotron-terminal-corpus-unified-1000__Qwen3-32B',
-      'laion/nemotron-terminal-corpus-unified-3160__Qwen3-32B',
-      'laion/nemotron-terminal-corpus-unified-10000__Qwen3-32B',
-      'laion/nemotron-terminal-corpus-unified-31600__Qwen3-32B',
-      'laion/nemotron-terminal-corpus-unified-100000__Qwen3-32B',
-    ],
-  },
-  {
-    label: 'SERA (~32B)',
-    models: [
-      'ethanlshen/Qwen3-32B-316_sera_46_47000',
-      'ethanlshen/Qwen3-32B-1000_sera_46_47000',
-      'ethanlshen/Qwen3-32B-3160_sera_46_47000-converted',
-      'ethanlshen/Qwen3-32B-10000_sera_46_47000',
-      'ethanlshen/Qwen3-32B-31600_sera_46_47000_converted',
-      'ethanlshen/Qwen3-32B-47000-46',
-      'allenai/SERA-32B',
-    ],
-  },
-  {
-    label: 'DCAgent g1 (~32B)',
-    models: [
-      'DCAgent3/g1_diverse_tezos_top4_316_32b',
-      'DCAgent3/g1_diverse_tezos_top4_1000_32b',
-      'DCAgent3/g1_diverse_tezos_top4_3160_32b',
-      'DCAgent3/g1_diverse_tezos_top4_10000_32b',
-      'DCAgent2/g1_diverse_tezos_top4_31600_32b_step900',
-      'DCAgent/g1_diverse_tezos_100k_32b_step3600',
-    ],
-  },
-  {
-    label: '8B Scaling',
-    models: [
-      'DCAgent3/g1_diverse_tezos_top4_316_8b',
-      'DCAgent3/g1_diverse_tezos_top4_1000_8b',
-      'DCAgent3/g1_diverse_tezos_top4_3160_8b',
-      'DCAgent3/g1_diverse_tezos_top4_10000_8b',
-      'DCAgent/g1_diverse_tezos_100k_8b',
-    ],
-  },
-  {
-    label: 'Base',
-    models: [
-      'Qwen/Qwen3-8B',
-      'Qwen/Qwen3-32B',
-    ],
-  },
-];
-
-// "8B RL" tab: the base model below plus every model trained on top of it.
-const RL_8B_BASE_MODEL = 'laion/GLM-4_7-swesmith-sandboxes-with_tests-oracle_verified_120s-maxeps-131k-fixthink';
-
-const SCALING_ORDER: string[] = SCALING_SECTIONS.flatMap(s => s.models);
-const SCALING_MODELS = new Set<string>(SCALING_ORDER);
-const SCALING_SECTION_BY_MODEL: Record<string, string> = SCALING_SECTIONS.reduce((acc, s) => {
-  s.models.forEach(m => { acc[m] = s.label; });
-  return acc;
-}, {} as Record<string, string>);
+// The View Mode tab is the only tab not in the registry (/api/tabs): its content differs, not just its rows
+const FILTERED_TAB = 'filtered';
+
+interface CohortView {
+  cohort: ResolvedCohort;
+  // Listed and canonical names in display order, for customOrder
+  order: string[];
+  sectionByModel: Record<string, string>;
+  // Alias keys of the members (matched by matchesTab)
+  members: Set<string>;
+  baseModels: Set<string>;
+}
+
+function toCohortView(cohort: ResolvedCohort, aliasKey: (name: string) => string): CohortView {
+  const order: string[] = [];
+  const sectionByModel: Record<string, string> = {};
+  for (const section of cohort.sections) {
+    section.models.forEach((model, i) => {
+      const canonical = section.canonicalModels[i] ?? model;
+      for (const name of canonical === model ? [model] : [model, canonical]) {
+        order.push(name);
+        sectionByModel[name] = section.label;
+      }
+    });
+  }
+  return {
+    cohort,
+    order,
+    sectionByModel,
+    members: new Set(order.map(aliasKey)),
+    baseModels: new Set([...cohort.baseModels, ...cohort.canonicalBaseModels].map(aliasKey)),
+  };
+}
+
+// Cohorts no registry tab shows on its own still get a tab, appended after the registry
+function cohortTab(cohort: ResolvedCohort): TabDefinition {
+  return {
+    id: `cohort:${cohort.slug}`,
+    label: cohort.label,
+    description: cohort.description,
+    color: cohort.color,
+    predicate: { cohort: cohort.slug },
+    benchmarkSet: 'coreAndOod',
+    missingEvalOnly: false,
+  };
+}
 
 export default function Leaderboard() {
   const [selectionMode, setSelectionMode] = useState<EvalSelectionMode>('all');
-  const [activeTab, setActiveTab] = useState<'filtered' | 'all' | 'blacklisted' | 'base' | 'active' | 'a1' | 'b1' | 'c1' | 'd1' | 'e1' | 'f1' | 'g1' | 'ood' | 'war' | 'table1' | 'scaling' | 'rl8b' | 'baselineData' | 'missingEval' | 'guardrail'>('all');
+  const [cellMetric, setCellMetric] = useState<CellMetric>('accuracy');
+  const [policyPreset, setPolicyPreset] = useState<SelectionPolicyPresetName>(DEFAULT_SELECTION_POLICY_NAME);
+  const [policyOverrides, setPolicyOverrides] = useState<SelectionPolicyOverrides>({});
+  const [activeTab, setActiveTab] = useState<string>('all');
   const [topN, setTopN] = useState<number>(50);
   const [recentlyAddedN, setRecentlyAddedN] = useState<number>(50);
   const [recentlyEvaledN, setRecentlyEvaledN] = useState<number>(50);
@@ -237,13 +129,71 @@ export default function Leaderboard() {
   const [hideNoTraceLink, setHideNoTraceLink] = useState(false);
   const [hideBlacklisted, setHideBlacklisted] = useState(false);
   const [hideBaseModels, setHideBaseModels] = useState(false);
+  // Time travel: ISO timestamp the leaderboard is shown as of (null = live)
+  const [asOf, setAsOf] = useState<string | null>(null);
+
+  const { data: cohorts = [] } = useQuery<ResolvedCohort[]>({
+    queryKey: ['/api/cohorts'],
+  });
+  const { data: registryTabs = [] } = useQuery<TabDefinition[]>({
+    queryKey: ['/api/tabs'],
+  });
+  const { data: modelTags = {} } = useQuery<Record<string, string[]>>({
+    queryKey: ['/api/model-tags'],
+  });
+  const { active: blacklist } = useBlacklist();
+  const { user, can } = useAuth();
+  const aliasKey = useModelAliases();
+  const cohortViews = useMemo(
+    () => new Map(cohorts.map(cohort => [cohort.slug, toCohortView(cohort, aliasKey)])),
+    [cohorts, aliasKey]
+  );
+  const tabs = useMemo(() => {
+    const shown = new Set(registryTabs.map(tabCohortSlug).filter(Boolean));
+    return [...registryTabs, ...cohorts.filter(c => !shown.has(c.slug)).map(cohortTab)];
+  }, [registryTabs, cohorts]);
+  const activeTabDef = tabs.find(tab => tab.id === activeTab);
+  const activeCohortSlug = activeTabDef ? tabCohortSlug(activeTabDef) : undefined;
+  const activeCohort = activeCohortSlug ? cohortViews.get(activeCohortSlug) : undefined;
+  const tabMatchContext = useMemo<TabMatchContext>(() => {
+    const tagSets = new Map(Object.entries(modelTags).map(([tag, models]) => [tag, new Set(models.map(aliasKey))]));
+    return {
+      cohortMembers: slug => cohortViews.get(slug),
+      taggedModels: tag => tagSets.get(tag),
+      isBlacklisted: modelName => blacklist.has(modelName),
+      aliasKey,
+    };
+  }, [cohortViews, modelTags, blacklist, aliasKey]);
 
+  // The change feed uses the same selection (minus asOf: it always runs up to now)
+  const changesQuery = `mode=${selectionMode}&hideNoTraceLink=${hideNoTraceLink}&metric=${encodeURIComponent(cellMetric)}&${selectionPolicyParams(policyPreset, policyOverrides)}`;
+  const leaderboardQuery = `${changesQuery}${asOf ? `&asOf=${encodeURIComponent(asOf)}` : ''}`;
   // Always fetch improvement metrics data (query key includes mode for per-mode caching)
   const { data: pivotedData = [], isLoading, isFetching, refetch } = useQuery<PivotedLeaderboardRowWithImprovement[]>({
-    queryKey: [`/api/leaderboard-pivoted-with-improvement?mode=${selectionMode}&hideNoTraceLink=${hideNoTraceLink}`],
+    queryKey: [`/api/leaderboard-pivoted-with-improvement?${leaderboardQuery}`],
+  });
+
+  const live = useLiveUpdates();
+
+  // Missing Eval tab: cells picked for a new eval request, and the requests already open
+  const [evalRequestCells, setEvalRequestCells] = useState<Map<string, EvalRequestCell>>(new Map());
+  const { data: activeEvalRequests = [] } = useQuery<TrackedEvalRequest[]>({
+    queryKey: ['/api/eval-requests?states=open,running'],
+    enabled: !!activeTabDef?.missingEvalOnly && !asOf,
   });
+  const evalRequestSelection = useMemo<EvalRequestSelection>(() => ({
+    selected: new Set(evalRequestCells.keys()),
+    active: new Map(activeEvalRequests.map(request => [evalRequestCellKey(request), request])),
+    canSelect: can('editor'),
+    onSelect: (cells, selected) => setEvalRequestCells(prev => {
+      const next = new Map(prev);
+      cells.forEach(cell => (selected ? next.set(evalRequestCellKey(cell), cell) : next.delete(evalRequestCellKey(cell))));
+      return next;
+    }),
+  }), [evalRequestCells, activeEvalRequests, can]);
 
   const handleRefresh = () => {
+    live.clear();
     refetch();
   };
 
@@ -427,68 +377,11 @@ export default function Leaderboard() {
 
   // Pre-filter data based on active tab
   const tabFilteredData = useMemo(() => {
-    switch (activeTab) {
-      case 'blacklisted':
-        return pivotedData.filter(row => BLACKLISTED_MODELS.has(row.modelName));
-      case 'base':
-        return pivotedData.filter(row => row.baseModelName === 'None');
-      case 'active':
-        return pivotedData.filter(row =>
-          row.baseModelName !== 'None' && !BLACKLISTED_MODELS.has(row.modelName)
-        );
-      case 'all':
-        return pivotedData;
-      case 'filtered':
-        return filteredByViewMode;
-      case 'a1':
-        return pivotedData.filter(row => row.modelName.startsWith('DCAgent/a1-'));
-      case 'b1':
-        return pivotedData.filter(row => row.modelName.startsWith('DCAgent/b1_'));
-      case 'c1':
-        return pivotedData.filter(row => row.modelName.startsWith('DCAgent/c1_'));
-      case 'd1':
-        return pivotedData.filter(row => row.modelName.startsWith('DCAgent/d1_'));
-      case 'e1':
-        return pivotedData.filter(row => row.modelName.startsWith('DCAgent/e1_'));
-      case 'f1':
-        return pivotedData.filter(row => row.modelName.startsWith('DCAgent/f1_'));
-      case 'g1':
-        return pivotedData.filter(row => row.modelName.startsWith('DCAgent/g1_'));
-      case 'ood':
-        return pivotedData;
-      case 'war':
-        // Match against the canonical model name so duplicate-model rows
-        // (e.g. openai/Foo as duplicate_of Foo) pass through and get merged
-        // into the canonical row by the table's duplicate-merge step.
-        return pivotedData.filter(row => WAR_MODELS.has(row.canonicalModelName ?? row.modelName));
-      case 'table1':
-        return pivotedData.filter(row => TABLE_1_MODELS.has(row.canonicalModelName ?? row.modelName));
-      case 'scaling':
-        return pivotedData.filter(row => SCALING_MODELS.has(row.canonicalModelName ?? row.modelName));
-      case 'rl8b':
-        // Models trained on the 8B RL base, plus the base model itself.
-        return pivotedData.filter(row =>
-          row.baseModelName === RL_8B_BASE_MODEL ||
-          row.canonicalBaseModelName === RL_8B_BASE_MODEL ||
-          (row.canonicalModelName ?? row.modelName) === RL_8B_BASE_MODEL
-        );
-      case 'guardrail':
-        return pivotedData.filter(row =>
-          Object.values(row.benchmarks).some(b => {
-            const isFinished = b.jobStatus === 'Finished' || b.jobStatus === null;
-            return isFinished && (b.isIncomplete || b.isHighErrors);
-          })
-        );
-      case 'baselineData':
-        return pivotedData.filter(row =>
-          /(?:^|[/_-])(?:316|1000|3160|10000|31000|100000)(?:[/_-]|$)/.test(row.modelName)
-        );
-      case 'missingEval':
-        // Pass all data — the table component applies the missing eval filter
-        // after duplicate merging, so it's a strict subset of the All Models view
-        return pivotedData;
-    }
-  }, [activeTab, pivotedData, filteredByViewMode]);
+    if (activeTab === FILTERED_TAB) return filteredByViewMode;
+    // Registry not loaded yet (or tab removed): show everything rather than nothing
+    if (!activeTabDef) return pivotedData;
+    return pivotedData.filter(row => matchesTab(activeTabDef.predicate, row, tabMatchContext));
+  }, [activeTab, activeTabDef, tabMatchContext, pivotedData, filteredByViewMode]);
 
   // Initialize selectedBenchmarks with defaults only on first data load
   const hasInitializedBenchmarks = useRef(false);
@@ -547,11 +440,72 @@ export default function Leaderboard() {
               <h1 className="text-lg sm:text-2xl font-bold text-foreground truncate" data-testid="text-page-title">
                 LLM Agent Benchmark
               </h1>
+              <span
+                className={`w-2 h-2 rounded-full flex-shrink-0 ${live.connected ? 'bg-emerald-500' : 'bg-muted-foreground/40'}`}
+                title={live.connected ? 'Live updates connected' : 'Live updates disconnected'}
+                data-testid="status-live"
+              />
               <Badge variant="secondary" className="hidden sm:inline-flex" data-testid="text-total-entries">
                 {pivotedData.length} rows
               </Badge>
             </div>
             <div className="flex items-center gap-1 sm:gap-2 flex-shrink-0">
+              <Button variant="outline" size="sm" asChild>
+                <Link href="/errors" data-testid="link-errors">
+                  <Bug className="w-4 h-4 sm:mr-2" />
+                  <span className="hidden sm:inline">Errors</span>
+                </Link>
+              </Button>
+              <Button variant="outline" size="sm" asChild>
+                <Link href="/in-flight" data-testid="link-in-flight">
+                  <Activity className="w-4 h-4 sm:mr-2" />
+                  <span className="hidden sm:inline">In flight</span>
+                </Link>
+              </Button>
+              <Button variant="outline" size="sm" asChild>
+                <Link href="/eval-requests" data-testid="link-eval-requests">
+                  <ClipboardList className="w-4 h-4 sm:mr-2" />
+                  <span className="hidden sm:inline">Requests</span>
+                </Link>
+              </Button>
+              {user && (
+                <Button variant="outline" size="sm" asChild>
+                  <Link href="/audit" data-testid="link-audit">
+                    <History className="w-4 h-4 sm:mr-2" />
+                    <span className="hidden sm:inline">History</span>
+                  </Link>
+                </Button>
+              )}
+              {can('editor') && (
+                <Button variant="outline" size="sm" asChild>
+                  <Link href="/duplicates" data-testid="link-duplicates">
+                    <Link2 className="w-4 h-4 sm:mr-2" />
+                    <span className="hidden sm:inline">Duplicates</span>
+                  </Link>
+                </Button>
+              )}
+              <Button variant="outline" size="sm" asChild>
+                <Link href="/snapshots" data-testid="link-snapshots">
+                  <Archive className="w-4 h-4 sm:mr-2" />
+                  <span className="hidden sm:inline">Snapshots</span>
+                </Link>
+              </Button>
+              {can('editor') && <CreateSnapshotDialog query={leaderboardQuery} disabled={selectionMode === 'all'} />}
+              {live.newResults.length > 0 && !asOf && (
+                <Button
+                  size="sm"
+                  onClick={handleRefresh}
+                  title={live.newResults.slice(0, 10).map(r => `${r.benchmarkName} · ${r.modelName}`).join('\n')}
+                  data-testid="button-new-results"
+                >
+                  <RefreshCw className="w-4 h-4 sm:mr-2" />
+                  <span className="hidden sm:inline">
+                    {live.newResults.length} new {live.newResults.length === 1 ? 'result' : 'results'}
+                  </span>
+                </Button>
+              )}
+              <WhatsNewPanel query={changesQuery} />
+              <AsOfPicker value={asOf} onChange={setAsOf} />
               <Button
                 variant="outline"
                 size="sm"
@@ -561,6 +515,7 @@ export default function Leaderboard() {
                 <RefreshCw className="w-4 h-4 mr-2" />
                 Refresh
               </Button>
+              <UserMenu />
               <ThemeToggle />
             </div>
           </div>
@@ -582,6 +537,8 @@ export default function Leaderboard() {
             <ToggleGroupItem value="latest">Latest</ToggleGroupItem>
             <ToggleGroupItem value="highest">Highest</ToggleGroupItem>
             <ToggleGroupItem value="all">All</ToggleGroupItem>
+            <ToggleGroupItem value="mean">Mean</ToggleGroupItem>
+            <ToggleGroupItem value="median">Median</ToggleGroupItem>
           </ToggleGroup>
           <span className="hidden sm:inline text-xs text-muted-foreground max-w-md">
             {SELECTION_MODE_DESCRIPTIONS[selectionMode]}
@@ -591,46 +548,63 @@ export default function Leaderboard() {
           )}
         </div>
 
-        <Tabs value={activeTab} onValueChange={(v) => {
-          const newTab = v as typeof activeTab;
+        {/* Cell Metric */}
+        <div className="flex flex-wrap items-center gap-2 sm:gap-4 mb-4 sm:mb-6">
+          <span className="text-sm font-medium text-foreground">Cell Metric:</span>
+          <ToggleGroup
+            type="single"
+            value={cellMetric}
+            onValueChange={(value) => { if (value) setCellMetric(value as CellMetric); }}
+            variant="outline"
+            size="sm"
+          >
+            <ToggleGroupItem value="accuracy">Accuracy</ToggleGroupItem>
+            <ToggleGroupItem value="pass@1">pass@1</ToggleGroupItem>
+            <ToggleGroupItem value="pass@k">pass@k</ToggleGroupItem>
+            <ToggleGroupItem value="meanReward">Mean Reward</ToggleGroupItem>
+          </ToggleGroup>
+          <span className="hidden sm:inline text-xs text-muted-foreground max-w-md">
+            {CELL_METRIC_DESCRIPTIONS[cellMetric]}
+          </span>
+        </div>
+
+        {/* Selection Policy */}
+        <div className="mb-4 sm:mb-6">
+          <SelectionPolicyControls
+            preset={policyPreset}
+            overrides={policyOverrides}
+            onPresetChange={(preset) => { setPolicyPreset(preset); setPolicyOverrides({}); }}
+            onOverridesChange={setPolicyOverrides}
+          />
+        </div>
+
+        <Tabs value={activeTab} onValueChange={(newTab) => {
           setActiveTab(newTab);
-          if (newTab === 'ood') {
-            const validOOD = OOD_BENCHMARKS.filter(b => availableBenchmarks.includes(b));
-            if (validOOD.length > 0) setSelectedBenchmarks(validOOD);
-          } else if (newTab === 'war' || newTab === 'table1' || newTab === 'scaling' || newTab === 'rl8b') {
-            const validBenchmarks = [...CORE_BENCHMARKS, ...OOD_BENCHMARKS].filter(b => availableBenchmarks.includes(b));
-            if (validBenchmarks.length > 0) setSelectedBenchmarks(validBenchmarks);
-          } else {
-            const validCore = CORE_BENCHMARKS.filter(b => availableBenchmarks.includes(b));
-            if (validCore.length > 0) setSelectedBenchmarks(validCore);
-          }
+          const benchmarkSet = tabs.find(tab => tab.id === newTab)?.benchmarkSet ?? 'core';
+          const preset = benchmarkSet === 'ood' ? OOD_BENCHMARKS
+            : benchmarkSet === 'coreAndOod' ? [...CORE_BENCHMARKS, ...OOD_BENCHMARKS]
+            : CORE_BENCHMARKS;
+          const validBenchmarks = preset.filter(b => availableBenchmarks.includes(b));
+          if (validBenchmarks.length > 0) setSelectedBenchmarks(validBenchmarks);
         }}>
-          <div className="overflow-x-auto -mx-3 px-3 sm:mx-0 sm:px-0">
+          <div className="flex items-center gap-1 overflow-x-auto -mx-3 px-3 sm:mx-0 sm:px-0">
             <TabsList className="inline-flex w-auto min-w-full sm:min-w-0">
-              <TabsTrigger value="all" className="text-xs sm:text-sm">All Models</TabsTrigger>
-              <TabsTrigger value="base" className="text-xs sm:text-sm bg-cyan-500/15 text-cyan-700 dark:text-cyan-300 data-[state=active]:bg-cyan-500/30">Base Models</TabsTrigger>
-              <TabsTrigger value="a1" className="text-xs sm:text-sm bg-blue-500/15 text-blue-700 dark:text-blue-300 data-[state=active]:bg-blue-500/30">A1</TabsTrigger>
-              <TabsTrigger value="b1" className="text-xs sm:text-sm bg-emerald-500/15 text-emerald-700 dark:text-emerald-300 data-[state=active]:bg-emerald-500/30">B1</TabsTrigger>
-              <TabsTrigger value="c1" className="text-xs sm:text-sm bg-teal-500/15 text-teal-700 dark:text-teal-300 data-[state=active]:bg-teal-500/30">C1</TabsTrigger>
-              <TabsTrigger value="d1" className="text-xs sm:text-sm bg-amber-500/15 text-amber-700 dark:text-amber-300 data-[state=active]:bg-amber-500/30">D1</TabsTrigger>
-              <TabsTrigger value="e1" className="text-xs sm:text-sm bg-rose-500/15 text-rose-700 dark:text-rose-300 data-[state=active]:bg-rose-500/30">E1</TabsTrigger>
-              <TabsTrigger value="f1" className="text-xs sm:text-sm bg-pink-500/15 text-pink-700 dark:text-pink-300 data-[state=active]:bg-pink-500/30">F1</TabsTrigger>
-              <TabsTrigger value="g1" className="text-xs sm:text-sm bg-violet-500/15 text-violet-700 dark:text-violet-300 data-[state=active]:bg-violet-500/30">G1</TabsTrigger>
-              <TabsTrigger value="ood" className="text-xs sm:text-sm bg-fuchsia-500/15 text-fuchsia-700 dark:text-fuchsia-300 data-[state=active]:bg-fuchsia-500/30">OOD</TabsTrigger>
-              <TabsTrigger value="war" className="text-xs sm:text-sm bg-yellow-500/15 text-yellow-700 dark:text-yellow-300 data-[state=active]:bg-yellow-500/30 font-bold">WAR</TabsTrigger>
-              <TabsTrigger value="table1" className="text-xs sm:text-sm bg-indigo-500/15 text-indigo-700 dark:text-indigo-300 data-[state=active]:bg-indigo-500/30">Table 1</TabsTrigger>
-              <TabsTrigger value="scaling" className="text-xs sm:text-sm bg-sky-500/15 text-sky-700 dark:text-sky-300 data-[state=active]:bg-sky-500/30">Scaling</TabsTrigger>
-              <TabsTrigger value="rl8b" className="text-xs sm:text-sm bg-lime-500/15 text-lime-700 dark:text-lime-300 data-[state=active]:bg-lime-500/30">8B RL</TabsTrigger>
-              <TabsTrigger value="baselineData" className="text-xs sm:text-sm bg-purple-500/15 text-purple-700 dark:text-purple-300 data-[state=active]:bg-purple-500/30">Baseline Data</TabsTrigger>
-              <TabsTrigger value="missingEval" className="text-xs sm:text-sm bg-red-500/15 text-red-700 dark:text-red-300 data-[state=active]:bg-red-500/30">Missing Eval</TabsTrigger>
-              <TabsTrigger value="guardrail" className="text-xs sm:text-sm bg-orange-500/15 text-orange-700 dark:text-orange-300 data-[state=active]:bg-orange-500/30">Guardrail</TabsTrigger>
-              <TabsTrigger value="filtered" className="text-xs sm:text-sm">Filtered View</TabsTrigger>
-              <TabsTrigger value="active" className="text-xs sm:text-sm">Active</TabsTrigger>
-              <TabsTrigger value="blacklisted" className="text-xs sm:text-sm">Blacklisted</TabsTrigger>
+              {tabs.map(tab => (
+                <TabsTrigger
+                  key={tab.id}
+                  value={tab.id}
+                  title={tab.description}
+                  className={`text-xs sm:text-sm ${tab.color ? TAB_COLOR_CLASSES[tab.color] : ''}`}
+                >
+                  {tab.label}
+                </TabsTrigger>
+              ))}
+              <TabsTrigger value={FILTERED_TAB} className="text-xs sm:text-sm">Filtered View</TabsTrigger>
             </TabsList>
+            {can('editor') && <AddTabDialog onCreated={setActiveTab} />}
           </div>
 
-          <TabsContent value="filtered" className="space-y-6">
+          <TabsContent value={FILTERED_TAB} className="space-y-6">
             <ViewModeControls
               topN={topN}
               recentlyAddedN={recentlyAddedN}
@@ -795,7 +769,7 @@ export default function Leaderboard() {
                 <div className="w-4 h-4" />
                 <div>
                   <p className="font-medium text-foreground">Improvement (pp)</p>
-                  <p className="text-xs">Percentage points gained over base model (e.g., +1.02 pp = 1.02% improvement). Green text indicates positive improvement, red indicates regression.</p>
+                  <p className="text-xs">Percentage points gained over base model (e.g., +1.02 pp = 1.02% improvement). Green text indicates positive improvement, red indicates regression. Gray italic with ≈ means the 95% confidence interval of the difference (combined standard errors) includes zero — not significant; hover for the interval.</p>
                 </div>
               </div>
             </div>
@@ -947,7 +921,7 @@ export default function Leaderboard() {
           </TabsContent>
 
           {/* Shared content for all non-filtered tabs */}
-          {(['all', 'base', 'a1', 'b1', 'c1', 'd1', 'e1', 'f1', 'g1', 'ood', 'war', 'table1', 'scaling', 'rl8b', 'baselineData', 'missingEval', 'guardrail', 'active', 'blacklisted'] as const).map(tabValue => (
+          {tabs.map(({ id: tabValue, missingEvalOnly, predicate }) => (
             <TabsContent key={tabValue} value={tabValue} className="space-y-6">
               <SearchBarWithBaseModel
                 modelSearch={modelSearch}
@@ -1072,6 +1046,9 @@ export default function Leaderboard() {
                 </div>
               </div>
 
+              {'guardrailFired' in predicate && predicate.guardrailFired && <GuardrailRulesSummary rows={tabFilteredData} />}
+              {'blacklisted' in predicate && predicate.blacklisted && <BlacklistPanel />}
+
               <div className="space-y-4 px-3 py-3 bg-muted/30 rounded-md text-sm text-muted-foreground">
                 {/* Row Highlighting */}
                 <div className="space-y-2">
@@ -1100,7 +1077,7 @@ export default function Leaderboard() {
                     <div className="w-4 h-4" />
                     <div>
                       <p className="font-medium text-foreground">Improvement (pp)</p>
-                      <p className="text-xs">Percentage points gained over base model (e.g., +1.02 pp = 1.02% improvement). Green text indicates positive improvement, red indicates regression.</p>
+                      <p className="text-xs">Percentage points gained over base model (e.g., +1.02 pp = 1.02% improvement). Green text indicates positive improvement, red indicates regression. Gray italic with ≈ means the 95% confidence interval of the difference (combined standard errors) includes zero — not significant; hover for the interval.</p>
                     </div>
                   </div>
                 </div>
@@ -1202,6 +1179,14 @@ export default function Leaderboard() {
                 </div>
               </div>
 
+              {missingEvalOnly && evalRequestCells.size > 0 && (
+                <div className="flex flex-wrap items-center gap-3 rounded-md border border-border bg-muted/40 px-3 py-2 text-sm">
+                  <span>{evalRequestCells.size} missing cell{evalRequestCells.size === 1 ? '' : 's'} selected</span>
+                  <Button variant="ghost" size="sm" className="h-7" onClick={() => setEvalRequestCells(new Map())}>Clear</Button>
+                  <CreateEvalRequestsDialog cells={Array.from(evalRequestCells.values())} onCreated={() => setEvalRequestCells(new Map())} />
+                </div>
+              )}
+
               {/* Table */}
               <LeaderboardTableWithImprovement
                 data={tabFilteredData}
@@ -1223,19 +1208,10 @@ export default function Leaderboard() {
                 showDuplicateAgents={showDuplicateAgents}
                 hideBlacklisted={hideBlacklisted}
                 hideBaseModels={hideBaseModels}
-                filterMissingEval={tabValue === 'missingEval'}
-                customOrder={
-                  tabValue === 'table1' ? TABLE_1_ORDER :
-                  tabValue === 'war' ? WAR_ORDER :
-                  tabValue === 'scaling' ? SCALING_ORDER :
-                  undefined
-                }
-                sectionByModel={
-                  tabValue === 'table1' ? TABLE_1_SECTION_BY_MODEL :
-                  tabValue === 'war' ? WAR_SECTION_BY_MODEL :
-                  tabValue === 'scaling' ? SCALING_SECTION_BY_MODEL :
-                  undefined
-                }
+                filterMissingEval={missingEvalOnly}
+                evalRequests={missingEvalOnly && !asOf ? evalRequestSelection : undefined}
+                customOrder={tabValue === activeTab && activeCohort && activeCohort.order.length > 0 ? activeCohort.order : undefined}
+                sectionByModel={tabValue === activeTab && activeCohort && activeCohort.order.length > 0 ? activeCohort.sectionByModel : undefined}
               />
             </TabsContent>
           ))}
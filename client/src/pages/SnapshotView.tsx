@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { Link, useParams } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowLeft, Lock, RefreshCw } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import LeaderboardTableWithImprovement, { type PivotedLeaderboardRowWithImprovement } from '@/components/LeaderboardTableWithImprovement';
+import SearchBarWithBaseModel from '@/components/SearchBarWithBaseModel';
+import ThemeToggle from '@/components/ThemeToggle';
+import UserMenu from '@/components/UserMenu';
+import { describeSnapshotParams, type Snapshot } from '@shared/snapshots';
+
+const NO_FILTERS = {
+  models: [],
+  agents: [],
+  trainingAgents: [],
+  baseModels: [],
+  benchmarks: [],
+  trainingTypes: [],
+  modelSizes: [],
+};
+
+/** A saved snapshot in the leaderboard table, read-only. */
+export default function SnapshotViewPage() {
+  const { name } = useParams<{ name: string }>();
+  const [modelSearch, setModelSearch] = useState('');
+  const [agentSearch, setAgentSearch] = useState('');
+  const [baseModelSearch, setBaseModelSearch] = useState('');
+  const [benchmarkSearch, setBenchmarkSearch] = useState('');
+
+  const { data: snapshot, isLoading, error } = useQuery<Snapshot<PivotedLeaderboardRowWithImprovement>>({
+    queryKey: [`/api/snapshots/${encodeURIComponent(name)}`],
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-20 border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-14 sm:h-16 gap-2 sm:gap-4">
+            <div className="flex items-center gap-2 sm:gap-4 min-w-0">
+              <Link href="/snapshots" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground" data-testid="link-back">
+                <ArrowLeft className="w-4 h-4" />
+                Snapshots
+              </Link>
+              <h1 className="text-lg sm:text-2xl font-bold text-foreground truncate font-mono">{name}</h1>
+              <Badge variant="secondary" className="hidden sm:inline-flex gap-1">
+                <Lock className="w-3 h-3" />
+                Read-only
+              </Badge>
+            </div>
+            <div className="flex items-center gap-1 sm:gap-2 flex-shrink-0">
+              <UserMenu />
+              <ThemeToggle />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="px-3 sm:px-6 lg:px-8 py-4 sm:py-8 space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-24">
+            <RefreshCw className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : error || !snapshot ? (
+          <p className="text-sm text-red-500">{error instanceof Error ? error.message : 'Failed to load snapshot'}</p>
+        ) : (
+          <>
+            <div className="text-xs text-muted-foreground space-y-1">
+              <p>
+                Taken {snapshot.createdAt.replace('T', ' ').slice(0, 16)} by {snapshot.createdBy} · {describeSnapshotParams(snapshot.params)} · {snapshot.rowCount} rows
+              </p>
+              {snapshot.description && <p className="whitespace-pre-wrap text-foreground">{snapshot.description}</p>}
+            </div>
+            <SearchBarWithBaseModel
+              modelSearch={modelSearch}
+              agentSearch={agentSearch}
+              baseModelSearch={baseModelSearch}
+              benchmarkSearch={benchmarkSearch}
+              onModelSearchChange={setModelSearch}
+              onAgentSearchChange={setAgentSearch}
+              onBaseModelSearchChange={setBaseModelSearch}
+              onBenchmarkSearchChange={setBenchmarkSearch}
+            />
+            <LeaderboardTableWithImprovement
+              data={snapshot.rows}
+              modelSearch={modelSearch}
+              agentSearch={agentSearch}
+              baseModelSearch={baseModelSearch}
+              benchmarkSearch={benchmarkSearch}
+              filters={NO_FILTERS}
+              showDuplicateBenchmarks={false}
+              showDuplicateModels={false}
+              showDuplicateAgents={false}
+              readOnly
+            />
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
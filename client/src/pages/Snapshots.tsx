@@ -0,0 +1,283 @@
+import { useState } from 'react';
+import { Link, useLocation, useSearch } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowLeft, ArrowRight, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import ThemeToggle from '@/components/ThemeToggle';
+import UserMenu from '@/components/UserMenu';
+import { describeSnapshotParams, type SnapshotCellValue, type SnapshotDiff, type SnapshotSummary } from '@shared/snapshots';
+
+// Cell changes rendered at once; the rest are only counted
+const MAX_RENDERED_CELLS = 500;
+
+const formatValue = (value: number | null | undefined, signed = false) =>
+  value === null || value === undefined ? '—' : `${signed && value > 0 ? '+' : ''}${value.toFixed(1)}`;
+
+function CellValue({ cell }: { cell: SnapshotCellValue | null }) {
+  if (!cell) return <span className="text-muted-foreground">—</span>;
+  return (
+    <span className="font-mono">
+      {formatValue(cell.accuracy)} <span className="text-muted-foreground">({formatValue(cell.improvement, true)})</span>
+      {cell.rank !== null && <span className="text-muted-foreground"> #{cell.rank}</span>}
+    </span>
+  );
+}
+
+function RankChange({ before, after }: { before: SnapshotCellValue | null; after: SnapshotCellValue | null }) {
+  if (before?.rank == null || after?.rank == null || before.rank === after.rank) {
+    return <span className="text-muted-foreground">—</span>;
+  }
+  // Lower rank is better
+  const up = after.rank < before.rank;
+  return (
+    <span className={up ? 'text-emerald-600 dark:text-emerald-400' : 'text-rose-600 dark:text-rose-400'}>
+      {up ? '▲' : '▼'} {Math.abs(after.rank - before.rank)}
+    </span>
+  );
+}
+
+function RowList({ title, rows, className }: { title: string; rows: SnapshotDiff['addedRows']; className: string }) {
+  if (rows.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium text-foreground">{title} ({rows.length})</p>
+      <ul className={`max-h-48 overflow-y-auto space-y-0.5 text-[11px] font-mono ${className}`}>
+        {rows.map(row => <li key={`${row.modelName}|${row.agentName}`}>{row.modelName} <span className="text-muted-foreground">· {row.agentName}</span></li>)}
+      </ul>
+    </div>
+  );
+}
+
+function DiffResult({ diff }: { diff: SnapshotDiff }) {
+  const [showRankOnly, setShowRankOnly] = useState(false);
+  const rankOnlyCount = diff.cells.filter(cell => cell.rankOnly).length;
+  const cells = showRankOnly ? diff.cells : diff.cells.filter(cell => !cell.rankOnly);
+
+  return (
+    <div className="space-y-4 text-xs">
+      <div className="flex flex-wrap gap-4 text-muted-foreground">
+        <span>Rows: {diff.from.rowCount} → {diff.to.rowCount}</span>
+        <span>Added rows: {diff.addedRows.length}</span>
+        <span>Removed rows: {diff.removedRows.length}</span>
+        <span>Changed cells: {diff.cells.length - rankOnlyCount}</span>
+        <span>Rank-only changes: {rankOnlyCount}</span>
+      </div>
+      {describeSnapshotParams(diff.from.params) !== describeSnapshotParams(diff.to.params) && (
+        <p className="text-amber-600 dark:text-amber-400">
+          The snapshots were taken with different settings ({describeSnapshotParams(diff.from.params)} vs {describeSnapshotParams(diff.to.params)}).
+        </p>
+      )}
+      {(diff.benchmarks.added.length > 0 || diff.benchmarks.removed.length > 0) && (
+        <div className="flex flex-wrap gap-4">
+          {diff.benchmarks.added.length > 0 && (
+            <span>New benchmarks: <span className="font-mono text-emerald-600 dark:text-emerald-400">{diff.benchmarks.added.join(', ')}</span></span>
+          )}
+          {diff.benchmarks.removed.length > 0 && (
+            <span>Dropped benchmarks: <span className="font-mono text-rose-600 dark:text-rose-400">{diff.benchmarks.removed.join(', ')}</span></span>
+          )}
+        </div>
+      )}
+      <div className="grid gap-4 md:grid-cols-2">
+        <RowList title="Added rows" rows={diff.addedRows} className="text-emerald-600 dark:text-emerald-400" />
+        <RowList title="Removed rows" rows={diff.removedRows} className="text-rose-600 dark:text-rose-400" />
+      </div>
+      <div className="flex items-center gap-2">
+        <Checkbox id="show-rank-only" checked={showRankOnly} onCheckedChange={(checked) => setShowRankOnly(checked === true)} />
+        <Label htmlFor="show-rank-only" className="text-xs cursor-pointer">Show cells whose value did not change but whose rank did</Label>
+      </div>
+      {cells.length === 0 ? (
+        <p className="text-muted-foreground">No cells changed.</p>
+      ) : (
+        <div className="max-h-[32rem] overflow-y-auto border border-border rounded">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-muted">
+              <tr className="text-left">
+                <th className="px-2 py-1 font-medium">Model</th>
+                <th className="px-2 py-1 font-medium">Agent</th>
+                <th className="px-2 py-1 font-medium">Benchmark</th>
+                <th className="px-2 py-1 font-medium">Before (improvement) #rank</th>
+                <th className="px-2 py-1 font-medium">After (improvement) #rank</th>
+                <th className="px-2 py-1 font-medium">Δ</th>
+                <th className="px-2 py-1 font-medium">Rank</th>
+              </tr>
+            </thead>
+            <tbody>
+              {cells.slice(0, MAX_RENDERED_CELLS).map(cell => {
+                const delta = cell.before?.accuracy != null && cell.after?.accuracy != null ? cell.after.accuracy - cell.before.accuracy : null;
+                return (
+                  <tr key={`${cell.modelName}|${cell.agentName}|${cell.benchmark}`} className={`border-t border-border ${cell.rankOnly ? 'text-muted-foreground' : ''}`}>
+                    <td className="px-2 py-1 font-mono">{cell.modelName}</td>
+                    <td className="px-2 py-1">{cell.agentName}</td>
+                    <td className="px-2 py-1">{cell.benchmark}</td>
+                    <td className="px-2 py-1"><CellValue cell={cell.before} /></td>
+                    <td className="px-2 py-1"><CellValue cell={cell.after} /></td>
+                    <td className="px-2 py-1 font-mono">{delta === null || delta === 0 ? '—' : formatValue(delta, true)}</td>
+                    <td className="px-2 py-1"><RankChange before={cell.before} after={cell.after} /></td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {cells.length > MAX_RENDERED_CELLS && (
+            <p className="px-2 py-1 text-muted-foreground">…and {cells.length - MAX_RENDERED_CELLS} more</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Saved leaderboard snapshots, and the diff between any two of them
+ * (?from=<name>&to=<name>, so a comparison can be linked).
+ */
+export default function SnapshotsPage() {
+  const search = useSearch();
+  const [, navigate] = useLocation();
+  const params = new URLSearchParams(search);
+  const from = params.get('from') ?? '';
+  const to = params.get('to') ?? '';
+
+  const { data: snapshots = [], isLoading, isFetching, error, refetch } = useQuery<SnapshotSummary[]>({
+    queryKey: ['/api/snapshots'],
+  });
+  const canDiff = !!from && !!to && from !== to;
+  const { data: diff, isFetching: diffLoading, error: diffError } = useQuery<SnapshotDiff>({
+    queryKey: [`/api/snapshots/${encodeURIComponent(from)}/diff/${encodeURIComponent(to)}`],
+    enabled: canDiff,
+  });
+
+  const selectPair = (nextFrom: string, nextTo: string) => {
+    const next = new URLSearchParams();
+    if (nextFrom) next.set('from', nextFrom);
+    if (nextTo) next.set('to', nextTo);
+    const query = next.toString();
+    navigate(query ? `/snapshots?${query}` : '/snapshots');
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-20 border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-14 sm:h-16 gap-2 sm:gap-4">
+            <div className="flex items-center gap-2 sm:gap-4 min-w-0">
+              <Link href="/" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground" data-testid="link-back">
+                <ArrowLeft className="w-4 h-4" />
+                Leaderboard
+              </Link>
+              <h1 className="text-lg sm:text-2xl font-bold text-foreground truncate">Snapshots</h1>
+            </div>
+            <div className="flex items-center gap-1 sm:gap-2 flex-shrink-0">
+              <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+                <RefreshCw className={`w-4 h-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+              <UserMenu />
+              <ThemeToggle />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="px-3 sm:px-6 lg:px-8 py-4 sm:py-8 space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-24">
+            <RefreshCw className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-500">{error instanceof Error ? error.message : 'Failed to load snapshots'}</p>
+        ) : snapshots.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No snapshots yet. Editors can save one from the leaderboard with the Snapshot button.
+          </p>
+        ) : (
+          <>
+            <Card>
+              <CardContent className="pt-4 overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-left text-muted-foreground">
+                      <th className="px-2 py-1 font-medium">Name</th>
+                      <th className="px-2 py-1 font-medium">Taken</th>
+                      <th className="px-2 py-1 font-medium">By</th>
+                      <th className="px-2 py-1 font-medium">Settings</th>
+                      <th className="px-2 py-1 font-medium">Rows</th>
+                      <th className="px-2 py-1 font-medium">Description</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {snapshots.map(snapshot => (
+                      <tr key={snapshot.name} className="border-t border-border align-top">
+                        <td className="px-2 py-1 font-mono">
+                          <Link href={`/snapshots/${encodeURIComponent(snapshot.name)}`} className="text-primary hover:underline">
+                            {snapshot.name}
+                          </Link>
+                        </td>
+                        <td className="px-2 py-1 font-mono text-muted-foreground">{snapshot.createdAt.replace('T', ' ').slice(0, 16)}</td>
+                        <td className="px-2 py-1">{snapshot.createdBy}</td>
+                        <td className="px-2 py-1 text-muted-foreground">{describeSnapshotParams(snapshot.params)}</td>
+                        <td className="px-2 py-1">{snapshot.rowCount}</td>
+                        <td className="px-2 py-1 whitespace-pre-wrap break-words max-w-md">{snapshot.description}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Compare</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap items-end gap-3">
+                  <div className="space-y-1">
+                    <Label className="text-xs">From</Label>
+                    <Select value={from} onValueChange={(value) => selectPair(value, to)}>
+                      <SelectTrigger className="h-8 w-64"><SelectValue placeholder="Older snapshot" /></SelectTrigger>
+                      <SelectContent>
+                        {snapshots.map(s => <SelectItem key={s.name} value={s.name}>{s.name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <ArrowRight className="w-4 h-4 mb-2 text-muted-foreground" />
+                  <div className="space-y-1">
+                    <Label className="text-xs">To</Label>
+                    <Select value={to} onValueChange={(value) => selectPair(from, value)}>
+                      <SelectTrigger className="h-8 w-64"><SelectValue placeholder="Newer snapshot" /></SelectTrigger>
+                      <SelectContent>
+                        {snapshots.map(s => <SelectItem key={s.name} value={s.name}>{s.name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {from && to && (
+                    <Button variant="ghost" size="sm" className="h-8" onClick={() => selectPair(to, from)}>Swap</Button>
+                  )}
+                </div>
+                {!canDiff ? (
+                  <p className="text-xs text-muted-foreground">Pick two different snapshots to see what changed between them.</p>
+                ) : diffLoading && !diff ? (
+                  <RefreshCw className="w-5 h-5 animate-spin text-primary" />
+                ) : diffError ? (
+                  <p className="text-xs text-red-500">{diffError instanceof Error ? diffError.message : 'Failed to compare snapshots'}</p>
+                ) : diff ? (
+                  <DiffResult diff={diff} />
+                ) : null}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
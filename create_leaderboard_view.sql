@@ -41,6 +41,8 @@ all_jobs AS (
 )
 SELECT
   gen_random_uuid()::text as id,
+  -- Stable per-row key (one row per job); used by the server to page through the view
+  aj.id as job_id,
   m.id as model_id,
   m.name as model_name,
   m.duplicate_of as model_duplicate_of,
@@ -67,6 +69,8 @@ SELECT
   aj.computed_accuracy_stderr as standard_error,
   aj.hf_traces_link as hf_traces_link,
   aj.job_timestamp as ended_at,
+  -- Submission time, for viewing the leaderboard as of a past date
+  aj.created_at as job_created_at,
   -- Expose base model resolution fields for server-side base model accuracy computation
   COALESCE(bm.duplicate_of, bm_via_canonical.duplicate_of, COALESCE(m.base_model_id, m_canonical.base_model_id)) as canonical_base_model_id,
   -- Eval config and training type metadata
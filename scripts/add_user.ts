@@ -0,0 +1,24 @@
+import { config } from "dotenv";
+import { ROLES, type Role } from "../shared/auth";
+
+config({ path: new URL("../.env", import.meta.url).pathname });
+
+// Create or update a local leaderboard account in server/data/users.json (or $DATA_DIR/users.json).
+//   USER_PASSWORD=... npx tsx scripts/add_user.ts <username> <viewer|editor|admin>
+// Without USER_PASSWORD an existing user keeps their password (role change only).
+async function main() {
+  const [username, role] = process.argv.slice(2);
+  if (!username || !ROLES.includes(role as Role)) {
+    console.error(`Usage: USER_PASSWORD=... npx tsx scripts/add_user.ts <username> <${ROLES.join("|")}>`);
+    process.exit(1);
+  }
+  // Imported after dotenv so DATA_DIR from .env is honoured
+  const { upsertUser } = await import("../server/users");
+  const user = await upsertUser(username, role as Role, process.env.USER_PASSWORD || undefined);
+  console.log(`Saved ${user.username} (${user.role})`);
+}
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
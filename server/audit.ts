@@ -0,0 +1,218 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { NextFunction, Request, Response } from "express";
+import { DATA_DIR } from "./jsonStore";
+import { getCohort, restoreCohort } from "./cohorts";
+import { getTab, listModelTags, listTabs, reorderTabs, restoreTab, setModelTag, deleteModelTag } from "./tabs";
+import { getBlacklistEntry, restoreBlacklistEntry } from "./blacklist";
+import { storage } from "./storage";
+import { DuplicateLinkError, getDuplicateOf, restoreDuplicateOf } from "./duplicates";
+import { getEvalRequest, restoreEvalRequest } from "./evalRequests";
+import {
+  auditEntrySchema,
+  type AuditAction,
+  type AuditEntityType,
+  type AuditEntry,
+  type AuditQuery,
+} from "@shared/audit";
+import type { Cohort } from "@shared/cohorts";
+import type { TabDefinition } from "@shared/tabs";
+import type { BlacklistEntry } from "@shared/blacklist";
+import type { DuplicateEntityType } from "@shared/duplicates";
+import type { EvalRequest } from "@shared/evalRequests";
+
+/**
+ * Append-only audit log in server/data/audit.jsonl (one JSON entry per line).
+ * Entries are never rewritten; a revert is recorded as a new entry.
+ */
+
+declare global {
+  namespace Express {
+    interface Request {
+      requestId: string;
+    }
+  }
+}
+
+const AUDIT_PATH = path.join(DATA_DIR, "audit.jsonl");
+
+let entries: AuditEntry[] | undefined;
+
+function loadEntries(): AuditEntry[] {
+  if (entries) return entries;
+  entries = fs.existsSync(AUDIT_PATH)
+    ? fs.readFileSync(AUDIT_PATH, "utf-8")
+        .split("\n")
+        .filter(line => line.trim())
+        .map(line => auditEntrySchema.parse(JSON.parse(line)))
+    : [];
+  return entries;
+}
+
+/** Tag every request with an id (the caller's X-Request-Id when given) and echo it back. */
+export function requestIdMiddleware(req: Request, res: Response, next: NextFunction) {
+  const header = req.get("x-request-id");
+  req.requestId = header && header.length <= 128 ? header : randomUUID();
+  res.setHeader("X-Request-Id", req.requestId);
+  next();
+}
+
+interface AuditChange {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  before: unknown;
+  after: unknown;
+  revertOf?: string;
+}
+
+/** Append one entry attributed to the request's signed-in user. */
+export function recordAudit(req: Request, change: AuditChange): AuditEntry {
+  const entry: AuditEntry = {
+    id: randomUUID(),
+    at: new Date().toISOString(),
+    actor: req.user?.username ?? "anonymous",
+    requestId: req.requestId,
+    ...change,
+    before: change.before ?? null,
+    after: change.after ?? null,
+  };
+  // Load before appending so the new line is not read back in as well
+  const log = loadEntries();
+  fs.mkdirSync(DATA_DIR, { recursive: true });
+  fs.appendFileSync(AUDIT_PATH, JSON.stringify(entry) + "\n");
+  log.push(entry);
+  return entry;
+}
+
+/** Newest first. */
+export function queryAudit(query: AuditQuery): AuditEntry[] {
+  const since = query.since ? new Date(query.since).getTime() : undefined;
+  const until = query.until ? new Date(query.until).getTime() : undefined;
+  const matches: AuditEntry[] = [];
+  const all = loadEntries();
+  for (let i = all.length - 1; i >= 0 && matches.length < query.limit; i--) {
+    const entry = all[i];
+    const at = new Date(entry.at).getTime();
+    if (query.entityType && entry.entityType !== query.entityType) continue;
+    if (query.entityId && entry.entityId !== query.entityId) continue;
+    if (query.actor && entry.actor !== query.actor) continue;
+    if (since !== undefined && at < since) continue;
+    if (until !== undefined && at > until) continue;
+    matches.push(entry);
+  }
+  return matches;
+}
+
+export function getAuditEntry(id: string): AuditEntry | undefined {
+  return loadEntries().find(e => e.id === id);
+}
+
+/**
+ * How to read and overwrite each revertible entity. `key` says where a stored
+ * state lives (a cohort or tab update may have changed its slug / id).
+ */
+interface EntityAccess {
+  key: (state: unknown, entityId: string) => string;
+  current: (key: string) => unknown | Promise<unknown>;
+  restore: (key: string, state: unknown) => void | Promise<void>;
+}
+
+const ENTITY_ACCESS: Partial<Record<AuditEntityType, EntityAccess>> = {
+  cohort: {
+    key: (state, entityId) => (state as Cohort | null)?.slug ?? entityId,
+    current: slug => getCohort(slug) ?? null,
+    restore: (slug, state) => restoreCohort(slug, state as Cohort | null),
+  },
+  tab: {
+    key: (state, entityId) => (state as TabDefinition | null)?.id ?? entityId,
+    current: id => getTab(id) ?? null,
+    restore: (id, state) => restoreTab(id, state as TabDefinition | null),
+  },
+  tabOrder: {
+    key: (_state, entityId) => entityId,
+    current: () => listTabs().map(t => t.id),
+    restore: (_key, state) => {
+      reorderTabs(state as string[]);
+    },
+  },
+  modelTag: {
+    key: (_state, entityId) => entityId,
+    current: tag => listModelTags()[tag] ?? null,
+    restore: (tag, state) => {
+      if (state === null) deleteModelTag(tag);
+      else setModelTag(tag, state as string[]);
+    },
+  },
+  blacklist: {
+    key: (_state, entityId) => entityId,
+    current: modelName => getBlacklistEntry(modelName) ?? null,
+    restore: (modelName, state) => restoreBlacklistEntry(modelName, state as BlacklistEntry | null),
+  },
+  jobNote: {
+    key: (_state, entityId) => entityId,
+    current: async jobId => (await storage.getJobNotes(jobId)) ?? null,
+    restore: async (jobId, state) => {
+      await storage.setJobNotes(jobId, state as string | null);
+    },
+  },
+  // entityId is "<entityType>:<id>"; the state is that entity's duplicate_of
+  duplicateLink: {
+    key: (_state, entityId) => entityId,
+    current: key => {
+      const [type, id] = key.split(":");
+      return getDuplicateOf(type as DuplicateEntityType, id);
+    },
+    // Restoring a link can still create a chain or cycle if other links changed since
+    restore: async (key, state) => {
+      const [type, id] = key.split(":");
+      try {
+        await restoreDuplicateOf(type as DuplicateEntityType, id, state as string | null);
+      } catch (error) {
+        if (error instanceof DuplicateLinkError) {
+          throw new AuditRevertError(`Cannot restore duplicate link: ${error.message}`, error.status === 409 ? 409 : 400);
+        }
+        throw error;
+      }
+    },
+  },
+  evalRequest: {
+    key: (_state, entityId) => entityId,
+    current: id => getEvalRequest(id) ?? null,
+    restore: (id, state) => restoreEvalRequest(id, state as EvalRequest | null),
+  },
+};
+
+export class AuditRevertError extends Error {
+  constructor(message: string, readonly status: 400 | 409) {
+    super(message);
+    this.name = "AuditRevertError";
+  }
+}
+
+/**
+ * Put the entity back to its state before `entry`, provided nothing has changed
+ * it since (otherwise a revert would silently discard a later edit).
+ */
+export async function revertAuditEntry(req: Request, entry: AuditEntry): Promise<AuditEntry> {
+  const access = ENTITY_ACCESS[entry.entityType];
+  if (!access) {
+    throw new AuditRevertError(`${entry.entityType} changes cannot be reverted`, 400);
+  }
+  const liveKey = access.key(entry.after, entry.entityId);
+  const current = await access.current(liveKey);
+  if (JSON.stringify(current) !== JSON.stringify(entry.after)) {
+    throw new AuditRevertError(`${entry.entityType} "${liveKey}" has changed since this entry; revert the later changes first`, 409);
+  }
+  await access.restore(liveKey, entry.before);
+  const restoredKey = access.key(entry.before, entry.entityId);
+  return recordAudit(req, {
+    action: "revert",
+    entityType: entry.entityType,
+    entityId: restoredKey,
+    before: current,
+    after: await access.current(restoredKey),
+    revertOf: entry.id,
+  });
+}
@@ -0,0 +1,118 @@
+import { randomBytes } from "crypto";
+import type { Express, NextFunction, Request, Response } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { getUser, verifyCredentials } from "./users";
+import { hasRole, loginSchema, type AuthUser, type Role } from "@shared/auth";
+
+declare global {
+  namespace Express {
+    interface User extends AuthUser {}
+  }
+}
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Sessions (in-memory, so a restart signs everyone out) and passport-local
+ * login against server/users.ts. Registers:
+ *   POST /api/login   { username, password } -> AuthUser
+ *   POST /api/logout
+ *   GET  /api/user    -> AuthUser, or 401 when signed out
+ */
+export function setupAuth(app: Express) {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret && app.get("env") === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  const MemoryStore = createMemoryStore(session);
+  app.set("trust proxy", 1);
+  app.use(session({
+    // Without a configured secret (development) sessions only last until the next restart anyway
+    secret: secret ?? randomBytes(32).toString("hex"),
+    resave: false,
+    saveUninitialized: false,
+    store: new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 }),
+    cookie: {
+      maxAge: SESSION_TTL_MS,
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      done(null, (await verifyCredentials(username, password)) ?? false);
+    } catch (error) {
+      done(error);
+    }
+  }));
+  passport.serializeUser((user, done) => done(null, user.username));
+  // Re-read the user on every request so role changes and deletions apply immediately
+  passport.deserializeUser((username: string, done) => done(null, getUser(username) ?? false));
+
+  app.post("/api/login", (req, res, next) => {
+    try {
+      loginSchema.parse(req.body);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
+      return next(error);
+    }
+    passport.authenticate("local", (error: unknown, user: AuthUser | false) => {
+      if (error) {
+        console.error("Error signing in:", error);
+        return res.status(500).json({ error: "Failed to sign in" });
+      }
+      if (!user) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+      req.login(user, loginError => {
+        if (loginError) {
+          console.error("Error starting session:", loginError);
+          return res.status(500).json({ error: "Failed to sign in" });
+        }
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res) => {
+    req.logout(error => {
+      if (error) {
+        console.error("Error signing out:", error);
+        return res.status(500).json({ error: "Failed to sign out" });
+      }
+      res.status(204).end();
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not signed in" });
+    }
+    res.json(req.user);
+  });
+}
+
+/** Route guard: 401 when signed out, 403 when the user's role is below `role`. */
+export function requireRole(role: Role) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Sign in required" });
+    }
+    if (!hasRole(req.user, role)) {
+      return res.status(403).json({ error: `Requires the ${role} role` });
+    }
+    next();
+  };
+}
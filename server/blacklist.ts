@@ -0,0 +1,80 @@
+import { z } from "zod";
+import { JsonFileStore } from "./jsonStore";
+import {
+  blacklistEntryInputSchema,
+  isBlacklistEntryActive,
+  type BlacklistEntry,
+  type BlacklistEntryInput,
+  type BlacklistEntryUpdate,
+  type BlacklistEntryWithStatus,
+} from "@shared/blacklist";
+
+/**
+ * Model blacklist, persisted in server/data/blacklist.json and keyed by model name.
+ * Starts from the tracked seed server/seed/blacklist.json (the legacy list).
+ */
+
+const blacklistEntrySchema = blacklistEntryInputSchema.extend({
+  addedAt: z.string().nullable(),
+  updatedAt: z.string().nullable(),
+});
+
+const blacklistFileSchema = z.object({
+  entries: z.array(blacklistEntrySchema),
+}).refine(file => new Set(file.entries.map(e => e.modelName)).size === file.entries.length, {
+  message: "blacklist model names must be unique",
+});
+
+const store = new JsonFileStore("blacklist.json", blacklistFileSchema, () => ({ entries: [] }), "blacklist.json");
+
+function withStatus(entry: BlacklistEntry, now: Date): BlacklistEntryWithStatus {
+  return { ...entry, active: isBlacklistEntryActive(entry, now) };
+}
+
+/** All entries, newest first (undated ones last), including expired ones (flagged inactive). */
+export function listBlacklist(now: Date = new Date()): BlacklistEntryWithStatus[] {
+  return [...store.read().entries]
+    .sort((a, b) => (b.addedAt ?? "").localeCompare(a.addedAt ?? "") || a.modelName.localeCompare(b.modelName))
+    .map(entry => withStatus(entry, now));
+}
+
+export function getBlacklistEntry(modelName: string): BlacklistEntry | undefined {
+  return store.read().entries.find(e => e.modelName === modelName);
+}
+
+/** Caller checks the model is not already listed. */
+export function addBlacklistEntry(input: BlacklistEntryInput): BlacklistEntryWithStatus {
+  const now = new Date();
+  const entry: BlacklistEntry = { ...input, addedAt: now.toISOString(), updatedAt: now.toISOString() };
+  store.update(file => ({ entries: [...file.entries, entry] }));
+  return withStatus(entry, now);
+}
+
+/** Returns undefined if the model is not listed. */
+export function updateBlacklistEntry(modelName: string, update: BlacklistEntryUpdate): BlacklistEntryWithStatus | undefined {
+  const existing = getBlacklistEntry(modelName);
+  if (!existing) return undefined;
+  const now = new Date();
+  const entry: BlacklistEntry = { ...existing, ...update, modelName, updatedAt: now.toISOString() };
+  store.update(file => ({ entries: file.entries.map(e => (e.modelName === modelName ? entry : e)) }));
+  return withStatus(entry, now);
+}
+
+export function removeBlacklistEntry(modelName: string): boolean {
+  if (!getBlacklistEntry(modelName)) return false;
+  store.update(file => ({ entries: file.entries.filter(e => e.modelName !== modelName) }));
+  return true;
+}
+
+/** Audit revert: put back a previously stored entry (timestamps included), or remove it when null. */
+export function restoreBlacklistEntry(modelName: string, entry: BlacklistEntry | null): void {
+  store.update(file => {
+    const others = file.entries.filter(e => e.modelName !== modelName);
+    return { entries: entry === null ? others : [...others, entry] };
+  });
+}
+
+/** Entries naming a model that no longer exists (renamed or deleted). */
+export function findOrphanedEntries(knownModelNames: Set<string>): BlacklistEntryWithStatus[] {
+  return listBlacklist().filter(entry => !knownModelNames.has(entry.modelName));
+}
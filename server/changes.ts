@@ -0,0 +1,147 @@
+import { storage, type BenchmarkResultWithImprovement, type JobActivity } from "./storage";
+import type { LeaderboardParams } from "./leaderboard";
+import {
+  CHANGE_EVENT_TYPES,
+  type ChangeEvent,
+  type ChangeEventType,
+  type ChangeFeed,
+  type ChangesQuery,
+  type SupersededResult,
+} from "@shared/changes";
+
+/**
+ * The change feed: what happened in (since, until]. Job and model events come
+ * straight from timestamps; guardrail events from the runs that finished in
+ * the window; superseded results from comparing the selection as of `since`
+ * (time travel) with the selection at `until`.
+ */
+
+const JOB_EVENT_TYPES: ChangeEventType[] = ["jobStarted", "jobFinished", "jobFailed", "guardrailFired", "resultSuperseded"];
+
+const cellKey = (r: BenchmarkResultWithImprovement) => `${r.modelName}|||${r.agentName}|||${r.benchmarkName}`;
+
+/** The cell's shown result, or undefined for in-flight and metric-less runs. */
+function shownResult(result: BenchmarkResultWithImprovement): SupersededResult | undefined {
+  const finished = (result.jobStatus === "Finished" || result.jobStatus === null) && !result.metricMissing;
+  return finished ? { jobId: result.jobId, accuracy: result.accuracy } : undefined;
+}
+
+function jobEvents(job: JobActivity, inWindow: (ts: string | null) => string | undefined): ChangeEvent[] {
+  const ref = { jobId: job.jobId, modelName: job.modelName, agentName: job.agentName, benchmarkName: job.benchmarkName };
+  const events: ChangeEvent[] = [];
+  // Jobs past Pending without started_at count as started when submitted
+  const startedAt = inWindow(job.startedAt ?? (job.jobStatus !== "Pending" ? job.createdAt : null));
+  if (startedAt) events.push({ type: "jobStarted", at: startedAt, ...ref });
+  if (job.jobStatus === "Finished") {
+    const endedAt = inWindow(job.endedAt);
+    if (endedAt) events.push({ type: "jobFinished", at: endedAt, ...ref, accuracy: job.accuracy });
+  } else if (job.jobStatus === "Failed") {
+    const failedAt = inWindow(job.endedAt ?? job.startedAt ?? job.createdAt);
+    if (failedAt) events.push({ type: "jobFailed", at: failedAt, ...ref });
+  }
+  return events;
+}
+
+export async function getChanges(query: ChangesQuery, params: LeaderboardParams): Promise<ChangeFeed> {
+  const since = new Date(query.since).toISOString();
+  const until = new Date(query.until ?? Date.now()).toISOString();
+  const types = new Set<ChangeEventType>(query.types ?? CHANGE_EVENT_TYPES);
+  const { mode, hideNoTraceLink, metric, selectionPolicy } = params;
+  // Live data unless the window ends in the past
+  const untilDate = query.until ? new Date(until) : undefined;
+
+  /** Normalized timestamp when `ts` falls in the window. */
+  const inWindow = (ts: string | null | undefined): string | undefined => {
+    const time = ts ? new Date(ts) : undefined;
+    if (!time || isNaN(time.getTime())) return undefined;
+    const at = time.toISOString();
+    return at > since && at <= until ? at : undefined;
+  };
+
+  const events: ChangeEvent[] = [];
+
+  if (types.has("modelRegistered")) {
+    for (const model of await storage.getAllModels()) {
+      const at = inWindow(model.creationTime);
+      if (!at) continue;
+      events.push({
+        type: "modelRegistered",
+        at,
+        modelId: model.modelId,
+        modelName: model.modelName,
+        baseModelName: model.baseModelName,
+        agentName: model.agentName,
+      });
+    }
+  }
+
+  const jobs = JOB_EVENT_TYPES.some(type => types.has(type)) ? await storage.getJobActivity(since, until) : [];
+  // Jobs that finished in the window, by id: their end time dates guardrail and superseded events
+  const finishedAt = new Map<string, string>();
+  for (const job of jobs) {
+    for (const event of jobEvents(job, inWindow)) {
+      if (event.type === "jobFinished") finishedAt.set(job.jobId, event.at);
+      if (types.has(event.type)) events.push(event);
+    }
+  }
+
+  // One read of the view serves both: guardrails for runs that finished in the window,
+  // and the selection at both ends ("all" mode shows every run, so nothing is superseded)
+  const guardrailJobIds = types.has("guardrailFired") ? Array.from(finishedAt.keys()) : [];
+  const superseded = types.has("resultSuperseded") && mode !== "all";
+  if (guardrailJobIds.length > 0 || superseded) {
+    const results = await storage.getChangeFeedResults(
+      { mode, hideNoTraceLink, metric, selectionPolicy },
+      new Date(since),
+      untilDate,
+      guardrailJobIds,
+      superseded
+    );
+    for (const run of results.guardrails) {
+      events.push({ type: "guardrailFired", at: finishedAt.get(run.jobId)!, ...run });
+    }
+
+    const previousByCell = new Map((results.before ?? []).map(result => [cellKey(result), result]));
+    for (const result of results.after ?? []) {
+      const previousResult = previousByCell.get(cellKey(result));
+      const previous = previousResult && shownResult(previousResult);
+      const current = shownResult(result);
+      if (!previous || !current) continue;
+      if (previous.jobId === current.jobId && previous.accuracy === current.accuracy) continue;
+      events.push({
+        type: "resultSuperseded",
+        at: finishedAt.get(current.jobId) ?? until,
+        modelName: result.modelName,
+        agentName: result.agentName,
+        benchmarkName: result.benchmarkName,
+        previous,
+        current,
+      });
+    }
+  }
+
+  const order = (type: ChangeEventType) => CHANGE_EVENT_TYPES.indexOf(type);
+  events.sort((a, b) => a.at.localeCompare(b.at) || order(a.type) - order(b.type));
+
+  if (events.length <= query.limit) {
+    return { since, until, mode, events, truncated: 0, nextSince: until };
+  }
+  // Never split a run of events sharing the boundary timestamp, since resuming from
+  // the exclusive nextSince would skip the rest of it: cut before the run, or, when
+  // the run starts the page, return all of it even though that exceeds the limit
+  let cut = query.limit;
+  while (cut > 0 && events[cut].at === events[cut - 1].at) cut--;
+  if (cut === 0) {
+    cut = query.limit;
+    while (cut < events.length && events[cut].at === events[cut - 1].at) cut++;
+  }
+  const truncated = events.length - cut;
+  return {
+    since,
+    until,
+    mode,
+    events: events.slice(0, cut),
+    truncated,
+    nextSince: truncated > 0 ? events[cut - 1].at : until,
+  };
+}
@@ -0,0 +1,103 @@
+import { z } from "zod";
+import { JsonFileStore } from "./jsonStore";
+import type { ModelInfo } from "./storage";
+import { getModelAliasKey } from "./modelAliases";
+import {
+  cohortInputSchema,
+  type Cohort,
+  type CohortInput,
+  type ResolvedCohort,
+} from "@shared/cohorts";
+
+/**
+ * Cohort store, persisted in server/data/cohorts.json (seeded from
+ * server/seed/cohorts.json). Array order is tab order.
+ */
+
+const cohortSchema = cohortInputSchema.and(z.object({
+  createdAt: z.string(),
+  updatedAt: z.string(),
+}));
+
+const cohortFileSchema = z.object({
+  cohorts: z.array(cohortSchema),
+}).refine(file => new Set(file.cohorts.map(c => c.slug)).size === file.cohorts.length, {
+  message: "cohort slugs must be unique",
+});
+
+const store = new JsonFileStore("cohorts.json", cohortFileSchema, () => ({ cohorts: [] }), "cohorts.json");
+
+export function listCohorts(): Cohort[] {
+  return store.read().cohorts;
+}
+
+export function getCohort(slug: string): Cohort | undefined {
+  return listCohorts().find(c => c.slug === slug);
+}
+
+/** Append a cohort (becomes the last cohort tab). Caller checks the slug is free. */
+export function createCohort(input: CohortInput): Cohort {
+  const now = new Date().toISOString();
+  const cohort: Cohort = { ...input, createdAt: now, updatedAt: now };
+  store.update(file => ({ cohorts: [...file.cohorts, cohort] }));
+  return cohort;
+}
+
+/** Replace a cohort in place, keeping its position. The slug may change. Returns undefined if it does not exist. */
+export function updateCohort(slug: string, input: CohortInput): Cohort | undefined {
+  const existing = getCohort(slug);
+  if (!existing) return undefined;
+  const cohort: Cohort = { ...input, createdAt: existing.createdAt, updatedAt: new Date().toISOString() };
+  store.update(file => ({ cohorts: file.cohorts.map(c => (c.slug === slug ? cohort : c)) }));
+  return cohort;
+}
+
+export function deleteCohort(slug: string): boolean {
+  if (!getCohort(slug)) return false;
+  store.update(file => ({ cohorts: file.cohorts.filter(c => c.slug !== slug) }));
+  return true;
+}
+
+/**
+ * Audit revert: put `cohort` (a previously stored state, timestamps included) where
+ * `slug` is now, append it if `slug` is gone, or delete `slug` when `cohort` is null.
+ */
+export function restoreCohort(slug: string, cohort: Cohort | null): void {
+  store.update(file => {
+    if (cohort === null) return { cohorts: file.cohorts.filter(c => c.slug !== slug) };
+    const exists = file.cohorts.some(c => c.slug === slug);
+    return { cohorts: exists ? file.cohorts.map(c => (c.slug === slug ? cohort : c)) : [...file.cohorts, cohort] };
+  });
+}
+
+/**
+ * Map every listed model to its canonical name, so a cohort listing a
+ * duplicate (or an alias of a model's name) still matches the merged leaderboard row.
+ */
+export function resolveCohort(cohort: Cohort, models: ModelInfo[]): ResolvedCohort {
+  const aliasKey = getModelAliasKey();
+  const canonicalByName = new Map<string, string>();
+  const canonicalByAlias = new Map<string, string>();
+  for (const model of models) {
+    canonicalByName.set(model.modelName, model.canonicalModelName);
+    if (!canonicalByAlias.has(aliasKey(model.modelName))) canonicalByAlias.set(aliasKey(model.modelName), model.canonicalModelName);
+  }
+
+  const unknownModels = new Set<string>();
+  // Exact name first, then any model with the same alias key (`Qwen/Qwen3-8B` → `hosted_vllm/Qwen/Qwen3-8B`)
+  const canonicalize = (name: string): string => {
+    const canonical = canonicalByName.get(name) ?? canonicalByAlias.get(aliasKey(name));
+    if (canonical === undefined) unknownModels.add(name);
+    return canonical ?? name;
+  };
+
+  return {
+    ...cohort,
+    sections: cohort.sections.map(section => ({
+      ...section,
+      canonicalModels: section.models.map(canonicalize),
+    })),
+    canonicalBaseModels: cohort.baseModels.map(canonicalize),
+    unknownModels: Array.from(unknownModels),
+  };
+}
@@ -0,0 +1,211 @@
+import { storage } from "./storage";
+import { getModelAliasConfig, getModelAliasKey } from "./modelAliases";
+import type { DuplicateEntityType, DuplicateNode, DuplicateSuggestion } from "@shared/duplicates";
+
+/**
+ * Likely duplicates that are not linked yet. Names are compared at increasing
+ * levels of normalization; the first level at which two names agree sets the
+ * score. Candidates are compared by their current root (what duplicate_of
+ * resolves to), so pairs that already pool together are never suggested.
+ */
+
+// Decorations added by serving/conversion tooling (matched case-insensitively),
+// on top of the serving prefixes in the model alias config
+const NAME_PREFIXES = ["hosted_vllm/", "dcagent_", "dcagent-", "dcagent/"];
+const NAME_SUFFIXES = ["_converted", "-converted", ".converted", "_hf", "-hf"];
+
+// Near matches: compared only within blocks this small, with at most this many edits
+const MAX_BLOCK_SIZE = 200;
+const MAX_EDIT_DISTANCE = 2;
+const MIN_NEAR_MATCH_LENGTH = 8;
+
+const compact = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/** Strip known prefixes/suffixes (repeatedly: `hosted_vllm/DCAgent_x_converted`). */
+function stripDecorations(name: string, prefixes: string[]): { name: string; stripped: string[] } {
+  let current = name;
+  const stripped: string[] = [];
+  let changed = true;
+  while (changed) {
+    changed = false;
+    const lower = current.toLowerCase();
+    const prefix = prefixes.find(p => lower.startsWith(p) && current.length > p.length);
+    if (prefix) {
+      current = current.slice(prefix.length);
+      stripped.push(`${prefix} prefix`);
+      changed = true;
+      continue;
+    }
+    const suffix = NAME_SUFFIXES.find(s => lower.endsWith(s) && current.length > s.length);
+    if (suffix) {
+      current = current.slice(0, -suffix.length);
+      stripped.push(`${suffix} suffix`);
+      changed = true;
+    }
+  }
+  return { name: current, stripped };
+}
+
+interface NormalizedName {
+  id: string;
+  name: string;
+  // Levels: case/separators, + decorations, + organization ("Qwen/Qwen3-8B" → "Qwen3-8B")
+  keys: [string, string, string];
+  stripped: string[];
+  digits: string;
+}
+
+function normalize(node: DuplicateNode, prefixes: string[], aliasKey: (name: string) => string): NormalizedName {
+  const stripped = stripDecorations(node.name, prefixes);
+  // Alias rules (rewrites, explicit pairs) apply after the decorations come off
+  const aliased = aliasKey(stripped.name);
+  const decorated = aliased === stripped.name ? stripped : { name: aliased, stripped: [...stripped.stripped, "model alias rules"] };
+  const withoutOrg = decorated.name.includes("/") ? decorated.name.slice(decorated.name.lastIndexOf("/") + 1) : decorated.name;
+  return {
+    id: node.id,
+    name: node.name,
+    keys: [compact(node.name), compact(decorated.name), compact(withoutOrg)],
+    stripped: decorated.stripped,
+    digits: node.name.replace(/\D+/g, " ").trim(),
+  };
+}
+
+const LEVELS = [
+  { score: 0.95, reason: "same name ignoring case and separators" },
+  { score: 0.9, reason: "same name after removing" },
+  { score: 0.8, reason: "same name ignoring the organization" },
+] as const;
+
+/** Levenshtein distance, giving up once it exceeds `max`. */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function rootOf(nodes: Map<string, DuplicateNode>, id: string): string {
+  const seen = new Set<string>();
+  let current = id;
+  while (!seen.has(current)) {
+    seen.add(current);
+    const next = nodes.get(current)?.duplicateOf;
+    if (!next || !nodes.has(next)) return current;
+    current = next;
+  }
+  // Cycle: no well-defined root, treat the entity as its own
+  return id;
+}
+
+/**
+ * Which side stays canonical: the name with fewer decorations, then the root
+ * more entities already point at, then the shorter name.
+ */
+function orderPair(a: NormalizedName, b: NormalizedName, dependentsOf: (id: string) => number): [NormalizedName, NormalizedName] {
+  const byDecorations = a.stripped.length - b.stripped.length;
+  if (byDecorations !== 0) return byDecorations < 0 ? [a, b] : [b, a];
+  const byDependents = dependentsOf(b.id) - dependentsOf(a.id);
+  if (byDependents !== 0) return byDependents < 0 ? [a, b] : [b, a];
+  return a.name.length <= b.name.length ? [a, b] : [b, a];
+}
+
+/** Score every candidate pair of roots; best score per pair, highest first. */
+export function suggestDuplicates(entityType: DuplicateEntityType, allNodes: DuplicateNode[], minScore = 0.6): DuplicateSuggestion[] {
+  const nodes = new Map(allNodes.map(n => [n.id, n]));
+  const dependents = new Map<string, number>();
+  // Every name still counts (a duplicate's name can match where its root's does not), but as its root
+  const rootOfId = new Map(allNodes.map(n => [n.id, rootOf(nodes, n.id)]));
+  allNodes.forEach(n => {
+    const root = rootOfId.get(n.id)!;
+    if (root !== n.id) dependents.set(root, (dependents.get(root) ?? 0) + 1);
+  });
+  // Alias rules are about model names; agents and benchmarks only use the built-in decorations
+  const prefixes = entityType === "model"
+    ? Array.from(new Set([...NAME_PREFIXES, ...getModelAliasConfig().prefixes.map(p => p.toLowerCase())]))
+    : NAME_PREFIXES;
+  const aliasKey = entityType === "model" ? getModelAliasKey() : (name: string) => name;
+  const normalized = allNodes.map(node => normalize(node, prefixes, aliasKey));
+
+  const best = new Map<string, DuplicateSuggestion>();
+  const consider = (a: NormalizedName, b: NormalizedName, score: number, reason: string) => {
+    const rootA = rootOfId.get(a.id)!;
+    const rootB = rootOfId.get(b.id)!;
+    if (rootA === rootB || score < minScore) return;
+    const [keep, drop] = orderPair(a, b, id => dependents.get(rootOfId.get(id)!) ?? 0);
+    const canonicalRoot = rootOfId.get(keep.id)!;
+    const duplicateRoot = rootOfId.get(drop.id)!;
+    const key = [rootA, rootB].sort().join("|");
+    const existing = best.get(key);
+    if (existing && existing.score >= score) return;
+    best.set(key, {
+      entityType,
+      duplicate: { id: duplicateRoot, name: nodes.get(duplicateRoot)!.name },
+      canonical: { id: canonicalRoot, name: nodes.get(canonicalRoot)!.name },
+      matched: [drop.name, keep.name],
+      score,
+      reason,
+    });
+  };
+
+  // Exact key matches, strictest level first
+  LEVELS.forEach((level, i) => {
+    const buckets = new Map<string, NormalizedName[]>();
+    for (const n of normalized) {
+      const key = n.keys[i];
+      if (!key) continue;
+      buckets.set(key, [...(buckets.get(key) ?? []), n]);
+    }
+    buckets.forEach(bucket => {
+      if (bucket.length < 2 || bucket.length > MAX_BLOCK_SIZE) return;
+      for (let x = 0; x < bucket.length; x++) {
+        for (let y = x + 1; y < bucket.length; y++) {
+          const [a, b] = [bucket[x], bucket[y]];
+          if (a.name === b.name) {
+            consider(a, b, 1, "identical name");
+          } else if (i === 1) {
+            const stripped = Array.from(new Set([...a.stripped, ...b.stripped]));
+            consider(a, b, level.score, `${level.reason} ${stripped.join(", ") || "separators"}`);
+          } else {
+            consider(a, b, level.score, level.reason);
+          }
+        }
+      }
+    });
+  });
+
+  // Near matches: a couple of edits apart, with the same numbers (so 8B never matches 4B)
+  const blocks = new Map<string, NormalizedName[]>();
+  for (const n of normalized) {
+    const key = n.keys[2];
+    if (key.length < MIN_NEAR_MATCH_LENGTH) continue;
+    const block = `${key.slice(0, 3)}|${n.digits}`;
+    blocks.set(block, [...(blocks.get(block) ?? []), n]);
+  }
+  blocks.forEach(block => {
+    if (block.length < 2 || block.length > MAX_BLOCK_SIZE) return;
+    for (let x = 0; x < block.length; x++) {
+      for (let y = x + 1; y < block.length; y++) {
+        const [a, b] = [block[x], block[y]];
+        if (a.keys[2] === b.keys[2]) continue;
+        const distance = editDistance(a.keys[2], b.keys[2], MAX_EDIT_DISTANCE);
+        if (distance > MAX_EDIT_DISTANCE) continue;
+        consider(a, b, distance === 1 ? 0.7 : 0.6, `names ${distance} ${distance === 1 ? "edit" : "edits"} apart`);
+      }
+    }
+  });
+
+  return Array.from(best.values()).sort((a, b) => b.score - a.score || a.duplicate.name.localeCompare(b.duplicate.name));
+}
+
+export async function getDuplicateSuggestions(entityType: DuplicateEntityType, minScore: number): Promise<DuplicateSuggestion[]> {
+  return suggestDuplicates(entityType, await storage.getDuplicateNodes(entityType), minScore);
+}
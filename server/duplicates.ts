@@ -0,0 +1,263 @@
+import { storage, type BenchmarkResultWithImprovement, type EvalSelectionMode, type SimulatedDuplicateLink } from "./storage";
+import type {
+  ChainProblem,
+  DuplicateEntityType,
+  DuplicateLinkPreview,
+  DuplicateNode,
+  LinkProblem,
+  PreviewCell,
+  PreviewCellChange,
+} from "@shared/duplicates";
+
+/**
+ * Duplicate links (duplicate_of on models, agents and benchmarks): validation,
+ * merge previews and applying a link. The leaderboard view follows duplicate_of
+ * exactly one hop, so every link must point at a root and nothing may point at
+ * an entity that is itself being made a duplicate.
+ */
+
+// Cell changes returned by a preview; the rest are only counted
+const MAX_PREVIEW_CELLS = 500;
+
+/** Follow duplicate_of from `id`; `cycle` is set when the walk revisits an entity. */
+function walkChain(nodes: Map<string, DuplicateNode>, id: string): { path: string[]; cycle: boolean } {
+  const path = [id];
+  const seen = new Set(path);
+  let next = nodes.get(id)?.duplicateOf ?? null;
+  while (next) {
+    if (seen.has(next)) return { path: [...path, next], cycle: true };
+    path.push(next);
+    seen.add(next);
+    next = nodes.get(next)?.duplicateOf ?? null;
+  }
+  return { path, cycle: false };
+}
+
+const namesOf = (nodes: Map<string, DuplicateNode>, ids: string[]) => ids.map(id => nodes.get(id)?.name ?? id);
+
+/** Problems with pointing `id` at `canonicalId` (null: unlinking, always allowed). */
+export function checkDuplicateLink(nodes: Map<string, DuplicateNode>, id: string, canonicalId: string | null): LinkProblem[] {
+  const node = nodes.get(id);
+  if (!node) return [{ kind: "unknown", message: `No entity with id ${id}`, blocking: true }];
+  if (canonicalId === null) return [];
+
+  const canonical = nodes.get(canonicalId);
+  if (!canonical) return [{ kind: "unknown", message: `No entity with id ${canonicalId}`, blocking: true }];
+  if (canonicalId === id) return [{ kind: "self", message: `${node.name} cannot be a duplicate of itself`, blocking: true }];
+
+  const problems: LinkProblem[] = [];
+  const chain = walkChain(nodes, canonicalId);
+  if (chain.path.includes(id)) {
+    const loop = chain.path.slice(0, chain.path.indexOf(id) + 1);
+    problems.push({
+      kind: "cycle",
+      message: `${canonical.name} already resolves to ${node.name}; linking would create a cycle`,
+      blocking: true,
+      path: namesOf(nodes, [id, ...loop]),
+    });
+  } else if (canonical.duplicateOf) {
+    const root = chain.cycle ? undefined : chain.path[chain.path.length - 1];
+    problems.push({
+      kind: "multiHop",
+      message: root
+        ? `${canonical.name} is itself a duplicate; link to its canonical ${nodes.get(root)?.name ?? root} instead`
+        : `${canonical.name} is part of an existing duplicate cycle`,
+      blocking: true,
+      path: namesOf(nodes, chain.path),
+      suggestedCanonicalId: root,
+    });
+  }
+
+  const dependents = Array.from(nodes.values()).filter(n => n.duplicateOf === id && n.id !== canonicalId);
+  if (dependents.length > 0) {
+    problems.push({
+      kind: "dependents",
+      message: `${dependents.length} ${dependents.length === 1 ? "entity points" : "entities point"} at ${node.name}; they will be re-pointed to ${canonical.name}`,
+      blocking: false,
+      path: dependents.map(d => d.name),
+      ids: dependents.map(d => d.id),
+    });
+  }
+  return problems;
+}
+
+/** Existing links the one-hop view resolves wrongly: cycles and chains longer than one hop. */
+export function findChainProblems(nodes: Map<string, DuplicateNode>): ChainProblem[] {
+  const problems: ChainProblem[] = [];
+  const reportedCycles = new Set<string>();
+  nodes.forEach(node => {
+    if (!node.duplicateOf) return;
+    const { path, cycle } = walkChain(nodes, node.id);
+    if (cycle) {
+      // Report each cycle once, whichever member it is reached from
+      const members = path.slice(path.indexOf(path[path.length - 1]), -1);
+      const key = [...members].sort().join(",");
+      if (reportedCycles.has(key)) return;
+      reportedCycles.add(key);
+      problems.push({ kind: "cycle", path: namesOf(nodes, path), ids: path });
+    } else if (path.length > 2) {
+      problems.push({ kind: "multiHop", path: namesOf(nodes, path), ids: path });
+    }
+  });
+  return problems;
+}
+
+function toCell(result: BenchmarkResultWithImprovement): PreviewCell {
+  const hasValue = (result.jobStatus === "Finished" || result.jobStatus === null) && !result.metricMissing;
+  // Same base fallback the pivoted leaderboard uses
+  const base = result.baseModelAccuracy
+    ?? result.canonicalBenchmarkBaseModelAccuracy
+    ?? result.canonicalBaseModelAccuracy
+    ?? result.canonicalBothBaseModelAccuracy;
+  return {
+    accuracy: hasValue ? result.accuracy : null,
+    improvement: hasValue && base !== undefined ? result.accuracy - base : null,
+    canonicalModelName: result.canonicalModelName,
+    jobId: result.jobId,
+  };
+}
+
+const sameCell = (a: PreviewCell, b: PreviewCell) =>
+  a.accuracy === b.accuracy && a.improvement === b.improvement && a.canonicalModelName === b.canonicalModelName && a.jobId === b.jobId;
+
+/** Group counts before/after, and groups after the link that absorb more than one group from before it. */
+function mergedGroups(moves: Array<[string, string]>) {
+  const sources = new Map<string, Set<string>>();
+  for (const [before, after] of moves) {
+    const from = sources.get(after) ?? new Set<string>();
+    from.add(before);
+    sources.set(after, from);
+  }
+  return {
+    before: new Set(moves.map(([before]) => before)).size,
+    after: sources.size,
+    merged: Array.from(sources.entries())
+      .filter(([, from]) => from.size > 1)
+      .map(([key, from]) => ({ key, from: Array.from(from).sort() })),
+  };
+}
+
+type PreviewDiff = Pick<DuplicateLinkPreview, "pools" | "rows" | "cells" | "cellsTruncated">;
+
+/** What a link changes in the pivoted leaderboard: merged pools and rows, and cell values. */
+function diffSimulation({ before, after, runs }: SimulatedDuplicateLink): PreviewDiff {
+  const cellKey = (r: BenchmarkResultWithImprovement) => `${r.modelName}|||${r.agentName}|||${r.benchmarkName}`;
+  const beforeCells = new Map(before.map(r => [cellKey(r), r]));
+  const afterCells = new Map(after.map(r => [cellKey(r), r]));
+  const changes: PreviewCellChange[] = [];
+  const describe = (r: BenchmarkResultWithImprovement) => ({ modelName: r.modelName, agentName: r.agentName, benchmarkName: r.benchmarkName });
+  beforeCells.forEach((result, key) => {
+    const next = afterCells.get(key);
+    if (!next) {
+      changes.push({ ...describe(result), change: "removed", before: toCell(result) });
+    } else if (!sameCell(toCell(result), toCell(next))) {
+      changes.push({ ...describe(result), change: "changed", before: toCell(result), after: toCell(next) });
+    }
+  });
+  afterCells.forEach((result, key) => {
+    if (!beforeCells.has(key)) changes.push({ ...describe(result), change: "added", after: toCell(result) });
+  });
+
+  const pools = mergedGroups(runs.map(run => run.pool));
+  const rows = mergedGroups(runs.map(run => run.tableRow));
+  return {
+    pools: { ...pools, merged: pools.merged.map(({ key, from }) => ({ pool: key, from })) },
+    rows: { ...rows, merged: rows.merged.map(({ key, from }) => ({ row: key, from })) },
+    cells: changes.slice(0, MAX_PREVIEW_CELLS),
+    cellsTruncated: Math.max(0, changes.length - MAX_PREVIEW_CELLS),
+  };
+}
+
+export class DuplicateLinkError extends Error {
+  constructor(message: string, readonly status: 400 | 404 | 409, readonly problems: LinkProblem[] = []) {
+    super(message);
+    this.name = "DuplicateLinkError";
+  }
+}
+
+export async function getDuplicateGraph(entityType: DuplicateEntityType) {
+  const nodes = await storage.getDuplicateNodes(entityType);
+  return { entityType, nodes, problems: findChainProblems(new Map(nodes.map(n => [n.id, n]))) };
+}
+
+/** Validate a link and list the ids it changes: the entity plus any re-pointed dependents. */
+async function planLink(entityType: DuplicateEntityType, id: string, canonicalId: string | null) {
+  const nodes = new Map((await storage.getDuplicateNodes(entityType)).map(n => [n.id, n]));
+  const node = nodes.get(id);
+  if (!node) throw new DuplicateLinkError(`${entityType} not found`, 404);
+  const problems = checkDuplicateLink(nodes, id, canonicalId);
+  const dependents = problems.find(p => p.kind === "dependents")?.ids ?? [];
+  return { nodes, node, problems, relinked: [id, ...dependents] };
+}
+
+/** The link's validation result and its effect on the leaderboard, without writing anything. */
+export async function previewDuplicateLink(
+  entityType: DuplicateEntityType,
+  id: string,
+  canonicalId: string | null,
+  mode: Exclude<EvalSelectionMode, "all">
+): Promise<DuplicateLinkPreview> {
+  const { nodes, node, problems, relinked } = await planLink(entityType, id, canonicalId);
+  const blocking = problems.some(p => p.blocking);
+  const empty: PreviewDiff = { pools: { before: 0, after: 0, merged: [] }, rows: { before: 0, after: 0, merged: [] }, cells: [], cellsTruncated: 0 };
+  const diff = blocking
+    ? empty
+    : diffSimulation(await storage.simulateDuplicateLink(entityType, relinked, canonicalId, mode));
+  return {
+    entityType,
+    id,
+    name: node.name,
+    currentDuplicateOf: node.duplicateOf,
+    canonicalId,
+    canonicalName: canonicalId ? nodes.get(canonicalId)?.name ?? null : null,
+    problems,
+    blocking,
+    relinked: blocking ? [] : relinked,
+    ...diff,
+  };
+}
+
+/**
+ * Point `id` (and anything pointing at it) at `canonicalId`, or unlink it.
+ * Returns each changed id with its previous duplicate_of, for the audit log.
+ */
+export async function applyDuplicateLink(
+  entityType: DuplicateEntityType,
+  id: string,
+  canonicalId: string | null
+): Promise<Array<{ id: string; before: string | null }>> {
+  const { nodes, problems, relinked } = await planLink(entityType, id, canonicalId);
+  const blocking = problems.filter(p => p.blocking);
+  if (blocking.length > 0) {
+    throw new DuplicateLinkError(blocking.map(p => p.message).join("; "), blocking.some(p => p.kind === "unknown") ? 400 : 409, problems);
+  }
+  const changed = relinked
+    .map(changedId => ({ id: changedId, before: nodes.get(changedId)?.duplicateOf ?? null }))
+    .filter(change => change.before !== canonicalId);
+  if (changed.length > 0) {
+    await storage.setDuplicateOf(entityType, changed.map(c => c.id), canonicalId);
+  }
+  return changed;
+}
+
+/** Read / restore one entity's duplicate_of (audit revert). */
+export async function getDuplicateOf(entityType: DuplicateEntityType, id: string): Promise<string | null> {
+  const nodes = await storage.getDuplicateNodes(entityType);
+  return nodes.find(n => n.id === id)?.duplicateOf ?? null;
+}
+
+/**
+ * Validated like a new link, except that entities pointing at `id` block the
+ * restore instead of being re-pointed: a revert only puts back this one entity.
+ */
+export async function restoreDuplicateOf(entityType: DuplicateEntityType, id: string, canonicalId: string | null): Promise<void> {
+  const { node, problems } = await planLink(entityType, id, canonicalId);
+  const blocking = problems.filter(p => p.blocking || p.kind === "dependents");
+  if (blocking.length > 0) {
+    const messages = blocking.map(p => p.kind === "dependents"
+      ? `${(p.path ?? []).join(", ")} ${p.ids?.length === 1 ? "points" : "point"} at ${node.name}; re-point ${p.ids?.length === 1 ? "it" : "them"} first`
+      : p.message);
+    throw new DuplicateLinkError(messages.join("; "), blocking.some(p => p.kind === "unknown") ? 400 : 409, problems);
+  }
+  await storage.setDuplicateOf(entityType, [id], canonicalId);
+}
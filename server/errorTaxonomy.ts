@@ -0,0 +1,186 @@
+import { z } from "zod";
+
+/**
+ * Exception breakdowns from sandbox_jobs.stats.evals[*].exception_stats, which maps
+ * an exception type to the names of the trials that raised it. Types listed in the
+ * guardrail config's benignErrors are the agent's fault (benign); everything else
+ * is an infra failure (invalid).
+ */
+
+export type ErrorClassification = 'benign' | 'invalid';
+
+export interface ExceptionTypeCount {
+  exceptionType: string;
+  classification: ErrorClassification;
+  count: number;
+  trials: string[];  // trial names
+}
+
+export interface JobErrors {
+  jobId: string;
+  jobName: string;
+  jobStatus: string | null;
+  modelName: string | null;
+  agentName: string | null;
+  benchmarkName: string | null;
+  sandboxConfig: string;
+  createdAt: string;
+  totalErrors: number;
+  invalidErrors: number;
+  benignErrors: number;
+  exceptions: ExceptionTypeCount[];
+}
+
+// One bar of the stacked chart: per-exception-type counts for a benchmark or sandbox config
+export interface ErrorGroup {
+  key: string;
+  jobCount: number;
+  total: number;
+  counts: Record<string, number>;
+}
+
+// Blank parameters (an untouched filter input) mean "no filter"
+const optionalParam = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(value => (value === "" ? undefined : value), schema.optional());
+
+// GET /api/errors query; `since` is any date Date can parse (the page sends YYYY-MM-DD), normalized to ISO
+export const errorsQuerySchema = z.object({
+  benchmark: optionalParam(z.string()),
+  agent: optionalParam(z.string()),
+  since: optionalParam(z.string()
+    .refine(value => !Number.isNaN(new Date(value).getTime()), { message: "Invalid since date" })
+    .transform(value => new Date(value).toISOString())),
+});
+
+export type ErrorBreakdownFilters = z.infer<typeof errorsQuerySchema>;
+
+export interface ErrorBreakdown {
+  filters: ErrorBreakdownFilters;
+  jobCount: number;
+  jobsWithErrors: number;
+  totalErrors: number;
+  invalidErrors: number;
+  benignErrors: number;
+  // Trial names are prefixed with the job id, since names repeat across reruns
+  exceptions: Array<ExceptionTypeCount & { jobCount: number }>;
+  byBenchmark: ErrorGroup[];
+  bySandboxConfig: ErrorGroup[];
+}
+
+// sandbox_jobs.stats / config are unvalidated JSONB, so each level is checked before use
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : undefined;
+}
+
+/** Exception types across all evals of one job, merged and sorted by count. */
+export function exceptionBreakdown(stats: unknown, benignErrors: string[]): ExceptionTypeCount[] {
+  const evals = asRecord(asRecord(stats)?.evals);
+  if (!evals) return [];
+  const benign = new Set(benignErrors);
+  const byType = new Map<string, ExceptionTypeCount>();
+  for (const evalData of Object.values(evals)) {
+    const exceptionStats = asRecord(asRecord(evalData)?.exception_stats) ?? {};
+    for (const [exceptionType, trials] of Object.entries(exceptionStats)) {
+      if (!Array.isArray(trials)) continue;
+      let entry = byType.get(exceptionType);
+      if (!entry) {
+        entry = {
+          exceptionType,
+          classification: benign.has(exceptionType) ? 'benign' : 'invalid',
+          count: 0,
+          trials: [],
+        };
+        byType.set(exceptionType, entry);
+      }
+      entry.count += trials.length;
+      entry.trials.push(...trials.map(String));
+    }
+  }
+  return Array.from(byType.values())
+    .sort((a, b) => b.count - a.count || a.exceptionType.localeCompare(b.exceptionType));
+}
+
+/**
+ * Short label for the sandbox a job ran in: environment type plus any resource
+ * overrides and a non-default timeout multiplier, e.g. "daytona cpus=4 mem=8192MB timeout×2".
+ */
+export function sandboxConfigKey(config: unknown): string {
+  const env = asRecord(asRecord(config)?.environment) ?? {};
+  const parts: string[] = [env.type ? String(env.type) : 'default'];
+  if (env.override_cpus != null) parts.push(`cpus=${env.override_cpus}`);
+  if (env.override_memory_mb != null) parts.push(`mem=${env.override_memory_mb}MB`);
+  if (env.override_storage_mb != null) parts.push(`storage=${env.override_storage_mb}MB`);
+  const timeoutMultiplier = asRecord(config)?.timeout_multiplier;
+  const timeout = timeoutMultiplier != null ? Number(timeoutMultiplier) : undefined;
+  if (timeout !== undefined && timeout !== 1) parts.push(`timeout×${timeout}`);
+  return parts.join(' ');
+}
+
+/** Totals of a job's exception list. */
+export function errorTotals(exceptions: ExceptionTypeCount[]): Pick<JobErrors, 'totalErrors' | 'invalidErrors' | 'benignErrors'> {
+  let invalidErrors = 0;
+  let benignErrors = 0;
+  for (const e of exceptions) {
+    if (e.classification === 'benign') benignErrors += e.count;
+    else invalidErrors += e.count;
+  }
+  return { totalErrors: invalidErrors + benignErrors, invalidErrors, benignErrors };
+}
+
+function groupBy(jobs: JobErrors[], keyOf: (job: JobErrors) => string): ErrorGroup[] {
+  const groups = new Map<string, ErrorGroup>();
+  for (const job of jobs) {
+    const key = keyOf(job);
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, jobCount: 0, total: 0, counts: {} };
+      groups.set(key, group);
+    }
+    group.jobCount += 1;
+    for (const e of job.exceptions) {
+      group.total += e.count;
+      group.counts[e.exceptionType] = (group.counts[e.exceptionType] ?? 0) + e.count;
+    }
+  }
+  return Array.from(groups.values())
+    .sort((a, b) => b.total - a.total || a.key.localeCompare(b.key));
+}
+
+/** Roll per-job breakdowns up into per-type totals and per-benchmark / per-sandbox-config groups. */
+export function aggregateErrors(jobs: JobErrors[], filters: ErrorBreakdownFilters): ErrorBreakdown {
+  const byType = new Map<string, ExceptionTypeCount & { jobCount: number }>();
+  for (const job of jobs) {
+    for (const e of job.exceptions) {
+      let entry = byType.get(e.exceptionType);
+      if (!entry) {
+        entry = { exceptionType: e.exceptionType, classification: e.classification, count: 0, trials: [], jobCount: 0 };
+        byType.set(e.exceptionType, entry);
+      }
+      entry.count += e.count;
+      entry.jobCount += 1;
+      for (const trial of e.trials) entry.trials.push(`${job.jobId}/${trial}`);
+    }
+  }
+
+  let totalErrors = 0;
+  let invalidErrors = 0;
+  let benignErrors = 0;
+  for (const job of jobs) {
+    totalErrors += job.totalErrors;
+    invalidErrors += job.invalidErrors;
+    benignErrors += job.benignErrors;
+  }
+
+  return {
+    filters,
+    jobCount: jobs.length,
+    jobsWithErrors: jobs.filter(job => job.totalErrors > 0).length,
+    totalErrors,
+    invalidErrors,
+    benignErrors,
+    exceptions: Array.from(byType.values())
+      .sort((a, b) => b.count - a.count || a.exceptionType.localeCompare(b.exceptionType)),
+    byBenchmark: groupBy(jobs, job => job.benchmarkName ?? '(unknown)'),
+    bySandboxConfig: groupBy(jobs, job => job.sandboxConfig),
+  };
+}
@@ -0,0 +1,197 @@
+import { z } from "zod";
+import { randomUUID } from "crypto";
+import { JsonFileStore } from "./jsonStore";
+import { storage, type BenchmarkResultWithImprovement } from "./storage";
+import {
+  EVAL_REQUEST_PRIORITIES,
+  evalRequestCellKey,
+  evalRequestSchema,
+  type EvalRequest,
+  type EvalRequestCell,
+  type EvalRequestCreate,
+  type EvalRequestJob,
+  type EvalRequestManifest,
+  type EvalRequestsQuery,
+  type EvalRequestState,
+  type EvalRequestUpdate,
+  type TrackedEvalRequest,
+} from "@shared/evalRequests";
+
+/**
+ * Eval request queue, persisted in server/data/evalRequests.json in creation
+ * order. States are derived from the runs the leaderboard knows about ("all"
+ * mode), matched by raw and canonical names so a request filed against a
+ * merged row still finds a job recorded under a duplicate.
+ */
+
+const evalRequestFileSchema = z.object({
+  requests: z.array(evalRequestSchema),
+}).refine(file => new Set(file.requests.map(r => r.id)).size === file.requests.length, {
+  message: "eval request ids must be unique",
+});
+
+const store = new JsonFileStore("evalRequests.json", evalRequestFileSchema, () => ({ requests: [] }));
+
+export function listEvalRequests(): EvalRequest[] {
+  return store.read().requests;
+}
+
+export function getEvalRequest(id: string): EvalRequest | undefined {
+  return listEvalRequests().find(r => r.id === id);
+}
+
+/** Returns undefined if the request does not exist. */
+export function updateEvalRequest(id: string, update: EvalRequestUpdate): EvalRequest | undefined {
+  const existing = getEvalRequest(id);
+  if (!existing) return undefined;
+  const now = new Date().toISOString();
+  const { cancelled, ...fields } = update;
+  const cancelledAt = cancelled === undefined ? existing.cancelledAt : cancelled ? existing.cancelledAt ?? now : null;
+  const request: EvalRequest = { ...existing, ...fields, cancelledAt, updatedAt: now };
+  store.update(file => ({ requests: file.requests.map(r => (r.id === id ? request : r)) }));
+  return request;
+}
+
+/** Audit revert: put back a previously stored request (keeping its position), or remove it when null. */
+export function restoreEvalRequest(id: string, request: EvalRequest | null): void {
+  store.update(file => {
+    if (request === null) return { requests: file.requests.filter(r => r.id !== id) };
+    const exists = file.requests.some(r => r.id === id);
+    return { requests: exists ? file.requests.map(r => (r.id === id ? request : r)) : [...file.requests, request] };
+  });
+}
+
+// Finished beats in flight beats anything else (Failed, ...) when a cell has several runs
+function jobRank(run: BenchmarkResultWithImprovement): number {
+  if ((run.jobStatus === "Finished" || run.jobStatus === null) && !run.metricMissing) return 2;
+  if (run.jobStatus === "Pending" || run.jobStatus === "Started") return 1;
+  return 0;
+}
+
+/** Every run per cell, under every raw/canonical name combination it can be requested by. */
+function indexRuns(runs: BenchmarkResultWithImprovement[]): Map<string, BenchmarkResultWithImprovement[]> {
+  const index = new Map<string, BenchmarkResultWithImprovement[]>();
+  for (const run of runs) {
+    const models = new Set([run.modelName, run.canonicalModelName]);
+    const agents = new Set([run.agentName, run.canonicalAgentName]);
+    const benchmarks = new Set([run.benchmarkName, run.canonicalBenchmarkName, run.sourceBenchmarkName]);
+    models.forEach(modelName => agents.forEach(agentName => benchmarks.forEach(benchmarkName => {
+      const key = evalRequestCellKey({ modelName, agentName, benchmarkName });
+      const cellRuns = index.get(key);
+      if (cellRuns) cellRuns.push(run);
+      else index.set(key, [run]);
+    })));
+  }
+  return index;
+}
+
+/**
+ * Only jobs submitted at or after the request count towards it, so a request
+ * filed to re-run a cell is not closed by the run it was filed about. Runs
+ * without a known submission time (older views) never count.
+ */
+function track(request: EvalRequest, runs: Map<string, BenchmarkResultWithImprovement[]>): TrackedEvalRequest {
+  const requestedAt = new Date(request.createdAt).getTime();
+  let run: BenchmarkResultWithImprovement | undefined;
+  for (const candidate of runs.get(evalRequestCellKey(request)) ?? []) {
+    if (!candidate.jobCreatedAt || new Date(candidate.jobCreatedAt).getTime() < requestedAt) continue;
+    if (!run || jobRank(candidate) > jobRank(run)) run = candidate;
+  }
+  const job: EvalRequestJob | null = run
+    ? { jobId: run.jobId, status: run.jobStatus, accuracy: jobRank(run) === 2 ? run.accuracy : null }
+    : null;
+  let state: EvalRequestState = "open";
+  if (request.cancelledAt) state = "cancelled";
+  else if (run && jobRank(run) === 2) state = "fulfilled";
+  else if (run && jobRank(run) === 1) state = "running";
+  return { ...request, state, job };
+}
+
+const PRIORITY_ORDER = new Map<string, number>(EVAL_REQUEST_PRIORITIES.map((p, i) => [p, i]));
+
+/** Matching requests with their derived state: highest priority first, then oldest first. */
+export async function getTrackedEvalRequests(query: EvalRequestsQuery = {}): Promise<TrackedEvalRequest[]> {
+  const runs = indexRuns(await storage.getAllBenchmarkResultsWithImprovement("all"));
+  const states = query.states ? new Set<EvalRequestState>(query.states) : undefined;
+  const ids = query.ids ? new Set(query.ids) : undefined;
+  return listEvalRequests()
+    .filter(r => !ids || ids.has(r.id))
+    .filter(r => query.assignee === undefined || (r.assignee ?? "") === query.assignee)
+    .map(r => track(r, runs))
+    .filter(r => !states || states.has(r.state))
+    .sort((a, b) =>
+      PRIORITY_ORDER.get(a.priority)! - PRIORITY_ORDER.get(b.priority)!
+      || a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * One request per cell, skipping cells that already have an open or running
+ * request. Runs are loaded first; the check and the insert then happen in a
+ * single synchronous store update, so concurrent submissions cannot both file
+ * the same cell.
+ */
+export async function createEvalRequests(
+  input: EvalRequestCreate,
+  requestedBy: string
+): Promise<{ created: EvalRequest[]; skipped: EvalRequestCell[] }> {
+  const runs = indexRuns(await storage.getAllBenchmarkResultsWithImprovement("all"));
+  let created: EvalRequest[] = [];
+  let skipped: EvalRequestCell[] = [];
+  store.update(file => {
+    const active = new Set(file.requests
+      .map(r => track(r, runs))
+      .filter(r => r.state === "open" || r.state === "running")
+      .map(evalRequestCellKey));
+    skipped = input.cells.filter(cell => active.has(evalRequestCellKey(cell)));
+    const now = new Date().toISOString();
+    created = input.cells.filter(cell => !active.has(evalRequestCellKey(cell))).map(cell => ({
+      id: randomUUID(),
+      modelName: cell.modelName,
+      agentName: cell.agentName,
+      benchmarkName: cell.benchmarkName,
+      priority: input.priority,
+      assignee: input.assignee,
+      notes: input.notes,
+      requestedBy,
+      createdAt: now,
+      updatedAt: now,
+      cancelledAt: null,
+    }));
+    return { requests: [...file.requests, ...created] };
+  });
+  return { created, skipped };
+}
+
+export function buildManifest(requests: TrackedEvalRequest[]): EvalRequestManifest {
+  return {
+    generatedAt: new Date().toISOString(),
+    requests: requests.map(r => ({
+      requestId: r.id,
+      model: r.modelName,
+      agent: r.agentName,
+      benchmark: r.benchmarkName,
+      priority: r.priority,
+      assignee: r.assignee,
+    })),
+  };
+}
+
+const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * The manifest as a bash script: one launcher call per request, arguments
+ * model, agent, benchmark. The launcher is $LAUNCH_EVAL (default launch_eval).
+ */
+export function manifestToShell(manifest: EvalRequestManifest): string {
+  const lines = [
+    "#!/usr/bin/env bash",
+    `# Eval request manifest: ${manifest.requests.length} request(s), generated ${manifest.generatedAt}`,
+    "# Usage: LAUNCH_EVAL=/path/to/launcher bash manifest.sh (called as: launcher MODEL AGENT BENCHMARK)",
+    "set -euo pipefail",
+    ': "${LAUNCH_EVAL:=launch_eval}"',
+    "",
+    ...manifest.requests.map(r =>
+      `"$LAUNCH_EVAL" ${[r.model, r.agent, r.benchmark].map(shellQuote).join(" ")}  # ${r.requestId} priority=${r.priority}${r.assignee ? ` assignee=${r.assignee.replace(/\s+/g, "_")}` : ""}`),
+  ];
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,202 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { errorTotals, exceptionBreakdown } from "./errorTaxonomy";
+import { log } from "./vite";
+
+/**
+ * Declarative guardrail rules, loaded from server/config/guardrails.json
+ * (override with GUARDRAILS_CONFIG). The file is re-read when its mtime changes,
+ * so rules can be edited without a deploy; an invalid edit is logged and the
+ * last good config stays in effect.
+ *
+ * A rule's `when` is a condition tree over a GuardrailContext:
+ *   { "field": "standardError", "op": ">", "value": 5 }
+ *   { "field": "completedTrials", "op": "<", "ref": "totalTrials" }
+ *   { "all": [...] } / { "any": [...] } / { "not": {...} }
+ * `field`/`ref` are context keys or dotted paths into `config` / `stats`.
+ * Comparisons against a missing value are false; use "missing"/"present" to test for it.
+ *
+ * The ids "incomplete" and "high-errors" also back the isIncomplete/isHighErrors
+ * flags and the selection policy's exclusions.
+ */
+
+const GUARDRAILS_PATH = process.env.GUARDRAILS_CONFIG
+  ?? path.resolve(process.cwd(), "server", "config", "guardrails.json");
+
+export type GuardrailSeverity = "info" | "warning" | "error";
+
+const comparisonOps = ["<", "<=", ">", ">=", "==", "!="] as const;
+
+type Comparison = { field: string; op: (typeof comparisonOps)[number]; value?: unknown; ref?: string };
+
+type Condition =
+  | { all: Condition[] }
+  | { any: Condition[] }
+  | { not: Condition }
+  | Comparison
+  | { field: string; op: "missing" | "present" }
+  | { field: string; op: "in"; value: unknown[] };
+
+const conditionSchema: z.ZodType<Condition> = z.lazy(() => z.union([
+  z.object({ all: z.array(conditionSchema).min(1) }).strict(),
+  z.object({ any: z.array(conditionSchema).min(1) }).strict(),
+  z.object({ not: conditionSchema }).strict(),
+  z.object({
+    field: z.string().min(1),
+    op: z.enum(comparisonOps),
+    value: z.union([z.number(), z.string(), z.boolean(), z.null()]).optional(),
+    ref: z.string().min(1).optional(),
+  }).strict().refine(c => (c.value === undefined) !== (c.ref === undefined), {
+    message: "comparison needs exactly one of value or ref",
+  }),
+  z.object({ field: z.string().min(1), op: z.enum(["missing", "present"]) }).strict(),
+  z.object({ field: z.string().min(1), op: z.literal("in"), value: z.array(z.union([z.number(), z.string(), z.boolean()])) }).strict(),
+]));
+
+const ruleSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, "ids are lowercase kebab-case"),
+  severity: z.enum(["info", "warning", "error"]),
+  description: z.string().min(1),
+  when: conditionSchema,
+});
+
+const guardrailConfigSchema = z.object({
+  // Exception types that are the agent's fault rather than infra failures
+  benignErrors: z.array(z.string()),
+  rules: z.array(ruleSchema),
+}).refine(cfg => new Set(cfg.rules.map(r => r.id)).size === cfg.rules.length, {
+  message: "rule ids must be unique",
+});
+
+export type GuardrailRule = z.infer<typeof ruleSchema>;
+export type GuardrailConfig = z.infer<typeof guardrailConfigSchema>;
+
+/** Everything a rule can look at for one job row. */
+export interface GuardrailContext {
+  jobStatus: string | null;
+  accuracy: number | null;
+  standardError: number | null;
+  isOverlong: boolean;
+  invalidErrorCount: number;     // exceptions not in benignErrors
+  completedTrials?: number;      // stats.n_trials
+  totalTrials?: number;          // job n_trials
+  completedRatio?: number;
+  timeoutMultiplier?: number;
+  // Previous Finished run of the same (model, agent, benchmark), by ended_at
+  previousAccuracy?: number;
+  previousStandardError?: number;
+  accuracyDropSe?: number;       // (previous - current) / sqrt(se² + prevSe²); positive = dropped
+  config: any;
+  stats: any;
+}
+
+export interface FiredGuardrail {
+  id: string;
+  severity: GuardrailSeverity;
+}
+
+let cached: { config: GuardrailConfig; mtimeMs: number } | undefined;
+
+function readConfig(): GuardrailConfig {
+  const raw = JSON.parse(fs.readFileSync(GUARDRAILS_PATH, "utf-8"));
+  const parsed = guardrailConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid guardrail config ${GUARDRAILS_PATH}: ${fromZodError(parsed.error).message}`);
+  }
+  return parsed.data;
+}
+
+/** Current rules; re-reads the file when it changed on disk. Throws only if no valid config was ever loaded. */
+export function getGuardrailConfig(): GuardrailConfig {
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(GUARDRAILS_PATH).mtimeMs;
+  } catch (error) {
+    if (cached) return cached.config;
+    throw error;
+  }
+  if (cached && cached.mtimeMs === mtimeMs) return cached.config;
+
+  try {
+    const config = readConfig();
+    cached = { config, mtimeMs };
+    log(`Loaded ${config.rules.length} guardrail rules from ${GUARDRAILS_PATH}`, "guardrails");
+    return config;
+  } catch (error) {
+    if (!cached) throw error;
+    console.error("Keeping previous guardrail config:", error);
+    cached = { ...cached, mtimeMs };
+    return cached.config;
+  }
+}
+
+/** Count exceptions across stats.evals whose type is not in the benign list. */
+export function countInvalidErrors(stats: unknown, benignErrors: string[]): number {
+  return errorTotals(exceptionBreakdown(stats, benignErrors)).invalidErrors;
+}
+
+function resolveField(ctx: GuardrailContext, field: string): unknown {
+  let value: unknown = ctx;
+  for (const part of field.split(".")) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+function isMissing(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === "number" && Number.isNaN(value));
+}
+
+// JSONB numbers sometimes arrive as strings, so numeric strings count as numbers
+function asNumber(value: unknown): number | undefined {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    if (!Number.isNaN(parsed)) return parsed;
+  }
+  return undefined;
+}
+
+function compare<T extends number | string>(op: Comparison["op"], left: T, right: T): boolean {
+  switch (op) {
+    case "<": return left < right;
+    case "<=": return left <= right;
+    case ">": return left > right;
+    case ">=": return left >= right;
+    case "==": return left === right;
+    case "!=": return left !== right;
+  }
+}
+
+function evaluate(condition: Condition, ctx: GuardrailContext): boolean {
+  if ("all" in condition) return condition.all.every(c => evaluate(c, ctx));
+  if ("any" in condition) return condition.any.some(c => evaluate(c, ctx));
+  if ("not" in condition) return !evaluate(condition.not, ctx);
+
+  const left = resolveField(ctx, condition.field);
+  if (condition.op === "missing") return isMissing(left);
+  if (condition.op === "present") return !isMissing(left);
+  if (isMissing(left)) return false;
+  if (condition.op === "in") return condition.value.includes(left);
+
+  const comparison = condition as Comparison;
+  const right = comparison.ref !== undefined ? resolveField(ctx, comparison.ref) : comparison.value;
+  if (isMissing(right)) return false;
+  // Numerically when both sides are numeric, otherwise as strings
+  const l = asNumber(left);
+  const r = asNumber(right);
+  if (l !== undefined && r !== undefined) return compare(comparison.op, l, r);
+  return compare(comparison.op, String(left), String(right));
+}
+
+/** Rules whose condition holds for this context, in config order. */
+export function evaluateGuardrails(ctx: GuardrailContext, rules: GuardrailRule[] = getGuardrailConfig().rules): FiredGuardrail[] {
+  const fired: FiredGuardrail[] = [];
+  for (const rule of rules) {
+    if (evaluate(rule.when, ctx)) fired.push({ id: rule.id, severity: rule.severity });
+  }
+  return fired;
+}
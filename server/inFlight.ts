@@ -0,0 +1,59 @@
+import { storage, type InFlightJobRecord } from "./storage";
+import type { InFlightJob, InFlightJobs } from "@shared/inFlight";
+
+/**
+ * Progress, throughput and ETA for Pending/Started jobs. Throughput is
+ * finished trials per hour since the job started; a Started job counts as
+ * stalled once no trial has finished for `stalledHours`.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const toTime = (ts: string | null) => (ts ? new Date(ts).getTime() : NaN);
+
+function describeJob(job: InFlightJobRecord, now: number, stalledHours: number): InFlightJob {
+  const startedAt = toTime(job.startedAt ?? job.createdAt);
+  const elapsedHours = (now - startedAt) / HOUR_MS;
+  const trialsPerHour = job.completedTrials > 0 && elapsedHours > 0 ? job.completedTrials / elapsedHours : null;
+  const remaining = job.totalTrials !== null ? Math.max(0, job.totalTrials - job.completedTrials) : null;
+  const etaAt = trialsPerHour && remaining !== null
+    ? new Date(now + (remaining / trialsPerHour) * HOUR_MS).toISOString()
+    : null;
+
+  const lastProgressAt = job.lastTrialEndedAt ?? job.startedAt ?? job.createdAt;
+  const lastProgress = toTime(lastProgressAt);
+  const hoursSinceProgress = Number.isNaN(lastProgress) ? null : (now - lastProgress) / HOUR_MS;
+
+  return {
+    jobId: job.jobId,
+    jobName: job.jobName,
+    status: job.jobStatus,
+    modelName: job.modelName,
+    agentName: job.agentName,
+    benchmarkName: job.benchmarkName,
+    username: job.username,
+    slurmJobId: job.slurmJobId,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    completedTrials: job.completedTrials,
+    totalTrials: job.totalTrials,
+    progress: job.totalTrials ? Math.min(1, job.completedTrials / job.totalTrials) : null,
+    trialsPerHour,
+    etaAt,
+    lastProgressAt,
+    hoursSinceProgress,
+    // Pending jobs are queued, not stuck
+    stalled: job.jobStatus === "Started" && hoursSinceProgress !== null && hoursSinceProgress >= stalledHours,
+  };
+}
+
+/** Stalled jobs first, then Started before Pending, then the longest without progress. */
+export async function getInFlightJobs(stalledHours: number): Promise<InFlightJobs> {
+  const now = Date.now();
+  const jobs = (await storage.getInFlightJobs()).map(job => describeJob(job, now, stalledHours));
+  jobs.sort((a, b) =>
+    Number(b.stalled) - Number(a.stalled)
+    || (a.status === b.status ? 0 : a.status === "Started" ? -1 : 1)
+    || (b.hoursSinceProgress ?? 0) - (a.hoursSinceProgress ?? 0));
+  return { generatedAt: new Date(now).toISOString(), stalledHours, jobs };
+}
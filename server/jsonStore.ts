@@ -0,0 +1,68 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+
+/**
+ * Small file-backed stores for curation data that is not part of the eval
+ * database (cohorts, ...). Files live under server/data/ (override with DATA_DIR)
+ * and are git-ignored, since the API rewrites them at runtime.
+ *
+ * A store may name a seed file in server/seed/ (tracked, never written): until
+ * the store is first changed, its contents are served from the seed, and the
+ * first write copies the result into server/data/.
+ *
+ * Reads are served from memory after the first load; writes validate the whole
+ * document, then replace the file atomically (write to a temp file + rename),
+ * so a crash mid-write never leaves a truncated store behind.
+ */
+
+export const DATA_DIR = process.env.DATA_DIR ?? path.resolve(process.cwd(), "server", "data");
+const SEED_DIR = path.resolve(process.cwd(), "server", "seed");
+
+export class JsonFileStore<T> {
+  private data: T | undefined;
+
+  constructor(
+    private readonly fileName: string,
+    private readonly schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    private readonly initial: () => T,
+    private readonly seedFileName?: string
+  ) {}
+
+  get filePath(): string {
+    return path.join(DATA_DIR, this.fileName);
+  }
+
+  read(): T {
+    if (this.data !== undefined) return this.data;
+    if (fs.existsSync(this.filePath)) {
+      this.data = this.load(this.filePath);
+    } else if (this.seedFileName && fs.existsSync(path.join(SEED_DIR, this.seedFileName))) {
+      this.data = this.load(path.join(SEED_DIR, this.seedFileName));
+    } else {
+      this.data = this.initial();
+    }
+    return this.data;
+  }
+
+  private load(filePath: string): T {
+    const raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    const parsed = this.schema.safeParse(raw);
+    if (!parsed.success) {
+      throw new Error(`Invalid store file ${filePath}: ${fromZodError(parsed.error).message}`);
+    }
+    return parsed.data;
+  }
+
+  /** Apply `change` to the current document and persist the result. */
+  update(change: (current: T) => T): T {
+    const next = this.schema.parse(change(this.read()));
+    fs.mkdirSync(DATA_DIR, { recursive: true });
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(next, null, 2) + "\n");
+    fs.renameSync(tmpPath, this.filePath);
+    this.data = next;
+    return next;
+  }
+}
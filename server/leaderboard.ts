@@ -0,0 +1,367 @@
+import { z } from "zod";
+import { storage, type EvalSelectionMode } from "./storage";
+import { CELL_METRICS, type CellMetric } from "./trialMetrics";
+import type { FiredGuardrail } from "./guardrails";
+import { improvementSignificance } from "@shared/significance";
+import { parseSelectionPolicy, type NamedSelectionPolicy } from "@shared/selectionPolicy";
+
+/**
+ * The pivoted leaderboard served by /api/leaderboard-pivoted-with-improvement:
+ * one row per (model, agent) with a cell per benchmark, plus a NO EVAL row for
+ * every model without results. Also what leaderboard snapshots freeze.
+ */
+
+export interface PivotedLeaderboardRow {
+  modelName: string;
+  agentName: string;
+  trainingAgentName: string;
+  isNoEval: boolean;
+  modelId: string;
+  baseModelName: string;
+  trainingType?: string;
+  modelSizeB?: number;
+  firstEvalEndedAt?: string;
+  latestEvalEndedAt?: string;
+  modelCreatedAt?: string;
+  // Duplicate tracking fields
+  modelDuplicateOf: string | null;
+  canonicalModelName: string;
+  canonicalBaseModelName: string;
+  agentDuplicateOf: string | null;
+  canonicalAgentName: string;
+  benchmarks: Record<string, {
+    accuracy: number | null;
+    standardError: number | null;
+    hfTracesLink?: string;
+    baseModelAccuracy?: number;
+    improvement?: number;
+    // Standard error of the difference, 95% CI and whether it excludes zero
+    improvementStandardError?: number;
+    improvementCiLow?: number;
+    improvementCiHigh?: number;
+    improvementSignificant?: boolean;
+    baseModelStandardError?: number;
+    // Additional accuracy values for duplicate-aware improvement recalculation
+    canonicalBenchmarkBaseModelAccuracy?: number;
+    canonicalBaseModelAccuracy?: number;
+    canonicalBothBaseModelAccuracy?: number;
+    canonicalBenchmarkBaseModelStandardError?: number;
+    canonicalBaseModelStandardError?: number;
+    canonicalBothBaseModelStandardError?: number;
+    // Trial-derived cell metric details (k for pass@k, bootstrap CI)
+    metricK?: number;
+    metricCiLow?: number;
+    metricCiHigh?: number;
+    // Mean/median modes: number of runs aggregated into accuracy/standardError
+    runCount?: number;
+    // Policy that produced this cell and the rule that picked the run
+    selectionPolicy: string;
+    selectionReason: string;
+    // Guardrail rules that fired for the selected run
+    guardrails: FiredGuardrail[];
+    // Duplicate tracking for benchmarks
+    benchmarkDuplicateOf: string | null;
+    canonicalBenchmarkName: string;
+    // Source benchmark (tracks which actual benchmark the result came from)
+    sourceBenchmarkName: string;
+    sourceBenchmarkId: string;
+    // sandbox_jobs.id of the selected result
+    jobId: string;
+    // Eval config metadata
+    timeoutMultiplier?: number;
+    daytonaOverrideCpus?: number;
+    daytonaOverrideMemoryMb?: number;
+    daytonaOverrideStorageMb?: number;
+    autoSnapshot?: boolean;
+    // Job status for progress tracking
+    jobStatus: string | null;
+    username: string | null;
+    slurmJobId: string | null;
+    jobCreatedAt?: string;
+    isOverlong: boolean;
+    isIncomplete: boolean;
+    isHighErrors: boolean;
+    invalidErrorCount?: number;
+    completedTrials?: number;
+    totalTrials?: number;
+    // Free-text note from the job
+    notes?: string;
+    // "All" mode: array of all results for cycling
+    allResults?: Array<Record<string, any>>;
+  }>;
+}
+
+export interface LeaderboardParams {
+  mode: EvalSelectionMode;
+  hideNoTraceLink: boolean;
+  metric: CellMetric;
+  selectionPolicy: NamedSelectionPolicy;
+  // ISO timestamp: the leaderboard as it stood at that moment
+  asOf?: string;
+}
+
+const asOfSchema = z.string().datetime({ offset: true, message: "asOf must be an ISO timestamp" }).optional();
+
+const EVAL_SELECTION_MODES: EvalSelectionMode[] = ['oldest', 'latest', 'highest', 'all', 'mean', 'median'];
+
+/**
+ * Leaderboard query parameters. Unknown modes and metrics fall back to the
+ * defaults; an invalid selection policy or asOf throws a ZodError.
+ */
+export function parseLeaderboardParams(query: Record<string, unknown>): LeaderboardParams {
+  const modeParam = query.mode as string | undefined;
+  const mode: EvalSelectionMode = modeParam && EVAL_SELECTION_MODES.includes(modeParam as EvalSelectionMode)
+    ? modeParam as EvalSelectionMode
+    : 'oldest';
+
+  const hideNoTraceLink = query.hideNoTraceLink === 'true';
+
+  // Cell metric: metrics.accuracy (default) or a value recomputed from sandbox_trials
+  const metricParam = query.metric as string | undefined;
+  const metric: CellMetric = metricParam && CELL_METRICS.includes(metricParam as CellMetric)
+    ? metricParam as CellMetric
+    : 'accuracy';
+
+  // Selection policy: ?policy=<preset> plus optional per-field overrides
+  const selectionPolicy = parseSelectionPolicy(query);
+
+  const asOf = asOfSchema.parse(query.asOf || undefined);
+
+  return { mode, hideNoTraceLink, metric, selectionPolicy, ...(asOf ? { asOf } : {}) };
+}
+
+export async function buildPivotedLeaderboard(
+  mode: EvalSelectionMode,
+  hideNoTraceLink: boolean,
+  metric: CellMetric,
+  selectionPolicy: NamedSelectionPolicy,
+  asOf?: string
+): Promise<PivotedLeaderboardRow[]> {
+  const asOfDate = asOf ? new Date(asOf) : undefined;
+  const results = await storage.getAllBenchmarkResultsWithImprovement(mode, hideNoTraceLink, metric, selectionPolicy, asOfDate);
+
+  // Group by (model, agent) combination
+  const groupedData = new Map<string, PivotedLeaderboardRow>();
+
+  for (const result of results) {
+    const key = `${result.modelName}|||${result.agentName}`;
+
+    if (!groupedData.has(key)) {
+      groupedData.set(key, {
+        modelName: result.modelName,
+        agentName: result.agentName,
+        trainingAgentName: result.agentName, // Will be backfilled from models table later
+        isNoEval: false,
+        modelId: result.modelId,
+        baseModelName: result.baseModelName,
+        trainingType: result.trainingType,
+        modelSizeB: result.modelSizeB,
+        firstEvalEndedAt: result.endedAt,
+        latestEvalEndedAt: result.endedAt,
+        // Duplicate tracking fields
+        modelDuplicateOf: result.modelDuplicateOf,
+        canonicalModelName: result.canonicalModelName,
+        canonicalBaseModelName: result.canonicalBaseModelName,
+        agentDuplicateOf: result.agentDuplicateOf,
+        canonicalAgentName: result.canonicalAgentName,
+        benchmarks: {}
+      });
+    }
+
+    const group = groupedData.get(key)!;
+    // Update firstEvalEndedAt to the earliest timestamp
+    if (!group.firstEvalEndedAt || (result.endedAt && result.endedAt < group.firstEvalEndedAt)) {
+      group.firstEvalEndedAt = result.endedAt;
+    }
+    // Update latestEvalEndedAt to the latest timestamp
+    if (!group.latestEvalEndedAt || (result.endedAt && result.endedAt > group.latestEvalEndedAt)) {
+      group.latestEvalEndedAt = result.endedAt;
+    }
+    // For Pending/Started jobs, accuracy/standardError are 0 (from storage default) — treat as null.
+    // Same for finished jobs whose trial-derived metric could not be computed.
+    const isFinished = result.jobStatus === 'Finished' || result.jobStatus === null;
+    const hasValue = isFinished && !result.metricMissing;
+    const accuracy = hasValue ? result.accuracy : null;
+    const standardError = hasValue ? result.standardError : null;
+
+    // Calculate improvement as absolute difference (percentage points) — only for Finished jobs
+    // Fall back through canonical variants if direct base model accuracy isn't available
+    const effectiveBaseModelAccuracy = result.baseModelAccuracy
+      ?? result.canonicalBenchmarkBaseModelAccuracy
+      ?? result.canonicalBaseModelAccuracy
+      ?? result.canonicalBothBaseModelAccuracy;
+    const improvement = (hasValue && effectiveBaseModelAccuracy !== undefined)
+      ? result.accuracy - effectiveBaseModelAccuracy
+      : undefined;
+    // Standard error of whichever base result supplied effectiveBaseModelAccuracy
+    const effectiveBaseModelStandardError = result.baseModelAccuracy !== undefined
+      ? result.baseModelStandardError
+      : result.canonicalBaseModelStandardError;
+    const significance = improvementSignificance(improvement, standardError, effectiveBaseModelStandardError);
+
+    const benchmarkEntry = {
+      accuracy,
+      standardError,
+      hfTracesLink: result.hfTracesLink,
+      baseModelAccuracy: result.baseModelAccuracy,
+      improvement: improvement,
+      ...significance,
+      baseModelStandardError: result.baseModelStandardError,
+      // Additional accuracy values for duplicate-aware improvement recalculation
+      canonicalBenchmarkBaseModelAccuracy: result.canonicalBenchmarkBaseModelAccuracy,
+      canonicalBaseModelAccuracy: result.canonicalBaseModelAccuracy,
+      canonicalBothBaseModelAccuracy: result.canonicalBothBaseModelAccuracy,
+      canonicalBenchmarkBaseModelStandardError: result.canonicalBenchmarkBaseModelStandardError,
+      canonicalBaseModelStandardError: result.canonicalBaseModelStandardError,
+      canonicalBothBaseModelStandardError: result.canonicalBothBaseModelStandardError,
+      metricK: result.metricK,
+      metricCiLow: result.metricCiLow,
+      metricCiHigh: result.metricCiHigh,
+      runCount: result.runCount,
+      selectionPolicy: result.selectionPolicy,
+      selectionReason: result.selectionReason,
+      guardrails: result.guardrails,
+      // Duplicate tracking for benchmarks
+      benchmarkDuplicateOf: result.benchmarkDuplicateOf,
+      canonicalBenchmarkName: result.canonicalBenchmarkName,
+      // Source benchmark (tracks which actual benchmark the result came from)
+      sourceBenchmarkName: result.sourceBenchmarkName,
+      sourceBenchmarkId: result.sourceBenchmarkId,
+      jobId: result.jobId,
+      // Eval config metadata
+      timeoutMultiplier: result.timeoutMultiplier,
+      daytonaOverrideCpus: result.daytonaOverrideCpus,
+      daytonaOverrideMemoryMb: result.daytonaOverrideMemoryMb,
+      daytonaOverrideStorageMb: result.daytonaOverrideStorageMb,
+      autoSnapshot: result.autoSnapshot,
+      // Job status for progress tracking
+      jobStatus: result.jobStatus,
+      username: result.username,
+      slurmJobId: result.slurmJobId,
+      // Job timestamp (for pending/started: COALESCE(started_at, created_at))
+      jobCreatedAt: result.endedAt,
+      isOverlong: result.isOverlong,
+      isIncomplete: result.isIncomplete,
+      isHighErrors: result.isHighErrors,
+      invalidErrorCount: result.invalidErrorCount,
+      completedTrials: result.completedTrials,
+      totalTrials: result.totalTrials,
+      notes: result.notes,
+    };
+
+    if (mode === 'all') {
+      // In "all" mode, accumulate results into allResults array
+      const existing = group.benchmarks[result.benchmarkName];
+      if (existing) {
+        if (!existing.allResults) {
+          existing.allResults = [{ ...existing }];
+          delete existing.allResults[0].allResults;
+        }
+        existing.allResults.push(benchmarkEntry);
+      } else {
+        group.benchmarks[result.benchmarkName] = { ...benchmarkEntry, allResults: [benchmarkEntry] };
+      }
+    } else {
+      group.benchmarks[result.benchmarkName] = benchmarkEntry;
+    }
+  }
+
+  // Fetch all registered models to backfill training agent info and add NO EVAL rows
+  // (as of a past date: only models that existed then)
+  const allModels = (await storage.getAllModels()).filter(model =>
+    !asOfDate || !model.creationTime || new Date(model.creationTime) <= asOfDate);
+
+  const formatTimestamp = (ts: string) => {
+    const d = new Date(ts);
+    if (isNaN(d.getTime())) return ts;
+    const formatted = d.toLocaleString('en-CA', {
+      timeZone: 'America/Los_Angeles',
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', second: '2-digit',
+      hour12: false,
+    }).replace(',', '');
+    return formatted.replace(/\b24:/, '00:');
+  };
+
+  // Build modelId → trainingAgentName, modelId → creationTime, modelId → trainingType lookups
+  const modelTrainingAgentMap = new Map<string, string>();
+  const modelCreationTimeMap = new Map<string, string>();
+  const modelTrainingTypeMap = new Map<string, string>();
+  const modelSizeBMap = new Map<string, number>();
+  for (const model of allModels) {
+    modelTrainingAgentMap.set(model.modelId, model.agentName);
+    if (model.creationTime) {
+      modelCreationTimeMap.set(model.modelId, model.creationTime);
+    }
+    if (model.trainingType) {
+      modelTrainingTypeMap.set(model.modelId, model.trainingType);
+    }
+    if (model.modelSizeB !== null) {
+      modelSizeBMap.set(model.modelId, model.modelSizeB);
+    }
+  }
+
+  // Backfill trainingAgentName + modelCreatedAt + trainingType + modelSizeB on existing eval-result rows
+  groupedData.forEach((group) => {
+    group.trainingAgentName = modelTrainingAgentMap.get(group.modelId) ?? group.agentName;
+    group.isNoEval = false;
+    const ct = modelCreationTimeMap.get(group.modelId);
+    if (ct) group.modelCreatedAt = formatTimestamp(ct);
+    group.trainingType = modelTrainingTypeMap.get(group.modelId) ?? group.trainingType;
+    group.modelSizeB = modelSizeBMap.get(group.modelId) ?? group.modelSizeB;
+  });
+
+  // Collect model names that have ANY eval results
+  const modelNamesWithEvals = new Set<string>();
+  groupedData.forEach(group => modelNamesWithEvals.add(group.modelName));
+
+  // Add ONE "NO EVAL" row per model name that has zero eval results
+  const noEvalModelsAdded = new Set<string>();
+  for (const model of allModels) {
+    if (modelNamesWithEvals.has(model.modelName)) continue;
+    if (noEvalModelsAdded.has(model.modelName)) continue;
+    noEvalModelsAdded.add(model.modelName);
+
+    const key = `${model.modelName}|||NO EVAL`;
+    groupedData.set(key, {
+      modelName: model.modelName,
+      agentName: 'NO EVAL',
+      trainingAgentName: model.agentName,
+      isNoEval: true,
+      modelId: model.modelId,
+      baseModelName: model.baseModelName,
+      trainingType: model.trainingType ?? undefined,
+      modelSizeB: model.modelSizeB ?? undefined,
+      firstEvalEndedAt: undefined,
+      latestEvalEndedAt: undefined,
+      modelCreatedAt: model.creationTime ? formatTimestamp(model.creationTime) : undefined,
+      modelDuplicateOf: model.modelDuplicateOf,
+      canonicalModelName: model.canonicalModelName,
+      canonicalBaseModelName: model.canonicalBaseModelName,
+      agentDuplicateOf: null,
+      canonicalAgentName: 'NO EVAL',
+      benchmarks: {}
+    });
+  }
+
+  // Remove NO EVAL rows for models that actually have eval rows
+  // (defensive: handles edge cases where modelNamesWithEvals check is insufficient)
+  const modelsWithRealEvals = new Set<string>();
+  groupedData.forEach((group) => {
+    if (!group.isNoEval) modelsWithRealEvals.add(group.modelName);
+  });
+  groupedData.forEach((group, key) => {
+    if (group.isNoEval && modelsWithRealEvals.has(group.modelName)) {
+      groupedData.delete(key);
+    }
+  });
+
+  // Convert to array and sort by model name, then agent name
+  const pivotedData = Array.from(groupedData.values()).sort((a, b) => {
+    const modelCompare = a.modelName.localeCompare(b.modelName);
+    if (modelCompare !== 0) return modelCompare;
+    return a.agentName.localeCompare(b.agentName);
+  });
+
+  return pivotedData;
+}
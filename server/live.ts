@@ -0,0 +1,108 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocket, WebSocketServer } from "ws";
+import { storage } from "./storage";
+import { log } from "./vite";
+import { LIVE_PATH, type LiveJobUpdate, type LiveMessage } from "@shared/live";
+
+/**
+ * Push channel for the dashboard: a WebSocket endpoint on the app's HTTP
+ * server. While at least one client is connected, sandbox_jobs is polled
+ * (LIVE_POLL_INTERVAL_MS, default 30s) and every job whose status changed is
+ * broadcast. Other upgrade requests (Vite HMR) are left alone.
+ */
+
+const POLL_INTERVAL_MS = Number(process.env.LIVE_POLL_INTERVAL_MS) || 30_000;
+// Each poll re-reads this much before the previous one, so rows committed late are not missed
+const POLL_OVERLAP_MS = 60_000;
+
+function isActive(status: string | null): boolean {
+  return status === "Pending" || status === "Started";
+}
+
+export function setupLiveUpdates(server: Server): void {
+  const wss = new WebSocketServer({ noServer: true });
+  // Last status seen per job: everything in the previous polling window, plus
+  // every job still Pending/Started, so a later change is reported against it
+  // even when that change does not touch the job's timestamps
+  let knownStatus = new Map<string, string | null>();
+  let lastPoll: Date | undefined;
+  let timer: NodeJS.Timeout | undefined;
+  let polling = false;
+
+  const broadcast = (message: LiveMessage) => {
+    const payload = JSON.stringify(message);
+    wss.clients.forEach(client => {
+      if (client.readyState === WebSocket.OPEN) client.send(payload);
+    });
+  };
+
+  const poll = async () => {
+    if (polling) return;
+    polling = true;
+    const now = new Date();
+    try {
+      // First poll since (re)starting: only establish the baseline
+      const baseline = !lastPoll;
+      const since = new Date((lastPoll ?? now).getTime() - POLL_OVERLAP_MS);
+      const windowJobs = await storage.getJobActivity(since.toISOString(), now.toISOString());
+      const inWindow = new Set(windowJobs.map(job => job.jobId));
+      const tracked = Array.from(knownStatus.keys()).filter(jobId => !inWindow.has(jobId));
+      const jobs = tracked.length > 0 ? [...windowJobs, ...await storage.getJobActivityByIds(tracked)] : windowJobs;
+      const nextStatus = new Map<string, string | null>();
+      const updates: LiveJobUpdate[] = [];
+      for (const job of jobs) {
+        if (inWindow.has(job.jobId) || isActive(job.jobStatus)) nextStatus.set(job.jobId, job.jobStatus);
+        const previous = knownStatus.get(job.jobId);
+        if (baseline || previous === job.jobStatus) continue;
+        updates.push({
+          jobId: job.jobId,
+          status: job.jobStatus,
+          previousStatus: previous ?? null,
+          modelName: job.modelName,
+          agentName: job.agentName,
+          benchmarkName: job.benchmarkName,
+          accuracy: job.accuracy,
+        });
+      }
+      knownStatus = nextStatus;
+      lastPoll = now;
+      if (updates.length > 0) broadcast({ type: "jobs", at: now.toISOString(), jobs: updates });
+    } catch (error) {
+      console.error("Error polling job activity:", error);
+    } finally {
+      polling = false;
+    }
+  };
+
+  const start = () => {
+    if (timer) return;
+    void poll();
+    timer = setInterval(poll, POLL_INTERVAL_MS);
+  };
+
+  const stop = () => {
+    if (!timer) return;
+    clearInterval(timer);
+    timer = undefined;
+    lastPoll = undefined;
+    knownStatus = new Map();
+  };
+
+  wss.on("connection", socket => {
+    const hello: LiveMessage = { type: "hello", at: new Date().toISOString(), pollIntervalMs: POLL_INTERVAL_MS };
+    socket.send(JSON.stringify(hello));
+    start();
+    socket.on("close", () => {
+      if (wss.clients.size === 0) stop();
+    });
+  });
+
+  server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const pathname = new URL(req.url ?? "/", "http://localhost").pathname;
+    if (pathname !== LIVE_PATH) return;
+    wss.handleUpgrade(req, socket, head, ws => wss.emit("connection", ws, req));
+  });
+
+  log(`Live updates on ${LIVE_PATH} (polling every ${POLL_INTERVAL_MS / 1000}s while clients are connected)`, "live");
+}
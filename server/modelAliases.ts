@@ -0,0 +1,56 @@
+import fs from "fs";
+import path from "path";
+import { fromZodError } from "zod-validation-error";
+import { log } from "./vite";
+import { createModelAliasKey, modelAliasConfigSchema, type ModelAliasConfig } from "@shared/modelAliases";
+
+/**
+ * Model alias rules, loaded from server/config/modelAliases.json (override with
+ * MODEL_ALIASES_CONFIG). Like the guardrail config, the file is re-read when its
+ * mtime changes and an invalid edit keeps the last good rules in effect, so a
+ * new serving prefix is a config edit rather than a code change.
+ */
+
+const MODEL_ALIASES_PATH = process.env.MODEL_ALIASES_CONFIG
+  ?? path.resolve(process.cwd(), "server", "config", "modelAliases.json");
+
+let cached: { config: ModelAliasConfig; aliasKey: (name: string) => string; mtimeMs: number } | undefined;
+
+function readConfig(): ModelAliasConfig {
+  const parsed = modelAliasConfigSchema.safeParse(JSON.parse(fs.readFileSync(MODEL_ALIASES_PATH, "utf-8")));
+  if (!parsed.success) {
+    throw new Error(`Invalid model alias config ${MODEL_ALIASES_PATH}: ${fromZodError(parsed.error).message}`);
+  }
+  return parsed.data;
+}
+
+function load() {
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(MODEL_ALIASES_PATH).mtimeMs;
+  } catch (error) {
+    if (cached) return cached;
+    throw error;
+  }
+  if (cached && cached.mtimeMs === mtimeMs) return cached;
+
+  try {
+    const config = readConfig();
+    cached = { config, aliasKey: createModelAliasKey(config), mtimeMs };
+    log(`Loaded model alias rules from ${MODEL_ALIASES_PATH}`, "modelAliases");
+  } catch (error) {
+    if (!cached) throw error;
+    console.error("Keeping previous model alias config:", error);
+    cached = { ...cached, mtimeMs };
+  }
+  return cached;
+}
+
+export function getModelAliasConfig(): ModelAliasConfig {
+  return load().config;
+}
+
+/** The name → alias key function for the current rules (memoized until the file changes). */
+export function getModelAliasKey(): (name: string) => string {
+  return load().aliasKey;
+}
@@ -1,8 +1,50 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage, type EvalSelectionMode } from "./storage";
+import { storage, isUuid } from "./storage";
+import { diffJobTrials } from "./taskDiff";
+import { errorsQuerySchema } from "./errorTaxonomy";
+import { buildPivotedLeaderboard, parseLeaderboardParams } from "./leaderboard";
+import { getChanges } from "./changes";
+import { setupLiveUpdates } from "./live";
+import { getInFlightJobs } from "./inFlight";
+import { inFlightQuerySchema } from "@shared/inFlight";
+import { changesQuerySchema } from "@shared/changes";
+import { getGuardrailConfig } from "./guardrails";
+import { getModelAliasConfig } from "./modelAliases";
+import { createCohort, deleteCohort, getCohort, listCohorts, resolveCohort, updateCohort } from "./cohorts";
+import { cohortInputSchema } from "@shared/cohorts";
+import { createTab, deleteModelTag, deleteTab, getTab, listModelTags, listTabs, reorderTabs, setModelTag, updateTab } from "./tabs";
+import { tabDefinitionSchema } from "@shared/tabs";
+import { addBlacklistEntry, findOrphanedEntries, getBlacklistEntry, listBlacklist, removeBlacklistEntry, updateBlacklistEntry } from "./blacklist";
+import { blacklistEntryInputSchema, blacklistEntryUpdateSchema } from "@shared/blacklist";
+import { requireRole, setupAuth } from "./auth";
+import { deleteUser, getUser, listUsers, upsertUser } from "./users";
+import { userUpsertSchema } from "@shared/auth";
+import { AuditRevertError, getAuditEntry, queryAudit, recordAudit, requestIdMiddleware, revertAuditEntry } from "./audit";
+import { auditQuerySchema } from "@shared/audit";
+import { applyDuplicateLink, DuplicateLinkError, getDuplicateGraph, previewDuplicateLink } from "./duplicates";
+import { getDuplicateSuggestions } from "./duplicateSuggestions";
+import { createSnapshot, diffSnapshots, getSnapshot, getSnapshotSummary, listSnapshots } from "./snapshots";
+import { snapshotInputSchema } from "@shared/snapshots";
+import { buildManifest, createEvalRequests, getEvalRequest, getTrackedEvalRequests, manifestToShell, updateEvalRequest } from "./evalRequests";
+import { evalRequestCellKey, evalRequestCreateSchema, evalRequestManifestQuerySchema, evalRequestsQuerySchema, evalRequestUpdateSchema } from "@shared/evalRequests";
+import { DUPLICATE_ENTITY_TYPES, duplicateLinkSchema, duplicatePreviewSchema, duplicateSuggestionQuerySchema, type DuplicateEntityType } from "@shared/duplicates";
+import { SELECTION_POLICY_PRESETS } from "@shared/selectionPolicy";
+import { z, ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+
+const jobNotesUpdateSchema = z.object({
+  notes: z.string().max(2000).nullable(),
+});
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions + /api/login, /api/logout, /api/user. Reads stay public; every
+  // mutation below requires an editor (user management an admin).
+  app.use(requestIdMiddleware);
+  setupAuth(app);
+  const requireEditor = requireRole("editor");
+  const requireAdmin = requireRole("admin");
+
   // Get all benchmark results
   app.get("/api/benchmark-results", async (req, res) => {
     try {
@@ -85,284 +127,840 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Named selection policy presets (rules for which run a cell shows)
+  app.get("/api/selection-policies", (_req, res) => {
+    res.json(SELECTION_POLICY_PRESETS);
+  });
+
+  // Guardrail rules currently in effect (server/config/guardrails.json)
+  app.get("/api/guardrails", (_req, res) => {
+    try {
+      const { rules } = getGuardrailConfig();
+      res.json(rules.map(({ id, severity, description }) => ({ id, severity, description })));
+    } catch (error) {
+      console.error("Error loading guardrail rules:", error);
+      res.status(500).json({ error: "Failed to load guardrail rules" });
+    }
+  });
+
+  // Model alias rules (server/config/modelAliases.json); the client applies them to search, filters and tabs
+  app.get("/api/model-aliases", (_req, res) => {
+    try {
+      res.json(getModelAliasConfig());
+    } catch (error) {
+      console.error("Error loading model alias rules:", error);
+      res.status(500).json({ error: "Failed to load model alias rules" });
+    }
+  });
+
   // Get pivoted leaderboard data with improvement metrics
   app.get("/api/leaderboard-pivoted-with-improvement", async (req, res) => {
     try {
-      // Validate and parse eval selection mode
-      const modeParam = req.query.mode as string | undefined;
-      const validModes: EvalSelectionMode[] = ['oldest', 'latest', 'highest', 'all'];
-      const mode: EvalSelectionMode = modeParam && validModes.includes(modeParam as EvalSelectionMode)
-        ? modeParam as EvalSelectionMode
-        : 'oldest';
+      let params;
+      try {
+        params = parseLeaderboardParams(req.query);
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({ error: fromZodError(error).message });
+        }
+        throw error;
+      }
 
-      const hideNoTraceLink = req.query.hideNoTraceLink === 'true';
-      const results = await storage.getAllBenchmarkResultsWithImprovement(mode, hideNoTraceLink);
+      const { mode, hideNoTraceLink, metric, selectionPolicy, asOf } = params;
+      const pivotedData = await buildPivotedLeaderboard(mode, hideNoTraceLink, metric, selectionPolicy, asOf);
+      res.json(pivotedData);
+    } catch (error) {
+      console.error("Error fetching pivoted leaderboard with improvement:", error);
+      res.status(500).json({ error: "Failed to fetch pivoted leaderboard with improvement" });
+    }
+  });
 
-      // Group by (model, agent) combination
-      const groupedData = new Map<string, {
-        modelName: string;
-        agentName: string;
-        trainingAgentName: string;
-        isNoEval: boolean;
-        modelId: string;
-        baseModelName: string;
-        trainingType?: string;
-        modelSizeB?: number;
-        firstEvalEndedAt?: string;
-        latestEvalEndedAt?: string;
-        modelCreatedAt?: string;
-        // Duplicate tracking fields
-        modelDuplicateOf: string | null;
-        canonicalModelName: string;
-        canonicalBaseModelName: string;
-        agentDuplicateOf: string | null;
-        canonicalAgentName: string;
-        benchmarks: Record<string, {
-          accuracy: number | null;
-          standardError: number | null;
-          hfTracesLink?: string;
-          baseModelAccuracy?: number;
-          improvement?: number;
-          // Additional accuracy values for duplicate-aware improvement recalculation
-          canonicalBenchmarkBaseModelAccuracy?: number;
-          canonicalBaseModelAccuracy?: number;
-          canonicalBothBaseModelAccuracy?: number;
-          // Duplicate tracking for benchmarks
-          benchmarkDuplicateOf: string | null;
-          canonicalBenchmarkName: string;
-          // Source benchmark (tracks which actual benchmark the result came from)
-          sourceBenchmarkName: string;
-          sourceBenchmarkId: string;
-          // Eval config metadata
-          timeoutMultiplier?: number;
-          daytonaOverrideCpus?: number;
-          daytonaOverrideMemoryMb?: number;
-          daytonaOverrideStorageMb?: number;
-          autoSnapshot?: boolean;
-          // Job status for progress tracking
-          jobStatus: string | null;
-          username: string | null;
-          slurmJobId: string | null;
-          jobCreatedAt?: string;
-          isOverlong: boolean;
-          isIncomplete: boolean;
-          isHighErrors: boolean;
-          invalidErrorCount?: number;
-          completedTrials?: number;
-          totalTrials?: number;
-          // Free-text note from the job
-          notes?: string;
-          // "All" mode: array of all results for cycling
-          allResults?: Array<Record<string, any>>;
-        }>;
-      }>();
+  // Typed event feed: ?since=<ISO>[&until=][&types=a,b][&limit=] plus the leaderboard's mode/metric/policy
+  app.get("/api/changes", async (req, res) => {
+    try {
+      const query = changesQuerySchema.parse(req.query);
+      const params = parseLeaderboardParams(req.query);
+      res.json(await getChanges(query, params));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
+      console.error("Error fetching changes:", error);
+      res.status(500).json({ error: "Failed to fetch changes" });
+    }
+  });
 
-      for (const result of results) {
-        const key = `${result.modelName}|||${result.agentName}`;
+  // Pending/Started jobs with progress, throughput, ETA and stalled flag (before /api/jobs/:jobId)
+  app.get("/api/jobs/in-flight", async (req, res) => {
+    try {
+      const { stalledHours } = inFlightQuerySchema.parse(req.query);
+      res.json(await getInFlightJobs(stalledHours));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
+      console.error("Error fetching in-flight jobs:", error);
+      res.status(500).json({ error: "Failed to fetch in-flight jobs" });
+    }
+  });
 
-        if (!groupedData.has(key)) {
-          groupedData.set(key, {
-            modelName: result.modelName,
-            agentName: result.agentName,
-            trainingAgentName: result.agentName, // Will be backfilled from models table later
-            isNoEval: false,
-            modelId: result.modelId,
-            baseModelName: result.baseModelName,
-            trainingType: result.trainingType,
-            modelSizeB: result.modelSizeB,
-            firstEvalEndedAt: result.endedAt,
-            latestEvalEndedAt: result.endedAt,
-            // Duplicate tracking fields
-            modelDuplicateOf: result.modelDuplicateOf,
-            canonicalModelName: result.canonicalModelName,
-            canonicalBaseModelName: result.canonicalBaseModelName,
-            agentDuplicateOf: result.agentDuplicateOf,
-            canonicalAgentName: result.canonicalAgentName,
-            benchmarks: {}
-          });
-        }
+  // Full job record (config, metrics, parsed stats.evals, provenance)
+  app.get("/api/jobs/:jobId", async (req, res) => {
+    try {
+      if (!isUuid(req.params.jobId)) {
+        return res.status(400).json({ error: "Invalid job id" });
+      }
+      const job = await storage.getJobDetail(req.params.jobId);
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      res.json(job);
+    } catch (error) {
+      console.error("Error fetching job:", error);
+      res.status(500).json({ error: "Failed to fetch job" });
+    }
+  });
 
-        const group = groupedData.get(key)!;
-        // Update firstEvalEndedAt to the earliest timestamp
-        if (!group.firstEvalEndedAt || (result.endedAt && result.endedAt < group.firstEvalEndedAt)) {
-          group.firstEvalEndedAt = result.endedAt;
-        }
-        // Update latestEvalEndedAt to the latest timestamp
-        if (!group.latestEvalEndedAt || (result.endedAt && result.endedAt > group.latestEvalEndedAt)) {
-          group.latestEvalEndedAt = result.endedAt;
-        }
-        // For Pending/Started jobs, accuracy/standardError are 0 (from storage default) — treat as null
-        const isFinished = result.jobStatus === 'Finished' || result.jobStatus === null;
-        const accuracy = isFinished ? result.accuracy : null;
-        const standardError = isFinished ? result.standardError : null;
-
-        // Calculate improvement as absolute difference (percentage points) — only for Finished jobs
-        // Fall back through canonical variants if direct base model accuracy isn't available
-        const effectiveBaseModelAccuracy = result.baseModelAccuracy
-          ?? result.canonicalBenchmarkBaseModelAccuracy
-          ?? result.canonicalBaseModelAccuracy
-          ?? result.canonicalBothBaseModelAccuracy;
-        const improvement = (isFinished && effectiveBaseModelAccuracy !== undefined)
-          ? result.accuracy - effectiveBaseModelAccuracy
-          : undefined;
-
-        const benchmarkEntry = {
-          accuracy,
-          standardError,
-          hfTracesLink: result.hfTracesLink,
-          baseModelAccuracy: result.baseModelAccuracy,
-          improvement: improvement,
-          // Additional accuracy values for duplicate-aware improvement recalculation
-          canonicalBenchmarkBaseModelAccuracy: result.canonicalBenchmarkBaseModelAccuracy,
-          canonicalBaseModelAccuracy: result.canonicalBaseModelAccuracy,
-          canonicalBothBaseModelAccuracy: result.canonicalBothBaseModelAccuracy,
-          // Duplicate tracking for benchmarks
-          benchmarkDuplicateOf: result.benchmarkDuplicateOf,
-          canonicalBenchmarkName: result.canonicalBenchmarkName,
-          // Source benchmark (tracks which actual benchmark the result came from)
-          sourceBenchmarkName: result.sourceBenchmarkName,
-          sourceBenchmarkId: result.sourceBenchmarkId,
-          // Eval config metadata
-          timeoutMultiplier: result.timeoutMultiplier,
-          daytonaOverrideCpus: result.daytonaOverrideCpus,
-          daytonaOverrideMemoryMb: result.daytonaOverrideMemoryMb,
-          daytonaOverrideStorageMb: result.daytonaOverrideStorageMb,
-          autoSnapshot: result.autoSnapshot,
-          // Job status for progress tracking
-          jobStatus: result.jobStatus,
-          username: result.username,
-          slurmJobId: result.slurmJobId,
-          // Job timestamp (for pending/started: COALESCE(started_at, created_at))
-          jobCreatedAt: result.endedAt,
-          isOverlong: result.isOverlong,
-          isIncomplete: result.isIncomplete,
-          isHighErrors: result.isHighErrors,
-          invalidErrorCount: result.invalidErrorCount,
-          completedTrials: result.completedTrials,
-          totalTrials: result.totalTrials,
-          notes: result.notes,
-        };
+  // Trial-level drill-down for a single job (sandbox_trials + sandbox_tasks)
+  app.get("/api/jobs/:jobId/trials", async (req, res) => {
+    try {
+      if (!isUuid(req.params.jobId)) {
+        return res.status(400).json({ error: "Invalid job id" });
+      }
+      const result = await storage.getJobTrials(req.params.jobId);
+      if (!result) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching job trials:", error);
+      res.status(500).json({ error: "Failed to fetch job trials" });
+    }
+  });
 
-        if (mode === 'all') {
-          // In "all" mode, accumulate results into allResults array
-          const existing = group.benchmarks[result.benchmarkName];
-          if (existing) {
-            if (!existing.allResults) {
-              existing.allResults = [{ ...existing }];
-              delete existing.allResults[0].allResults;
-            }
-            existing.allResults.push(benchmarkEntry);
-          } else {
-            group.benchmarks[result.benchmarkName] = { ...benchmarkEntry, allResults: [benchmarkEntry] };
-          }
-        } else {
-          group.benchmarks[result.benchmarkName] = benchmarkEntry;
-        }
+  // Candidate jobs to diff against (same model/agent/benchmark, and the base model's runs)
+  app.get("/api/jobs/:jobId/related", async (req, res) => {
+    try {
+      if (!isUuid(req.params.jobId)) {
+        return res.status(400).json({ error: "Invalid job id" });
+      }
+      const related = await storage.getRelatedJobs(req.params.jobId);
+      if (!related) {
+        return res.status(404).json({ error: "Job not found" });
       }
+      res.json(related);
+    } catch (error) {
+      console.error("Error fetching related jobs:", error);
+      res.status(500).json({ error: "Failed to fetch related jobs" });
+    }
+  });
 
-      // Fetch all registered models to backfill training agent info and add NO EVAL rows
-      const allModels = await storage.getAllModels();
-
-      const formatTimestamp = (ts: string) => {
-        const d = new Date(ts);
-        if (isNaN(d.getTime())) return ts;
-        const formatted = d.toLocaleString('en-CA', {
-          timeZone: 'America/Los_Angeles',
-          year: 'numeric', month: '2-digit', day: '2-digit',
-          hour: '2-digit', minute: '2-digit', second: '2-digit',
-          hour12: false,
-        }).replace(',', '');
-        return formatted.replace(/\b24:/, '00:');
-      };
-
-      // Build modelId → trainingAgentName, modelId → creationTime, modelId → trainingType lookups
-      const modelTrainingAgentMap = new Map<string, string>();
-      const modelCreationTimeMap = new Map<string, string>();
-      const modelTrainingTypeMap = new Map<string, string>();
-      const modelSizeBMap = new Map<string, number>();
-      for (const model of allModels) {
-        modelTrainingAgentMap.set(model.modelId, model.agentName);
-        if (model.creationTime) {
-          modelCreationTimeMap.set(model.modelId, model.creationTime);
-        }
-        if (model.trainingType) {
-          modelTrainingTypeMap.set(model.modelId, model.trainingType);
-        }
-        if (model.modelSizeB !== null) {
-          modelSizeBMap.set(model.modelId, model.modelSizeB);
-        }
+  // pass@k, mean reward and bootstrap CIs recomputed from the job's trials
+  app.get("/api/jobs/:jobId/metrics", async (req, res) => {
+    try {
+      if (!isUuid(req.params.jobId)) {
+        return res.status(400).json({ error: "Invalid job id" });
+      }
+      const metrics = await storage.getJobTrialMetrics(req.params.jobId);
+      if (!metrics) {
+        return res.status(404).json({ error: "Job not found" });
       }
+      res.json(metrics);
+    } catch (error) {
+      console.error("Error fetching job trial metrics:", error);
+      res.status(500).json({ error: "Failed to fetch job trial metrics" });
+    }
+  });
 
-      // Backfill trainingAgentName + modelCreatedAt + trainingType + modelSizeB on existing eval-result rows
-      groupedData.forEach((group) => {
-        group.trainingAgentName = modelTrainingAgentMap.get(group.modelId) ?? group.agentName;
-        group.isNoEval = false;
-        const ct = modelCreationTimeMap.get(group.modelId);
-        if (ct) group.modelCreatedAt = formatTimestamp(ct);
-        group.trainingType = modelTrainingTypeMap.get(group.modelId) ?? group.trainingType;
-        group.modelSizeB = modelSizeBMap.get(group.modelId) ?? group.modelSizeB;
-      });
+  // Exception types of one job with benign/invalid classification
+  app.get("/api/jobs/:jobId/errors", async (req, res) => {
+    try {
+      if (!isUuid(req.params.jobId)) {
+        return res.status(400).json({ error: "Invalid job id" });
+      }
+      const errors = await storage.getJobErrors(req.params.jobId);
+      if (!errors) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      res.json(errors);
+    } catch (error) {
+      console.error("Error fetching job errors:", error);
+      res.status(500).json({ error: "Failed to fetch job errors" });
+    }
+  });
+
+  // Job note plus its edit history (from the audit log), newest first. Public, so
+  // the entries leave out who made each edit (that stays behind /api/audit).
+  app.get("/api/jobs/:jobId/notes", async (req, res) => {
+    try {
+      if (!isUuid(req.params.jobId)) {
+        return res.status(400).json({ error: "Invalid job id" });
+      }
+      const notes = await storage.getJobNotes(req.params.jobId);
+      if (notes === undefined) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      const history = queryAudit({ entityType: "jobNote", entityId: req.params.jobId, limit: 1000 })
+        .map(({ actor: _actor, ...entry }) => entry);
+      res.json({ jobId: req.params.jobId, notes, history });
+    } catch (error) {
+      console.error("Error fetching job notes:", error);
+      res.status(500).json({ error: "Failed to fetch job notes" });
+    }
+  });
+
+  // Body: { notes: string | null } — replaces the note; blank or null clears it
+  app.patch("/api/jobs/:jobId/notes", requireEditor, async (req, res) => {
+    try {
+      if (!isUuid(req.params.jobId)) {
+        return res.status(400).json({ error: "Invalid job id" });
+      }
+      const { notes } = jobNotesUpdateSchema.parse(req.body);
+      const before = await storage.getJobNotes(req.params.jobId);
+      if (before === undefined) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      const after = await storage.setJobNotes(req.params.jobId, notes?.trim() || null);
+      recordAudit(req, { action: before === null ? "create" : after === null ? "delete" : "update", entityType: "jobNote", entityId: req.params.jobId, before, after });
+      res.json({ jobId: req.params.jobId, notes: after ?? null });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
+      console.error("Error updating job notes:", error);
+      res.status(500).json({ error: "Failed to update job notes" });
+    }
+  });
+
+  // Exception taxonomy across jobs: ?benchmark=<name>&agent=<name>&since=<ISO date>
+  app.get("/api/errors", async (req, res) => {
+    try {
+      res.json(await storage.getErrorBreakdown(errorsQuerySchema.parse(req.query)));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
+      console.error("Error fetching error breakdown:", error);
+      res.status(500).json({ error: "Failed to fetch error breakdown" });
+    }
+  });
+
+  // Per-task diff between two jobs, aligned by task_checksum
+  app.get("/api/jobs/:jobId/diff/:otherJobId", async (req, res) => {
+    try {
+      const { jobId, otherJobId } = req.params;
+      if (!isUuid(jobId) || !isUuid(otherJobId)) {
+        return res.status(400).json({ error: "Invalid job id" });
+      }
+      const [trialsA, trialsB] = await Promise.all([
+        storage.getJobTrials(jobId),
+        storage.getJobTrials(otherJobId),
+      ]);
+      if (!trialsA || !trialsB) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      res.json(diffJobTrials(trialsA, trialsB));
+    } catch (error) {
+      console.error("Error diffing jobs:", error);
+      res.status(500).json({ error: "Failed to diff jobs" });
+    }
+  });
+
+  // Cohorts: curated, sectioned model lists rendered as leaderboard tabs
+  app.get("/api/cohorts", async (_req, res) => {
+    try {
+      const models = await storage.getAllModels();
+      res.json(listCohorts().map(cohort => resolveCohort(cohort, models)));
+    } catch (error) {
+      console.error("Error fetching cohorts:", error);
+      res.status(500).json({ error: "Failed to fetch cohorts" });
+    }
+  });
+
+  app.get("/api/cohorts/:slug", async (req, res) => {
+    try {
+      const cohort = getCohort(req.params.slug);
+      if (!cohort) {
+        return res.status(404).json({ error: "Cohort not found" });
+      }
+      res.json(resolveCohort(cohort, await storage.getAllModels()));
+    } catch (error) {
+      console.error("Error fetching cohort:", error);
+      res.status(500).json({ error: "Failed to fetch cohort" });
+    }
+  });
+
+  app.post("/api/cohorts", requireEditor, async (req, res) => {
+    try {
+      const input = cohortInputSchema.parse(req.body);
+      if (getCohort(input.slug)) {
+        return res.status(409).json({ error: `Cohort "${input.slug}" already exists` });
+      }
+      const cohort = createCohort(input);
+      recordAudit(req, { action: "create", entityType: "cohort", entityId: cohort.slug, before: null, after: getCohort(cohort.slug) });
+      res.status(201).json(cohort);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
+      console.error("Error creating cohort:", error);
+      res.status(500).json({ error: "Failed to create cohort" });
+    }
+  });
+
+  app.put("/api/cohorts/:slug", requireEditor, async (req, res) => {
+    try {
+      const input = cohortInputSchema.parse(req.body);
+      if (input.slug !== req.params.slug && getCohort(input.slug)) {
+        return res.status(409).json({ error: `Cohort "${input.slug}" already exists` });
+      }
+      const before = getCohort(req.params.slug);
+      const cohort = updateCohort(req.params.slug, input);
+      if (!cohort) {
+        return res.status(404).json({ error: "Cohort not found" });
+      }
+      recordAudit(req, { action: "update", entityType: "cohort", entityId: req.params.slug, before, after: getCohort(cohort.slug) });
+      res.json(cohort);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
+      console.error("Error updating cohort:", error);
+      res.status(500).json({ error: "Failed to update cohort" });
+    }
+  });
+
+  app.delete("/api/cohorts/:slug", requireEditor, async (req, res) => {
+    try {
+      const before = getCohort(req.params.slug);
+      if (!deleteCohort(req.params.slug)) {
+        return res.status(404).json({ error: "Cohort not found" });
+      }
+      recordAudit(req, { action: "delete", entityType: "cohort", entityId: req.params.slug, before, after: null });
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting cohort:", error);
+      res.status(500).json({ error: "Failed to delete cohort" });
+    }
+  });
+
+  // Tab registry: leaderboard tabs declared as label + color + row predicate
+  app.get("/api/tabs", (_req, res) => {
+    try {
+      res.json(listTabs());
+    } catch (error) {
+      console.error("Error fetching tabs:", error);
+      res.status(500).json({ error: "Failed to fetch tabs" });
+    }
+  });
+
+  // ?before=<id> inserts ahead of an existing tab instead of appending
+  app.post("/api/tabs", requireEditor, (req, res) => {
+    try {
+      const tab = tabDefinitionSchema.parse(req.body);
+      if (getTab(tab.id)) {
+        return res.status(409).json({ error: `Tab "${tab.id}" already exists` });
+      }
+      const before = typeof req.query.before === 'string' ? req.query.before : undefined;
+      const created = createTab(tab, before);
+      recordAudit(req, { action: "create", entityType: "tab", entityId: created.id, before: null, after: getTab(created.id) });
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
+      console.error("Error creating tab:", error);
+      res.status(500).json({ error: "Failed to create tab" });
+    }
+  });
+
+  // Body: { ids: string[] } in the desired order
+  app.put("/api/tabs/order", requireEditor, (req, res) => {
+    try {
+      const { ids } = z.object({ ids: z.array(z.string()) }).parse(req.body);
+      const before = listTabs().map(t => t.id);
+      const tabs = reorderTabs(ids);
+      recordAudit(req, { action: "update", entityType: "tabOrder", entityId: "order", before, after: tabs.map(t => t.id) });
+      res.json(tabs);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
+      console.error("Error reordering tabs:", error);
+      res.status(500).json({ error: "Failed to reorder tabs" });
+    }
+  });
+
+  app.put("/api/tabs/:id", requireEditor, (req, res) => {
+    try {
+      const tab = tabDefinitionSchema.parse(req.body);
+      if (tab.id !== req.params.id && getTab(tab.id)) {
+        return res.status(409).json({ error: `Tab "${tab.id}" already exists` });
+      }
+      const before = getTab(req.params.id);
+      const updated = updateTab(req.params.id, tab);
+      if (!updated) {
+        return res.status(404).json({ error: "Tab not found" });
+      }
+      recordAudit(req, { action: "update", entityType: "tab", entityId: req.params.id, before, after: getTab(updated.id) });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
+      console.error("Error updating tab:", error);
+      res.status(500).json({ error: "Failed to update tab" });
+    }
+  });
+
+  app.delete("/api/tabs/:id", requireEditor, (req, res) => {
+    try {
+      const before = getTab(req.params.id);
+      if (!deleteTab(req.params.id)) {
+        return res.status(404).json({ error: "Tab not found" });
+      }
+      recordAudit(req, { action: "delete", entityType: "tab", entityId: req.params.id, before, after: null });
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting tab:", error);
+      res.status(500).json({ error: "Failed to delete tab" });
+    }
+  });
+
+  // Model tags read by the `tag` tab predicate: { [tag]: modelName[] }
+  app.get("/api/model-tags", (_req, res) => {
+    try {
+      res.json(listModelTags());
+    } catch (error) {
+      console.error("Error fetching model tags:", error);
+      res.status(500).json({ error: "Failed to fetch model tags" });
+    }
+  });
+
+  // Body: { models: string[] } — replaces the tag's model list
+  app.put("/api/model-tags/:tag", requireEditor, (req, res) => {
+    try {
+      const { models } = z.object({ models: z.array(z.string().min(1)) }).parse(req.body);
+      const before = listModelTags()[req.params.tag] ?? null;
+      const tagged = setModelTag(req.params.tag, models);
+      recordAudit(req, { action: before ? "update" : "create", entityType: "modelTag", entityId: req.params.tag, before, after: tagged });
+      res.json(tagged);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
+      console.error("Error updating model tag:", error);
+      res.status(500).json({ error: "Failed to update model tag" });
+    }
+  });
+
+  app.delete("/api/model-tags/:tag", requireEditor, (req, res) => {
+    try {
+      const before = listModelTags()[req.params.tag] ?? null;
+      if (!deleteModelTag(req.params.tag)) {
+        return res.status(404).json({ error: "Tag not found" });
+      }
+      recordAudit(req, { action: "delete", entityType: "modelTag", entityId: req.params.tag, before, after: null });
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting model tag:", error);
+      res.status(500).json({ error: "Failed to delete model tag" });
+    }
+  });
+
+  // Model blacklist. Model names contain "/", so clients URL-encode them in the path.
+  app.get("/api/blacklist", (_req, res) => {
+    try {
+      res.json(listBlacklist());
+    } catch (error) {
+      console.error("Error fetching blacklist:", error);
+      res.status(500).json({ error: "Failed to fetch blacklist" });
+    }
+  });
+
+  // Entries naming models that no longer exist in the models table
+  app.get("/api/blacklist/orphans", async (_req, res) => {
+    try {
+      const models = await storage.getAllModels();
+      res.json(findOrphanedEntries(new Set(models.map(m => m.modelName))));
+    } catch (error) {
+      console.error("Error fetching orphaned blacklist entries:", error);
+      res.status(500).json({ error: "Failed to fetch orphaned blacklist entries" });
+    }
+  });
+
+  app.post("/api/blacklist", requireEditor, (req, res) => {
+    try {
+      // Attributed to the signed-in user rather than trusting the body
+      const input = blacklistEntryInputSchema.parse({ ...req.body, addedBy: req.user!.username });
+      if (getBlacklistEntry(input.modelName)) {
+        return res.status(409).json({ error: `Model "${input.modelName}" is already blacklisted` });
+      }
+      const entry = addBlacklistEntry(input);
+      recordAudit(req, { action: "create", entityType: "blacklist", entityId: input.modelName, before: null, after: getBlacklistEntry(input.modelName) });
+      res.status(201).json(entry);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
+      console.error("Error adding blacklist entry:", error);
+      res.status(500).json({ error: "Failed to add blacklist entry" });
+    }
+  });
+
+  // Body: any of { reason, expiresAt } (expiresAt: null clears the expiry)
+  app.patch("/api/blacklist/:modelName", requireEditor, (req, res) => {
+    try {
+      const update = blacklistEntryUpdateSchema.omit({ addedBy: true }).parse(req.body);
+      const before = getBlacklistEntry(req.params.modelName);
+      const entry = updateBlacklistEntry(req.params.modelName, update);
+      if (!entry) {
+        return res.status(404).json({ error: "Blacklist entry not found" });
+      }
+      recordAudit(req, { action: "update", entityType: "blacklist", entityId: req.params.modelName, before, after: getBlacklistEntry(req.params.modelName) });
+      res.json(entry);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
+      console.error("Error updating blacklist entry:", error);
+      res.status(500).json({ error: "Failed to update blacklist entry" });
+    }
+  });
+
+  app.delete("/api/blacklist/:modelName", requireEditor, (req, res) => {
+    try {
+      const before = getBlacklistEntry(req.params.modelName);
+      if (!removeBlacklistEntry(req.params.modelName)) {
+        return res.status(404).json({ error: "Blacklist entry not found" });
+      }
+      recordAudit(req, { action: "delete", entityType: "blacklist", entityId: req.params.modelName, before, after: null });
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error removing blacklist entry:", error);
+      res.status(500).json({ error: "Failed to remove blacklist entry" });
+    }
+  });
+
+  // Duplicate links (duplicate_of on models/agents/benchmarks). :entityType is model | agent | benchmark.
+  const parseDuplicateEntityType = (value: string): DuplicateEntityType | undefined =>
+    DUPLICATE_ENTITY_TYPES.includes(value as DuplicateEntityType) ? value as DuplicateEntityType : undefined;
 
-      // Collect model names that have ANY eval results
-      const modelNamesWithEvals = new Set<string>();
-      groupedData.forEach(group => modelNamesWithEvals.add(group.modelName));
-
-      // Add ONE "NO EVAL" row per model name that has zero eval results
-      const noEvalModelsAdded = new Set<string>();
-      for (const model of allModels) {
-        if (modelNamesWithEvals.has(model.modelName)) continue;
-        if (noEvalModelsAdded.has(model.modelName)) continue;
-        noEvalModelsAdded.add(model.modelName);
-
-        const key = `${model.modelName}|||NO EVAL`;
-        groupedData.set(key, {
-          modelName: model.modelName,
-          agentName: 'NO EVAL',
-          trainingAgentName: model.agentName,
-          isNoEval: true,
-          modelId: model.modelId,
-          baseModelName: model.baseModelName,
-          trainingType: model.trainingType ?? undefined,
-          modelSizeB: model.modelSizeB ?? undefined,
-          firstEvalEndedAt: undefined,
-          latestEvalEndedAt: undefined,
-          modelCreatedAt: model.creationTime ? formatTimestamp(model.creationTime) : undefined,
-          modelDuplicateOf: model.modelDuplicateOf,
-          canonicalModelName: model.canonicalModelName,
-          canonicalBaseModelName: model.canonicalBaseModelName,
-          agentDuplicateOf: null,
-          canonicalAgentName: 'NO EVAL',
-          benchmarks: {}
+  // Every entity with its duplicate_of, plus existing cycles and multi-hop chains
+  app.get("/api/duplicates/:entityType", async (req, res) => {
+    try {
+      const entityType = parseDuplicateEntityType(req.params.entityType);
+      if (!entityType) {
+        return res.status(400).json({ error: "Invalid entity type" });
+      }
+      res.json(await getDuplicateGraph(entityType));
+    } catch (error) {
+      console.error("Error fetching duplicates:", error);
+      res.status(500).json({ error: "Failed to fetch duplicates" });
+    }
+  });
+
+  // Likely duplicates not linked yet (name normalization + similarity). Query: minScore (0–1, default 0.6)
+  app.get("/api/duplicates/:entityType/suggestions", async (req, res) => {
+    try {
+      const entityType = parseDuplicateEntityType(req.params.entityType);
+      if (!entityType) {
+        return res.status(400).json({ error: "Invalid entity type" });
+      }
+      const { minScore } = duplicateSuggestionQuerySchema.parse(req.query);
+      res.json(await getDuplicateSuggestions(entityType, minScore));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
+      console.error("Error fetching duplicate suggestions:", error);
+      res.status(500).json({ error: "Failed to fetch duplicate suggestions" });
+    }
+  });
+
+  // Body: { canonicalId | null, mode? } — validation plus merged pools/rows and changed cells; writes nothing
+  app.post("/api/duplicates/:entityType/:id/preview", requireEditor, async (req, res) => {
+    try {
+      const entityType = parseDuplicateEntityType(req.params.entityType);
+      if (!entityType) {
+        return res.status(400).json({ error: "Invalid entity type" });
+      }
+      if (!isUuid(req.params.id)) {
+        return res.status(400).json({ error: "Invalid id" });
+      }
+      const { canonicalId, mode } = duplicatePreviewSchema.parse(req.body);
+      res.json(await previewDuplicateLink(entityType, req.params.id, canonicalId, mode));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
+      if (error instanceof DuplicateLinkError) {
+        return res.status(error.status).json({ error: error.message, problems: error.problems });
+      }
+      console.error("Error previewing duplicate link:", error);
+      res.status(500).json({ error: "Failed to preview duplicate link" });
+    }
+  });
+
+  // Body: { canonicalId | null }. Entities pointing at :id are re-pointed too; 409 on cycles / multi-hop targets
+  app.put("/api/duplicates/:entityType/:id", requireEditor, async (req, res) => {
+    try {
+      const entityType = parseDuplicateEntityType(req.params.entityType);
+      if (!entityType) {
+        return res.status(400).json({ error: "Invalid entity type" });
+      }
+      if (!isUuid(req.params.id)) {
+        return res.status(400).json({ error: "Invalid id" });
+      }
+      const { canonicalId } = duplicateLinkSchema.parse(req.body);
+      const changed = await applyDuplicateLink(entityType, req.params.id, canonicalId);
+      for (const change of changed) {
+        recordAudit(req, {
+          action: "update",
+          entityType: "duplicateLink",
+          entityId: `${entityType}:${change.id}`,
+          before: change.before,
+          after: canonicalId,
         });
       }
+      res.json({ updated: changed.map(c => c.id) });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
+      if (error instanceof DuplicateLinkError) {
+        return res.status(error.status).json({ error: error.message, problems: error.problems });
+      }
+      console.error("Error updating duplicate link:", error);
+      res.status(500).json({ error: "Failed to update duplicate link" });
+    }
+  });
 
-      // Remove NO EVAL rows for models that actually have eval rows
-      // (defensive: handles edge cases where modelNamesWithEvals check is insufficient)
-      const modelsWithRealEvals = new Set<string>();
-      groupedData.forEach((group) => {
-        if (!group.isNoEval) modelsWithRealEvals.add(group.modelName);
-      });
-      groupedData.forEach((group, key) => {
-        if (group.isNoEval && modelsWithRealEvals.has(group.modelName)) {
-          groupedData.delete(key);
-        }
-      });
+  // Leaderboard snapshots: immutable, so there is no update or delete
+  app.get("/api/snapshots", (_req, res) => {
+    try {
+      res.json(listSnapshots());
+    } catch (error) {
+      console.error("Error fetching snapshots:", error);
+      res.status(500).json({ error: "Failed to fetch snapshots" });
+    }
+  });
 
-      // Convert to array and sort by model name, then agent name
-      const pivotedData = Array.from(groupedData.values()).sort((a, b) => {
-        const modelCompare = a.modelName.localeCompare(b.modelName);
-        if (modelCompare !== 0) return modelCompare;
-        return a.agentName.localeCompare(b.agentName);
-      });
+  app.get("/api/snapshots/:name", (req, res) => {
+    try {
+      const snapshot = getSnapshot(req.params.name);
+      if (!snapshot) {
+        return res.status(404).json({ error: "Snapshot not found" });
+      }
+      res.json(snapshot);
+    } catch (error) {
+      console.error("Error fetching snapshot:", error);
+      res.status(500).json({ error: "Failed to fetch snapshot" });
+    }
+  });
 
-      res.json(pivotedData);
+  app.get("/api/snapshots/:name/diff/:otherName", (req, res) => {
+    try {
+      const from = getSnapshot(req.params.name);
+      const to = getSnapshot(req.params.otherName);
+      if (!from || !to) {
+        return res.status(404).json({ error: "Snapshot not found" });
+      }
+      // Snapshots from before "all" mode was rejected at creation
+      if (from.params.mode === "all" || to.params.mode === "all") {
+        return res.status(400).json({ error: "Snapshots taken in \"all\" mode cannot be diffed" });
+      }
+      res.json(diffSnapshots(from, to));
     } catch (error) {
-      console.error("Error fetching pivoted leaderboard with improvement:", error);
-      res.status(500).json({ error: "Failed to fetch pivoted leaderboard with improvement" });
+      console.error("Error diffing snapshots:", error);
+      res.status(500).json({ error: "Failed to diff snapshots" });
+    }
+  });
+
+  // Freezes the leaderboard for the same query params as /api/leaderboard-pivoted-with-improvement
+  app.post("/api/snapshots", requireEditor, async (req, res) => {
+    try {
+      const input = snapshotInputSchema.parse(req.body);
+      const params = parseLeaderboardParams(req.query);
+      // One result per cell only: the diff compares the selected result, not every run
+      if (params.mode === "all") {
+        return res.status(400).json({ error: "Choose a result selection mode other than \"all\" to take a snapshot" });
+      }
+      if (getSnapshotSummary(input.name)) {
+        return res.status(409).json({ error: `Snapshot "${input.name}" already exists` });
+      }
+      const rows = await buildPivotedLeaderboard(params.mode, params.hideNoTraceLink, params.metric, params.selectionPolicy, params.asOf);
+      const snapshot = createSnapshot(input, params, rows, req.user!.username);
+      recordAudit(req, { action: "create", entityType: "snapshot", entityId: snapshot.name, before: null, after: snapshot });
+      res.status(201).json(snapshot);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
+      console.error("Error creating snapshot:", error);
+      res.status(500).json({ error: "Failed to create snapshot" });
+    }
+  });
+
+  // Eval requests: missing cells queued for someone to run. Query: states, assignee, ids (comma-separated)
+  app.get("/api/eval-requests", async (req, res) => {
+    try {
+      res.json(await getTrackedEvalRequests(evalRequestsQuerySchema.parse(req.query)));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
+      console.error("Error fetching eval requests:", error);
+      res.status(500).json({ error: "Failed to fetch eval requests" });
+    }
+  });
+
+  // Launch manifest for the cluster scripts (format: json | shell). Without ids or states, open requests only.
+  app.get("/api/eval-requests/manifest", async (req, res) => {
+    try {
+      const { format, ...query } = evalRequestManifestQuerySchema.parse(req.query);
+      const requests = await getTrackedEvalRequests(query.ids || query.states ? query : { ...query, states: ["open"] });
+      const manifest = buildManifest(requests);
+      if (format === "shell") {
+        res.setHeader("Content-Disposition", 'attachment; filename="eval-requests.sh"');
+        return res.type("text/x-shellscript").send(manifestToShell(manifest));
+      }
+      res.setHeader("Content-Disposition", 'attachment; filename="eval-requests.json"');
+      res.json(manifest);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
+      console.error("Error building eval request manifest:", error);
+      res.status(500).json({ error: "Failed to build eval request manifest" });
+    }
+  });
+
+  // Body: { cells, priority?, assignee?, notes? }. Cells that already have an open or running request are skipped.
+  app.post("/api/eval-requests", requireEditor, async (req, res) => {
+    try {
+      const input = evalRequestCreateSchema.parse(req.body);
+      const cells = Array.from(new Map(input.cells.map(cell => [evalRequestCellKey(cell), cell])).values());
+      const { created, skipped } = await createEvalRequests({ ...input, cells }, req.user!.username);
+      if (created.length === 0) {
+        return res.status(409).json({ error: "Every selected cell already has an open request" });
+      }
+      for (const request of created) {
+        recordAudit(req, { action: "create", entityType: "evalRequest", entityId: request.id, before: null, after: request });
+      }
+      res.status(201).json({ created, skipped });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
+      console.error("Error creating eval requests:", error);
+      res.status(500).json({ error: "Failed to create eval requests" });
+    }
+  });
+
+  // Body: any of { priority, assignee, notes, cancelled }
+  app.patch("/api/eval-requests/:id", requireEditor, (req, res) => {
+    try {
+      const update = evalRequestUpdateSchema.parse(req.body);
+      const before = getEvalRequest(req.params.id);
+      const request = updateEvalRequest(req.params.id, update);
+      if (!request) {
+        return res.status(404).json({ error: "Eval request not found" });
+      }
+      recordAudit(req, { action: "update", entityType: "evalRequest", entityId: request.id, before, after: request });
+      res.json(request);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
+      console.error("Error updating eval request:", error);
+      res.status(500).json({ error: "Failed to update eval request" });
+    }
+  });
+
+  // User management (admin only). Users also come from scripts/add_user.ts.
+  app.get("/api/users", requireAdmin, (_req, res) => {
+    try {
+      res.json(listUsers());
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ error: "Failed to fetch users" });
+    }
+  });
+
+  // Body: { role, password? } — creates the user (password required) or updates role/password
+  app.put("/api/users/:username", requireAdmin, async (req, res) => {
+    try {
+      const { role, password } = userUpsertSchema.parse(req.body);
+      const existing = getUser(req.params.username);
+      if (!existing && !password) {
+        return res.status(400).json({ error: "A password is required to create a user" });
+      }
+      if (req.params.username === req.user!.username && role !== "admin") {
+        return res.status(409).json({ error: "You cannot remove your own admin role" });
+      }
+      const user = await upsertUser(req.params.username, role, password);
+      // Password changes show up as an update with an unchanged role
+      recordAudit(req, { action: existing ? "update" : "create", entityType: "user", entityId: user.username, before: existing ?? null, after: user });
+      res.status(existing ? 200 : 201).json(user);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
+      console.error("Error saving user:", error);
+      res.status(500).json({ error: "Failed to save user" });
+    }
+  });
+
+  app.delete("/api/users/:username", requireAdmin, (req, res) => {
+    try {
+      if (req.params.username === req.user!.username) {
+        return res.status(409).json({ error: "You cannot delete your own account" });
+      }
+      const before = getUser(req.params.username);
+      if (!deleteUser(req.params.username)) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      recordAudit(req, { action: "delete", entityType: "user", entityId: req.params.username, before, after: null });
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting user:", error);
+      res.status(500).json({ error: "Failed to delete user" });
+    }
+  });
+
+  // Audit log, newest first. Query: entityType, entityId, actor, since, until (ISO), limit (default 100)
+  app.get("/api/audit", requireRole("viewer"), (req, res) => {
+    try {
+      res.json(queryAudit(auditQuerySchema.parse(req.query)));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
+      console.error("Error fetching audit log:", error);
+      res.status(500).json({ error: "Failed to fetch audit log" });
+    }
+  });
+
+  // Undo a single change; 409 if the entity has changed since
+  app.post("/api/audit/:id/revert", requireEditor, async (req, res) => {
+    try {
+      const entry = getAuditEntry(req.params.id);
+      if (!entry) {
+        return res.status(404).json({ error: "Audit entry not found" });
+      }
+      res.json(await revertAuditEntry(req, entry));
+    } catch (error) {
+      if (error instanceof AuditRevertError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error reverting audit entry:", error);
+      res.status(500).json({ error: "Failed to revert change" });
     }
   });
 
   const httpServer = createServer(app);
+  setupLiveUpdates(httpServer);
 
   return httpServer;
 }
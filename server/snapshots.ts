@@ -0,0 +1,153 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { DATA_DIR, JsonFileStore } from "./jsonStore";
+import type { LeaderboardParams, PivotedLeaderboardRow } from "./leaderboard";
+import {
+  snapshotSummarySchema,
+  type Snapshot,
+  type SnapshotCellChange,
+  type SnapshotCellValue,
+  type SnapshotDiff,
+  type SnapshotInput,
+  type SnapshotSummary,
+} from "@shared/snapshots";
+
+/**
+ * Leaderboard snapshots. The index (names, params, who/when) lives in
+ * server/data/snapshots.json; each snapshot's rows are written once to
+ * server/data/snapshots/<name>.json and never touched again. Both are
+ * git-ignored and are the only copy, so server/data must be backed up (README).
+ */
+
+const snapshotFileSchema = z.object({
+  snapshots: z.array(snapshotSummarySchema),
+}).refine(file => new Set(file.snapshots.map(s => s.name)).size === file.snapshots.length, {
+  message: "snapshot names must be unique",
+});
+
+const store = new JsonFileStore("snapshots.json", snapshotFileSchema, () => ({ snapshots: [] }));
+
+const ROWS_DIR = path.join(DATA_DIR, "snapshots");
+
+const rowsPath = (name: string) => path.join(ROWS_DIR, `${name}.json`);
+
+/** Newest first. */
+export function listSnapshots(): SnapshotSummary[] {
+  return [...store.read().snapshots].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function getSnapshotSummary(name: string): SnapshotSummary | undefined {
+  return store.read().snapshots.find(s => s.name === name);
+}
+
+export function getSnapshot(name: string): Snapshot<PivotedLeaderboardRow> | undefined {
+  const summary = getSnapshotSummary(name);
+  if (!summary) return undefined;
+  const rows = JSON.parse(fs.readFileSync(rowsPath(name), "utf-8")) as PivotedLeaderboardRow[];
+  return { ...summary, rows };
+}
+
+/** Freeze `rows` under `input.name`. Caller checks the name is free. */
+export function createSnapshot(
+  input: SnapshotInput,
+  params: LeaderboardParams,
+  rows: PivotedLeaderboardRow[],
+  createdBy: string
+): SnapshotSummary {
+  const summary: SnapshotSummary = {
+    ...input,
+    createdAt: new Date().toISOString(),
+    createdBy,
+    params,
+    rowCount: rows.length,
+  };
+  // Rows first, so the index never lists a snapshot without its data
+  fs.mkdirSync(ROWS_DIR, { recursive: true });
+  const tmpPath = `${rowsPath(input.name)}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(rows));
+  fs.renameSync(tmpPath, rowsPath(input.name));
+  store.update(file => ({ snapshots: [...file.snapshots, summary] }));
+  return summary;
+}
+
+const rowKey = (row: PivotedLeaderboardRow) => `${row.modelName}|||${row.agentName}`;
+
+/** Competition rank ("1, 2, 2, 4") by accuracy per benchmark, over cells with a value. */
+function rankCells(rows: PivotedLeaderboardRow[]): Map<string, Map<string, number>> {
+  const byBenchmark = new Map<string, Array<{ key: string; accuracy: number }>>();
+  for (const row of rows) {
+    for (const [benchmark, cell] of Object.entries(row.benchmarks)) {
+      if (cell.accuracy === null) continue;
+      const cells = byBenchmark.get(benchmark);
+      if (cells) cells.push({ key: rowKey(row), accuracy: cell.accuracy });
+      else byBenchmark.set(benchmark, [{ key: rowKey(row), accuracy: cell.accuracy }]);
+    }
+  }
+  const ranks = new Map<string, Map<string, number>>();
+  byBenchmark.forEach((cells, benchmark) => {
+    cells.sort((a, b) => b.accuracy - a.accuracy);
+    const benchmarkRanks = new Map<string, number>();
+    cells.forEach((cell, i) => {
+      const tied = i > 0 && cells[i - 1].accuracy === cell.accuracy;
+      benchmarkRanks.set(cell.key, tied ? benchmarkRanks.get(cells[i - 1].key)! : i + 1);
+    });
+    ranks.set(benchmark, benchmarkRanks);
+  });
+  return ranks;
+}
+
+function cellValue(row: PivotedLeaderboardRow, benchmark: string, ranks: Map<string, Map<string, number>>): SnapshotCellValue | null {
+  const cell = row.benchmarks[benchmark];
+  if (!cell) return null;
+  return {
+    accuracy: cell.accuracy,
+    improvement: cell.improvement ?? null,
+    rank: ranks.get(benchmark)?.get(rowKey(row)) ?? null,
+    jobId: cell.jobId,
+  };
+}
+
+const benchmarksOf = (rows: PivotedLeaderboardRow[]) => new Set(rows.flatMap(row => Object.keys(row.benchmarks)));
+
+/**
+ * What changed from `from` to `to`: rows that appeared or disappeared, and for
+ * rows in both, every cell whose value, improvement or rank differs.
+ */
+export function diffSnapshots(from: Snapshot<PivotedLeaderboardRow>, to: Snapshot<PivotedLeaderboardRow>): SnapshotDiff {
+  const { rows: fromRows, ...fromSummary } = from;
+  const { rows: toRows, ...toSummary } = to;
+  const before = new Map(fromRows.map(row => [rowKey(row), row]));
+  const after = new Map(toRows.map(row => [rowKey(row), row]));
+  const beforeRanks = rankCells(fromRows);
+  const afterRanks = rankCells(toRows);
+  const describe = (row: PivotedLeaderboardRow) => ({ modelName: row.modelName, agentName: row.agentName });
+
+  const cells: SnapshotCellChange[] = [];
+  before.forEach((oldRow, key) => {
+    const newRow = after.get(key);
+    if (!newRow) return;
+    const benchmarks = new Set([...Object.keys(oldRow.benchmarks), ...Object.keys(newRow.benchmarks)]);
+    benchmarks.forEach(benchmark => {
+      const old = cellValue(oldRow, benchmark, beforeRanks);
+      const next = cellValue(newRow, benchmark, afterRanks);
+      const sameValue = old !== null && next !== null && old.accuracy === next.accuracy && old.improvement === next.improvement;
+      if (sameValue && old.rank === next.rank) return;
+      cells.push({ ...describe(oldRow), benchmark, before: old, after: next, rankOnly: sameValue });
+    });
+  });
+
+  const fromBenchmarks = benchmarksOf(fromRows);
+  const toBenchmarks = benchmarksOf(toRows);
+  return {
+    from: fromSummary,
+    to: toSummary,
+    addedRows: toRows.filter(row => !before.has(rowKey(row))).map(describe),
+    removedRows: fromRows.filter(row => !after.has(rowKey(row))).map(describe),
+    benchmarks: {
+      added: Array.from(toBenchmarks).filter(b => !fromBenchmarks.has(b)).sort(),
+      removed: Array.from(fromBenchmarks).filter(b => !toBenchmarks.has(b)).sort(),
+    },
+    cells,
+  };
+}
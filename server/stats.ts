@@ -0,0 +1,109 @@
+/**
+ * Small statistics helpers shared by the analytics endpoints.
+ * Pure functions only — no database access.
+ */
+
+/** Complementary error function (Numerical Recipes erfcc, |error| < 1.2e-7). */
+export function erfc(x: number): number {
+  const z = Math.abs(x);
+  const t = 1 / (1 + 0.5 * z);
+  const r = t * Math.exp(
+    -z * z - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418 +
+    t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 +
+    t * (-0.82215223 + t * 0.17087277))))))))
+  );
+  return x >= 0 ? r : 2 - r;
+}
+
+/** Standard normal CDF. */
+export function normalCdf(z: number): number {
+  return 0.5 * erfc(-z / Math.SQRT2);
+}
+
+/** Two-sided p-value for a standard normal test statistic. */
+export function twoSidedNormalP(z: number): number {
+  return erfc(Math.abs(z) / Math.SQRT2);
+}
+
+/** Log of n choose k, as a running sum of logs (fine for n in the low thousands). */
+function logChoose(n: number, k: number): number {
+  let result = 0;
+  for (let i = 1; i <= k; i++) {
+    result += Math.log(n - k + i) - Math.log(i);
+  }
+  return result;
+}
+
+export interface McNemarResult {
+  b: number;              // discordant pairs: solved in A, unsolved in B
+  c: number;              // discordant pairs: unsolved in A, solved in B
+  statistic: number | null;  // chi-square statistic (continuity-corrected) when the asymptotic test is used
+  pValue: number;
+  method: 'exact' | 'chi2';
+}
+
+// Below this many discordant pairs the chi-square approximation is unreliable
+const MCNEMAR_EXACT_THRESHOLD = 25;
+
+/**
+ * McNemar's test for paired binary outcomes, given only the discordant counts.
+ * Uses the exact two-sided binomial test for small samples and the
+ * continuity-corrected chi-square (1 dof) otherwise.
+ */
+export function mcnemarTest(b: number, c: number): McNemarResult {
+  const n = b + c;
+  if (n === 0) {
+    return { b, c, statistic: null, pValue: 1, method: 'exact' };
+  }
+
+  if (n < MCNEMAR_EXACT_THRESHOLD) {
+    const k = Math.min(b, c);
+    let tail = 0;
+    for (let i = 0; i <= k; i++) {
+      tail += Math.exp(logChoose(n, i) - n * Math.LN2);
+    }
+    return { b, c, statistic: null, pValue: Math.min(1, 2 * tail), method: 'exact' };
+  }
+
+  const statistic = Math.pow(Math.abs(b - c) - 1, 2) / n;
+  // chi-square with 1 dof: P(X > s) = P(|Z| > sqrt(s))
+  return { b, c, statistic, pValue: twoSidedNormalP(Math.sqrt(statistic)), method: 'chi2' };
+}
+
+export interface RunAggregate {
+  value: number;
+  standardError: number | null;  // null when any run lacks a standard error
+  runCount: number;
+}
+
+// Asymptotic efficiency of the sample median for normal data: SE(median) ≈ sqrt(π/2) · SE(mean)
+const MEDIAN_SE_FACTOR = Math.sqrt(Math.PI / 2);
+
+/**
+ * Collapse repeated runs of the same eval into one value. The pooled SE treats the
+ * runs as independent estimates: sqrt(Σ seᵢ²) / m for the mean, scaled by
+ * sqrt(π/2) for the median once there are 3+ runs (with 1–2 runs the median is the mean).
+ */
+export function aggregateRuns(
+  runs: Array<{ value: number; standardError: number | null }>,
+  method: 'mean' | 'median'
+): RunAggregate {
+  const m = runs.length;
+  const values = runs.map(r => r.value);
+  let value: number;
+  if (method === 'mean') {
+    value = values.reduce((sum, v) => sum + v, 0) / m;
+  } else {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(m / 2);
+    value = m % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  }
+
+  let standardError: number | null = null;
+  if (runs.every(r => r.standardError !== null)) {
+    const meanSe = Math.sqrt(runs.reduce((sum, r) => sum + r.standardError! ** 2, 0)) / m;
+    standardError = method === 'median' && m >= 3 ? meanSe * MEDIAN_SE_FACTOR : meanSe;
+  }
+
+  return { value, standardError, runCount: m };
+}
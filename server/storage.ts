@@ -2,8 +2,35 @@ import { type BenchmarkResult, type InsertBenchmarkResult } from "@shared/schema
 import { supabase } from "@db";
 import { benchmarkResults } from "@shared/schema";
 import { eq } from "drizzle-orm";
-
-export type EvalSelectionMode = 'oldest' | 'latest' | 'highest' | 'all';
+import { aggregateRuns } from "./stats";
+import {
+  countInvalidErrors,
+  evaluateGuardrails,
+  getGuardrailConfig,
+  type FiredGuardrail,
+  type GuardrailContext,
+} from "./guardrails";
+import {
+  DEFAULT_SELECTION_POLICY_NAME,
+  SELECTION_POLICY_PRESETS,
+  type NamedSelectionPolicy,
+  type SelectionPolicy,
+} from "@shared/selectionPolicy";
+import {
+  aggregateErrors,
+  errorTotals,
+  exceptionBreakdown,
+  sandboxConfigKey,
+  type ErrorBreakdown,
+  type ErrorBreakdownFilters,
+  type JobErrors,
+} from "./errorTaxonomy";
+import type { DuplicateEntityType, DuplicateNode } from "@shared/duplicates";
+import { getModelAliasKey } from "./modelAliases";
+import { log } from "./vite";
+import { computeJobTrialMetrics, selectCellMetric, type CellMetric, type JobTrialMetrics, type TrialReward } from "./trialMetrics";
+
+export type EvalSelectionMode = 'oldest' | 'latest' | 'highest' | 'all' | 'mean' | 'median';
 
 export interface BenchmarkResultExtended extends BenchmarkResult {
   hfTracesLink?: string;
@@ -19,6 +46,11 @@ export interface BenchmarkResultWithImprovement extends BenchmarkResultExtended
   canonicalBenchmarkBaseModelAccuracy?: number;  // Base model accuracy on canonical benchmark
   canonicalBaseModelAccuracy?: number;            // Canonical base model's accuracy on same benchmark
   canonicalBothBaseModelAccuracy?: number;        // Canonical base model on canonical benchmark
+  // Standard errors of the base model results above (same order), for improvement significance
+  baseModelStandardError?: number;
+  canonicalBenchmarkBaseModelStandardError?: number;
+  canonicalBaseModelStandardError?: number;
+  canonicalBothBaseModelStandardError?: number;
   agentId: string;
   benchmarkId: string;
   endedAt?: string;
@@ -34,6 +66,10 @@ export interface BenchmarkResultWithImprovement extends BenchmarkResultExtended
   // Source benchmark (tracks which actual benchmark the result came from after merging duplicates)
   sourceBenchmarkName: string;
   sourceBenchmarkId: string;
+  // sandbox_jobs.id of the selected result (links to the job detail page)
+  jobId: string;
+  // sandbox_jobs.created_at of the selected result (ISO; absent from views created before it was added)
+  jobCreatedAt?: string;
   // Eval config metadata
   timeoutMultiplier?: number;
   daytonaOverrideCpus?: number;
@@ -52,6 +88,8 @@ export interface BenchmarkResultWithImprovement extends BenchmarkResultExtended
   isOverlong: boolean;
   isIncomplete: boolean;
   isHighErrors: boolean;
+  // Guardrail rules that fired for this run (ids/severities from server/config/guardrails.json)
+  guardrails: FiredGuardrail[];
   invalidErrorCount?: number;
   completedTrials?: number;
   totalTrials?: number;
@@ -60,6 +98,16 @@ export interface BenchmarkResultWithImprovement extends BenchmarkResultExtended
   // "All" mode: position in pool of results for same (model, agent, benchmark)
   poolIndex?: number;
   poolSize?: number;
+  // Trial-derived cell metric (when not 'accuracy'): accuracy/standardError hold its value and bootstrap SE
+  metricK?: number;            // k actually used for pass@k
+  metricCiLow?: number;        // bootstrap 95% CI, same units as accuracy
+  metricCiHigh?: number;
+  metricMissing?: boolean;     // finished job without any finished trials to compute the metric from
+  // Mean/median modes: number of runs aggregated into accuracy/standardError (job fields describe the latest one)
+  runCount?: number;
+  // Selection policy name and the rule that picked this row (e.g. "latest, above 1%")
+  selectionPolicy: string;
+  selectionReason: string;
 }
 
 export interface ModelInfo {
@@ -78,9 +126,141 @@ export interface ModelInfo {
   modelSizeB: number | null;
 }
 
+// One sandbox_jobs row with its timestamps, for the change feed
+export interface JobActivity {
+  jobId: string;
+  jobStatus: string | null;
+  modelName: string;
+  agentName: string;
+  benchmarkName: string;
+  accuracy: number | null;
+  createdAt: string | null;
+  startedAt: string | null;
+  endedAt: string | null;
+}
+
+// A Pending/Started job with its finished-trial progress, for the in-flight view
+export interface InFlightJobRecord {
+  jobId: string;
+  jobName: string | null;
+  jobStatus: 'Pending' | 'Started';
+  modelName: string;
+  agentName: string;
+  benchmarkName: string;
+  username: string | null;
+  slurmJobId: string | null;
+  createdAt: string | null;
+  startedAt: string | null;
+  totalTrials: number | null;
+  // Finished sandbox_trials rows (stats.n_trials when the job has none yet)
+  completedTrials: number;
+  lastTrialEndedAt: string | null;
+}
+
+export type TrialOutcome = 'solved' | 'failed' | 'errored' | 'pending';
+
+export interface TrialDetail {
+  id: string;
+  trialName: string;
+  trialUri: string;
+  taskChecksum: string;
+  taskName: string | null;
+  taskInstruction: string | null;
+  taskSource: string | null;
+  reward: number | null;
+  outcome: TrialOutcome;
+  // Phase timestamps (ISO strings, null when the phase never ran)
+  startedAt: string | null;
+  endedAt: string | null;
+  environmentSetupStartedAt: string | null;
+  environmentSetupEndedAt: string | null;
+  agentSetupStartedAt: string | null;
+  agentSetupEndedAt: string | null;
+  agentExecutionStartedAt: string | null;
+  agentExecutionEndedAt: string | null;
+  verifierStartedAt: string | null;
+  verifierEndedAt: string | null;
+  exceptionInfo: unknown;
+}
+
+export interface EvalStatsBucket {
+  key: string;        // reward value (e.g. "1.0") or exception type
+  count: number;
+  trials: string[];   // trial names
+}
+
+export interface JobEvalStats {
+  name: string;
+  nTrials: number | null;
+  nErrors: number | null;
+  rewardStats: EvalStatsBucket[];
+  exceptionStats: EvalStatsBucket[];
+}
+
+export interface JobDetail {
+  jobId: string;
+  jobName: string;
+  jobStatus: string | null;
+  modelId: string;
+  modelName: string | null;
+  agentId: string;
+  agentName: string | null;
+  benchmarkId: string;
+  benchmarkName: string | null;
+  username: string | null;
+  slurmJobId: string | null;
+  gitCommitId: string | null;
+  packageVersion: string | null;
+  hfTracesLink: string | null;
+  notes: string | null;
+  isOverlong: boolean;
+  createdAt: string;
+  startedAt: string | null;
+  endedAt: string | null;
+  nTrials: number | null;
+  nRepEval: number | null;
+  completedTrials: number | null;  // stats.n_trials
+  config: unknown;
+  metrics: unknown;
+  evals: JobEvalStats[];
+}
+
+export interface RelatedJob {
+  jobId: string;
+  jobName: string;
+  jobStatus: string | null;
+  modelId: string;
+  modelName: string | null;
+  createdAt: string;
+  endedAt: string | null;
+  accuracy: number | null;  // percent, parsed from metrics like the leaderboard view does
+}
+
+export interface RelatedJobs {
+  // Other runs of the same model/agent/benchmark
+  siblings: RelatedJob[];
+  // Runs of the model's base model on the same agent/benchmark
+  baseModel: RelatedJob[];
+}
+
+export interface JobTrials {
+  jobId: string;
+  jobStatus: string | null;
+  summary: {
+    nTrials: number | null;  // sandbox_jobs.n_trials (trials the job was launched with)
+    recorded: number;        // rows present in sandbox_trials
+    solved: number;
+    failed: number;
+    errored: number;
+    pending: number;
+  };
+  trials: TrialDetail[];
+}
+
 // Raw row from the leaderboard_results view (all results, no deduplication)
 interface RawLeaderboardRow {
   id: string;
+  job_id: string;
   model_id: string;
   model_name: string;
   model_duplicate_of: string | null;
@@ -104,6 +284,8 @@ interface RawLeaderboardRow {
   standard_error: number | null;
   hf_traces_link: string | null;
   ended_at: string | null;
+  // sandbox_jobs.created_at (absent from views created before it was added)
+  job_created_at?: string | null;
   canonical_base_model_id: string | null;
   config: any;
   training_type: string | null;
@@ -117,33 +299,272 @@ interface RawLeaderboardRow {
   notes: string | null;
 }
 
+// Rows requested per PostgREST round-trip. Must not exceed the project's
+// max-rows setting (Supabase default: 1000), otherwise every page comes back
+// short and fetchAllPages fails.
+const PAGE_SIZE = 1000;
+
+type PageResult = { data: any[] | null; error: any; count: number | null };
+
+/**
+ * Read every row of a PostgREST query in fixed-size pages.
+ *
+ * `fetchPage(from, to, withCount)` must apply a stable `.order()` and `.range(from, to)`.
+ * The total is taken from the first page (`count: 'exact'`); any page shorter than
+ * that total implies throws instead of silently truncating — a short page means
+ * either the max-rows cap is below PAGE_SIZE or rows were deleted mid-fetch.
+ */
+async function fetchAllPages<T>(
+  source: string,
+  fetchPage: (from: number, to: number, withCount: boolean) => PromiseLike<PageResult>
+): Promise<T[]> {
+  const rows: T[] = [];
+  let total = 0;
+  for (let from = 0; from === 0 || from < total; from += PAGE_SIZE) {
+    const { data, error, count } = await fetchPage(from, from + PAGE_SIZE - 1, from === 0);
+    if (error) {
+      console.error(`Error fetching ${source} (rows ${from}+):`, error);
+      throw error;
+    }
+    if (from === 0) {
+      if (count === null) {
+        throw new Error(`${source} did not report a row count; refusing to page blindly`);
+      }
+      total = count;
+    }
+    const page = (data ?? []) as T[];
+    const expected = Math.max(0, Math.min(PAGE_SIZE, total - from));
+    if (page.length !== expected) {
+      throw new Error(
+        `${source} page starting at row ${from} returned ${page.length} rows, expected ${expected} of ${total} total. ` +
+        `Check the PostgREST max-rows setting (must be >= ${PAGE_SIZE}) or retry if rows were being written.`
+      );
+    }
+    rows.push(...page);
+  }
+  return rows;
+}
+
+// Postgres undefined_column, as PostgREST reports ordering by a column the view lacks
+function isUndefinedColumn(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: unknown }).code === '42703';
+}
+
+/** JSONB columns occasionally come back as strings; parse them, or return undefined if unparseable. */
+function parseJsonb(value: any): any {
+  if (typeof value !== 'string') return value ?? undefined;
+  try { return JSON.parse(value); } catch { return undefined; }
+}
+
+/** accuracy from a metrics JSONB array, scaled to percent (mirrors computed_accuracy in the view). */
+function accuracyFromMetrics(metrics: any): number | null {
+  const parsed = parseJsonb(metrics);
+  if (!Array.isArray(parsed)) return null;
+  const entry = parsed.find((m: any) => m?.name === 'accuracy');
+  return entry && typeof entry.value === 'number' ? entry.value * 100 : null;
+}
+
+/** Turn a `{ key: trialName[] }` map from stats.evals into count-sorted buckets. */
+function toStatsBuckets(map: any): EvalStatsBucket[] {
+  if (!map || typeof map !== 'object') return [];
+  return Object.entries(map)
+    .filter(([, trials]) => Array.isArray(trials))
+    .map(([key, trials]) => ({ key, count: (trials as string[]).length, trials: trials as string[] }))
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+}
+
+const JOB_ERRORS_COLUMNS = 'id, job_name, job_status, model_id, agent_id, benchmark_id, created_at, config, stats';
+
+// Columns behind JobActivity (change feed and live updates)
+const JOB_ACTIVITY_COLUMNS = 'id, job_status, model_id, agent_id, benchmark_id, created_at, started_at, ended_at, metrics';
+
+function toJobErrors(job: any, names: { models: Map<string, string>; agents: Map<string, string>; benchmarks: Map<string, string> }, benignErrors: string[]): JobErrors {
+  const exceptions = exceptionBreakdown(parseJsonb(job.stats), benignErrors);
+  return {
+    jobId: job.id,
+    jobName: job.job_name,
+    jobStatus: job.job_status ?? null,
+    modelName: names.models.get(job.model_id) ?? null,
+    agentName: names.agents.get(job.agent_id) ?? null,
+    benchmarkName: names.benchmarks.get(job.benchmark_id) ?? null,
+    sandboxConfig: sandboxConfigKey(parseJsonb(job.config)),
+    createdAt: job.created_at,
+    ...errorTotals(exceptions),
+    exceptions,
+  };
+}
+
+// PostgREST encodes `.in()` filters in the URL, so long ID lists are split into chunks
+const IN_FILTER_CHUNK_SIZE = 200;
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isUuid(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
+
+/**
+ * Classify a trial. Any positive reward counts as solved, even when the trial also
+ * recorded an exception (e.g. the agent timed out after the verifier already passed).
+ * Otherwise an exception marks it errored, a zero reward failed, and no reward yet pending.
+ */
+export function classifyTrial(reward: number | null, exceptionInfo: unknown): TrialOutcome {
+  if (reward !== null && reward > 0) return 'solved';
+  if (exceptionInfo !== null && exceptionInfo !== undefined) return 'errored';
+  if (reward !== null) return 'failed';
+  return 'pending';
+}
+
+interface RunHealth {
+  context: GuardrailContext;
+  guardrails: FiredGuardrail[];
+  isIncomplete: boolean;
+  isHighErrors: boolean;
+}
+
+/**
+ * Evaluate the guardrail rules (server/config/guardrails.json) for one run.
+ * `previous` is the prior Finished run of the same pool, for drop-vs-previous checks.
+ */
+function runHealth(row: RawLeaderboardRow, previous?: RawLeaderboardRow): RunHealth {
+  const { benignErrors, rules } = getGuardrailConfig();
+  const stats = parseJsonb(row.stats);
+  const config = parseJsonb(row.config);
+
+  const completedTrials = (stats?.n_trials as number) ?? undefined;
+  const totalTrials = row.n_trials ?? undefined;
+  const timeoutMultiplier = config?.timeout_multiplier != null ? Number(config.timeout_multiplier) : undefined;
+
+  let accuracyDropSe: number | undefined;
+  if (previous && previous.accuracy !== null && row.accuracy !== null) {
+    const se = Math.sqrt((row.standard_error ?? 0) ** 2 + (previous.standard_error ?? 0) ** 2);
+    if (se > 0) accuracyDropSe = (previous.accuracy - row.accuracy) / se;
+  }
+
+  const context: GuardrailContext = {
+    jobStatus: row.job_status,
+    accuracy: row.accuracy,
+    standardError: row.standard_error,
+    isOverlong: row.is_overlong ?? false,
+    invalidErrorCount: countInvalidErrors(stats, benignErrors),
+    completedTrials,
+    totalTrials,
+    completedRatio: completedTrials !== undefined && totalTrials ? completedTrials / totalTrials : undefined,
+    timeoutMultiplier,
+    previousAccuracy: previous?.accuracy ?? undefined,
+    previousStandardError: previous?.standard_error ?? undefined,
+    accuracyDropSe,
+    config,
+    stats,
+  };
+
+  const guardrails = evaluateGuardrails(context, rules);
+  return {
+    context,
+    guardrails,
+    isIncomplete: guardrails.some(g => g.id === 'incomplete'),
+    isHighErrors: guardrails.some(g => g.id === 'high-errors'),
+  };
+}
+
+/** Per job id, the Finished run before it in the same pool (by end time), for runHealth. */
+function previousFinishedRuns(index: Map<string, RawLeaderboardRow[]>): Map<string, RawLeaderboardRow> {
+  const previousByJob = new Map<string, RawLeaderboardRow>();
+  for (const pool of Array.from(index.values())) {
+    const finished = pool
+      .filter(isUsableRun)
+      .sort((a, b) => (a.ended_at ? new Date(a.ended_at).getTime() : 0) - (b.ended_at ? new Date(b.ended_at).getTime() : 0));
+    for (let i = 1; i < finished.length; i++) {
+      previousByJob.set(finished[i].job_id, finished[i - 1]);
+    }
+  }
+  return previousByJob;
+}
+
+/** View rows as the leaderboard sees them: rewound to `asOf` if given, optionally traced runs only. */
+function prepareRows(
+  rows: RawLeaderboardRow[],
+  hideNoTraceLink: boolean,
+  asOf: Date | undefined,
+  modelCreatedAt: Map<string, string> | undefined
+): RawLeaderboardRow[] {
+  // Time travel: only what existed at `asOf`, before selection and improvement run
+  let prepared = asOf ? rowsAsOf(rows, asOf, modelCreatedAt ?? new Map()) : rows;
+  // Filter out rows without trace links before pool building
+  if (hideNoTraceLink) {
+    prepared = prepared.filter(row => row.hf_traces_link != null && row.hf_traces_link !== '');
+  }
+  return prepared;
+}
+
 const JOB_STATUS_PRIORITY: Record<string, number> = {
   'Finished': 0,
   'Started': 1,
   'Pending': 2,
 };
 
+/** Finished = has an accuracy and did not fail (Pending/Started/Failed rows are not usable). */
+function isUsableRun(row: RawLeaderboardRow): boolean {
+  return row.accuracy !== null && row.job_status !== 'Failed';
+}
+
+/** The policy's hard exclusions (overlong 'exclude', incomplete, high errors, completed ratio). */
+function passesPolicy(row: RawLeaderboardRow, policy: SelectionPolicy): boolean {
+  if (policy.overlong === 'exclude' && row.is_overlong) return false;
+  if (!policy.excludeIncomplete && !policy.excludeHighErrors && policy.minCompletedRatio <= 0) return true;
+
+  const health = runHealth(row);
+  if (policy.excludeIncomplete && health.isIncomplete) return false;
+  if (policy.excludeHighErrors && health.isHighErrors) return false;
+  const { completedTrials, totalTrials } = health.context;
+  if (policy.minCompletedRatio > 0 && totalTrials !== undefined && totalTrials > 0) {
+    if ((completedTrials ?? 0) / totalTrials < policy.minCompletedRatio) return false;
+  }
+  return true;
+}
+
+/**
+ * Finished runs of a pool that the policy lets into a cell. With overlong 'avoid',
+ * overlong runs are only returned when no other run survived.
+ */
+function policyCandidates(pool: RawLeaderboardRow[], policy: SelectionPolicy): { runs: RawLeaderboardRow[]; overlongFallback: boolean } {
+  const finished = pool.filter(r => isUsableRun(r) && passesPolicy(r, policy));
+  if (policy.overlong !== 'avoid') return { runs: finished, overlongFallback: false };
+  const nonOverlong = finished.filter(r => !r.is_overlong);
+  return nonOverlong.length > 0
+    ? { runs: nonOverlong, overlongFallback: false }
+    : { runs: finished, overlongFallback: finished.length > 0 };
+}
+
+type SingleSelectionMode = 'oldest' | 'latest' | 'highest';
+
 /**
- * Select one result from a pool of results based on the eval selection mode.
- * Priority: Finished > Started > Pending. Among Finished results:
- * - Non-overlong results are preferred over overlong (partial) results
- * - oldest: prefer accuracy > 1% → then earliest timestamp
- * - latest: prefer accuracy > 1% → then latest timestamp
+ * Select one result from a pool of results based on the eval selection mode and policy.
+ * Priority: Finished > Started > Pending. Among Finished results that pass the policy:
+ * - overlong results are avoided, allowed or excluded per `policy.overlong`
+ * - oldest: prefer accuracy > policy.minAccuracy → then earliest timestamp
+ * - latest: prefer accuracy > policy.minAccuracy → then latest timestamp
  * - highest: highest accuracy (no threshold)
  * Among non-Finished results (no accuracy): prefer Started over Pending, then latest timestamp.
+ * `reason` is a short human-readable note on which rule picked the row.
  */
-function selectResult(pool: RawLeaderboardRow[], mode: EvalSelectionMode): RawLeaderboardRow | null {
+function selectResult(
+  pool: RawLeaderboardRow[],
+  mode: SingleSelectionMode,
+  policy: SelectionPolicy
+): { row: RawLeaderboardRow; reason: string } | null {
   if (pool.length === 0) return null;
 
-  // Separate usable results (Finished with accuracy) from non-usable (Pending/Started/Failed)
-  const finished = pool.filter(r => r.accuracy !== null && r.job_status !== 'Failed');
-  const nonFinished = pool.filter(r => r.accuracy === null || r.job_status === 'Failed');
-
-  // If we have any Finished results, prefer non-overlong over overlong
-  if (finished.length > 0) {
-    const nonOverlong = finished.filter(r => !r.is_overlong);
-    const candidates_pool = nonOverlong.length > 0 ? nonOverlong : finished;
+  const { runs: candidates_pool, overlongFallback } = policyCandidates(pool, policy);
+  const suffix = overlongFallback ? ' (overlong fallback)' : '';
 
+  if (candidates_pool.length > 0) {
     if (mode === 'highest') {
       let best = candidates_pool[0];
       for (const row of candidates_pool) {
@@ -151,11 +572,11 @@ function selectResult(pool: RawLeaderboardRow[], mode: EvalSelectionMode): RawLe
           best = row;
         }
       }
-      return best;
+      return { row: best, reason: `highest of ${candidates_pool.length}${suffix}` };
     }
 
-    // For oldest/latest: prefer results with accuracy > 1%, then sort by timestamp
-    const aboveThreshold = candidates_pool.filter(r => (r.accuracy ?? 0) > 1.0);
+    // For oldest/latest: prefer results above the accuracy threshold, then sort by timestamp
+    const aboveThreshold = candidates_pool.filter(r => (r.accuracy ?? 0) > policy.minAccuracy);
     const candidates = aboveThreshold.length > 0 ? aboveThreshold : candidates_pool;
 
     const sorted = [...candidates].sort((a, b) => {
@@ -164,10 +585,13 @@ function selectResult(pool: RawLeaderboardRow[], mode: EvalSelectionMode): RawLe
       return mode === 'oldest' ? tsA - tsB : tsB - tsA;
     });
 
-    return sorted[0];
+    const thresholdNote = aboveThreshold.length > 0 ? `above ${policy.minAccuracy}%` : `none above ${policy.minAccuracy}%`;
+    return { row: sorted[0], reason: `${mode}, ${thresholdNote}${suffix}` };
   }
 
-  // No Finished results — pick best non-Finished: Started > Pending, then latest timestamp
+  // No usable Finished results — pick best non-Finished: Started > Pending, then latest timestamp.
+  // Finished runs rejected by the policy are not shown.
+  const nonFinished = pool.filter(r => !isUsableRun(r));
   const sorted = [...nonFinished].sort((a, b) => {
     const aPri = JOB_STATUS_PRIORITY[a.job_status ?? 'Pending'] ?? 3;
     const bPri = JOB_STATUS_PRIORITY[b.job_status ?? 'Pending'] ?? 3;
@@ -177,7 +601,8 @@ function selectResult(pool: RawLeaderboardRow[], mode: EvalSelectionMode): RawLe
     return tsB - tsA; // latest first
   });
 
-  return sorted[0];
+  if (sorted.length === 0) return null;
+  return { row: sorted[0], reason: 'no usable Finished run' };
 }
 
 function formatTimestampField(ts: string | null): string | undefined {
@@ -191,30 +616,227 @@ function formatTimestampField(ts: string | null): string | undefined {
   }).replace(',', '');
 }
 
+const DUPLICATE_TABLES: Record<DuplicateEntityType, 'models' | 'agents' | 'benchmarks'> = {
+  model: 'models',
+  agent: 'agents',
+  benchmark: 'benchmarks',
+};
+
+// A models/agents/benchmarks row as far as duplicate resolution needs it
+interface DuplicateRecord extends DuplicateNode {
+  baseModelId: string | null;
+}
+
+/**
+ * Rewrite view rows as if `relinked` entities had duplicate_of = `canonicalId`,
+ * resolving the same single hop create_leaderboard_view.sql does. `records` are
+ * all entities of `entityType`, already carrying the new duplicate_of.
+ */
+function relinkRawRows(
+  rows: RawLeaderboardRow[],
+  entityType: DuplicateEntityType,
+  relinked: Set<string>,
+  records: Map<string, DuplicateRecord>
+): RawLeaderboardRow[] {
+  if (entityType === 'agent') {
+    return rows.map(row => {
+      if (!relinked.has(row.agent_id)) return row;
+      const agent = records.get(row.agent_id);
+      const canonical = agent?.duplicateOf ? records.get(agent.duplicateOf) : undefined;
+      return {
+        ...row,
+        agent_duplicate_of: canonical?.id ?? null,
+        canonical_agent_name: canonical?.name ?? row.agent_name,
+        canonical_agent_id: canonical?.id ?? row.agent_id,
+      };
+    });
+  }
+
+  if (entityType === 'benchmark') {
+    return rows.map(row => {
+      const sourceId = row.source_benchmark_id ?? row.benchmark_id;
+      if (!relinked.has(sourceId)) return row;
+      const benchmark = records.get(sourceId);
+      const canonical = benchmark?.duplicateOf ? records.get(benchmark.duplicateOf) : undefined;
+      const name = canonical?.name ?? row.source_benchmark_name ?? row.benchmark_name;
+      return {
+        ...row,
+        benchmark_name: name,
+        canonical_benchmark_name: name,
+        benchmark_id: canonical?.id ?? sourceId,
+      };
+    });
+  }
+
+  // Models: a link also moves the base model of rows whose model (or whose
+  // model's canonical) has the relinked model as its base, so recompute every
+  // row's model fields the way the view joins them.
+  return rows.map(row => {
+    const model = records.get(row.model_id);
+    if (!model) return row;
+    const canonical = model.duplicateOf ? records.get(model.duplicateOf) : undefined;
+    const baseModelId = model.baseModelId ?? canonical?.baseModelId ?? null;
+    const base = baseModelId ? records.get(baseModelId) : undefined;
+    const baseModelName = base?.name ?? 'None';
+    const canonicalBase = base?.duplicateOf ? records.get(base.duplicateOf) : undefined;
+    return {
+      ...row,
+      model_duplicate_of: model.duplicateOf,
+      canonical_model_name: canonical?.name ?? model.name,
+      base_model_id: baseModelId,
+      base_model_name: baseModelName,
+      base_model_duplicate_of: base?.duplicateOf ?? null,
+      canonical_base_model_name: canonicalBase?.name ?? baseModelName,
+      canonical_base_model_id: base?.duplicateOf ?? baseModelId,
+    };
+  });
+}
+
+/**
+ * View rows as they stood at `asOf`: jobs submitted later and models created
+ * later are dropped, and jobs that finished later are turned back into
+ * in-flight runs (no accuracy, status Started). Without job_created_at in the
+ * view a job's submission time falls back to its timestamp, so a job that
+ * finished after `asOf` is dropped instead.
+ */
+function rowsAsOf(rows: RawLeaderboardRow[], asOf: Date, modelCreatedAt: Map<string, string>): RawLeaderboardRow[] {
+  const cutoff = asOf.getTime();
+  const after = (ts: string | null | undefined) => !!ts && new Date(ts).getTime() > cutoff;
+  const result: RawLeaderboardRow[] = [];
+  for (const row of rows) {
+    if (after(modelCreatedAt.get(row.model_id))) continue;
+    if (after(row.job_created_at === undefined ? row.ended_at : row.job_created_at)) continue;
+    if (!after(row.ended_at)) {
+      result.push(row);
+    } else if (row.accuracy !== null || row.job_status === 'Finished') {
+      result.push({
+        ...row,
+        accuracy: null,
+        standard_error: null,
+        hf_traces_link: null,
+        ended_at: row.job_created_at ?? null,
+        job_status: 'Started',
+        is_overlong: false,
+        stats: null,
+      });
+    } else {
+      // Pending/Started row timestamped by started_at: not started yet
+      result.push({ ...row, ended_at: row.job_created_at ?? null, job_status: 'Pending' });
+    }
+  }
+  return result;
+}
+
+// Results with and without a simulated link, plus where each run's pool and table row move
+export interface SimulatedDuplicateLink {
+  before: BenchmarkResultWithImprovement[];
+  after: BenchmarkResultWithImprovement[];
+  runs: Array<{ pool: [string, string]; tableRow: [string, string] }>;
+}
+
+// Guardrails fired by one run, named as the leaderboard names it
+export interface RunGuardrails {
+  jobId: string;
+  modelName: string;
+  agentName: string;
+  benchmarkName: string;
+  guardrails: FiredGuardrail[];
+}
+
+export interface ChangeFeedResults {
+  guardrails: RunGuardrails[];
+  // Selection at the window's bounds; only when superseded results were asked for
+  before?: BenchmarkResultWithImprovement[];
+  after?: BenchmarkResultWithImprovement[];
+}
+
 export interface IStorage {
   getAllBenchmarkResults(): Promise<BenchmarkResultExtended[]>;
-  getAllBenchmarkResultsWithImprovement(mode?: EvalSelectionMode, hideNoTraceLink?: boolean): Promise<BenchmarkResultWithImprovement[]>;
+  getAllBenchmarkResultsWithImprovement(
+    mode?: EvalSelectionMode,
+    hideNoTraceLink?: boolean,
+    metric?: CellMetric,
+    selectionPolicy?: NamedSelectionPolicy,
+    asOf?: Date
+  ): Promise<BenchmarkResultWithImprovement[]>;
+  getChangeFeedResults(
+    query: { mode: EvalSelectionMode; hideNoTraceLink: boolean; metric: CellMetric; selectionPolicy: NamedSelectionPolicy },
+    since: Date,
+    until: Date | undefined,
+    guardrailJobIds: string[],
+    superseded: boolean
+  ): Promise<ChangeFeedResults>;
   getAllModels(): Promise<ModelInfo[]>;
+  getJobDetail(jobId: string): Promise<JobDetail | undefined>;
+  getJobTrials(jobId: string): Promise<JobTrials | undefined>;
+  getRelatedJobs(jobId: string): Promise<RelatedJobs | undefined>;
+  getJobTrialMetrics(jobId: string): Promise<JobTrialMetrics | undefined>;
+  getJobErrors(jobId: string): Promise<JobErrors | undefined>;
+  getErrorBreakdown(filters: ErrorBreakdownFilters): Promise<ErrorBreakdown>;
+  getJobActivity(since: string, until: string): Promise<JobActivity[]>;
+  getJobActivityByIds(jobIds: string[]): Promise<JobActivity[]>;
+  getInFlightJobs(): Promise<InFlightJobRecord[]>;
+  getJobNotes(jobId: string): Promise<string | null | undefined>;
+  setJobNotes(jobId: string, notes: string | null): Promise<string | null | undefined>;
+  getDuplicateNodes(entityType: DuplicateEntityType): Promise<DuplicateNode[]>;
+  setDuplicateOf(entityType: DuplicateEntityType, ids: string[], canonicalId: string | null): Promise<void>;
+  simulateDuplicateLink(
+    entityType: DuplicateEntityType,
+    ids: string[],
+    canonicalId: string | null,
+    mode: Exclude<EvalSelectionMode, 'all'>
+  ): Promise<SimulatedDuplicateLink>;
   getBenchmarkResult(id: string): Promise<BenchmarkResult | undefined>;
   createBenchmarkResult(result: InsertBenchmarkResult): Promise<BenchmarkResult>;
   deleteBenchmarkResult(id: string): Promise<void>;
 }
 
 export class DbStorage implements IStorage {
+  // Trial rewards of a Finished job never change, so its leaderboard metrics are computed once per process
+  private finishedTrialMetrics = new Map<string, JobTrialMetrics>();
+  // false once the view turned out to predate its job_id column (see fetchAllRawRows)
+  private rawRowsPageable = true;
+  // Row count of the last view fetch, logged whenever it changes
+  private rawRowCount: number | undefined;
+
   /**
    * Fetch all raw rows from the leaderboard_results view (no deduplication).
+   * Paged by job_id (a stable key — the view's own `id` is regenerated per query).
+   * A view created before job_id was added cannot be paged; until
+   * create_leaderboard_view.sql is re-run it is read with the old single select,
+   * which PostgREST caps at max-rows.
    */
   private async fetchAllRawRows(): Promise<RawLeaderboardRow[]> {
-    const { data, error } = await supabase
-      .from('leaderboard_results')
-      .select('*');
-
-    if (error) {
-      console.error('Error fetching leaderboard results:', error);
-      throw error;
+    let rows: RawLeaderboardRow[];
+    if (this.rawRowsPageable) {
+      try {
+        rows = await fetchAllPages<RawLeaderboardRow>('leaderboard_results', (from, to, withCount) => supabase
+          .from('leaderboard_results')
+          .select('*', { count: withCount ? 'exact' : undefined })
+          .order('job_id', { ascending: true })
+          .range(from, to));
+      } catch (error) {
+        if (!isUndefinedColumn(error)) throw error;
+        this.rawRowsPageable = false;
+        log('leaderboard_results has no job_id column; reading it unpaged (capped at max-rows) until create_leaderboard_view.sql is re-run', 'storage');
+        return this.fetchAllRawRows();
+      }
+    } else {
+      const { data, error } = await supabase
+        .from('leaderboard_results')
+        .select('*');
+      if (error) {
+        console.error('Error fetching leaderboard results:', error);
+        throw error;
+      }
+      rows = (data ?? []) as RawLeaderboardRow[];
     }
 
-    return (data ?? []) as RawLeaderboardRow[];
+    if (rows.length !== this.rawRowCount) {
+      log(`leaderboard_results: ${rows.length} rows${this.rawRowsPageable ? ` in ${Math.max(1, Math.ceil(rows.length / PAGE_SIZE))} page(s)` : ' (unpaged)'}`, 'storage');
+      this.rawRowCount = rows.length;
+    }
+    return rows;
   }
 
   /**
@@ -241,8 +863,9 @@ export class DbStorage implements IStorage {
 
     const results: BenchmarkResultExtended[] = [];
     for (const pool of Array.from(index.values())) {
-      const selected = selectResult(pool, 'oldest');
-      if (!selected) continue;
+      const selection = selectResult(pool, 'oldest', SELECTION_POLICY_PRESETS.default.policy);
+      if (!selection) continue;
+      const selected = selection.row;
 
       results.push({
         id: selected.id,
@@ -297,53 +920,226 @@ export class DbStorage implements IStorage {
     return result;
   }
 
-  async getAllBenchmarkResultsWithImprovement(mode: EvalSelectionMode = 'oldest', hideNoTraceLink: boolean = false): Promise<BenchmarkResultWithImprovement[]> {
-    let allRows = await this.fetchAllRawRows();
+  async getAllBenchmarkResultsWithImprovement(
+    mode: EvalSelectionMode = 'oldest',
+    hideNoTraceLink: boolean = false,
+    metric: CellMetric = 'accuracy',
+    selectionPolicy: NamedSelectionPolicy = { name: DEFAULT_SELECTION_POLICY_NAME, policy: SELECTION_POLICY_PRESETS[DEFAULT_SELECTION_POLICY_NAME].policy },
+    asOf?: Date
+  ): Promise<BenchmarkResultWithImprovement[]> {
+    const allRows = await this.fetchAllRawRows();
+    const modelCreatedAt = asOf ? await this.fetchModelCreatedAt() : undefined;
+    return this.computeResultsWithImprovement(prepareRows(allRows, hideNoTraceLink, asOf, modelCreatedAt), mode, metric, selectionPolicy);
+  }
 
-    // Filter out rows without trace links before pool building
-    if (hideNoTraceLink) {
-      allRows = allRows.filter(row => row.hf_traces_link != null && row.hf_traces_link !== '');
+  /**
+   * The change feed's leaderboard inputs from a single read of the view: the
+   * guardrails fired by `guardrailJobIds` (as of `until`, over every run "all"
+   * mode shows), and, when `superseded` is set, the selection as of `since` and
+   * as of `until` (live when undefined).
+   */
+  async getChangeFeedResults(
+    query: { mode: EvalSelectionMode; hideNoTraceLink: boolean; metric: CellMetric; selectionPolicy: NamedSelectionPolicy },
+    since: Date,
+    until: Date | undefined,
+    guardrailJobIds: string[],
+    superseded: boolean
+  ): Promise<ChangeFeedResults> {
+    const { mode, hideNoTraceLink, metric, selectionPolicy } = query;
+    const allRows = await this.fetchAllRawRows();
+    const modelCreatedAt = superseded || until ? await this.fetchModelCreatedAt() : undefined;
+    const untilRows = prepareRows(allRows, hideNoTraceLink, until, modelCreatedAt);
+
+    const guardrails: RunGuardrails[] = [];
+    const wanted = new Set(guardrailJobIds);
+    if (wanted.size > 0) {
+      const index = this.buildGroupIndex(untilRows);
+      const previousByJob = previousFinishedRuns(index);
+      for (const pool of Array.from(index.values())) {
+        for (const row of pool) {
+          if (!wanted.has(row.job_id)) continue;
+          if (isUsableRun(row) && !passesPolicy(row, selectionPolicy.policy)) continue;
+          const fired = runHealth(row, previousByJob.get(row.job_id)).guardrails;
+          if (fired.length === 0) continue;
+          guardrails.push({
+            jobId: row.job_id,
+            modelName: row.model_name,
+            agentName: row.canonical_agent_name ?? row.agent_name,
+            benchmarkName: row.benchmark_name,
+            guardrails: fired,
+          });
+        }
+      }
     }
 
+    if (!superseded) return { guardrails };
+    return {
+      guardrails,
+      before: await this.computeResultsWithImprovement(prepareRows(allRows, hideNoTraceLink, since, modelCreatedAt), mode, metric, selectionPolicy),
+      after: await this.computeResultsWithImprovement(untilRows, mode, metric, selectionPolicy),
+    };
+  }
+
+  private async fetchModelCreatedAt(): Promise<Map<string, string>> {
+    const models = await this.getAllModels();
+    return new Map(models.filter(m => m.creationTime).map(m => [m.modelId, m.creationTime!]));
+  }
+
+  /**
+   * Selection and improvement over already-fetched view rows. Split out so a
+   * duplicate-link preview can run it on rows rewritten as if the link existed.
+   */
+  private async computeResultsWithImprovement(
+    allRows: RawLeaderboardRow[],
+    mode: EvalSelectionMode,
+    metric: CellMetric,
+    selectionPolicy: NamedSelectionPolicy
+  ): Promise<BenchmarkResultWithImprovement[]> {
     const index = this.buildGroupIndex(allRows);
     const benchmarkAliases = this.buildBenchmarkAliases(allRows);
 
     // --- Pass 1: Select result(s) per (agent, model, benchmark) group ---
-    type SelectedRow = RawLeaderboardRow & { resolvedAccuracy: number | undefined; poolIndex?: number; poolSize?: number };
+    type SelectedRow = RawLeaderboardRow & {
+      resolvedAccuracy: number | undefined;
+      poolIndex?: number;
+      poolSize?: number;
+      metricK?: number;
+      metricCiLow?: number;
+      metricCiHigh?: number;
+      metricMissing?: boolean;
+      aggregateOf?: RawLeaderboardRow[];
+      runCount?: number;
+      selectionReason: string;
+    };
+    const { policy } = selectionPolicy;
     const selectedRows: SelectedRow[] = [];
     for (const pool of Array.from(index.values())) {
       if (mode === 'all') {
+        // Every run is shown, minus Finished runs the policy excludes outright.
         // Sort purely by submission time, descending (latest first)
-        const sorted = [...pool].sort((a, b) => {
+        const visible = pool.filter(r => !isUsableRun(r) || passesPolicy(r, policy));
+        const sorted = [...visible].sort((a, b) => {
           const tsA = a.ended_at ? new Date(a.ended_at).getTime() : 0;
           const tsB = b.ended_at ? new Date(b.ended_at).getTime() : 0;
           return tsB - tsA;
         });
         sorted.forEach((row, idx) => {
-          selectedRows.push({ ...row, resolvedAccuracy: row.accuracy ?? undefined, poolIndex: idx, poolSize: sorted.length });
+          selectedRows.push({
+            ...row,
+            resolvedAccuracy: row.accuracy ?? undefined,
+            poolIndex: idx,
+            poolSize: sorted.length,
+            selectionReason: `run ${idx + 1} of ${sorted.length}`,
+          });
+        });
+      } else if (mode === 'mean' || mode === 'median') {
+        // Aggregate every Finished run the policy admits (values filled in below; no
+        // accuracy threshold); the most recent run supplies the job link and metadata.
+        const { runs, overlongFallback } = policyCandidates(pool, policy);
+        if (runs.length === 0) {
+          const selection = selectResult(pool, 'latest', policy);
+          if (selection) selectedRows.push({ ...selection.row, resolvedAccuracy: selection.row.accuracy ?? undefined, selectionReason: selection.reason });
+          continue;
+        }
+        const endedAt = (r: RawLeaderboardRow) => r.ended_at ? new Date(r.ended_at).getTime() : 0;
+        const latest = runs.reduce((a, b) => endedAt(b) > endedAt(a) ? b : a);
+        selectedRows.push({
+          ...latest,
+          resolvedAccuracy: latest.accuracy ?? undefined,
+          aggregateOf: runs,
+          selectionReason: `${mode} of ${runs.length}${overlongFallback ? ' (overlong fallback)' : ''}`,
         });
       } else {
-        const selected = selectResult(pool, mode);
-        if (!selected) continue;
-        selectedRows.push({ ...selected, resolvedAccuracy: selected.accuracy ?? undefined });
+        const selection = selectResult(pool, mode, policy);
+        if (!selection) continue;
+        selectedRows.push({ ...selection.row, resolvedAccuracy: selection.row.accuracy ?? undefined, selectionReason: selection.reason });
       }
     }
 
+    // Guardrails look at the raw run (before any metric swap / aggregation below),
+    // compared with the previous Finished run of the same pool
+    const previousByJob = previousFinishedRuns(index);
+    const healthByJob = new Map<string, RunHealth>();
+    for (const row of selectedRows) {
+      healthByJob.set(row.job_id, runHealth(row, previousByJob.get(row.job_id)));
+    }
+
+    // --- Pass 1b: Cell values (trial-derived metric, mean/median aggregation) ---
+    // Selection above still runs on metrics.accuracy; only the displayed value (and the
+    // base model score improvement is computed against) changes.
+    const isFinishedRow = (r: RawLeaderboardRow) => r.job_status === 'Finished' || r.job_status === null;
+    const trialMetrics = metric === 'accuracy' ? undefined : await this.getLeaderboardTrialMetrics(
+      selectedRows.filter(isFinishedRow).flatMap(r => (r.aggregateOf ?? [r]).map(run => run.job_id))
+    );
+    type CellValue = { value: number; standardError: number | null; k?: number; ciLow?: number; ciHigh?: number };
+    const cellValue = (run: RawLeaderboardRow): CellValue | undefined => {
+      if (!trialMetrics) {
+        return run.accuracy === null ? undefined : { value: run.accuracy, standardError: run.standard_error };
+      }
+      const jobMetrics = trialMetrics.get(run.job_id);
+      const chosen = jobMetrics && metric !== 'accuracy' ? selectCellMetric(jobMetrics, metric) : undefined;
+      if (!chosen) return undefined;
+      // Same percent scale the view uses for accuracy
+      return {
+        value: chosen.estimate.value * 100,
+        standardError: chosen.estimate.standardError * 100,
+        k: chosen.k,
+        ciLow: chosen.estimate.ciLow * 100,
+        ciHigh: chosen.estimate.ciHigh * 100,
+      };
+    };
+
+    for (const row of selectedRows) {
+      if (!isFinishedRow(row) || (!trialMetrics && !row.aggregateOf)) continue;
+
+      if (row.aggregateOf) {
+        const values = row.aggregateOf.map(cellValue).filter((v): v is CellValue => v !== undefined);
+        if (values.length === 0) {
+          row.metricMissing = true;
+          row.resolvedAccuracy = undefined;
+          continue;
+        }
+        const aggregate = aggregateRuns(values, mode as 'mean' | 'median');
+        row.accuracy = aggregate.value;
+        row.standard_error = aggregate.standardError;
+        row.resolvedAccuracy = aggregate.value;
+        row.runCount = aggregate.runCount;
+        // Only report k when every run used the same one
+        if (values.every(v => v.k === values[0].k)) row.metricK = values[0].k;
+        continue;
+      }
+
+      const single = cellValue(row);
+      if (!single) {
+        row.metricMissing = true;
+        row.resolvedAccuracy = undefined;
+        continue;
+      }
+      row.accuracy = single.value;
+      row.standard_error = single.standardError;
+      row.resolvedAccuracy = single.value;
+      row.metricK = single.k;
+      row.metricCiLow = single.ciLow;
+      row.metricCiHigh = single.ciHigh;
+    }
+
     // --- Pass 2: Build resolved accuracy map ---
-    // Key: canonicalModelName|||canonicalAgentName|||benchmarkName → accuracy
+    // Key: canonicalModelName|||canonicalAgentName|||benchmarkName → accuracy (+ its standard error)
     // Improvement is now scoped to the same (agent, benchmark) pair so a trained
     // model's score is compared against its base model *under the same agent*,
     // not the base model's best score across all agents.
-    const resolvedAccuracy = new Map<string, number>();
+    // Model names are keyed by alias key (server/config/modelAliases.json), so a base model
+    // listed as `Qwen/Qwen3-8B` finds results recorded under `hosted_vllm/Qwen/Qwen3-8B`
+    type ResolvedScore = { accuracy: number; standardError: number | undefined };
+    const resolvedAccuracy = new Map<string, ResolvedScore>();
+    const aliasKey = getModelAliasKey();
 
     for (const row of selectedRows) {
       if (row.resolvedAccuracy === undefined) continue;
 
       const modelNames = new Set<string>();
-      modelNames.add(row.model_name);
-      if (row.canonical_model_name) modelNames.add(row.canonical_model_name);
-      const stripped = row.model_name.replace(/^hosted_vllm\//, '');
-      if (stripped !== row.model_name) modelNames.add(stripped);
+      modelNames.add(aliasKey(row.model_name));
+      if (row.canonical_model_name) modelNames.add(aliasKey(row.canonical_model_name));
 
       const agentNames = new Set<string>();
       agentNames.add(row.agent_name);
@@ -360,8 +1156,8 @@ export class DbStorage implements IStorage {
           bmNames.forEach(bn => {
             const key = `${mn}|||${an}|||${bn}`;
             const existing = resolvedAccuracy.get(key);
-            if (existing === undefined || row.resolvedAccuracy! > existing) {
-              resolvedAccuracy.set(key, row.resolvedAccuracy!);
+            if (existing === undefined || row.resolvedAccuracy! > existing.accuracy) {
+              resolvedAccuracy.set(key, { accuracy: row.resolvedAccuracy!, standardError: row.standard_error ?? undefined });
             }
           });
         });
@@ -369,35 +1165,23 @@ export class DbStorage implements IStorage {
     }
 
     // --- Pass 3: Compute improvement using resolved accuracy map ---
-    const lookupResolved = (baseModelName: string | undefined, agentName: string, benchmarkName: string): number | undefined => {
+    const lookupResolved = (baseModelName: string | undefined, agentName: string, benchmarkName: string): ResolvedScore | undefined => {
       if (!baseModelName || baseModelName === 'None') return undefined;
-
-      const direct = resolvedAccuracy.get(`${baseModelName}|||${agentName}|||${benchmarkName}`);
-      if (direct !== undefined) return direct;
-
-      const strippedName = baseModelName.replace(/^hosted_vllm\//, '');
-      if (strippedName !== baseModelName) {
-        const strippedResult = resolvedAccuracy.get(`${strippedName}|||${agentName}|||${benchmarkName}`);
-        if (strippedResult !== undefined) return strippedResult;
-      }
-
-      const prefixed = `hosted_vllm/${baseModelName}`;
-      const prefixedResult = resolvedAccuracy.get(`${prefixed}|||${agentName}|||${benchmarkName}`);
-      if (prefixedResult !== undefined) return prefixedResult;
-
-      return undefined;
+      return resolvedAccuracy.get(`${aliasKey(baseModelName)}|||${agentName}|||${benchmarkName}`);
     };
 
     const results: BenchmarkResultWithImprovement[] = [];
 
     for (const selected of selectedRows) {
       const agentForLookup = selected.canonical_agent_name ?? selected.agent_name;
-      const baseModelAccuracy = lookupResolved(selected.base_model_name, agentForLookup, selected.benchmark_name);
-      const canonicalBaseModelAccuracy = lookupResolved(
+      const baseModelScore = lookupResolved(selected.base_model_name, agentForLookup, selected.benchmark_name);
+      const canonicalBaseModelScore = lookupResolved(
         selected.canonical_base_model_name ?? selected.base_model_name,
         agentForLookup,
         selected.benchmark_name
       );
+      const baseModelAccuracy = baseModelScore?.accuracy;
+      const canonicalBaseModelAccuracy = canonicalBaseModelScore?.accuracy;
       const canonicalBenchmarkBaseModelAccuracy = baseModelAccuracy;
       const canonicalBothBaseModelAccuracy = canonicalBaseModelAccuracy;
 
@@ -413,40 +1197,9 @@ export class DbStorage implements IStorage {
       const autoSnapshotVal = config?.environment?.kwargs?.auto_snapshot;
       const autoSnapshot = autoSnapshotVal === true || autoSnapshotVal === 'true';
 
-      // Parse stats for guardrail flags (incomplete + high errors)
-      let stats = selected.stats;
-      if (typeof stats === 'string') {
-        try { stats = JSON.parse(stats); } catch { stats = undefined; }
-      }
-
-      const BENIGN_ERRORS = new Set([
-        'AgentTimeoutError', 'ContextLengthExceededError',
-        'SummarizationTimeout', 'SummarizationTimeoutError', 'BadRequestError',
-        'NonZeroAgentExitCodeError', 'VerifierRuntimeError',
-      ]);
-
-      let invalidErrorCount = 0;
-
-      if (stats?.evals) {
-        for (const evalData of Object.values(stats.evals) as any[]) {
-          // Count invalid (non-benign) errors
-          const exceptionStats = evalData.exception_stats ?? {};
-          for (const [errorType, trials] of Object.entries(exceptionStats)) {
-            if (Array.isArray(trials) && !BENIGN_ERRORS.has(errorType)) {
-              invalidErrorCount += trials.length;
-            }
-          }
-        }
-      }
-
-      // Incomplete = stats.n_trials < job.n_trials (not all trials attempted yet)
-      const statsNTrials = (stats?.n_trials as number) ?? undefined;
-      const jobNTrials = selected.n_trials ?? undefined;
-      const completedTrials = statsNTrials;
-      const totalTrials = jobNTrials;
-      const isIncomplete = (statsNTrials !== undefined && jobNTrials !== undefined && statsNTrials < jobNTrials)
-        || (statsNTrials === undefined && jobNTrials !== undefined && jobNTrials > 0);
-      const isHighErrors = invalidErrorCount > 10;
+      const health = healthByJob.get(selected.job_id)!;
+      const { invalidErrorCount, completedTrials, totalTrials } = health.context;
+      const { isIncomplete, isHighErrors, guardrails } = health;
 
       results.push({
         id: selected.id,
@@ -457,6 +1210,7 @@ export class DbStorage implements IStorage {
         standardError: selected.standard_error ?? 0,
         hfTracesLink: selected.hf_traces_link ?? undefined,
         endedAt: formatTimestampField(selected.ended_at),
+        jobCreatedAt: selected.job_created_at ?? undefined,
         modelId: selected.model_id,
         baseModelId: selected.base_model_id,
         baseModelName: selected.base_model_name,
@@ -464,6 +1218,10 @@ export class DbStorage implements IStorage {
         canonicalBenchmarkBaseModelAccuracy,
         canonicalBaseModelAccuracy,
         canonicalBothBaseModelAccuracy,
+        baseModelStandardError: baseModelScore?.standardError,
+        canonicalBenchmarkBaseModelStandardError: baseModelScore?.standardError,
+        canonicalBaseModelStandardError: canonicalBaseModelScore?.standardError,
+        canonicalBothBaseModelStandardError: canonicalBaseModelScore?.standardError,
         agentId: selected.canonical_agent_id ?? selected.agent_id,
         benchmarkId: selected.benchmark_id,
         agentDuplicateOf: selected.agent_duplicate_of ?? null,
@@ -476,6 +1234,7 @@ export class DbStorage implements IStorage {
         canonicalBenchmarkName: selected.canonical_benchmark_name ?? selected.benchmark_name,
         sourceBenchmarkName: selected.source_benchmark_name ?? selected.benchmark_name,
         sourceBenchmarkId: selected.source_benchmark_id ?? selected.benchmark_id,
+        jobId: selected.job_id,
         timeoutMultiplier,
         daytonaOverrideCpus,
         daytonaOverrideMemoryMb,
@@ -489,12 +1248,20 @@ export class DbStorage implements IStorage {
         isOverlong: selected.is_overlong ?? false,
         isIncomplete,
         isHighErrors,
+        guardrails,
         invalidErrorCount: invalidErrorCount > 0 ? invalidErrorCount : undefined,
         completedTrials,
         totalTrials,
         notes: selected.notes ?? undefined,
         poolIndex: selected.poolIndex,
         poolSize: selected.poolSize,
+        metricK: selected.metricK,
+        metricCiLow: selected.metricCiLow,
+        metricCiHigh: selected.metricCiHigh,
+        metricMissing: selected.metricMissing,
+        runCount: selected.runCount,
+        selectionPolicy: selectionPolicy.name,
+        selectionReason: selected.selectionReason,
       });
     }
 
@@ -503,32 +1270,24 @@ export class DbStorage implements IStorage {
 
   async getAllModels(): Promise<ModelInfo[]> {
     // Two separate queries — PostgREST can't resolve models→agents FK
-    // due to unnamed constraint + multiple self-referencing FKs on models table
-    const { data: modelsData, error: modelsError } = await supabase
+    // due to unnamed constraint + multiple self-referencing FKs on models table.
+    // Both are paged: a single select is capped at max-rows and would silently
+    // drop models once the table outgrows it.
+    const modelsData = await fetchAllPages<any>('models', (from, to, withCount) => supabase
       .from('models')
-      .select('id, name, agent_id, base_model_id, duplicate_of, creation_time, training_type, model_size_b');
+      .select('id, name, agent_id, base_model_id, duplicate_of, creation_time, training_type, model_size_b', { count: withCount ? 'exact' : undefined })
+      .order('id', { ascending: true })
+      .range(from, to));
 
-    if (modelsError) {
-      console.error('Error fetching models:', modelsError);
-      throw modelsError;
-    }
-
-    if (!modelsData) {
-      return [];
-    }
-
-    const { data: agentsData, error: agentsError } = await supabase
+    const agentsData = await fetchAllPages<any>('agents', (from, to, withCount) => supabase
       .from('agents')
-      .select('id, name');
-
-    if (agentsError) {
-      console.error('Error fetching agents:', agentsError);
-      throw agentsError;
-    }
+      .select('id, name', { count: withCount ? 'exact' : undefined })
+      .order('id', { ascending: true })
+      .range(from, to));
 
     // Build agent lookup map: agent_id -> agent_name
     const agentMap = new Map<string, string>();
-    for (const agent of (agentsData || [])) {
+    for (const agent of agentsData) {
       agentMap.set(agent.id, agent.name);
     }
 
@@ -575,11 +1334,572 @@ export class DbStorage implements IStorage {
       });
   }
 
+  /**
+   * Full record of one sandbox_jobs row with resolved model/agent/benchmark names
+   * and parsed stats.evals. Returns undefined when the job does not exist.
+   */
+  async getJobDetail(jobId: string): Promise<JobDetail | undefined> {
+    const { data: job, error } = await supabase
+      .from('sandbox_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching job:', error);
+      throw error;
+    }
+    if (!job) return undefined;
+
+    const [modelRes, agentRes, benchmarkRes] = await Promise.all([
+      supabase.from('models').select('name').eq('id', job.model_id).maybeSingle(),
+      supabase.from('agents').select('name').eq('id', job.agent_id).maybeSingle(),
+      supabase.from('benchmarks').select('name').eq('id', job.benchmark_id).maybeSingle(),
+    ]);
+    for (const res of [modelRes, agentRes, benchmarkRes]) {
+      if (res.error) {
+        console.error('Error resolving job references:', res.error);
+        throw res.error;
+      }
+    }
+
+    const stats = parseJsonb(job.stats);
+    const evals: JobEvalStats[] = stats?.evals && typeof stats.evals === 'object'
+      ? Object.entries(stats.evals).map(([name, evalData]: [string, any]) => ({
+          name,
+          nTrials: evalData?.n_trials ?? null,
+          nErrors: evalData?.n_errors ?? null,
+          rewardStats: toStatsBuckets(evalData?.reward_stats?.reward),
+          exceptionStats: toStatsBuckets(evalData?.exception_stats),
+        }))
+      : [];
+
+    return {
+      jobId: job.id,
+      jobName: job.job_name,
+      jobStatus: job.job_status ?? null,
+      modelId: job.model_id,
+      modelName: modelRes.data?.name ?? null,
+      agentId: job.agent_id,
+      agentName: agentRes.data?.name ?? null,
+      benchmarkId: job.benchmark_id,
+      benchmarkName: benchmarkRes.data?.name ?? null,
+      username: job.username ?? null,
+      slurmJobId: job.slurm_job_id ?? null,
+      gitCommitId: job.git_commit_id ?? null,
+      packageVersion: job.package_version ?? null,
+      hfTracesLink: job.hf_traces_link ?? null,
+      notes: job.notes ?? null,
+      isOverlong: job.is_overlong ?? false,
+      createdAt: job.created_at,
+      startedAt: job.started_at ?? null,
+      endedAt: job.ended_at ?? null,
+      nTrials: job.n_trials ?? null,
+      nRepEval: job.n_rep_eval ?? null,
+      completedTrials: stats?.n_trials ?? null,
+      config: parseJsonb(job.config) ?? null,
+      metrics: parseJsonb(job.metrics) ?? null,
+      evals,
+    };
+  }
+
+  /**
+   * All trials of one job joined with their task metadata, plus outcome counts.
+   * Returns undefined when the job does not exist.
+   */
+  async getJobTrials(jobId: string): Promise<JobTrials | undefined> {
+    const { data: job, error: jobError } = await supabase
+      .from('sandbox_jobs')
+      .select('id, n_trials, job_status')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (jobError) {
+      console.error('Error fetching job:', jobError);
+      throw jobError;
+    }
+    if (!job) return undefined;
+
+    const trialRows = await fetchAllPages<any>('sandbox_trials', (from, to, withCount) => supabase
+      .from('sandbox_trials')
+      .select(
+        'id, trial_name, trial_uri, task_checksum, reward, started_at, ended_at, ' +
+        'environment_setup_started_at, environment_setup_ended_at, agent_setup_started_at, agent_setup_ended_at, ' +
+        'agent_execution_started_at, agent_execution_ended_at, verifier_started_at, verifier_ended_at, exception_info',
+        { count: withCount ? 'exact' : undefined }
+      )
+      .eq('job_id', jobId)
+      .order('trial_name', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to));
+
+    // Separate query for tasks (same approach as getAllModels) — keeps the trial
+    // query independent of how PostgREST resolves the task_checksum FK.
+    const taskMap = new Map<string, { name: string; instruction: string; source: string | null }>();
+    const checksums = Array.from(new Set(trialRows.map(t => t.task_checksum as string)));
+    for (const batch of chunk(checksums, IN_FILTER_CHUNK_SIZE)) {
+      const { data: tasks, error: tasksError } = await supabase
+        .from('sandbox_tasks')
+        .select('checksum, name, instruction, source')
+        .in('checksum', batch);
+
+      if (tasksError) {
+        console.error('Error fetching tasks:', tasksError);
+        throw tasksError;
+      }
+      for (const task of (tasks || [])) {
+        taskMap.set(task.checksum, { name: task.name, instruction: task.instruction, source: task.source ?? null });
+      }
+    }
+
+    const summary = { nTrials: job.n_trials ?? null, recorded: trialRows.length, solved: 0, failed: 0, errored: 0, pending: 0 };
+    const trials: TrialDetail[] = trialRows.map(row => {
+      // numeric columns come back from PostgREST as strings
+      const reward = row.reward === null || row.reward === undefined ? null : Number(row.reward);
+      const outcome = classifyTrial(reward, row.exception_info);
+      summary[outcome] += 1;
+      const task = taskMap.get(row.task_checksum);
+      return {
+        id: row.id,
+        trialName: row.trial_name,
+        trialUri: row.trial_uri,
+        taskChecksum: row.task_checksum,
+        taskName: task?.name ?? null,
+        taskInstruction: task?.instruction ?? null,
+        taskSource: task?.source ?? null,
+        reward,
+        outcome,
+        startedAt: row.started_at ?? null,
+        endedAt: row.ended_at ?? null,
+        environmentSetupStartedAt: row.environment_setup_started_at ?? null,
+        environmentSetupEndedAt: row.environment_setup_ended_at ?? null,
+        agentSetupStartedAt: row.agent_setup_started_at ?? null,
+        agentSetupEndedAt: row.agent_setup_ended_at ?? null,
+        agentExecutionStartedAt: row.agent_execution_started_at ?? null,
+        agentExecutionEndedAt: row.agent_execution_ended_at ?? null,
+        verifierStartedAt: row.verifier_started_at ?? null,
+        verifierEndedAt: row.verifier_ended_at ?? null,
+        exceptionInfo: row.exception_info ?? null,
+      };
+    });
+
+    return { jobId: job.id, jobStatus: job.job_status ?? null, summary, trials };
+  }
+
+  /**
+   * Candidate jobs to compare against: other runs of the same (model, agent, benchmark)
+   * and runs of the model's base model under the same agent and benchmark.
+   * Returns undefined when the job does not exist.
+   */
+  async getRelatedJobs(jobId: string): Promise<RelatedJobs | undefined> {
+    const { data: job, error } = await supabase
+      .from('sandbox_jobs')
+      .select('id, model_id, agent_id, benchmark_id')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching job:', error);
+      throw error;
+    }
+    if (!job) return undefined;
+
+    const { data: model, error: modelError } = await supabase
+      .from('models')
+      .select('id, name, base_model_id')
+      .eq('id', job.model_id)
+      .maybeSingle();
+
+    if (modelError) {
+      console.error('Error fetching model:', modelError);
+      throw modelError;
+    }
+
+    const modelIds = [job.model_id, model?.base_model_id].filter((id): id is string => !!id);
+    const { data: jobs, error: jobsError } = await supabase
+      .from('sandbox_jobs')
+      .select('id, job_name, job_status, model_id, created_at, ended_at, metrics')
+      .eq('agent_id', job.agent_id)
+      .eq('benchmark_id', job.benchmark_id)
+      .in('model_id', modelIds)
+      .order('created_at', { ascending: false });
+
+    if (jobsError) {
+      console.error('Error fetching related jobs:', jobsError);
+      throw jobsError;
+    }
+
+    let baseModelName: string | null = null;
+    if (model?.base_model_id) {
+      const { data: baseModel, error: baseModelError } = await supabase.from('models').select('name').eq('id', model.base_model_id).maybeSingle();
+      if (baseModelError) {
+        console.error('Error fetching base model:', baseModelError);
+        throw baseModelError;
+      }
+      baseModelName = baseModel?.name ?? null;
+    }
+
+    const toRelated = (row: any): RelatedJob => ({
+      jobId: row.id,
+      jobName: row.job_name,
+      jobStatus: row.job_status ?? null,
+      modelId: row.model_id,
+      modelName: row.model_id === job.model_id ? (model?.name ?? null) : baseModelName,
+      createdAt: row.created_at,
+      endedAt: row.ended_at ?? null,
+      accuracy: accuracyFromMetrics(row.metrics),
+    });
+
+    return {
+      siblings: (jobs || []).filter(row => row.model_id === job.model_id && row.id !== job.id).map(toRelated),
+      baseModel: (jobs || []).filter(row => row.model_id !== job.model_id).map(toRelated),
+    };
+  }
+
+  /** Finished-trial rewards grouped by job, for the trial-derived metrics. */
+  private async fetchTrialRewards(jobIds: string[]): Promise<Map<string, TrialReward[]>> {
+    const byJob = new Map<string, TrialReward[]>();
+    for (const batch of chunk(jobIds, IN_FILTER_CHUNK_SIZE)) {
+      const rows = await fetchAllPages<any>('sandbox_trials', (from, to, withCount) => supabase
+        .from('sandbox_trials')
+        .select('id, job_id, task_checksum, reward', { count: withCount ? 'exact' : undefined })
+        .in('job_id', batch)
+        .order('id', { ascending: true })
+        .range(from, to));
+
+      for (const row of rows) {
+        let trials = byJob.get(row.job_id);
+        if (!trials) {
+          trials = [];
+          byJob.set(row.job_id, trials);
+        }
+        trials.push({
+          taskChecksum: row.task_checksum,
+          // numeric columns come back from PostgREST as strings
+          reward: row.reward === null || row.reward === undefined ? null : Number(row.reward),
+        });
+      }
+    }
+    return byJob;
+  }
+
+  /**
+   * Trial metrics for the leaderboard cells. Callers pass Finished jobs only;
+   * those are served from (and added to) the process-lifetime cache.
+   */
+  private async getLeaderboardTrialMetrics(jobIds: string[]): Promise<Map<string, JobTrialMetrics>> {
+    const uniqueIds = Array.from(new Set(jobIds));
+    const missing = uniqueIds.filter(id => !this.finishedTrialMetrics.has(id));
+    if (missing.length > 0) {
+      const rewards = await this.fetchTrialRewards(missing);
+      for (const jobId of missing) {
+        this.finishedTrialMetrics.set(jobId, computeJobTrialMetrics(jobId, rewards.get(jobId) ?? []));
+      }
+    }
+
+    const result = new Map<string, JobTrialMetrics>();
+    for (const jobId of uniqueIds) {
+      result.set(jobId, this.finishedTrialMetrics.get(jobId)!);
+    }
+    return result;
+  }
+
+  /**
+   * pass@1..kMax (all k) and mean reward with bootstrap CIs, straight from sandbox_trials.
+   * Not cached: the job page should reflect trials of running jobs as they land.
+   * Returns undefined when the job does not exist.
+   */
+  async getJobTrialMetrics(jobId: string): Promise<JobTrialMetrics | undefined> {
+    const { data: job, error } = await supabase
+      .from('sandbox_jobs')
+      .select('id')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching job:', error);
+      throw error;
+    }
+    if (!job) return undefined;
+
+    const rewards = await this.fetchTrialRewards([jobId]);
+    return computeJobTrialMetrics(jobId, rewards.get(jobId) ?? [], true);
+  }
+
+  /** id -> name for the given rows of a models/agents/benchmarks table. */
+  private async fetchNamesById(table: 'models' | 'agents' | 'benchmarks', ids: string[]): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+    for (const batch of chunk(Array.from(new Set(ids)), IN_FILTER_CHUNK_SIZE)) {
+      const { data, error } = await supabase.from(table).select('id, name').in('id', batch);
+      if (error) {
+        console.error(`Error resolving ${table} names:`, error);
+        throw error;
+      }
+      for (const row of data || []) names.set(row.id, row.name);
+    }
+    return names;
+  }
+
+  private async fetchJobNames(jobs: any[]) {
+    const [models, agents, benchmarks] = await Promise.all([
+      this.fetchNamesById('models', jobs.map(job => job.model_id)),
+      this.fetchNamesById('agents', jobs.map(job => job.agent_id)),
+      this.fetchNamesById('benchmarks', jobs.map(job => job.benchmark_id)),
+    ]);
+    return { models, agents, benchmarks };
+  }
+
+  /** Ids of the agents/benchmarks named `name`, plus rows marked as duplicates of them. */
+  private async resolveIdsByName(table: 'agents' | 'benchmarks', name: string): Promise<string[]> {
+    const { data: matches, error } = await supabase.from(table).select('id').eq('name', name);
+    if (error) {
+      console.error(`Error resolving ${table} by name:`, error);
+      throw error;
+    }
+    const ids = (matches || []).map(row => row.id as string);
+    if (ids.length === 0) return ids;
+
+    const { data: duplicates, error: duplicatesError } = await supabase.from(table).select('id').in('duplicate_of', ids);
+    if (duplicatesError) {
+      console.error(`Error resolving ${table} duplicates:`, duplicatesError);
+      throw duplicatesError;
+    }
+    return ids.concat((duplicates || []).map(row => row.id as string));
+  }
+
+  /**
+   * Exception types raised by one job, classified against the guardrail config's benign list.
+   * Returns undefined when the job does not exist.
+   */
+  async getJobErrors(jobId: string): Promise<JobErrors | undefined> {
+    const { data: job, error } = await supabase
+      .from('sandbox_jobs')
+      .select(JOB_ERRORS_COLUMNS)
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching job:', error);
+      throw error;
+    }
+    if (!job) return undefined;
+
+    const names = await this.fetchJobNames([job]);
+    return toJobErrors(job, names, getGuardrailConfig().benignErrors);
+  }
+
+  /**
+   * Exception breakdown across every job matching the filters. `benchmark` and `agent`
+   * are names (duplicates included); `since` is an ISO timestamp compared to created_at.
+   */
+  async getErrorBreakdown(filters: ErrorBreakdownFilters): Promise<ErrorBreakdown> {
+    const benchmarkIds = filters.benchmark ? await this.resolveIdsByName('benchmarks', filters.benchmark) : undefined;
+    const agentIds = filters.agent ? await this.resolveIdsByName('agents', filters.agent) : undefined;
+    if (benchmarkIds?.length === 0 || agentIds?.length === 0) {
+      return aggregateErrors([], filters);
+    }
+
+    const jobs = await fetchAllPages<any>('sandbox_jobs', (from, to, withCount) => {
+      let query = supabase
+        .from('sandbox_jobs')
+        .select(JOB_ERRORS_COLUMNS, { count: withCount ? 'exact' : undefined });
+      if (benchmarkIds) query = query.in('benchmark_id', benchmarkIds);
+      if (agentIds) query = query.in('agent_id', agentIds);
+      if (filters.since) query = query.gte('created_at', filters.since);
+      return query.order('id', { ascending: true }).range(from, to);
+    });
+
+    const names = await this.fetchJobNames(jobs);
+    const benignErrors = getGuardrailConfig().benignErrors;
+    return aggregateErrors(jobs.map(job => toJobErrors(job, names, benignErrors)), filters);
+  }
+
+  /** Jobs submitted, started or ended in (since, until]; bounds are ISO timestamps. */
+  async getJobActivity(since: string, until: string): Promise<JobActivity[]> {
+    const after = new Date(since).toISOString();
+    const jobs = await fetchAllPages<any>('sandbox_jobs', (from, to, withCount) => supabase
+      .from('sandbox_jobs')
+      .select(JOB_ACTIVITY_COLUMNS, { count: withCount ? 'exact' : undefined })
+      .or(`created_at.gt."${after}",started_at.gt."${after}",ended_at.gt."${after}"`)
+      .lte('created_at', until)
+      .order('id', { ascending: true })
+      .range(from, to));
+    return this.toJobActivity(jobs);
+  }
+
+  /** Current state of the given jobs, whatever their timestamps; unknown ids are skipped. */
+  async getJobActivityByIds(jobIds: string[]): Promise<JobActivity[]> {
+    const jobs: any[] = [];
+    for (const batch of chunk(Array.from(new Set(jobIds)), IN_FILTER_CHUNK_SIZE)) {
+      jobs.push(...await fetchAllPages<any>('sandbox_jobs', (from, to, withCount) => supabase
+        .from('sandbox_jobs')
+        .select(JOB_ACTIVITY_COLUMNS, { count: withCount ? 'exact' : undefined })
+        .in('id', batch)
+        .order('id', { ascending: true })
+        .range(from, to)));
+    }
+    return this.toJobActivity(jobs);
+  }
+
+  private async toJobActivity(jobs: any[]): Promise<JobActivity[]> {
+    const names = await this.fetchJobNames(jobs);
+    return jobs.map(job => ({
+      jobId: job.id,
+      jobStatus: job.job_status ?? null,
+      modelName: names.models.get(job.model_id) ?? job.model_id,
+      agentName: names.agents.get(job.agent_id) ?? job.agent_id,
+      benchmarkName: names.benchmarks.get(job.benchmark_id) ?? job.benchmark_id,
+      accuracy: accuracyFromMetrics(job.metrics),
+      createdAt: job.created_at ?? null,
+      startedAt: job.started_at ?? null,
+      endedAt: job.ended_at ?? null,
+    }));
+  }
+
+  /** Every Pending/Started job, with finished-trial counts and the latest trial end time. */
+  async getInFlightJobs(): Promise<InFlightJobRecord[]> {
+    const jobs = await fetchAllPages<any>('sandbox_jobs', (from, to, withCount) => supabase
+      .from('sandbox_jobs')
+      .select('id, job_name, job_status, model_id, agent_id, benchmark_id, created_at, started_at, n_trials, stats, username, slurm_job_id', { count: withCount ? 'exact' : undefined })
+      .in('job_status', ['Pending', 'Started'])
+      .order('id', { ascending: true })
+      .range(from, to));
+
+    const progress = new Map<string, { count: number; lastEndedAt: string | null }>();
+    for (const batch of chunk(jobs.map(job => job.id as string), IN_FILTER_CHUNK_SIZE)) {
+      const trials = await fetchAllPages<any>('sandbox_trials', (from, to, withCount) => supabase
+        .from('sandbox_trials')
+        .select('id, job_id, ended_at', { count: withCount ? 'exact' : undefined })
+        .in('job_id', batch)
+        .not('ended_at', 'is', null)
+        .order('id', { ascending: true })
+        .range(from, to));
+      for (const trial of trials) {
+        const entry = progress.get(trial.job_id) ?? { count: 0, lastEndedAt: null };
+        entry.count++;
+        if (!entry.lastEndedAt || new Date(trial.ended_at) > new Date(entry.lastEndedAt)) entry.lastEndedAt = trial.ended_at;
+        progress.set(trial.job_id, entry);
+      }
+    }
+
+    const names = await this.fetchJobNames(jobs);
+    return jobs.map(job => {
+      const trials = progress.get(job.id);
+      const stats = parseJsonb(job.stats);
+      return {
+        jobId: job.id,
+        jobName: job.job_name ?? null,
+        jobStatus: job.job_status,
+        modelName: names.models.get(job.model_id) ?? job.model_id,
+        agentName: names.agents.get(job.agent_id) ?? job.agent_id,
+        benchmarkName: names.benchmarks.get(job.benchmark_id) ?? job.benchmark_id,
+        username: job.username ?? null,
+        slurmJobId: job.slurm_job_id ?? null,
+        createdAt: job.created_at ?? null,
+        startedAt: job.started_at ?? null,
+        totalTrials: job.n_trials ?? null,
+        completedTrials: trials?.count ?? Number(stats?.n_trials ?? 0),
+        lastTrialEndedAt: trials?.lastEndedAt ?? null,
+      };
+    });
+  }
+
   async getBenchmarkResult(id: string): Promise<BenchmarkResult | undefined> {
     // Legacy method - not used by leaderboard
     throw new Error('getBenchmarkResult is not implemented for Supabase view-based leaderboard');
   }
 
+  /** sandbox_jobs.notes; undefined when the job does not exist. */
+  async getJobNotes(jobId: string): Promise<string | null | undefined> {
+    const { data, error } = await supabase
+      .from('sandbox_jobs')
+      .select('notes')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching job notes:', error);
+      throw error;
+    }
+    return data ? (data.notes as string | null) : undefined;
+  }
+
+  /** Overwrite sandbox_jobs.notes (null clears it). Returns the stored value, or undefined when the job does not exist. */
+  async setJobNotes(jobId: string, notes: string | null): Promise<string | null | undefined> {
+    const { data, error } = await supabase
+      .from('sandbox_jobs')
+      .update({ notes })
+      .eq('id', jobId)
+      .select('notes')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating job notes:', error);
+      throw error;
+    }
+    return data ? (data.notes as string | null) : undefined;
+  }
+
+  private async fetchDuplicateRecords(entityType: DuplicateEntityType): Promise<DuplicateRecord[]> {
+    const table = DUPLICATE_TABLES[entityType];
+    const columns = entityType === 'model' ? 'id, name, duplicate_of, base_model_id' : 'id, name, duplicate_of';
+    const rows = await fetchAllPages<any>(table, (from, to, withCount) => supabase
+      .from(table)
+      .select(columns, { count: withCount ? 'exact' : undefined })
+      .order('id', { ascending: true })
+      .range(from, to));
+    return rows.map(row => ({
+      id: row.id,
+      name: row.name,
+      duplicateOf: row.duplicate_of ?? null,
+      baseModelId: row.base_model_id ?? null,
+    }));
+  }
+
+  /** Every model/agent/benchmark with its duplicate_of, for link validation and the duplicates page. */
+  async getDuplicateNodes(entityType: DuplicateEntityType): Promise<DuplicateNode[]> {
+    const records = await this.fetchDuplicateRecords(entityType);
+    return records.map(({ id, name, duplicateOf }) => ({ id, name, duplicateOf }));
+  }
+
+  async setDuplicateOf(entityType: DuplicateEntityType, ids: string[], canonicalId: string | null): Promise<void> {
+    const table = DUPLICATE_TABLES[entityType];
+    for (const batch of chunk(ids, IN_FILTER_CHUNK_SIZE)) {
+      const { error } = await supabase.from(table).update({ duplicate_of: canonicalId }).in('id', batch);
+      if (error) {
+        console.error(`Error updating ${table}.duplicate_of:`, error);
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Leaderboard results now, and as they would be with `ids` pointing at
+   * `canonicalId` (null: unlinked). Nothing is written.
+   */
+  async simulateDuplicateLink(
+    entityType: DuplicateEntityType,
+    ids: string[],
+    canonicalId: string | null,
+    mode: Exclude<EvalSelectionMode, 'all'>
+  ): Promise<SimulatedDuplicateLink> {
+    const [rows, records] = await Promise.all([this.fetchAllRawRows(), this.fetchDuplicateRecords(entityType)]);
+    const relinked = new Set(ids);
+    const overridden = new Map(records.map(r => [r.id, relinked.has(r.id) ? { ...r, duplicateOf: canonicalId } : r]));
+    const policy: NamedSelectionPolicy = { name: DEFAULT_SELECTION_POLICY_NAME, policy: SELECTION_POLICY_PRESETS[DEFAULT_SELECTION_POLICY_NAME].policy };
+    const relinkedRows = relinkRawRows(rows, entityType, relinked, overridden);
+    const poolOf = (row: RawLeaderboardRow) => `${row.canonical_agent_name ?? row.agent_name} · ${row.model_name} · ${row.benchmark_name}`;
+    const tableRowOf = (row: RawLeaderboardRow) => `${row.canonical_model_name ?? row.model_name} · ${row.canonical_agent_name ?? row.agent_name}`;
+    return {
+      before: await this.computeResultsWithImprovement(rows, mode, 'accuracy', policy),
+      after: await this.computeResultsWithImprovement(relinkedRows, mode, 'accuracy', policy),
+      runs: rows.map((row, i) => ({
+        pool: [poolOf(row), poolOf(relinkedRows[i])],
+        tableRow: [tableRowOf(row), tableRowOf(relinkedRows[i])],
+      })),
+    };
+  }
+
   async createBenchmarkResult(result: InsertBenchmarkResult): Promise<BenchmarkResult> {
     // Legacy method - not used by leaderboard
     throw new Error('createBenchmarkResult is not implemented for Supabase view-based leaderboard');
@@ -0,0 +1,94 @@
+import { z } from "zod";
+import { JsonFileStore } from "./jsonStore";
+import { tabDefinitionSchema, type TabDefinition } from "@shared/tabs";
+
+/**
+ * Tab registry (server/data/tabs.json, array order is tab-bar order) and the
+ * model tags the `tag` predicate reads (server/data/modelTags.json). Both start
+ * from the tracked seeds of the same name in server/seed/.
+ */
+
+const tabFileSchema = z.object({
+  tabs: z.array(tabDefinitionSchema),
+}).refine(file => new Set(file.tabs.map(t => t.id)).size === file.tabs.length, {
+  message: "tab ids must be unique",
+});
+
+const tabStore = new JsonFileStore("tabs.json", tabFileSchema, () => ({ tabs: [] }), "tabs.json");
+
+export function listTabs(): TabDefinition[] {
+  return tabStore.read().tabs;
+}
+
+export function getTab(id: string): TabDefinition | undefined {
+  return listTabs().find(t => t.id === id);
+}
+
+/** Insert a tab before `beforeId` (or at the end). Caller checks the id is free. */
+export function createTab(tab: TabDefinition, beforeId?: string): TabDefinition {
+  tabStore.update(file => {
+    const index = beforeId ? file.tabs.findIndex(t => t.id === beforeId) : -1;
+    const tabs = [...file.tabs];
+    tabs.splice(index === -1 ? tabs.length : index, 0, tab);
+    return { tabs };
+  });
+  return tab;
+}
+
+/** Replace a tab in place. Returns undefined if it does not exist. */
+export function updateTab(id: string, tab: TabDefinition): TabDefinition | undefined {
+  if (!getTab(id)) return undefined;
+  tabStore.update(file => ({ tabs: file.tabs.map(t => (t.id === id ? tab : t)) }));
+  return tab;
+}
+
+export function deleteTab(id: string): boolean {
+  if (!getTab(id)) return false;
+  tabStore.update(file => ({ tabs: file.tabs.filter(t => t.id !== id) }));
+  return true;
+}
+
+/** Audit revert: like restoreCohort, for tabs. A re-created tab goes to the end of the bar. */
+export function restoreTab(id: string, tab: TabDefinition | null): void {
+  tabStore.update(file => {
+    if (tab === null) return { tabs: file.tabs.filter(t => t.id !== id) };
+    const exists = file.tabs.some(t => t.id === id);
+    return { tabs: exists ? file.tabs.map(t => (t.id === id ? tab : t)) : [...file.tabs, tab] };
+  });
+}
+
+/** Reorder to `ids`; tabs missing from the list keep their relative order at the end. */
+export function reorderTabs(ids: string[]): TabDefinition[] {
+  return tabStore.update(file => {
+    const rank = new Map(ids.map((id, i) => [id, i]));
+    const tabs = file.tabs
+      .map((tab, i) => ({ tab, key: rank.get(tab.id) ?? ids.length + i }))
+      .sort((a, b) => a.key - b.key)
+      .map(({ tab }) => tab);
+    return { tabs };
+  }).tabs;
+}
+
+const modelTagFileSchema = z.object({
+  tags: z.record(z.array(z.string().min(1))),
+});
+
+const modelTagStore = new JsonFileStore("modelTags.json", modelTagFileSchema, () => ({ tags: {} }), "modelTags.json");
+
+export function listModelTags(): Record<string, string[]> {
+  return modelTagStore.read().tags;
+}
+
+export function setModelTag(tag: string, models: string[]): string[] {
+  const unique = Array.from(new Set(models));
+  modelTagStore.update(file => ({ tags: { ...file.tags, [tag]: unique } }));
+  return unique;
+}
+
+export function deleteModelTag(tag: string): boolean {
+  if (!(tag in listModelTags())) return false;
+  modelTagStore.update(file => ({
+    tags: Object.fromEntries(Object.entries(file.tags).filter(([name]) => name !== tag)),
+  }));
+  return true;
+}
@@ -0,0 +1,151 @@
+import type { JobTrials, TrialDetail } from "./storage";
+import { mcnemarTest, type McNemarResult } from "./stats";
+
+// A task counts as solved for a job when at least this share of its finished
+// trials (repeats under n_rep_eval) were solved.
+const TASK_SOLVED_THRESHOLD = 0.5;
+
+// p-value below which the McNemar test is reported as significant
+const SIGNIFICANCE_LEVEL = 0.05;
+
+export type TaskChange =
+  | 'solved_to_unsolved'
+  | 'unsolved_to_solved'
+  | 'both_solved'
+  | 'both_unsolved'
+  | 'only_a'
+  | 'only_b';
+
+export interface TaskSide {
+  trials: number;     // finished trials (pending ones are ignored)
+  solvedTrials: number;
+  passRate: number;
+  solved: boolean;
+  errored: number;
+}
+
+export interface TaskDiffEntry {
+  taskChecksum: string;
+  taskName: string | null;
+  a: TaskSide | null;
+  b: TaskSide | null;
+  change: TaskChange;
+}
+
+export interface TaskDiff {
+  jobA: string;
+  jobB: string;
+  counts: {
+    shared: number;
+    onlyA: number;
+    onlyB: number;
+    bothSolved: number;
+    bothUnsolved: number;
+    solvedToUnsolved: number;
+    unsolvedToSolved: number;
+  };
+  // Solved-task share over the shared tasks only, so the delta is apples to apples
+  sharedSolvedRateA: number | null;
+  sharedSolvedRateB: number | null;
+  mcnemar: McNemarResult & { significant: boolean; alpha: number };
+  tasks: TaskDiffEntry[];
+}
+
+function summarizeByTask(trials: TrialDetail[]): Map<string, { name: string | null; side: TaskSide }> {
+  const byTask = new Map<string, { name: string | null; side: TaskSide }>();
+  for (const trial of trials) {
+    if (trial.outcome === 'pending') continue;
+    let entry = byTask.get(trial.taskChecksum);
+    if (!entry) {
+      entry = { name: trial.taskName, side: { trials: 0, solvedTrials: 0, passRate: 0, solved: false, errored: 0 } };
+      byTask.set(trial.taskChecksum, entry);
+    }
+    entry.side.trials += 1;
+    if (trial.outcome === 'solved') entry.side.solvedTrials += 1;
+    if (trial.outcome === 'errored') entry.side.errored += 1;
+  }
+  byTask.forEach(({ side }) => {
+    side.passRate = side.solvedTrials / side.trials;
+    side.solved = side.passRate >= TASK_SOLVED_THRESHOLD;
+  });
+  return byTask;
+}
+
+const CHANGE_ORDER: Record<TaskChange, number> = {
+  solved_to_unsolved: 0,
+  unsolved_to_solved: 1,
+  only_a: 2,
+  only_b: 3,
+  both_unsolved: 4,
+  both_solved: 5,
+};
+
+/**
+ * Align two jobs' trials by task_checksum and report which tasks flipped.
+ * Tasks are paired only when both jobs have at least one finished trial for them;
+ * the McNemar test runs over those paired tasks.
+ */
+export function diffJobTrials(a: JobTrials, b: JobTrials): TaskDiff {
+  const tasksA = summarizeByTask(a.trials);
+  const tasksB = summarizeByTask(b.trials);
+
+  const counts = { shared: 0, onlyA: 0, onlyB: 0, bothSolved: 0, bothUnsolved: 0, solvedToUnsolved: 0, unsolvedToSolved: 0 };
+  let sharedSolvedA = 0;
+  let sharedSolvedB = 0;
+  const tasks: TaskDiffEntry[] = [];
+
+  const checksums = new Set<string>([...Array.from(tasksA.keys()), ...Array.from(tasksB.keys())]);
+  checksums.forEach(checksum => {
+    const entryA = tasksA.get(checksum);
+    const entryB = tasksB.get(checksum);
+    let change: TaskChange;
+    if (entryA && entryB) {
+      counts.shared += 1;
+      if (entryA.side.solved) sharedSolvedA += 1;
+      if (entryB.side.solved) sharedSolvedB += 1;
+      if (entryA.side.solved && entryB.side.solved) {
+        change = 'both_solved';
+        counts.bothSolved += 1;
+      } else if (entryA.side.solved) {
+        change = 'solved_to_unsolved';
+        counts.solvedToUnsolved += 1;
+      } else if (entryB.side.solved) {
+        change = 'unsolved_to_solved';
+        counts.unsolvedToSolved += 1;
+      } else {
+        change = 'both_unsolved';
+        counts.bothUnsolved += 1;
+      }
+    } else if (entryA) {
+      change = 'only_a';
+      counts.onlyA += 1;
+    } else {
+      change = 'only_b';
+      counts.onlyB += 1;
+    }
+    tasks.push({
+      taskChecksum: checksum,
+      taskName: entryA?.name ?? entryB?.name ?? null,
+      a: entryA?.side ?? null,
+      b: entryB?.side ?? null,
+      change,
+    });
+  });
+
+  tasks.sort((x, y) =>
+    CHANGE_ORDER[x.change] - CHANGE_ORDER[y.change]
+    || (x.taskName ?? x.taskChecksum).localeCompare(y.taskName ?? y.taskChecksum)
+  );
+
+  const test = mcnemarTest(counts.solvedToUnsolved, counts.unsolvedToSolved);
+
+  return {
+    jobA: a.jobId,
+    jobB: b.jobId,
+    counts,
+    sharedSolvedRateA: counts.shared > 0 ? sharedSolvedA / counts.shared : null,
+    sharedSolvedRateB: counts.shared > 0 ? sharedSolvedB / counts.shared : null,
+    mcnemar: { ...test, significant: test.pValue < SIGNIFICANCE_LEVEL, alpha: SIGNIFICANCE_LEVEL },
+    tasks,
+  };
+}
@@ -0,0 +1,170 @@
+/**
+ * Job-level metrics recomputed from raw sandbox_trials rewards, instead of the
+ * accuracy/accuracy_stderr values pre-baked into sandbox_jobs.metrics.
+ *
+ * Every metric here is a mean over tasks of a per-task value, so one task-level
+ * bootstrap (resampling tasks, keeping each task's repeats together) gives the
+ * standard error and percentile CI for all of them.
+ */
+
+export type CellMetric = 'accuracy' | 'pass@1' | 'pass@k' | 'meanReward';
+
+export const CELL_METRICS: CellMetric[] = ['accuracy', 'pass@1', 'pass@k', 'meanReward'];
+
+// A trial counts as a pass when its reward is positive (same rule as classifyTrial)
+const PASS_REWARD_THRESHOLD = 0;
+
+const BOOTSTRAP_ITERATIONS = 1000;
+const BOOTSTRAP_CONFIDENCE = 0.95;
+
+export interface TrialReward {
+  taskChecksum: string;
+  reward: number | null;  // null = trial not finished yet, ignored
+}
+
+export interface MetricEstimate {
+  value: number;          // fraction (pass@k) or raw reward units (meanReward)
+  standardError: number;  // bootstrap SE
+  ciLow: number;
+  ciHigh: number;
+}
+
+export interface JobTrialMetrics {
+  jobId: string;
+  nTasks: number;          // tasks with at least one finished trial
+  nTrials: number;         // finished trials
+  binaryRewards: boolean;  // every reward is 0 or 1
+  // Largest k with an unbiased pass@k estimate for every task (min finished repeats per task)
+  kMax: number;
+  meanReward: MetricEstimate | null;
+  passAtK: Array<{ k: number; estimate: MetricEstimate }>;
+}
+
+/** Unbiased pass@k for one task with n samples of which c passed (Chen et al., 2021). */
+export function passAtK(n: number, c: number, k: number): number {
+  if (n - c < k) return 1;
+  // 1 - C(n-c, k) / C(n, k), as a running product to avoid huge binomials
+  let failAll = 1;
+  for (let i = n - c + 1; i <= n; i++) {
+    failAll *= 1 - k / i;
+  }
+  return 1 - failAll;
+}
+
+// Small deterministic PRNG (mulberry32) so the same trials always give the same CI
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+}
+
+/** Mean of per-task values with a percentile bootstrap CI over tasks. */
+export function bootstrapMean(values: number[], seed: number, iterations: number = BOOTSTRAP_ITERATIONS): MetricEstimate {
+  const n = values.length;
+  const value = values.reduce((sum, v) => sum + v, 0) / n;
+  if (n < 2) {
+    return { value, standardError: 0, ciLow: value, ciHigh: value };
+  }
+
+  const random = seededRandom(seed);
+  const means = new Float64Array(iterations);
+  for (let b = 0; b < iterations; b++) {
+    let sum = 0;
+    for (let i = 0; i < n; i++) {
+      sum += values[Math.floor(random() * n)];
+    }
+    means[b] = sum / n;
+  }
+  means.sort();
+
+  let sq = 0;
+  let meanOfMeans = 0;
+  for (let b = 0; b < iterations; b++) meanOfMeans += means[b];
+  meanOfMeans /= iterations;
+  for (let b = 0; b < iterations; b++) sq += (means[b] - meanOfMeans) ** 2;
+
+  const tail = (1 - BOOTSTRAP_CONFIDENCE) / 2;
+  return {
+    value,
+    standardError: Math.sqrt(sq / (iterations - 1)),
+    ciLow: means[Math.floor(tail * (iterations - 1))],
+    ciHigh: means[Math.ceil((1 - tail) * (iterations - 1))],
+  };
+}
+
+/**
+ * Compute pass@1..kMax and mean reward for one job. Bootstrap CIs are computed
+ * for pass@1, pass@kMax and mean reward; intermediate k only when `allK` is set
+ * (the leaderboard path skips them, the job page asks for all).
+ */
+export function computeJobTrialMetrics(jobId: string, trials: TrialReward[], allK: boolean = false): JobTrialMetrics {
+  const byTask = new Map<string, { n: number; passed: number; rewardSum: number }>();
+  let nTrials = 0;
+  let binaryRewards = true;
+  for (const trial of trials) {
+    if (trial.reward === null || Number.isNaN(trial.reward)) continue;
+    nTrials += 1;
+    if (trial.reward !== 0 && trial.reward !== 1) binaryRewards = false;
+    let task = byTask.get(trial.taskChecksum);
+    if (!task) {
+      task = { n: 0, passed: 0, rewardSum: 0 };
+      byTask.set(trial.taskChecksum, task);
+    }
+    task.n += 1;
+    if (trial.reward > PASS_REWARD_THRESHOLD) task.passed += 1;
+    task.rewardSum += trial.reward;
+  }
+
+  const tasks = Array.from(byTask.values());
+  if (tasks.length === 0) {
+    return { jobId, nTasks: 0, nTrials, binaryRewards, kMax: 0, meanReward: null, passAtK: [] };
+  }
+
+  const seed = hashString(jobId);
+  const kMax = Math.min(...tasks.map(t => t.n));
+  const passAtKList: JobTrialMetrics['passAtK'] = [];
+  for (let k = 1; k <= kMax; k++) {
+    if (!allK && k !== 1 && k !== kMax) continue;
+    const perTask = tasks.map(t => passAtK(t.n, t.passed, k));
+    passAtKList.push({ k, estimate: bootstrapMean(perTask, seed + k) });
+  }
+
+  return {
+    jobId,
+    nTasks: tasks.length,
+    nTrials,
+    binaryRewards,
+    kMax,
+    meanReward: bootstrapMean(tasks.map(t => t.rewardSum / t.n), seed),
+    passAtK: passAtKList,
+  };
+}
+
+/**
+ * Pick the estimate backing a leaderboard cell metric, or undefined when the
+ * job has no finished trials. 'accuracy' is not trial-derived and is handled by the caller.
+ */
+export function selectCellMetric(
+  metrics: JobTrialMetrics,
+  metric: Exclude<CellMetric, 'accuracy'>
+): { estimate: MetricEstimate; k?: number } | undefined {
+  if (metric === 'meanReward') {
+    return metrics.meanReward ? { estimate: metrics.meanReward } : undefined;
+  }
+  const k = metric === 'pass@1' ? 1 : metrics.kMax;
+  const entry = metrics.passAtK.find(p => p.k === k);
+  return entry ? { estimate: entry.estimate, k } : undefined;
+}
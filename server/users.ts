@@ -0,0 +1,90 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { JsonFileStore } from "./jsonStore";
+import { ROLES, type AuthUser, type Role } from "@shared/auth";
+
+/**
+ * Local user accounts, persisted in server/data/users.json (git-ignored).
+ * Create the first admin with `npx tsx scripts/add_user.ts <username> admin`.
+ */
+
+const scryptAsync = promisify(scrypt);
+
+const userSchema = z.object({
+  username: z.string().min(1),
+  role: z.enum(ROLES),
+  // "<hex hash>.<hex salt>" from scrypt
+  passwordHash: z.string().min(1),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+type StoredUser = z.infer<typeof userSchema>;
+
+const userFileSchema = z.object({
+  users: z.array(userSchema),
+}).refine(file => new Set(file.users.map(u => u.username)).size === file.users.length, {
+  message: "usernames must be unique",
+});
+
+const store = new JsonFileStore("users.json", userFileSchema, () => ({ users: [] }));
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+async function passwordMatches(password: string, stored: string): Promise<boolean> {
+  const [hashHex, salt] = stored.split(".");
+  const hash = Buffer.from(hashHex, "hex");
+  const supplied = (await scryptAsync(password, salt, 64)) as Buffer;
+  return hash.length === supplied.length && timingSafeEqual(hash, supplied);
+}
+
+function toAuthUser({ username, role }: StoredUser): AuthUser {
+  return { username, role };
+}
+
+export function listUsers(): AuthUser[] {
+  return store.read().users.map(toAuthUser);
+}
+
+export function getUser(username: string): AuthUser | undefined {
+  const user = store.read().users.find(u => u.username === username);
+  return user && toAuthUser(user);
+}
+
+/** The user if the password is right, otherwise undefined. */
+export async function verifyCredentials(username: string, password: string): Promise<AuthUser | undefined> {
+  const user = store.read().users.find(u => u.username === username);
+  if (!user || !(await passwordMatches(password, user.passwordHash))) return undefined;
+  return toAuthUser(user);
+}
+
+/** Create or update a user. A password is required when creating. */
+export async function upsertUser(username: string, role: Role, password?: string): Promise<AuthUser> {
+  const existing = store.read().users.find(u => u.username === username);
+  if (!existing && !password) {
+    throw new Error(`A password is required to create user "${username}"`);
+  }
+  const now = new Date().toISOString();
+  const user: StoredUser = {
+    username,
+    role,
+    passwordHash: password ? await hashPassword(password) : existing!.passwordHash,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  store.update(file => ({
+    users: existing ? file.users.map(u => (u.username === username ? user : u)) : [...file.users, user],
+  }));
+  return toAuthUser(user);
+}
+
+export function deleteUser(username: string): boolean {
+  if (!getUser(username)) return false;
+  store.update(file => ({ users: file.users.filter(u => u.username !== username) }));
+  return true;
+}
@@ -0,0 +1,46 @@
+import { z } from "zod";
+
+/**
+ * Audit log of curation changes. Every mutating route appends one entry with
+ * the entity's state before and after the change (null when it did not / no
+ * longer exists), so any single change can be inspected and reverted.
+ */
+
+export const AUDIT_ENTITY_TYPES = ["cohort", "tab", "tabOrder", "modelTag", "blacklist", "jobNote", "duplicateLink", "snapshot", "evalRequest", "user"] as const;
+
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+
+// User changes are history only (a revert could not restore a password); snapshots are immutable
+export const REVERTIBLE_AUDIT_ENTITY_TYPES: readonly AuditEntityType[] = ["cohort", "tab", "tabOrder", "modelTag", "blacklist", "jobNote", "duplicateLink", "evalRequest"];
+
+export const AUDIT_ACTIONS = ["create", "update", "delete", "revert"] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export const auditEntrySchema = z.object({
+  id: z.string(),
+  at: z.string(),
+  actor: z.string(),
+  requestId: z.string(),
+  action: z.enum(AUDIT_ACTIONS),
+  entityType: z.enum(AUDIT_ENTITY_TYPES),
+  entityId: z.string(),
+  before: z.unknown().nullable(),
+  after: z.unknown().nullable(),
+  // For action "revert": the entry that was undone
+  revertOf: z.string().optional(),
+});
+
+export type AuditEntry = z.infer<typeof auditEntrySchema>;
+
+// GET /api/audit query parameters
+export const auditQuerySchema = z.object({
+  entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  entityId: z.string().optional(),
+  actor: z.string().optional(),
+  since: z.string().datetime({ offset: true }).optional(),
+  until: z.string().datetime({ offset: true }).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+});
+
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
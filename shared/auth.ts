@@ -0,0 +1,34 @@
+import { z } from "zod";
+
+/**
+ * Roles, lowest first. Anyone can read the leaderboard; curation endpoints
+ * (cohorts, tabs, tags, blacklist, notes, duplicate links) need an editor,
+ * and managing users needs an admin.
+ */
+export const ROLES = ["viewer", "editor", "admin"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const loginSchema = z.object({
+  username: z.string().min(1),
+  password: z.string().min(1),
+});
+
+export const userUpsertSchema = z.object({
+  role: z.enum(ROLES),
+  // Required when creating a user; omit to keep the current password
+  password: z.string().min(8, "password must be at least 8 characters").optional(),
+});
+
+export type UserUpsert = z.infer<typeof userUpsertSchema>;
+
+// The signed-in user as served by GET /api/user (never includes the password hash)
+export interface AuthUser {
+  username: string;
+  role: Role;
+}
+
+/** Whether `user` holds `role` or a higher one. */
+export function hasRole(user: AuthUser | null | undefined, role: Role): boolean {
+  return !!user && ROLES.indexOf(user.role) >= ROLES.indexOf(role);
+}
@@ -0,0 +1,36 @@
+import { z } from "zod";
+
+/**
+ * Blacklisted models are hidden by "Hide blacklisted models" and listed on the
+ * Blacklisted tab. Each entry says why, who added it and when; an entry with an
+ * `expiresAt` in the past no longer blacklists its model.
+ */
+
+export const blacklistEntryInputSchema = z.object({
+  modelName: z.string().min(1),
+  reason: z.string().min(1),
+  addedBy: z.string().min(1),
+  // ISO timestamp after which the model is no longer blacklisted
+  expiresAt: z.string().datetime({ offset: true }).nullable().default(null),
+});
+
+// PATCH body: everything but the model name may change
+export const blacklistEntryUpdateSchema = blacklistEntryInputSchema.omit({ modelName: true }).partial();
+
+export type BlacklistEntryInput = z.infer<typeof blacklistEntryInputSchema>;
+export type BlacklistEntryUpdate = z.infer<typeof blacklistEntryUpdateSchema>;
+
+export interface BlacklistEntry extends BlacklistEntryInput {
+  // null when unknown (entries imported from the old hardcoded list)
+  addedAt: string | null;
+  updatedAt: string | null;
+}
+
+// As served by GET /api/blacklist
+export interface BlacklistEntryWithStatus extends BlacklistEntry {
+  active: boolean;
+}
+
+export function isBlacklistEntryActive(entry: Pick<BlacklistEntry, "expiresAt">, now: Date = new Date()): boolean {
+  return entry.expiresAt === null || new Date(entry.expiresAt).getTime() > now.getTime();
+}
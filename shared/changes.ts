@@ -0,0 +1,116 @@
+import { z } from "zod";
+
+/**
+ * Change feed (GET /api/changes): typed events derived from sandbox_jobs
+ * timestamps, models.creation_time and the result selection, so consumers do
+ * not have to diff the pivoted leaderboard themselves.
+ */
+
+export const CHANGE_EVENT_TYPES = [
+  "modelRegistered",
+  "jobStarted",
+  "jobFinished",
+  "jobFailed",
+  "guardrailFired",
+  "resultSuperseded",
+] as const;
+
+export type ChangeEventType = (typeof CHANGE_EVENT_TYPES)[number];
+
+// Query parameters besides the leaderboard's own (mode, metric, policy, hideNoTraceLink)
+export const changesQuerySchema = z.object({
+  // Exclusive lower bound; pass the previous response's nextSince to continue
+  since: z.string().datetime({ offset: true }),
+  // Inclusive upper bound, default now
+  until: z.string().datetime({ offset: true }).optional(),
+  // Comma-separated subset of CHANGE_EVENT_TYPES
+  types: z.string()
+    .transform(value => value.split(",").map(type => type.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(CHANGE_EVENT_TYPES)))
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(5000).default(1000),
+}).refine(query => !query.until || new Date(query.until) > new Date(query.since), {
+  message: "until must be after since",
+  path: ["until"],
+});
+
+export type ChangesQuery = z.infer<typeof changesQuerySchema>;
+
+interface JobRef {
+  jobId: string;
+  modelName: string;
+  agentName: string;
+  benchmarkName: string;
+}
+
+export interface ModelRegisteredEvent {
+  type: "modelRegistered";
+  at: string;
+  modelId: string;
+  modelName: string;
+  baseModelName: string;
+  // Agent the model was trained with
+  agentName: string;
+}
+
+export interface JobStartedEvent extends JobRef {
+  type: "jobStarted";
+  at: string;
+}
+
+export interface JobFinishedEvent extends JobRef {
+  type: "jobFinished";
+  at: string;
+  accuracy: number | null;
+}
+
+export interface JobFailedEvent extends JobRef {
+  type: "jobFailed";
+  at: string;
+}
+
+export interface GuardrailFiredEvent extends JobRef {
+  type: "guardrailFired";
+  // When the job finished
+  at: string;
+  guardrails: Array<{ id: string; severity: string }>;
+}
+
+export interface SupersededResult {
+  jobId: string;
+  accuracy: number | null;
+}
+
+/** The cell's selected result changed between `since` and `until` in the requested selection mode. */
+export interface ResultSupersededEvent {
+  type: "resultSuperseded";
+  // When the new result's job finished (until when that is unknown, e.g. a policy change)
+  at: string;
+  modelName: string;
+  agentName: string;
+  benchmarkName: string;
+  previous: SupersededResult;
+  current: SupersededResult;
+}
+
+export type ChangeEvent =
+  | ModelRegisteredEvent
+  | JobStartedEvent
+  | JobFinishedEvent
+  | JobFailedEvent
+  | GuardrailFiredEvent
+  | ResultSupersededEvent;
+
+export interface ChangeFeed {
+  since: string;
+  until: string;
+  // Selection mode the resultSuperseded events were computed for
+  mode: string;
+  // Oldest first
+  events: ChangeEvent[];
+  // Events after the last returned one that did not fit in `limit` (a run of events
+  // sharing one timestamp is never split, so a page can exceed `limit`)
+  truncated: number;
+  // `since` for the next request: the last returned event's time when truncated, else `until`
+  nextSince: string;
+}
@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+/**
+ * Cohorts are curated model lists shown as leaderboard tabs (paper tables,
+ * scaling sweeps, ...). Sections keep their order; models within a section are
+ * listed in display order and matched through canonical model names.
+ */
+
+// Tailwind hues the tab bar has classes for
+export const TAB_COLORS = [
+  "blue", "emerald", "teal", "amber", "rose", "pink", "violet", "fuchsia",
+  "yellow", "indigo", "sky", "lime", "purple", "red", "orange", "cyan", "slate",
+] as const;
+
+export type TabColor = (typeof TAB_COLORS)[number];
+
+export const cohortSectionSchema = z.object({
+  label: z.string().min(1),
+  models: z.array(z.string().min(1)),
+});
+
+export const cohortInputSchema = z.object({
+  // Stable identifier, used in URLs and as the tab value
+  slug: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, "slug must be lowercase kebab-case"),
+  label: z.string().min(1),
+  description: z.string().optional(),
+  color: z.enum(TAB_COLORS).optional(),
+  sections: z.array(cohortSectionSchema).default([]),
+  // Models trained on any of these base models are members too (as are the base models themselves)
+  baseModels: z.array(z.string().min(1)).default([]),
+}).refine(c => c.sections.some(s => s.models.length > 0) || c.baseModels.length > 0, {
+  message: "a cohort needs at least one model or base model",
+});
+
+export type CohortInput = z.infer<typeof cohortInputSchema>;
+export type CohortSection = z.infer<typeof cohortSectionSchema>;
+
+export interface Cohort extends CohortInput {
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A cohort as served by GET /api/cohorts: model names mapped to their canonical names
+export interface ResolvedCohort extends Cohort {
+  sections: Array<CohortSection & { canonicalModels: string[] }>;
+  canonicalBaseModels: string[];
+  // Listed names that match no model (typos, deleted models)
+  unknownModels: string[];
+}
@@ -0,0 +1,107 @@
+import { z } from "zod";
+
+/**
+ * Duplicate links: `duplicate_of` on models, agents and benchmarks points a
+ * duplicate at its canonical entity. The leaderboard view resolves exactly one
+ * hop, so a link must point at a root (an entity that is not itself a duplicate).
+ */
+
+export const DUPLICATE_ENTITY_TYPES = ["model", "agent", "benchmark"] as const;
+
+export type DuplicateEntityType = (typeof DUPLICATE_ENTITY_TYPES)[number];
+
+export const duplicateLinkSchema = z.object({
+  // null unlinks (makes the entity canonical again)
+  canonicalId: z.string().uuid().nullable(),
+});
+
+export const duplicatePreviewSchema = duplicateLinkSchema.extend({
+  // Selection mode the preview pivots with ("all" has no single cell to compare)
+  mode: z.enum(["oldest", "latest", "highest", "mean", "median"]).default("oldest"),
+});
+
+export const duplicateSuggestionQuerySchema = z.object({
+  minScore: z.coerce.number().min(0).max(1).default(0.6),
+});
+
+export interface DuplicateNode {
+  id: string;
+  name: string;
+  duplicateOf: string | null;
+}
+
+export type LinkProblemKind = "unknown" | "self" | "cycle" | "multiHop" | "dependents";
+
+export interface LinkProblem {
+  kind: LinkProblemKind;
+  message: string;
+  // Blocking problems reject the link; "dependents" are re-pointed automatically
+  blocking: boolean;
+  // Entity names along the offending chain
+  path?: string[];
+  // For multiHop: the chain's root, which the link should point at instead
+  suggestedCanonicalId?: string;
+  // For dependents: ids that currently point at the entity being linked
+  ids?: string[];
+}
+
+// Chains already in the database that the one-hop view resolves wrongly
+export interface ChainProblem {
+  kind: "cycle" | "multiHop";
+  path: string[];
+  ids: string[];
+}
+
+export interface DuplicateGraph {
+  entityType: DuplicateEntityType;
+  nodes: DuplicateNode[];
+  problems: ChainProblem[];
+}
+
+export interface PreviewCell {
+  accuracy: number | null;
+  improvement: number | null;
+  canonicalModelName: string;
+  jobId: string;
+}
+
+export interface PreviewCellChange {
+  modelName: string;
+  agentName: string;
+  benchmarkName: string;
+  change: "added" | "removed" | "changed";
+  before?: PreviewCell;
+  after?: PreviewCell;
+}
+
+export interface DuplicateLinkPreview {
+  entityType: DuplicateEntityType;
+  id: string;
+  name: string;
+  currentDuplicateOf: string | null;
+  canonicalId: string | null;
+  canonicalName: string | null;
+  problems: LinkProblem[];
+  blocking: boolean;
+  // Ids whose duplicate_of changes (the entity plus re-pointed dependents)
+  relinked: string[];
+  // (agent, model, benchmark) run pools before/after, and pools that absorb others
+  pools: { before: number; after: number; merged: Array<{ pool: string; from: string[] }> };
+  // Table rows as displayed (canonical model × agent) before/after
+  rows: { before: number; after: number; merged: Array<{ row: string; from: string[] }> };
+  cells: PreviewCellChange[];
+  // Changed cells beyond the returned list
+  cellsTruncated: number;
+}
+
+// A likely duplicate pair, already resolved to the roots that would be linked
+export interface DuplicateSuggestion {
+  entityType: DuplicateEntityType;
+  duplicate: { id: string; name: string };
+  canonical: { id: string; name: string };
+  // The names that matched (duplicate side first); may be non-root members of either group
+  matched: [string, string];
+  // 1 = identical name … 0.6 = a couple of edits apart
+  score: number;
+  reason: string;
+}
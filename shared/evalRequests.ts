@@ -0,0 +1,107 @@
+import { z } from "zod";
+
+/**
+ * Eval requests: missing (model, agent, benchmark) cells someone has agreed to
+ * run, picked from the Missing Eval tab. A request stays open until a job for
+ * its cell shows up; its state is derived from that job on every read
+ * (running while Pending/Started, fulfilled once Finished), so only cancelling
+ * is recorded by hand.
+ */
+
+export const EVAL_REQUEST_PRIORITIES = ["high", "normal", "low"] as const;
+
+export type EvalRequestPriority = (typeof EVAL_REQUEST_PRIORITIES)[number];
+
+export const EVAL_REQUEST_STATES = ["open", "running", "fulfilled", "cancelled"] as const;
+
+export type EvalRequestState = (typeof EVAL_REQUEST_STATES)[number];
+
+export const evalRequestCellSchema = z.object({
+  modelName: z.string().min(1),
+  agentName: z.string().min(1),
+  benchmarkName: z.string().min(1),
+});
+
+export type EvalRequestCell = z.infer<typeof evalRequestCellSchema>;
+
+// POST body: one request per cell, all sharing priority, assignee and notes
+export const evalRequestCreateSchema = z.object({
+  cells: z.array(evalRequestCellSchema).min(1).max(500),
+  priority: z.enum(EVAL_REQUEST_PRIORITIES).default("normal"),
+  assignee: z.string().trim().min(1).nullable().default(null),
+  notes: z.string().trim().max(2000).nullable().default(null),
+});
+
+export type EvalRequestCreate = z.infer<typeof evalRequestCreateSchema>;
+
+// PATCH body: cancelled: true cancels, false reopens
+export const evalRequestUpdateSchema = z.object({
+  priority: z.enum(EVAL_REQUEST_PRIORITIES),
+  assignee: z.string().trim().min(1).nullable(),
+  notes: z.string().trim().max(2000).nullable(),
+  cancelled: z.boolean(),
+}).partial();
+
+export type EvalRequestUpdate = z.infer<typeof evalRequestUpdateSchema>;
+
+export const evalRequestSchema = evalRequestCellSchema.extend({
+  id: z.string(),
+  priority: z.enum(EVAL_REQUEST_PRIORITIES),
+  assignee: z.string().nullable(),
+  notes: z.string().nullable(),
+  requestedBy: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  cancelledAt: z.string().nullable(),
+});
+
+export type EvalRequest = z.infer<typeof evalRequestSchema>;
+
+// The job a request is tracked by (the best run recorded for its cell)
+export interface EvalRequestJob {
+  jobId: string;
+  status: string | null;
+  accuracy: number | null;
+}
+
+// As served by GET /api/eval-requests
+export interface TrackedEvalRequest extends EvalRequest {
+  state: EvalRequestState;
+  job: EvalRequestJob | null;
+}
+
+const csv = <T extends z.ZodTypeAny>(item: T) => z.string()
+  .transform(value => value.split(",").map(part => part.trim()).filter(Boolean))
+  .pipe(z.array(item));
+
+// GET /api/eval-requests and /api/eval-requests/manifest query parameters
+export const evalRequestsQuerySchema = z.object({
+  // Comma-separated subset of EVAL_REQUEST_STATES
+  states: csv(z.enum(EVAL_REQUEST_STATES)).optional(),
+  assignee: z.string().optional(),
+  // Comma-separated request ids
+  ids: csv(z.string()).optional(),
+});
+
+export type EvalRequestsQuery = z.infer<typeof evalRequestsQuerySchema>;
+
+export const evalRequestManifestQuerySchema = evalRequestsQuerySchema.extend({
+  format: z.enum(["json", "shell"]).default("json"),
+});
+
+// One line of the launch manifest, in the cluster scripts' vocabulary
+export interface EvalRequestManifestEntry {
+  requestId: string;
+  model: string;
+  agent: string;
+  benchmark: string;
+  priority: EvalRequestPriority;
+  assignee: string | null;
+}
+
+export interface EvalRequestManifest {
+  generatedAt: string;
+  requests: EvalRequestManifestEntry[];
+}
+
+export const evalRequestCellKey = (cell: EvalRequestCell) => `${cell.modelName}|||${cell.agentName}|||${cell.benchmarkName}`;
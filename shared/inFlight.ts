@@ -0,0 +1,44 @@
+import { z } from "zod";
+
+/**
+ * In-flight jobs (GET /api/jobs/in-flight): every Pending/Started job with its
+ * trial progress, throughput and ETA, flagging Started jobs whose trials have
+ * not advanced for `stalledHours`.
+ */
+
+export const inFlightQuerySchema = z.object({
+  stalledHours: z.coerce.number().positive().max(24 * 30).default(2),
+});
+
+export type InFlightQuery = z.infer<typeof inFlightQuerySchema>;
+
+export interface InFlightJob {
+  jobId: string;
+  jobName: string | null;
+  status: "Pending" | "Started";
+  modelName: string;
+  agentName: string;
+  benchmarkName: string;
+  username: string | null;
+  slurmJobId: string | null;
+  createdAt: string | null;
+  startedAt: string | null;
+  completedTrials: number;
+  totalTrials: number | null;
+  // completedTrials / totalTrials, null without a total
+  progress: number | null;
+  // Finished trials per hour since the job started; null before any trial finished
+  trialsPerHour: number | null;
+  // Projected finish at the current throughput
+  etaAt: string | null;
+  // Last finished trial, else when the job started (or was submitted)
+  lastProgressAt: string | null;
+  hoursSinceProgress: number | null;
+  stalled: boolean;
+}
+
+export interface InFlightJobs {
+  generatedAt: string;
+  stalledHours: number;
+  jobs: InFlightJob[];
+}
@@ -0,0 +1,23 @@
+/**
+ * Live updates pushed over the WebSocket at LIVE_PATH. The server polls
+ * sandbox_jobs while anyone is connected and broadcasts status changes;
+ * clients patch their cached leaderboard or offer a refresh.
+ */
+
+export const LIVE_PATH = "/api/live";
+
+export interface LiveJobUpdate {
+  jobId: string;
+  // New sandbox_jobs.job_status
+  status: string | null;
+  // null the first time the job is seen (newly submitted)
+  previousStatus: string | null;
+  modelName: string;
+  agentName: string;
+  benchmarkName: string;
+  accuracy: number | null;
+}
+
+export type LiveMessage =
+  | { type: "hello"; at: string; pollIntervalMs: number }
+  | { type: "jobs"; at: string; jobs: LiveJobUpdate[] };
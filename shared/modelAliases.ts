@@ -0,0 +1,68 @@
+import { z } from "zod";
+
+/**
+ * Model-name aliases: serving prefixes (`hosted_vllm/`, `together/`), regex
+ * rewrites and explicit pairs that make different names refer to the same
+ * model. Two names are aliases when their alias keys are equal; the key is what
+ * base-model lookup, filters, search and cohort/tab membership compare.
+ */
+
+const rewriteSchema = z.object({
+  pattern: z.string().min(1),
+  replacement: z.string(),
+  flags: z.string().regex(/^[gimsu]*$/, "flags may only use g, i, m, s, u").default(""),
+}).refine(rule => {
+  try {
+    new RegExp(rule.pattern, rule.flags);
+    return true;
+  } catch {
+    return false;
+  }
+}, { message: "pattern is not a valid regular expression" });
+
+export const modelAliasConfigSchema = z.object({
+  // Stripped from the front of a name (case-insensitively, repeatedly)
+  prefixes: z.array(z.string().min(1)).default([]),
+  // Applied in order after the prefixes
+  rewrites: z.array(rewriteSchema).default([]),
+  // Explicit pairs: name → the name it is an alias of (matched before and after the rules)
+  aliases: z.record(z.string().min(1), z.string().min(1)).default({}),
+});
+
+export type ModelAliasConfig = z.infer<typeof modelAliasConfigSchema>;
+
+export const EMPTY_MODEL_ALIAS_CONFIG: ModelAliasConfig = { prefixes: [], rewrites: [], aliases: {} };
+
+/** A memoized name → alias key function for one config. */
+export function createModelAliasKey(config: ModelAliasConfig): (name: string) => string {
+  const prefixes = config.prefixes.map(p => p.toLowerCase());
+  const rewrites = config.rewrites.map(rule => ({ regex: new RegExp(rule.pattern, rule.flags), replacement: rule.replacement }));
+  const cache = new Map<string, string>();
+
+  const applyRules = (name: string) => {
+    let current = name;
+    let stripped = true;
+    while (stripped) {
+      const lower = current.toLowerCase();
+      const prefix = prefixes.find(p => lower.startsWith(p) && current.length > p.length);
+      stripped = !!prefix;
+      if (prefix) current = current.slice(prefix.length);
+    }
+    for (const { regex, replacement } of rewrites) {
+      current = current.replace(regex, replacement);
+    }
+    return current;
+  };
+
+  return (name: string) => {
+    const cached = cache.get(name);
+    if (cached !== undefined) return cached;
+
+    const normalized = applyRules(config.aliases[name] ?? name);
+    // A pair may also name the normalized form; its target goes through the rules too
+    const target = config.aliases[normalized];
+    const key = target !== undefined && target !== normalized ? applyRules(target) : normalized;
+    cache.set(name, key);
+    return key;
+  };
+}
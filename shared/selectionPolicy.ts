@@ -0,0 +1,90 @@
+import { z } from "zod";
+
+/**
+ * Rules for picking (or aggregating) the run shown in a leaderboard cell from a
+ * (model, agent, benchmark) pool. Shared so the client can offer the same presets
+ * and build query params the server validates.
+ */
+
+// Query params arrive as strings; accept real booleans too for JSON callers
+const booleanParam = z.union([
+  z.boolean(),
+  z.enum(["true", "false"]).transform(v => v === "true"),
+]);
+
+export const selectionPolicySchema = z.object({
+  // oldest/latest prefer Finished runs with accuracy strictly above this (percent)
+  minAccuracy: z.coerce.number().min(0).max(100),
+  // avoid: use overlong runs only when nothing else finished; allow: treat them like any run; exclude: never use them
+  overlong: z.enum(["avoid", "allow", "exclude"]),
+  // Drop Finished runs that did not attempt every trial (stats.n_trials < n_trials)
+  excludeIncomplete: booleanParam,
+  // Drop Finished runs with more than 10 non-benign exceptions
+  excludeHighErrors: booleanParam,
+  // Drop Finished runs whose completed/total trial ratio is below this (0 disables)
+  minCompletedRatio: z.coerce.number().min(0).max(1),
+});
+
+export type SelectionPolicy = z.infer<typeof selectionPolicySchema>;
+
+// Query-param overrides on top of a preset; unknown keys (mode, metric, ...) are stripped
+export const selectionPolicyOverridesSchema = selectionPolicySchema.partial();
+
+export type SelectionPolicyOverrides = z.infer<typeof selectionPolicyOverridesSchema>;
+
+export interface SelectionPolicyPreset {
+  label: string;
+  description: string;
+  policy: SelectionPolicy;
+}
+
+export const SELECTION_POLICY_PRESETS = {
+  default: {
+    label: "Default",
+    description: "Prefer runs above 1% accuracy, avoid overlong runs, keep incomplete and high-error runs.",
+    policy: { minAccuracy: 1, overlong: "avoid", excludeIncomplete: false, excludeHighErrors: false, minCompletedRatio: 0 },
+  },
+  strict: {
+    label: "Strict",
+    description: "Only complete, non-overlong runs without high errors.",
+    policy: { minAccuracy: 1, overlong: "exclude", excludeIncomplete: true, excludeHighErrors: true, minCompletedRatio: 1 },
+  },
+  lenient: {
+    label: "Lenient",
+    description: "No accuracy threshold; overlong runs count like any other.",
+    policy: { minAccuracy: 0, overlong: "allow", excludeIncomplete: false, excludeHighErrors: false, minCompletedRatio: 0 },
+  },
+} satisfies Record<string, SelectionPolicyPreset>;
+
+export type SelectionPolicyPresetName = keyof typeof SELECTION_POLICY_PRESETS;
+
+export const DEFAULT_SELECTION_POLICY_NAME: SelectionPolicyPresetName = "default";
+
+export interface NamedSelectionPolicy {
+  // Preset name, or "<preset>+custom" when query params overrode any field
+  name: string;
+  policy: SelectionPolicy;
+}
+
+const presetNameSchema = z.enum(Object.keys(SELECTION_POLICY_PRESETS) as [SelectionPolicyPresetName, ...SelectionPolicyPresetName[]]);
+
+/**
+ * Resolve `?policy=<preset>&minAccuracy=…&overlong=…` into a policy.
+ * Throws a ZodError for an unknown preset or an invalid override.
+ */
+export function parseSelectionPolicy(query: Record<string, unknown>): NamedSelectionPolicy {
+  const presetName = presetNameSchema.parse(query.policy ?? DEFAULT_SELECTION_POLICY_NAME);
+  const preset = SELECTION_POLICY_PRESETS[presetName].policy;
+  const overrides = selectionPolicyOverridesSchema.parse(query);
+
+  const policy: SelectionPolicy = { ...preset };
+  let customized = false;
+  for (const key of Object.keys(overrides) as Array<keyof SelectionPolicy>) {
+    const value = overrides[key];
+    if (value === undefined || value === preset[key]) continue;
+    (policy as Record<keyof SelectionPolicy, unknown>)[key] = value;
+    customized = true;
+  }
+
+  return { name: customized ? `${presetName}+custom` : presetName, policy };
+}
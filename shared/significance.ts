@@ -0,0 +1,38 @@
+/**
+ * Significance of an improvement-vs-base delta. Shared between the server (which
+ * computes it for the pivoted payload) and the client (which recomputes it when
+ * duplicate merging swaps in a different base model score).
+ */
+
+// Two-sided 95% normal interval
+export const IMPROVEMENT_CONFIDENCE_LEVEL = 0.95;
+const IMPROVEMENT_Z = 1.96;
+
+export interface ImprovementSignificance {
+  improvementStandardError: number;  // sqrt(se² + baseSe²), percentage points
+  improvementCiLow: number;
+  improvementCiHigh: number;
+  improvementSignificant: boolean;   // CI excludes zero
+}
+
+/**
+ * Treats the two runs as independent samples. Returns undefined when either
+ * standard error is unknown or both are zero (finished jobs without an
+ * accuracy_stderr metric come through as 0), since no interval can be formed.
+ */
+export function improvementSignificance(
+  improvement: number | undefined,
+  standardError: number | null | undefined,
+  baseStandardError: number | null | undefined,
+): ImprovementSignificance | undefined {
+  if (improvement === undefined || standardError == null || baseStandardError == null) return undefined;
+  const se = Math.sqrt(standardError * standardError + baseStandardError * baseStandardError);
+  if (!(se > 0)) return undefined;
+  const halfWidth = IMPROVEMENT_Z * se;
+  return {
+    improvementStandardError: se,
+    improvementCiLow: improvement - halfWidth,
+    improvementCiHigh: improvement + halfWidth,
+    improvementSignificant: Math.abs(improvement) > halfWidth,
+  };
+}
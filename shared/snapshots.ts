@@ -0,0 +1,72 @@
+import { z } from "zod";
+
+/**
+ * Leaderboard snapshots: the pivoted leaderboard (as served by
+ * /api/leaderboard-pivoted-with-improvement) frozen under a name together with
+ * the parameters it was computed with. Snapshots are never modified.
+ */
+
+export const snapshotInputSchema = z.object({
+  // Used in URLs, e.g. "neurips-2026-camera-ready"
+  name: z.string().regex(/^[a-z0-9][a-z0-9._-]*$/, "name must be lowercase letters, digits, '.', '_' or '-'").max(100),
+  description: z.string().max(1000).optional(),
+});
+
+export type SnapshotInput = z.infer<typeof snapshotInputSchema>;
+
+export const snapshotParamsSchema = z.object({
+  mode: z.string(),
+  hideNoTraceLink: z.boolean(),
+  metric: z.string(),
+  selectionPolicy: z.object({ name: z.string(), policy: z.record(z.unknown()) }),
+  // Set when the snapshot froze the leaderboard as of a past date
+  asOf: z.string().optional(),
+});
+
+export type SnapshotParams = z.infer<typeof snapshotParamsSchema>;
+
+/** One-line summary of how a snapshot was computed, e.g. "oldest · accuracy · default". */
+export const describeSnapshotParams = (params: SnapshotParams) =>
+  `${params.mode} · ${params.metric} · ${params.selectionPolicy.name}${params.hideNoTraceLink ? " · traced only" : ""}${params.asOf ? ` · as of ${params.asOf}` : ""}`;
+
+export const snapshotSummarySchema = snapshotInputSchema.extend({
+  createdAt: z.string(),
+  createdBy: z.string(),
+  params: snapshotParamsSchema,
+  rowCount: z.number().int(),
+});
+
+export type SnapshotSummary = z.infer<typeof snapshotSummarySchema>;
+
+// Rows are pivoted leaderboard rows (the client's PivotedLeaderboardRowWithImprovement)
+export interface Snapshot<Row = unknown> extends SnapshotSummary {
+  rows: Row[];
+}
+
+export interface SnapshotCellValue {
+  accuracy: number | null;
+  improvement: number | null;
+  // 1-based position by accuracy among the snapshot's rows on this benchmark (ties share a rank)
+  rank: number | null;
+  jobId?: string;
+}
+
+export interface SnapshotCellChange {
+  modelName: string;
+  agentName: string;
+  benchmark: string;
+  // null when the cell does not exist on that side
+  before: SnapshotCellValue | null;
+  after: SnapshotCellValue | null;
+  // Only the rank moved (another row's change pushed this one up or down)
+  rankOnly: boolean;
+}
+
+export interface SnapshotDiff {
+  from: SnapshotSummary;
+  to: SnapshotSummary;
+  addedRows: Array<{ modelName: string; agentName: string }>;
+  removedRows: Array<{ modelName: string; agentName: string }>;
+  benchmarks: { added: string[]; removed: string[] };
+  cells: SnapshotCellChange[];
+}
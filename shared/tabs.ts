@@ -0,0 +1,165 @@
+import { z } from "zod";
+import { TAB_COLORS } from "./cohorts";
+
+/**
+ * Leaderboard tabs declared as data. Each tab is a label, an optional color and
+ * a predicate tree over leaderboard rows:
+ *   { "namePrefix": "DCAgent/a1-" }
+ *   { "nameRegex": "(?:^|[/_-])(?:316|1000)(?:[/_-]|$)" }
+ *   { "baseModel": "Qwen/Qwen3-8B" }          trained on it (or is it)
+ *   { "isBaseModel": true }                   has no base model
+ *   { "trainingType": "SFT" }
+ *   { "modelSizeB": { "min": 7, "max": 9 } }
+ *   { "tag": "paper-2026" }                   see /api/model-tags
+ *   { "cohort": "war" }                       see /api/cohorts
+ *   { "blacklisted": true }
+ *   { "guardrailFired": true }                any finished cell tripped a guardrail rule
+ *   { "all": [...] } / { "any": [...] } / { "not": {...} }   ({ "all": [] } matches every row)
+ * Name predicates match the canonical model name.
+ */
+
+export type TabPredicate =
+  | { all: TabPredicate[] }
+  | { any: TabPredicate[] }
+  | { not: TabPredicate }
+  | { namePrefix: string }
+  | { nameRegex: string }
+  | { baseModel: string }
+  | { isBaseModel: boolean }
+  | { trainingType: string }
+  | { modelSizeB: { min?: number; max?: number } }
+  | { tag: string }
+  | { cohort: string }
+  | { blacklisted: boolean }
+  | { guardrailFired: boolean };
+
+const regexString = z.string().min(1).refine(pattern => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}, { message: "invalid regular expression" });
+
+export const tabPredicateSchema: z.ZodType<TabPredicate> = z.lazy(() => z.union([
+  z.object({ all: z.array(tabPredicateSchema) }).strict(),
+  z.object({ any: z.array(tabPredicateSchema).min(1) }).strict(),
+  z.object({ not: tabPredicateSchema }).strict(),
+  z.object({ namePrefix: z.string().min(1) }).strict(),
+  z.object({ nameRegex: regexString }).strict(),
+  z.object({ baseModel: z.string().min(1) }).strict(),
+  z.object({ isBaseModel: z.boolean() }).strict(),
+  z.object({ trainingType: z.string().min(1) }).strict(),
+  z.object({ modelSizeB: z.object({ min: z.number().optional(), max: z.number().optional() }).strict() }).strict(),
+  z.object({ tag: z.string().min(1) }).strict(),
+  z.object({ cohort: z.string().min(1) }).strict(),
+  z.object({ blacklisted: z.boolean() }).strict(),
+  z.object({ guardrailFired: z.boolean() }).strict(),
+]));
+
+export const TAB_BENCHMARK_SETS = ["core", "ood", "coreAndOod"] as const;
+
+export const tabDefinitionSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-zA-Z0-9-]*$/, "id must start with a lowercase letter or digit"),
+  label: z.string().min(1),
+  description: z.string().optional(),
+  color: z.enum(TAB_COLORS).optional(),
+  predicate: tabPredicateSchema,
+  // Benchmarks preselected when the tab is opened
+  benchmarkSet: z.enum(TAB_BENCHMARK_SETS).default("core"),
+  // Let the table drop rows that already have every selected benchmark (Missing Eval)
+  missingEvalOnly: z.boolean().default(false),
+});
+
+export type TabDefinition = z.infer<typeof tabDefinitionSchema>;
+export type TabDefinitionInput = z.input<typeof tabDefinitionSchema>;
+
+// Shape of a row the predicates can look at (a subset of the pivoted leaderboard row)
+export interface TabRow {
+  modelName: string;
+  canonicalModelName?: string | null;
+  baseModelName: string;
+  canonicalBaseModelName?: string | null;
+  trainingType?: string | null;
+  modelSizeB?: number | null;
+  benchmarks?: Record<string, { jobStatus?: string | null; guardrails?: unknown[] }>;
+}
+
+export interface TabMatchContext {
+  // Cohort and tag sets hold alias keys (see shared/modelAliases.ts)
+  cohortMembers: (slug: string) => { members: Set<string>; baseModels: Set<string> } | undefined;
+  taggedModels: (tag: string) => Set<string> | undefined;
+  isBlacklisted: (modelName: string) => boolean;
+  aliasKey: (modelName: string) => string;
+}
+
+const regexCache = new Map<string, RegExp>();
+
+function cachedRegex(pattern: string): RegExp {
+  let regex = regexCache.get(pattern);
+  if (!regex) {
+    regex = new RegExp(pattern);
+    regexCache.set(pattern, regex);
+  }
+  return regex;
+}
+
+function isBaseModelRow(row: TabRow): boolean {
+  return row.baseModelName === "None";
+}
+
+export function matchesTab(predicate: TabPredicate, row: TabRow, ctx: TabMatchContext): boolean {
+  if ("all" in predicate) return predicate.all.every(p => matchesTab(p, row, ctx));
+  if ("any" in predicate) return predicate.any.some(p => matchesTab(p, row, ctx));
+  if ("not" in predicate) return !matchesTab(predicate.not, row, ctx);
+
+  // Match against the canonical name so duplicate-model rows pass through and get
+  // merged into the canonical row by the table's duplicate-merge step
+  const name = row.canonicalModelName ?? row.modelName;
+  if ("namePrefix" in predicate) return name.startsWith(predicate.namePrefix) || row.modelName.startsWith(predicate.namePrefix);
+  if ("nameRegex" in predicate) {
+    const regex = cachedRegex(predicate.nameRegex);
+    return regex.test(name) || regex.test(row.modelName);
+  }
+  const key = ctx.aliasKey;
+  if ("baseModel" in predicate) {
+    const target = key(predicate.baseModel);
+    return key(name) === target ||
+      key(row.baseModelName) === target ||
+      (!!row.canonicalBaseModelName && key(row.canonicalBaseModelName) === target);
+  }
+  if ("isBaseModel" in predicate) return isBaseModelRow(row) === predicate.isBaseModel;
+  if ("trainingType" in predicate) return row.trainingType === predicate.trainingType;
+  if ("modelSizeB" in predicate) {
+    const { min, max } = predicate.modelSizeB;
+    if (row.modelSizeB === null || row.modelSizeB === undefined) return false;
+    return (min === undefined || row.modelSizeB >= min) && (max === undefined || row.modelSizeB <= max);
+  }
+  if ("tag" in predicate) {
+    const tagged = ctx.taggedModels(predicate.tag);
+    return !!tagged && (tagged.has(key(name)) || tagged.has(key(row.modelName)));
+  }
+  if ("cohort" in predicate) {
+    const cohort = ctx.cohortMembers(predicate.cohort);
+    if (!cohort) return false;
+    return cohort.members.has(key(name)) ||
+      cohort.baseModels.has(key(name)) ||
+      cohort.baseModels.has(key(row.baseModelName)) ||
+      (!!row.canonicalBaseModelName && cohort.baseModels.has(key(row.canonicalBaseModelName)));
+  }
+  if ("blacklisted" in predicate) return ctx.isBlacklisted(row.modelName) === predicate.blacklisted;
+  if ("guardrailFired" in predicate) {
+    const fired = Object.values(row.benchmarks ?? {}).some(b => {
+      const isFinished = b.jobStatus === "Finished" || b.jobStatus === null;
+      return isFinished && (b.guardrails?.length ?? 0) > 0;
+    });
+    return fired === predicate.guardrailFired;
+  }
+  return false;
+}
+
+/** The cohort a tab shows, when its predicate is exactly `{ cohort }` (it then gets the cohort's section ordering). */
+export function tabCohortSlug(tab: TabDefinition): string | undefined {
+  return "cohort" in tab.predicate ? tab.predicate.cohort : undefined;
+}